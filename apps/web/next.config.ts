@@ -1,8 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  transpilePackages: ["@minute/db"],
-  serverExternalPackages: ["@libsql/client", "libsql"],
+  transpilePackages: ["@minute/db", "@minute/embeddings"],
+  // The local embedding model loads native ONNX bindings
+  serverExternalPackages: ["@libsql/client", "libsql", "@huggingface/transformers"],
 };
 
 export default nextConfig;
@@ -1,12 +1,13 @@
 "use server";
 
 import { db } from "@/lib/db";
-import { attachments } from "@minute/db";
+import { attachments, tickets } from "@minute/db";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
 import { eq } from "drizzle-orm";
 import { revalidatePath } from "next/cache";
 import { UTApi } from "uploadthing/server";
+import { logProjectActivity } from "./project-activity";
 
 const utapi = new UTApi();
 
@@ -43,6 +44,19 @@ export async function createAttachment(data: CreateAttachmentInput) {
     })
     .returning();
 
+  const [ticket] = await db
+    .select({ projectId: tickets.projectId, title: tickets.title })
+    .from(tickets)
+    .where(eq(tickets.id, data.ticketId))
+    .limit(1);
+
+  if (ticket && attachment) {
+    await logProjectActivity(ticket.projectId, "uploaded_attachment", {
+      ticketId: data.ticketId,
+      details: { ticketTitle: ticket.title, fileName: data.fileName },
+    });
+  }
+
   revalidatePath(`/projects`);
   return attachment;
 }
@@ -3,7 +3,11 @@
 import { headers } from 'next/headers';
 import { revalidatePath } from 'next/cache';
 import { auth } from '@/lib/auth';
-import { triggerCommentEvent, events } from '@/lib/pusher';
+import { triggerCommentEvent, events } from '@/lib/realtime/server';
+import { logProjectActivity } from './project-activity';
+import { syncMentions } from '@/lib/mentions';
+import { notifyUsers } from '@/lib/notifications';
+import { addTicketWatchers, getTicketWatcherIds } from '@/lib/watchers';
 import {
   db,
   comments,
@@ -12,6 +16,8 @@ import {
   users,
   eq,
   and,
+  indexTicketsForSearch,
+  sanitizeRichText,
 } from '@minute/db';
 import { z } from 'zod';
 
@@ -77,13 +83,13 @@ async function verifyProjectPermission(
 // Validation schemas
 const createCommentSchema = z.object({
   ticketId: z.string(),
-  content: z.string().min(1, 'Content is required').max(5000),
+  content: z.string().min(1, 'Content is required').max(10000), // HTML from the editor
   parentId: z.string().optional(),
 });
 
 const updateCommentSchema = z.object({
   id: z.string(),
-  content: z.string().min(1, 'Content is required').max(5000),
+  content: z.string().min(1, 'Content is required').max(10000),
 });
 
 // Export types for use in hooks
@@ -97,6 +103,13 @@ export async function createComment(
   try {
     const user = await getCurrentUser();
     const validated = createCommentSchema.parse(input);
+    const content = sanitizeRichText(validated.content);
+    if (!content.trim()) {
+      return {
+        success: false,
+        error: 'Content is required',
+      };
+    }
 
     // Get ticket to find project
     const [ticket] = await db
@@ -119,6 +132,7 @@ export async function createComment(
     }
 
     // If parentId is provided, verify it exists and belongs to the same ticket
+    let parentAuthorId: string | null = null;
     if (validated.parentId) {
       const [parent] = await db
         .select()
@@ -137,6 +151,7 @@ export async function createComment(
           error: 'Parent comment not found',
         };
       }
+      parentAuthorId = parent.userId;
     }
 
     // Create comment
@@ -147,7 +162,8 @@ export async function createComment(
       .values({
         ticketId: validated.ticketId,
         userId: user.id,
-        content: validated.content,
+        content,
+        format: 'html',
         parentId: validated.parentId || null,
       })
       .returning();
@@ -168,13 +184,60 @@ export async function createComment(
       };
     }
 
+    // Comments are part of the ticket's keyword search text
+    await indexTicketsForSearch([validated.ticketId]).catch((err) =>
+      console.error('Search indexing failed:', err)
+    );
+
+    await logProjectActivity(ticket.projectId, 'created_comment', {
+      ticketId: validated.ticketId,
+      details: { ticketTitle: ticket.title, commentId: comment.id },
+    });
+
     // Revalidate ticket pages
     if (accessCheck.success && accessCheck.project) {
       revalidatePath(`/projects/${accessCheck.project.slug}`);
       revalidatePath(`/projects/${accessCheck.project.slug}/board`);
       revalidatePath(`/projects/${accessCheck.project.slug}/list`);
+
+      // Notify users @mentioned in the comment
+      const mentionedIds = await syncMentions({
+        ticket,
+        project: accessCheck.project,
+        commentId: comment.id,
+        author: user,
+        content: comment.content,
+      });
+
+      // A mention already notified the parent comment's author
+      if (parentAuthorId && !mentionedIds.includes(parentAuthorId)) {
+        await notifyUsers({
+          type: 'comment_reply',
+          recipientIds: [parentAuthorId],
+          actor: user,
+          ticket,
+          project: accessCheck.project,
+          commentId: comment.id,
+        });
+      }
+
+      // Other watchers hear about the comment once
+      const watcherIds = await getTicketWatcherIds(ticket.id);
+      await notifyUsers({
+        type: 'commented',
+        recipientIds: watcherIds.filter(
+          (id) => id !== parentAuthorId && !mentionedIds.includes(id)
+        ),
+        actor: user,
+        ticket,
+        project: accessCheck.project,
+        commentId: comment.id,
+      });
     }
 
+    // Commenters follow the ticket
+    await addTicketWatchers(ticket.id, [user.id]);
+
     // Trigger real-time event
     await triggerCommentEvent(validated.ticketId, events.COMMENT_CREATED, {
       commentId: comment.id,
@@ -235,6 +298,7 @@ export async function getComments(ticketId: string) {
         ticketId: comments.ticketId,
         userId: comments.userId,
         content: comments.content,
+        format: comments.format,
         parentId: comments.parentId,
         createdAt: comments.createdAt,
         updatedAt: comments.updatedAt,
@@ -268,6 +332,13 @@ export async function updateComment(
   try {
     const user = await getCurrentUser();
     const validated = updateCommentSchema.parse(input);
+    const content = sanitizeRichText(validated.content);
+    if (!content.trim()) {
+      return {
+        success: false,
+        error: 'Content is required',
+      };
+    }
 
     // Get existing comment
     const [existing] = await db
@@ -315,7 +386,8 @@ export async function updateComment(
     const updatedResult = await db
       .update(comments)
       .set({
-        content: validated.content,
+        content,
+        format: 'html',
         updatedAt: new Date(),
       })
       .where(eq(comments.id, validated.id))
@@ -335,8 +407,21 @@ export async function updateComment(
       revalidatePath(`/projects/${accessCheck.project.slug}`);
       revalidatePath(`/projects/${accessCheck.project.slug}/board`);
       revalidatePath(`/projects/${accessCheck.project.slug}/list`);
+
+      // Notify users newly @mentioned in the edited comment
+      await syncMentions({
+        ticket,
+        project: accessCheck.project,
+        commentId: validated.id,
+        author: user,
+        content,
+      });
     }
 
+    await indexTicketsForSearch([existing.ticketId]).catch((err) =>
+      console.error('Search indexing failed:', err)
+    );
+
     // Trigger real-time event
     await triggerCommentEvent(existing.ticketId, events.COMMENT_UPDATED, {
       commentId: validated.id,
@@ -411,6 +496,10 @@ export async function deleteComment(commentId: string) {
     // Delete comment (cascade will handle replies)
     await db.delete(comments).where(eq(comments.id, commentId));
 
+    await indexTicketsForSearch([existing.ticketId]).catch((err) =>
+      console.error('Search indexing failed:', err)
+    );
+
     // Revalidate ticket pages
     if (accessCheck.success && accessCheck.project) {
       revalidatePath(`/projects/${accessCheck.project.slug}`);
@@ -0,0 +1,328 @@
+'use server';
+
+import { headers } from 'next/headers';
+import { revalidatePath } from 'next/cache';
+import { auth } from '@/lib/auth';
+import { triggerEvent, channels, events } from '@/lib/realtime/server';
+import {
+  db,
+  labels,
+  ticketLabels,
+  ticketTemplates,
+  projects,
+  eq,
+  asc,
+  count,
+} from '@minute/db';
+import { z } from 'zod';
+
+// Get current user session
+async function getCurrentUser() {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    throw new Error('Unauthorized');
+  }
+
+  return session.user;
+}
+
+// Verify project permission (reuse from tickets.ts pattern)
+async function verifyProjectPermission(
+  projectId: string,
+  permission: 'create' | 'read' | 'update' | 'delete' | 'assign' | 'comment'
+) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  const [project] = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  if (!project) {
+    return { success: false, error: 'Project not found' };
+  }
+
+  // For backward compatibility: if no organizationId, check ownership
+  if (!project.organizationId) {
+    if (project.ownerId !== session.user.id) {
+      return { success: false, error: 'Unauthorized' };
+    }
+    return { success: true, project };
+  }
+
+  // Check organization permission - must pass organizationId explicitly
+  const hasPermission = await auth.api.hasPermission({
+    headers: await headers(),
+    body: {
+      organizationId: project.organizationId,
+      permissions: {
+        project: [permission],
+      },
+    },
+  });
+
+  if (!hasPermission) {
+    return { success: false, error: 'Insufficient permissions' };
+  }
+
+  return { success: true, project };
+}
+
+
+// Revalidate project pages and notify connected clients
+async function notifyLabelsChanged(
+  project: { id: string; slug: string } | undefined,
+  userId: string
+) {
+  if (!project) return;
+
+  revalidatePath(`/projects/${project.slug}`);
+  revalidatePath(`/projects/${project.slug}/board`);
+  revalidatePath(`/projects/${project.slug}/list`);
+
+  await triggerEvent(channels.project(project.id), events.LABELS_UPDATED, {
+    projectId: project.id,
+    userId,
+  });
+}
+
+// Load a label and check access to its project
+async function getLabelWithAccess(labelId: string) {
+  const [label] = await db
+    .select()
+    .from(labels)
+    .where(eq(labels.id, labelId))
+    .limit(1);
+
+  if (!label) {
+    return { success: false as const, error: 'Label not found' };
+  }
+
+  const accessCheck = await verifyProjectPermission(label.projectId, 'update');
+  if (!accessCheck.success) {
+    return { success: false as const, error: accessCheck.error };
+  }
+
+  return { success: true as const, label, project: accessCheck.project };
+}
+
+// Label names are unique per project, ignoring case
+async function findLabelByName(projectId: string, name: string) {
+  const projectLabels = await db
+    .select()
+    .from(labels)
+    .where(eq(labels.projectId, projectId));
+
+  return projectLabels.find(
+    (label) => label.name.toLowerCase() === name.toLowerCase()
+  );
+}
+
+// Validation schemas
+const colorSchema = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #22c55e');
+
+const createLabelSchema = z.object({
+  projectId: z.string(),
+  name: z.string().trim().min(1, 'Name is required').max(50),
+  color: colorSchema.optional(),
+});
+
+const updateLabelSchema = z.object({
+  id: z.string(),
+  name: z.string().trim().min(1, 'Name is required').max(50).optional(),
+  color: colorSchema.optional(),
+});
+
+// Export types for use in hooks
+export type CreateLabelInput = z.infer<typeof createLabelSchema>;
+export type UpdateLabelInput = z.infer<typeof updateLabelSchema>;
+
+// Server Actions
+export async function getLabels(projectId: string) {
+  try {
+    await getCurrentUser(); // Ensure user is authenticated
+
+    // Verify project permission (read access)
+    const accessCheck = await verifyProjectPermission(projectId, 'read');
+    if (!accessCheck.success) {
+      return { ...accessCheck, data: [] };
+    }
+
+    const projectLabels = await db
+      .select({
+        id: labels.id,
+        projectId: labels.projectId,
+        name: labels.name,
+        color: labels.color,
+        createdAt: labels.createdAt,
+        updatedAt: labels.updatedAt,
+        ticketCount: count(ticketLabels.ticketId),
+      })
+      .from(labels)
+      .leftJoin(ticketLabels, eq(ticketLabels.labelId, labels.id))
+      .where(eq(labels.projectId, projectId))
+      .groupBy(labels.id)
+      .orderBy(asc(labels.name));
+
+    return { success: true, data: projectLabels };
+  } catch (error) {
+    console.error('Error fetching labels:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch labels',
+      data: [],
+    };
+  }
+}
+
+export async function createLabel(input: CreateLabelInput) {
+  try {
+    const user = await getCurrentUser();
+    const validated = createLabelSchema.parse(input);
+
+    // Verify project permission (update access)
+    const accessCheck = await verifyProjectPermission(validated.projectId, 'update');
+    if (!accessCheck.success) {
+      return accessCheck;
+    }
+
+    if (await findLabelByName(validated.projectId, validated.name)) {
+      return {
+        success: false,
+        error: `A label named "${validated.name}" already exists`,
+      };
+    }
+
+    const [created] = await db
+      .insert(labels)
+      .values({
+        projectId: validated.projectId,
+        name: validated.name,
+        color: validated.color || '#6b7280',
+      })
+      .returning();
+
+    await notifyLabelsChanged(accessCheck.project, user.id);
+
+    return { success: true, data: created };
+  } catch (error) {
+    console.error('Error creating label:', error);
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: 'Validation error',
+        details: error.issues,
+      };
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create label',
+    };
+  }
+}
+
+export async function updateLabel(input: UpdateLabelInput) {
+  try {
+    const user = await getCurrentUser();
+    const validated = updateLabelSchema.parse(input);
+
+    const access = await getLabelWithAccess(validated.id);
+    if (!access.success) {
+      return access;
+    }
+
+    const updateData: {
+      name?: string;
+      color?: string;
+      updatedAt: Date;
+    } = {
+      updatedAt: new Date(),
+    };
+
+    if (validated.name !== undefined) {
+      const duplicate = await findLabelByName(access.label.projectId, validated.name);
+      if (duplicate && duplicate.id !== access.label.id) {
+        return {
+          success: false,
+          error: `A label named "${validated.name}" already exists`,
+        };
+      }
+      updateData.name = validated.name;
+    }
+
+    if (validated.color !== undefined) {
+      updateData.color = validated.color;
+    }
+
+    const [updated] = await db
+      .update(labels)
+      .set(updateData)
+      .where(eq(labels.id, validated.id))
+      .returning();
+
+    await notifyLabelsChanged(access.project, user.id);
+
+    return { success: true, data: updated };
+  } catch (error) {
+    console.error('Error updating label:', error);
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: 'Validation error',
+        details: error.issues,
+      };
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update label',
+    };
+  }
+}
+
+export async function deleteLabel(labelId: string) {
+  try {
+    const user = await getCurrentUser();
+
+    const access = await getLabelWithAccess(labelId);
+    if (!access.success) {
+      return access;
+    }
+
+    // ticket_labels rows are removed by the cascade
+    await db.delete(labels).where(eq(labels.id, labelId));
+
+    // Templates keep label IDs in a JSON column, so drop the deleted one by hand
+    const templates = await db
+      .select({ id: ticketTemplates.id, defaultLabelIds: ticketTemplates.defaultLabelIds })
+      .from(ticketTemplates)
+      .where(eq(ticketTemplates.projectId, access.label.projectId));
+
+    for (const template of templates) {
+      if (!template.defaultLabelIds?.includes(labelId)) continue;
+      const remaining = template.defaultLabelIds.filter((id) => id !== labelId);
+      await db
+        .update(ticketTemplates)
+        .set({ defaultLabelIds: remaining.length > 0 ? remaining : null, updatedAt: new Date() })
+        .where(eq(ticketTemplates.id, template.id));
+    }
+
+    await notifyLabelsChanged(access.project, user.id);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting label:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete label',
+    };
+  }
+}
@@ -0,0 +1,219 @@
+'use server';
+
+import { headers } from 'next/headers';
+import { auth } from '@/lib/auth';
+import { getEmailFrequency } from '@/lib/notification-emails';
+import {
+  db,
+  notifications,
+  notificationPreferences,
+  emailFrequency,
+  projects,
+  tickets,
+  users,
+  eq,
+  and,
+  desc,
+  isNull,
+  count,
+  formatTicketKey,
+  formatNotificationMessage,
+  type NotificationType,
+} from '@minute/db';
+import { z } from 'zod';
+
+// Number of most recent notifications shown in the inbox
+const INBOX_LIMIT = 50;
+
+const updatePreferencesSchema = z.object({
+  emailFrequency: z.enum(emailFrequency),
+});
+
+export type UpdateNotificationPreferencesInput = z.infer<typeof updatePreferencesSchema>;
+
+// Get current user session
+async function getCurrentUser() {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    throw new Error('Unauthorized');
+  }
+
+  return session.user;
+}
+
+export type InboxNotification = {
+  id: string;
+  type: NotificationType;
+  message: string;
+  ticketId: string;
+  ticketKey: string | null;
+  ticketTitle: string;
+  projectName: string;
+  url: string;
+  actor: { name: string; image: string | null } | null;
+  readAt: Date | null;
+  createdAt: Date;
+};
+
+// Get the current user's most recent notifications and their unread count
+export async function getNotifications() {
+  try {
+    const user = await getCurrentUser();
+
+    const rows = await db
+      .select({
+        id: notifications.id,
+        type: notifications.type,
+        data: notifications.data,
+        readAt: notifications.readAt,
+        createdAt: notifications.createdAt,
+        ticketId: tickets.id,
+        ticketNumber: tickets.number,
+        ticketTitle: tickets.title,
+        projectName: projects.name,
+        projectSlug: projects.slug,
+        projectKey: projects.key,
+        actorName: users.name,
+        actorImage: users.image,
+      })
+      .from(notifications)
+      .innerJoin(tickets, eq(notifications.ticketId, tickets.id))
+      .innerJoin(projects, eq(notifications.projectId, projects.id))
+      .leftJoin(users, eq(notifications.actorId, users.id))
+      .where(eq(notifications.userId, user.id))
+      .orderBy(desc(notifications.createdAt))
+      .limit(INBOX_LIMIT);
+
+    const [unread] = await db
+      .select({ count: count() })
+      .from(notifications)
+      .where(and(eq(notifications.userId, user.id), isNull(notifications.readAt)));
+
+    const items: InboxNotification[] = rows.map((row) => {
+      const ticketKey = formatTicketKey(row.projectKey, row.ticketNumber);
+      return {
+        id: row.id,
+        type: row.type,
+        message: formatNotificationMessage({
+          type: row.type,
+          actorName: row.actorName,
+          ticketLabel: ticketKey ?? row.ticketTitle,
+          data: row.data,
+        }),
+        ticketId: row.ticketId,
+        ticketKey,
+        ticketTitle: row.ticketTitle,
+        projectName: row.projectName,
+        url: `/projects/${row.projectSlug}/tickets/${row.ticketId}`,
+        actor: row.actorName !== null ? { name: row.actorName, image: row.actorImage } : null,
+        readAt: row.readAt,
+        createdAt: row.createdAt,
+      };
+    });
+
+    return {
+      success: true,
+      data: { notifications: items, unreadCount: unread?.count ?? 0 },
+    };
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch notifications',
+    };
+  }
+}
+
+export async function markNotificationRead(notificationId: string) {
+  try {
+    const user = await getCurrentUser();
+
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(
+        and(
+          eq(notifications.id, notificationId),
+          eq(notifications.userId, user.id),
+          isNull(notifications.readAt)
+        )
+      );
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error marking notification read:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to mark notification read',
+    };
+  }
+}
+
+export async function markAllNotificationsRead() {
+  try {
+    const user = await getCurrentUser();
+
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, user.id), isNull(notifications.readAt)));
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error marking notifications read:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to mark notifications read',
+    };
+  }
+}
+
+export async function getNotificationPreferences() {
+  try {
+    const user = await getCurrentUser();
+
+    return {
+      success: true,
+      data: { emailFrequency: await getEmailFrequency(user.id) },
+    };
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch notification preferences',
+    };
+  }
+}
+
+export async function updateNotificationPreferences(input: UpdateNotificationPreferencesInput) {
+  try {
+    const user = await getCurrentUser();
+    const validated = updatePreferencesSchema.parse(input);
+
+    await db
+      .insert(notificationPreferences)
+      .values({ userId: user.id, emailFrequency: validated.emailFrequency, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: { emailFrequency: validated.emailFrequency, updatedAt: new Date() },
+      });
+
+    return { success: true, data: { emailFrequency: validated.emailFrequency } };
+  } catch (error) {
+    console.error('Error updating notification preferences:', error);
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: 'Validation error',
+        details: error.issues,
+      };
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update notification preferences',
+    };
+  }
+}
@@ -0,0 +1,82 @@
+'use server';
+
+import { headers } from 'next/headers';
+import { auth } from '@/lib/auth';
+import { triggerEvent, events, type PresenceEvent } from '@/lib/realtime/server';
+import { isPresenceChannel, verifyChannelAccess } from '@/lib/realtime/channel-access';
+import { z } from 'zod';
+
+const presenceActions = ['joined', 'heartbeat', 'left', 'typing'] as const;
+
+const presenceEvents: Record<(typeof presenceActions)[number], string> = {
+  joined: events.USER_JOINED,
+  heartbeat: events.USER_HEARTBEAT,
+  left: events.USER_LEFT,
+  typing: events.USER_TYPING,
+};
+
+const sendPresenceSchema = z.object({
+  channel: z.string().min(1),
+  action: z.enum(presenceActions),
+});
+
+export type SendPresenceInput = z.infer<typeof sendPresenceSchema>;
+
+// Get current user session
+async function getCurrentUser() {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    throw new Error('Unauthorized');
+  }
+
+  return session.user;
+}
+
+// Broadcast that the current user joined, is still viewing, left or is
+// typing on a presence channel. Events go through the server so they carry
+// the session's identity and work on every realtime transport.
+export async function sendPresence(input: SendPresenceInput) {
+  try {
+    const user = await getCurrentUser();
+    const validated = sendPresenceSchema.parse(input);
+
+    if (!isPresenceChannel(validated.channel)) {
+      return { success: false, error: 'Not a presence channel' };
+    }
+
+    const accessCheck = await verifyChannelAccess(validated.channel);
+    if (!accessCheck.success) {
+      return { success: false, error: accessCheck.error };
+    }
+
+    const ticketId = validated.channel.startsWith('presence-ticket-')
+      ? validated.channel.slice('presence-ticket-'.length)
+      : undefined;
+
+    const payload: PresenceEvent = {
+      userId: user.id,
+      userName: user.name,
+      userImage: user.image ?? undefined,
+      ticketId,
+    };
+    await triggerEvent(validated.channel, presenceEvents[validated.action], payload);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error sending presence:', error);
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: 'Validation error',
+        details: error.issues,
+      };
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send presence',
+    };
+  }
+}
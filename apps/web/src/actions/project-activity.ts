@@ -0,0 +1,195 @@
+'use server';
+
+import { headers } from 'next/headers';
+import { auth } from '@/lib/auth';
+import {
+  db,
+  activityLog,
+  projects,
+  users,
+  eq,
+  and,
+  desc,
+  inArray,
+} from '@minute/db';
+
+// Get current user session
+async function getCurrentUser() {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    throw new Error('Unauthorized');
+  }
+
+  return session.user;
+}
+
+// Verify project permission (reuse from tickets.ts pattern)
+async function verifyProjectPermission(
+  projectId: string,
+  permission: 'create' | 'read' | 'update' | 'delete' | 'assign' | 'comment'
+) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  const [project] = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  if (!project) {
+    return { success: false, error: 'Project not found' };
+  }
+
+  // For backward compatibility: if no organizationId, check ownership
+  if (!project.organizationId) {
+    if (project.ownerId !== session.user.id) {
+      return { success: false, error: 'Unauthorized' };
+    }
+    return { success: true, project };
+  }
+
+  // Check organization permission - must pass organizationId explicitly
+  const hasPermission = await auth.api.hasPermission({
+    headers: await headers(),
+    body: {
+      organizationId: project.organizationId,
+      permissions: {
+        project: [permission],
+      },
+    },
+  });
+
+  if (!hasPermission) {
+    return { success: false, error: 'Insufficient permissions' };
+  }
+
+  return { success: true, project };
+}
+
+// Project activity action types
+export type ProjectActivityAction =
+  | 'created_ticket'
+  | 'moved_ticket'
+  | 'deleted_ticket'
+  | 'created_comment'
+  | 'uploaded_attachment';
+
+// Create activity log entry
+export async function logProjectActivity(
+  projectId: string,
+  action: ProjectActivityAction,
+  options: { ticketId?: string | null; details?: Record<string, unknown> } = {}
+) {
+  try {
+    const user = await getCurrentUser();
+
+    await db.insert(activityLog).values({
+      projectId,
+      ticketId: options.ticketId ?? null,
+      userId: user.id,
+      action,
+      details: options.details || {},
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error logging project activity:', error);
+    // Don't throw - activity logging should not break the main flow
+    return { success: false };
+  }
+}
+
+export type ProjectActivityFilters = {
+  userId?: string;
+  actions?: ProjectActivityAction[];
+  limit?: number;
+  offset?: number;
+};
+
+// Get project activity, newest first, one page at a time
+export async function getProjectActivity(
+  projectId: string,
+  filters: ProjectActivityFilters = {}
+) {
+  const limit = filters.limit || 50;
+  const offset = filters.offset || 0;
+
+  try {
+    await getCurrentUser(); // Verify user is authenticated
+
+    // Verify project permission (read access)
+    const accessCheck = await verifyProjectPermission(projectId, 'read');
+    if (!accessCheck.success) {
+      return {
+        ...accessCheck,
+        data: [],
+        nextOffset: null,
+      };
+    }
+
+    const conditions = [eq(activityLog.projectId, projectId)];
+    if (filters.userId) {
+      conditions.push(eq(activityLog.userId, filters.userId));
+    }
+    if (filters.actions && filters.actions.length > 0) {
+      conditions.push(inArray(activityLog.action, filters.actions));
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const activities = await db
+      .select({
+        id: activityLog.id,
+        projectId: activityLog.projectId,
+        ticketId: activityLog.ticketId,
+        userId: activityLog.userId,
+        action: activityLog.action,
+        details: activityLog.details,
+        createdAt: activityLog.createdAt,
+        userName: users.name,
+        userEmail: users.email,
+        userImage: users.image,
+      })
+      .from(activityLog)
+      .innerJoin(users, eq(activityLog.userId, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(activityLog.createdAt))
+      .limit(limit + 1)
+      .offset(offset);
+
+    const hasMore = activities.length > limit;
+
+    return {
+      success: true,
+      data: activities.slice(0, limit).map((activity) => ({
+        id: activity.id,
+        projectId: activity.projectId,
+        ticketId: activity.ticketId,
+        userId: activity.userId,
+        action: activity.action as ProjectActivityAction,
+        details: activity.details,
+        createdAt: activity.createdAt,
+        user: {
+          name: activity.userName,
+          email: activity.userEmail,
+          image: activity.userImage,
+        },
+      })),
+      nextOffset: hasMore ? offset + limit : null,
+    };
+  } catch (error) {
+    console.error('Error fetching project activity:', error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : 'Failed to fetch project activity',
+      data: [],
+      nextOffset: null,
+    };
+  }
+}
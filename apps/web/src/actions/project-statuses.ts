@@ -0,0 +1,508 @@
+'use server';
+
+import { headers } from 'next/headers';
+import { revalidatePath } from 'next/cache';
+import { auth } from '@/lib/auth';
+import { triggerEvent, channels, events } from '@/lib/realtime/server';
+import { generateStatusKey } from '@/lib/project-statuses';
+import {
+  db,
+  projectStatuses,
+  projects,
+  tickets,
+  eq,
+  and,
+  max,
+  count,
+  sql,
+  statusCategory,
+  ticketTemplates,
+  ensureProjectStatuses,
+  recordTicketHistory,
+} from '@minute/db';
+import { z } from 'zod';
+
+// Gap-based ordering constant (matches tickets.ts)
+const ORDER_GAP = 1000;
+
+// Get current user session
+async function getCurrentUser() {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    throw new Error('Unauthorized');
+  }
+
+  return session.user;
+}
+
+// Verify project permission (reuse from tickets.ts pattern)
+async function verifyProjectPermission(
+  projectId: string,
+  permission: 'create' | 'read' | 'update' | 'delete' | 'assign' | 'comment'
+) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  const [project] = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  if (!project) {
+    return { success: false, error: 'Project not found' };
+  }
+
+  // For backward compatibility: if no organizationId, check ownership
+  if (!project.organizationId) {
+    if (project.ownerId !== session.user.id) {
+      return { success: false, error: 'Unauthorized' };
+    }
+    return { success: true, project };
+  }
+
+  // Check organization permission - must pass organizationId explicitly
+  const hasPermission = await auth.api.hasPermission({
+    headers: await headers(),
+    body: {
+      organizationId: project.organizationId,
+      permissions: {
+        project: [permission],
+      },
+    },
+  });
+
+  if (!hasPermission) {
+    return { success: false, error: 'Insufficient permissions' };
+  }
+
+  return { success: true, project };
+}
+
+// Revalidate project pages and notify connected boards
+async function notifyStatusesChanged(
+  project: { id: string; slug: string } | undefined,
+  userId: string
+) {
+  if (!project) return;
+
+  revalidatePath(`/projects/${project.slug}`);
+  revalidatePath(`/projects/${project.slug}/board`);
+  revalidatePath(`/projects/${project.slug}/list`);
+
+  await triggerEvent(channels.project(project.id), events.STATUSES_UPDATED, {
+    projectId: project.id,
+    userId,
+  });
+}
+
+// Validation schemas
+const colorSchema = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #22c55e');
+
+const createStatusSchema = z.object({
+  projectId: z.string(),
+  name: z.string().trim().min(1, 'Name is required').max(50),
+  color: colorSchema.optional(),
+  category: z.enum(statusCategory).optional(),
+});
+
+const updateStatusSchema = z.object({
+  id: z.string(),
+  name: z.string().trim().min(1, 'Name is required').max(50).optional(),
+  color: colorSchema.optional(),
+  category: z.enum(statusCategory).optional(),
+  // Status keys tickets may move to; null removes the restriction
+  allowedTransitions: z.array(z.string()).nullable().optional(),
+});
+
+const reorderStatusesSchema = z.object({
+  projectId: z.string(),
+  statusIds: z.array(z.string()).min(1),
+});
+
+const deleteStatusSchema = z.object({
+  id: z.string(),
+  // Status key that tickets in the deleted status are moved to
+  moveTicketsTo: z.string().optional(),
+});
+
+// Export types for use in hooks
+export type CreateProjectStatusInput = z.infer<typeof createStatusSchema>;
+export type UpdateProjectStatusInput = z.infer<typeof updateStatusSchema>;
+export type ReorderProjectStatusesInput = z.infer<typeof reorderStatusesSchema>;
+export type DeleteProjectStatusInput = z.infer<typeof deleteStatusSchema>;
+
+// Server Actions
+export async function getProjectStatuses(projectId: string) {
+  try {
+    await getCurrentUser(); // Ensure user is authenticated
+
+    // Verify project permission (read access)
+    const accessCheck = await verifyProjectPermission(projectId, 'read');
+    if (!accessCheck.success) {
+      return { ...accessCheck, data: [] };
+    }
+
+    const statuses = await ensureProjectStatuses(projectId);
+
+    return { success: true, data: statuses };
+  } catch (error) {
+    console.error('Error fetching project statuses:', error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : 'Failed to fetch project statuses',
+      data: [],
+    };
+  }
+}
+
+export async function createProjectStatus(input: CreateProjectStatusInput) {
+  try {
+    const user = await getCurrentUser();
+    const validated = createStatusSchema.parse(input);
+
+    // Verify project permission (update access)
+    const accessCheck = await verifyProjectPermission(validated.projectId, 'update');
+    if (!accessCheck.success) {
+      return accessCheck;
+    }
+
+    const existing = await ensureProjectStatuses(validated.projectId);
+    const key = generateStatusKey(
+      validated.name,
+      existing.map((status) => status.key)
+    );
+    const lastOrder = existing[existing.length - 1]?.order ?? 0;
+
+    const [created] = await db
+      .insert(projectStatuses)
+      .values({
+        projectId: validated.projectId,
+        key,
+        name: validated.name,
+        color: validated.color || '#6b7280',
+        category: validated.category || 'unstarted',
+        order: lastOrder + 1,
+      })
+      .returning();
+
+    await notifyStatusesChanged(accessCheck.project, user.id);
+
+    return { success: true, data: created };
+  } catch (error) {
+    console.error('Error creating project status:', error);
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: 'Validation error',
+        details: error.issues,
+      };
+    }
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : 'Failed to create project status',
+    };
+  }
+}
+
+export async function updateProjectStatus(input: UpdateProjectStatusInput) {
+  try {
+    const user = await getCurrentUser();
+    const validated = updateStatusSchema.parse(input);
+
+    const [existing] = await db
+      .select()
+      .from(projectStatuses)
+      .where(eq(projectStatuses.id, validated.id))
+      .limit(1);
+
+    if (!existing) {
+      return {
+        success: false,
+        error: 'Status not found',
+      };
+    }
+
+    // Verify project permission (update access)
+    const accessCheck = await verifyProjectPermission(existing.projectId, 'update');
+    if (!accessCheck.success) {
+      return accessCheck;
+    }
+
+    // The key is never changed so tickets keep pointing at the status
+    const updateData: {
+      name?: string;
+      color?: string;
+      category?: (typeof statusCategory)[number];
+      allowedTransitions?: string[] | null;
+      updatedAt: Date;
+    } = {
+      updatedAt: new Date(),
+    };
+
+    if (validated.name !== undefined) {
+      updateData.name = validated.name;
+    }
+
+    if (validated.color !== undefined) {
+      updateData.color = validated.color;
+    }
+
+    if (validated.category !== undefined) {
+      updateData.category = validated.category;
+    }
+
+    if (validated.allowedTransitions !== undefined) {
+      if (validated.allowedTransitions === null) {
+        updateData.allowedTransitions = null;
+      } else {
+        const statuses = await ensureProjectStatuses(existing.projectId);
+        const unknown = validated.allowedTransitions.filter(
+          (key) => !statuses.some((status) => status.key === key)
+        );
+        if (unknown.length > 0) {
+          return {
+            success: false,
+            error: `Unknown status: ${unknown.join(', ')}`,
+          };
+        }
+        updateData.allowedTransitions = validated.allowedTransitions.filter(
+          (key) => key !== existing.key
+        );
+      }
+    }
+
+    const [updated] = await db
+      .update(projectStatuses)
+      .set(updateData)
+      .where(eq(projectStatuses.id, validated.id))
+      .returning();
+
+    await notifyStatusesChanged(accessCheck.project, user.id);
+
+    return { success: true, data: updated };
+  } catch (error) {
+    console.error('Error updating project status:', error);
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: 'Validation error',
+        details: error.issues,
+      };
+    }
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : 'Failed to update project status',
+    };
+  }
+}
+
+export async function reorderProjectStatuses(input: ReorderProjectStatusesInput) {
+  try {
+    const user = await getCurrentUser();
+    const validated = reorderStatusesSchema.parse(input);
+
+    // Verify project permission (update access)
+    const accessCheck = await verifyProjectPermission(validated.projectId, 'update');
+    if (!accessCheck.success) {
+      return accessCheck;
+    }
+
+    const existing = await ensureProjectStatuses(validated.projectId);
+    const existingIds = new Set(existing.map((status) => status.id));
+
+    if (
+      validated.statusIds.length !== existing.length ||
+      !validated.statusIds.every((id) => existingIds.has(id))
+    ) {
+      return {
+        success: false,
+        error: 'Status list is out of date, please refresh and try again',
+      };
+    }
+
+    for (let i = 0; i < validated.statusIds.length; i++) {
+      const statusId = validated.statusIds[i];
+      if (!statusId) continue;
+      await db
+        .update(projectStatuses)
+        .set({ order: i, updatedAt: new Date() })
+        .where(eq(projectStatuses.id, statusId));
+    }
+
+    await notifyStatusesChanged(accessCheck.project, user.id);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error reordering project statuses:', error);
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: 'Validation error',
+        details: error.issues,
+      };
+    }
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : 'Failed to reorder project statuses',
+    };
+  }
+}
+
+export async function deleteProjectStatus(input: DeleteProjectStatusInput) {
+  try {
+    const user = await getCurrentUser();
+    const validated = deleteStatusSchema.parse(input);
+
+    const [existing] = await db
+      .select()
+      .from(projectStatuses)
+      .where(eq(projectStatuses.id, validated.id))
+      .limit(1);
+
+    if (!existing) {
+      return {
+        success: false,
+        error: 'Status not found',
+      };
+    }
+
+    // Verify project permission (update access)
+    const accessCheck = await verifyProjectPermission(existing.projectId, 'update');
+    if (!accessCheck.success) {
+      return accessCheck;
+    }
+
+    const statuses = await ensureProjectStatuses(existing.projectId);
+    if (statuses.length <= 1) {
+      return {
+        success: false,
+        error: 'A project needs at least one status',
+      };
+    }
+
+    const [usage] = await db
+      .select({ count: count() })
+      .from(tickets)
+      .where(
+        and(
+          eq(tickets.projectId, existing.projectId),
+          eq(tickets.status, existing.key)
+        )
+      );
+
+    const target = statuses.find(
+      (status) => status.key === validated.moveTicketsTo && status.id !== existing.id
+    );
+
+    // Tickets in the deleted status are appended to the target column
+    if (usage && usage.count > 0) {
+      if (!target) {
+        return {
+          success: false,
+          error: 'Choose a status to move existing tickets to',
+        };
+      }
+
+      const [result] = await db
+        .select({ maxOrder: max(tickets.order) })
+        .from(tickets)
+        .where(
+          and(
+            eq(tickets.projectId, existing.projectId),
+            eq(tickets.status, target.key)
+          )
+        );
+
+      const movedTickets = await db
+        .select({ id: tickets.id })
+        .from(tickets)
+        .where(
+          and(
+            eq(tickets.projectId, existing.projectId),
+            eq(tickets.status, existing.key)
+          )
+        )
+        .orderBy(tickets.order);
+
+      let nextOrder = (result?.maxOrder ?? 0) + ORDER_GAP;
+      for (const ticket of movedTickets) {
+        const [moved] = await db
+          .update(tickets)
+          .set({
+            status: target.key,
+            order: nextOrder,
+            updatedAt: new Date(),
+            version: sql`${tickets.version} + 1`,
+          })
+          .where(eq(tickets.id, ticket.id))
+          .returning({ version: tickets.version });
+        nextOrder += ORDER_GAP;
+
+        await recordTicketHistory(
+          ticket.id,
+          user.id,
+          [{ field: 'status', oldValue: existing.key, newValue: target.key }],
+          moved?.version
+        );
+      }
+    }
+
+    // Templates defaulting to the deleted status use the target instead, or
+    // the project's first status when tickets weren't moved anywhere
+    await db
+      .update(ticketTemplates)
+      .set({ defaultStatus: target?.key ?? null, updatedAt: new Date() })
+      .where(
+        and(
+          eq(ticketTemplates.projectId, existing.projectId),
+          eq(ticketTemplates.defaultStatus, existing.key)
+        )
+      );
+
+    await db.delete(projectStatuses).where(eq(projectStatuses.id, validated.id));
+
+    // Drop the deleted status from other statuses' transition rules
+    for (const status of statuses) {
+      if (status.id === existing.id || !status.allowedTransitions?.includes(existing.key)) {
+        continue;
+      }
+      await db
+        .update(projectStatuses)
+        .set({
+          allowedTransitions: status.allowedTransitions.filter((key) => key !== existing.key),
+          updatedAt: new Date(),
+        })
+        .where(eq(projectStatuses.id, status.id));
+    }
+
+    await notifyStatusesChanged(accessCheck.project, user.id);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting project status:', error);
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: 'Validation error',
+        details: error.issues,
+      };
+    }
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : 'Failed to delete project status',
+    };
+  }
+}
@@ -4,7 +4,21 @@ import { headers } from 'next/headers';
 import { revalidatePath } from 'next/cache';
 import { auth } from '@/lib/auth';
 import { logTeamActivity } from './team-activity';
-import { db, projects, tickets, users, eq, desc, sql, inArray, and, organizationTable } from '@minute/db';
+import {
+  db,
+  projects,
+  tickets,
+  users,
+  eq,
+  desc,
+  sql,
+  inArray,
+  and,
+  isNotNull,
+  organizationTable,
+  generateProjectKey,
+  ensureProjectStatuses,
+} from '@minute/db';
 import { z } from 'zod';
 
 // Utility function to generate slug from name
@@ -137,6 +151,16 @@ export async function createProject(
     const baseSlug = generateSlug(validated.name);
     const slug = await ensureUniqueSlug(baseSlug);
 
+    // Prefix for ticket keys like MIN-123
+    const existingKeys = await db
+      .select({ key: projects.key })
+      .from(projects)
+      .where(isNotNull(projects.key));
+    const key = generateProjectKey(
+      validated.name,
+      existingKeys.map((p) => p.key).filter((k): k is string => !!k)
+    );
+
     // Create project with team (organizationId)
     const projectResult = await db
       .insert(projects)
@@ -144,6 +168,7 @@ export async function createProject(
         name: validated.name,
         description: validated.description || null,
         slug,
+        key,
         ownerId: user.id,
         organizationId: validated.teamId, // teamId is the organizationId
       })
@@ -158,6 +183,11 @@ export async function createProject(
 
     const project = projectResult[0];
 
+    // Seed the default workflow statuses
+    if (project) {
+      await ensureProjectStatuses(project.id);
+    }
+
     // Revalidate projects list page
     revalidatePath('/projects');
 
@@ -205,6 +235,7 @@ export async function getProjects(teamId?: string) {
         name: projects.name,
         description: projects.description,
         slug: projects.slug,
+        key: projects.key,
         ownerId: projects.ownerId,
         organizationId: projects.organizationId,
         teamName: organizationTable.name,
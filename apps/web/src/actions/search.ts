@@ -2,14 +2,31 @@
 
 import { headers } from "next/headers";
 import { auth } from "@/lib/auth";
-import { db, embeddings, tickets, projects, eq, and, inArray } from "@minute/db";
+import {
+  db,
+  embeddings,
+  tickets,
+  projects,
+  eq,
+  and,
+  ne,
+  inArray,
+  findNearestTicketEmbeddings,
+  toIndexedVector,
+  searchTicketText,
+  type HighlightedText,
+} from "@minute/db";
 import {
   generateEmbedding,
   hashContent,
   prepareTicketContent,
   findSimilar,
-  embeddingConfig,
-} from "@/lib/embeddings";
+  rankBySimilarity,
+  rankSearchResults,
+  defaultSearchRankOptions,
+  getEmbeddingConfig,
+  type SearchRankOptions,
+} from "@minute/embeddings";
 
 // Get current user session
 async function getCurrentUser() {
@@ -67,6 +84,82 @@ async function verifyProjectAccess(projectId: string) {
   return { success: true, project };
 }
 
+// Rows embedded by the current provider's model. Rows from other models
+// aren't comparable and are ignored until re-embedded.
+function currentModelFilter() {
+  const { model, dimensions } = getEmbeddingConfig();
+  return and(eq(embeddings.model, model), eq(embeddings.dimensions, dimensions));
+}
+
+// Embeddings of a project's tickets, for scanning when the vector index
+// can't answer
+async function getProjectTicketEmbeddings(projectId: string, excludeTicketId?: string) {
+  return db
+    .select({
+      entityId: embeddings.entityId,
+      content: embeddings.content,
+      embedding: embeddings.embedding,
+    })
+    .from(embeddings)
+    .innerJoin(tickets, eq(embeddings.entityId, tickets.id))
+    .where(
+      and(
+        eq(embeddings.entityType, "ticket"),
+        eq(tickets.projectId, projectId),
+        excludeTicketId ? ne(tickets.id, excludeTicketId) : undefined,
+        currentModelFilter()
+      )
+    );
+}
+
+// Rank offset for reciprocal rank fusion. Larger values flatten the
+// difference between the top few results of each ranking.
+const RRF_K = 60;
+
+// Candidates taken from each ranking before fusing
+const FUSION_CANDIDATES = 50;
+
+// Tickets semantically closest to the query, best first. Asks the vector
+// index first and scans the project's embeddings if it can't answer; either
+// way, tickets containing the query's words get a boost.
+async function findSemanticMatches(
+  projectId: string,
+  query: string,
+  options: SearchRankOptions
+) {
+  const queryEmbedding = await generateEmbedding(query);
+
+  const nearest = await findNearestTicketEmbeddings({
+    projectId,
+    vector: queryEmbedding,
+    model: getEmbeddingConfig().model,
+    limit: options.limit ?? defaultSearchRankOptions.limit,
+  });
+  if (nearest) {
+    return rankSearchResults(query, nearest, options);
+  }
+
+  const ticketEmbeddings = await getProjectTicketEmbeddings(projectId);
+  if (ticketEmbeddings.length === 0) {
+    return null;
+  }
+  return rankBySimilarity({ text: query, embedding: queryEmbedding }, ticketEmbeddings, options);
+}
+
+// Merge rankings by summing 1 / (RRF_K + rank) over the rankings each id
+// appears in, so ids near the top of either list come first
+function reciprocalRankFusion(rankings: string[][]) {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      scores.set(id, (scores.get(id) ?? 0) + 1 / (RRF_K + index + 1));
+    });
+  }
+  return [...scores.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([id, score]) => ({ id, score }));
+}
+
 /**
  * Generate and store embedding for a ticket
  */
@@ -103,7 +196,8 @@ export async function embedTicket(ticketId: string) {
         and(
           eq(embeddings.entityType, "ticket"),
           eq(embeddings.entityId, ticketId),
-          eq(embeddings.contentHash, contentHash)
+          eq(embeddings.contentHash, contentHash),
+          currentModelFilter()
         )
       )
       .limit(1);
@@ -134,8 +228,8 @@ export async function embedTicket(ticketId: string) {
         content,
         contentHash,
         embedding,
-        model: embeddingConfig.model,
-        dimensions: embeddingConfig.dimensions,
+        vector: toIndexedVector(embedding),
+        ...getEmbeddingConfig(),
       })
       .returning();
 
@@ -155,7 +249,7 @@ export async function embedTicket(ticketId: string) {
 export async function semanticSearchTickets(
   projectId: string,
   query: string,
-  options: { limit?: number; threshold?: number } = {}
+  options: SearchRankOptions = {}
 ) {
   try {
     await getCurrentUser();
@@ -166,42 +260,11 @@ export async function semanticSearchTickets(
       return { success: false, error: accessCheck.error, data: [] };
     }
 
-    // Get all ticket IDs in this project
-    const projectTickets = await db
-      .select({ id: tickets.id })
-      .from(tickets)
-      .where(eq(tickets.projectId, projectId));
-
-    const ticketIds = projectTickets.map((t) => t.id);
-
-    if (ticketIds.length === 0) {
-      return { success: true, data: [] };
-    }
-
-    // Get embeddings for these tickets
-    const ticketEmbeddings = await db
-      .select()
-      .from(embeddings)
-      .where(
-        and(
-          eq(embeddings.entityType, "ticket"),
-          inArray(embeddings.entityId, ticketIds)
-        )
-      );
-
-    if (ticketEmbeddings.length === 0) {
+    const similar = await findSemanticMatches(projectId, query, options);
+    if (!similar) {
       return { success: true, data: [], message: "No embeddings found. Run embedTicket first." };
     }
 
-    // Generate query embedding
-    const queryEmbedding = await generateEmbedding(query);
-
-    // Find similar tickets
-    const similar = findSimilar(queryEmbedding, ticketEmbeddings, {
-      limit: options.limit || 10,
-      threshold: options.threshold || 0.3,
-    });
-
     // Get full ticket data for results
     const resultTicketIds = similar.map((s) => s.entityId);
     const resultTickets = await db
@@ -215,6 +278,7 @@ export async function semanticSearchTickets(
       return {
         ticket,
         similarity: s.similarity,
+        score: s.score,
         embeddedContent: s.content,
       };
     });
@@ -230,6 +294,91 @@ export async function semanticSearchTickets(
   }
 }
 
+/**
+ * Hybrid search for tickets within a project: BM25 keyword matches over
+ * titles, descriptions and comments fused with semantic matches by
+ * reciprocal rank fusion. Keyword results carry highlighted snippets. When
+ * the query can't be embedded, keyword matches are returned alone.
+ */
+export async function searchTickets(
+  projectId: string,
+  query: string,
+  options: { limit?: number; threshold?: number } = {}
+) {
+  try {
+    await getCurrentUser();
+
+    // Verify project access
+    const accessCheck = await verifyProjectAccess(projectId);
+    if (!accessCheck.success) {
+      return { success: false, error: accessCheck.error, data: [] };
+    }
+
+    const limit = options.limit ?? defaultSearchRankOptions.limit;
+
+    const [keywordMatches, semanticMatches] = await Promise.all([
+      searchTicketText({ projectId, query, limit: FUSION_CANDIDATES }),
+      findSemanticMatches(projectId, query, {
+        limit: FUSION_CANDIDATES,
+        threshold: options.threshold,
+      }).catch((error) => {
+        console.error("Semantic ranking failed, using keyword matches only:", error);
+        return null;
+      }),
+    ]);
+
+    const fused = reciprocalRankFusion([
+      keywordMatches.map((match) => match.ticketId),
+      (semanticMatches ?? []).map((match) => match.entityId),
+    ]).slice(0, limit);
+
+    if (fused.length === 0) {
+      return { success: true, data: [] };
+    }
+
+    const resultTickets = await db
+      .select()
+      .from(tickets)
+      .where(inArray(tickets.id, fused.map((result) => result.id)));
+
+    const results: Array<{
+      ticket: (typeof resultTickets)[number];
+      score: number;
+      similarity: number | null;
+      title: HighlightedText | null;
+      snippet: HighlightedText | null;
+    }> = [];
+    for (const result of fused) {
+      const ticket = resultTickets.find((t) => t.id === result.id);
+      // Deleted since it was indexed
+      if (!ticket) continue;
+
+      const keyword = keywordMatches.find((match) => match.ticketId === result.id);
+      const semantic = semanticMatches?.find((match) => match.entityId === result.id);
+      results.push({
+        ticket,
+        score: result.score,
+        similarity: semantic?.similarity ?? null,
+        title: keyword?.title ?? null,
+        snippet: keyword?.snippet ?? null,
+      });
+    }
+
+    return {
+      success: true,
+      data: results,
+      semantic: semanticMatches !== null,
+    };
+  } catch (error) {
+    console.error("Error searching tickets:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Search failed",
+      data: [],
+    };
+  }
+}
+
 /**
  * Batch embed all tickets in a project
  */
@@ -318,7 +467,8 @@ export async function findSimilarTickets(
       .where(
         and(
           eq(embeddings.entityType, "ticket"),
-          eq(embeddings.entityId, ticketId)
+          eq(embeddings.entityId, ticketId),
+          currentModelFilter()
         )
       )
       .limit(1);
@@ -333,35 +483,26 @@ export async function findSimilarTickets(
       return findSimilarTickets(ticketId, options);
     }
 
-    // Get other ticket embeddings in the same project
-    const projectTickets = await db
-      .select({ id: tickets.id })
-      .from(tickets)
-      .where(eq(tickets.projectId, ticket.projectId));
-
-    const otherTicketIds = projectTickets
-      .map((t) => t.id)
-      .filter((id) => id !== ticketId);
-
-    if (otherTicketIds.length === 0) {
-      return { success: true, data: [] };
-    }
-
-    const otherEmbeddings = await db
-      .select()
-      .from(embeddings)
-      .where(
-        and(
-          eq(embeddings.entityType, "ticket"),
-          inArray(embeddings.entityId, otherTicketIds)
-        )
-      );
+    const limit = options.limit || 5;
+    const threshold = options.threshold || 0.5;
 
-    // Find similar
-    const similar = findSimilar(ticketEmb.embedding, otherEmbeddings, {
-      limit: options.limit || 5,
-      threshold: options.threshold || 0.5,
+    // Ask the vector index first, and scan the project's embeddings if it can't answer
+    const nearest = await findNearestTicketEmbeddings({
+      projectId: ticket.projectId,
+      vector: ticketEmb.embedding,
+      model: ticketEmb.model,
+      limit,
+      excludeTicketId: ticketId,
     });
+    const similar = nearest
+      ? nearest
+          .filter((s) => s.similarity >= threshold)
+          .sort((a, b) => b.similarity - a.similarity)
+          .slice(0, limit)
+      : findSimilar(ticketEmb.embedding, await getProjectTicketEmbeddings(ticket.projectId, ticketId), {
+          limit,
+          threshold,
+        });
 
     // Get full ticket data
     const resultTicketIds = similar.map((s) => s.entityId);
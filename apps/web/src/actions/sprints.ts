@@ -0,0 +1,581 @@
+'use server';
+
+import { headers } from 'next/headers';
+import { revalidatePath } from 'next/cache';
+import { auth } from '@/lib/auth';
+import { triggerEvent, channels, events } from '@/lib/realtime/server';
+import { computeBurndown } from '@/lib/burndown';
+import {
+  db,
+  sprints,
+  tickets,
+  ticketHistory,
+  projects,
+  eq,
+  and,
+  or,
+  inArray,
+  asc,
+  isNotNull,
+  sql,
+  recordTicketHistory,
+  ensureProjectStatuses,
+} from '@minute/db';
+import { z } from 'zod';
+
+// Get current user session
+async function getCurrentUser() {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    throw new Error('Unauthorized');
+  }
+
+  return session.user;
+}
+
+// Verify project permission (reuse from tickets.ts pattern)
+async function verifyProjectPermission(
+  projectId: string,
+  permission: 'create' | 'read' | 'update' | 'delete' | 'assign' | 'comment'
+) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  const [project] = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  if (!project) {
+    return { success: false, error: 'Project not found' };
+  }
+
+  // For backward compatibility: if no organizationId, check ownership
+  if (!project.organizationId) {
+    if (project.ownerId !== session.user.id) {
+      return { success: false, error: 'Unauthorized' };
+    }
+    return { success: true, project };
+  }
+
+  // Check organization permission - must pass organizationId explicitly
+  const hasPermission = await auth.api.hasPermission({
+    headers: await headers(),
+    body: {
+      organizationId: project.organizationId,
+      permissions: {
+        project: [permission],
+      },
+    },
+  });
+
+  if (!hasPermission) {
+    return { success: false, error: 'Insufficient permissions' };
+  }
+
+  return { success: true, project };
+}
+
+// Revalidate project pages and notify connected clients
+async function notifySprintsChanged(
+  project: { id: string; slug: string } | undefined,
+  userId: string
+) {
+  if (!project) return;
+
+  revalidatePath(`/projects/${project.slug}/board`);
+  revalidatePath(`/projects/${project.slug}/list`);
+  revalidatePath(`/projects/${project.slug}/sprints`);
+
+  await triggerEvent(channels.project(project.id), events.SPRINTS_UPDATED, {
+    projectId: project.id,
+    userId,
+  });
+}
+
+// Load a sprint and check the caller's permission on its project
+async function getSprintWithAccess(
+  sprintId: string,
+  permission: 'read' | 'update'
+) {
+  const [sprint] = await db
+    .select()
+    .from(sprints)
+    .where(eq(sprints.id, sprintId))
+    .limit(1);
+
+  if (!sprint) {
+    return { success: false as const, error: 'Sprint not found' };
+  }
+
+  const accessCheck = await verifyProjectPermission(sprint.projectId, permission);
+  if (!accessCheck.success) {
+    return { success: false as const, error: accessCheck.error };
+  }
+
+  return { success: true as const, sprint, project: accessCheck.project };
+}
+
+// Validation schemas
+// Dates are unix seconds, like ticket due dates
+const createSprintSchema = z
+  .object({
+    projectId: z.string(),
+    name: z.string().trim().min(1, 'Name is required').max(100),
+    goal: z.string().max(1000).optional(),
+    startDate: z.number(),
+    endDate: z.number(),
+  })
+  .refine((data) => data.endDate >= data.startDate, {
+    message: 'End date must be after the start date',
+    path: ['endDate'],
+  });
+
+const updateSprintSchema = z.object({
+  id: z.string(),
+  name: z.string().trim().min(1, 'Name is required').max(100).optional(),
+  goal: z.string().max(1000).nullable().optional(),
+  startDate: z.number().optional(),
+  endDate: z.number().optional(),
+});
+
+const completeSprintSchema = z.object({
+  id: z.string(),
+  // Sprint that unfinished tickets roll into; null sends them back to the backlog
+  moveUnfinishedTo: z.string().nullable(),
+});
+
+// Export types for use in hooks
+export type CreateSprintInput = z.infer<typeof createSprintSchema>;
+export type UpdateSprintInput = z.infer<typeof updateSprintSchema>;
+export type CompleteSprintInput = z.infer<typeof completeSprintSchema>;
+
+// Server Actions
+export async function getSprints(projectId: string) {
+  try {
+    await getCurrentUser(); // Ensure user is authenticated
+
+    // Verify project permission (read access)
+    const accessCheck = await verifyProjectPermission(projectId, 'read');
+    if (!accessCheck.success) {
+      return { ...accessCheck, data: [] };
+    }
+
+    const projectSprints = await db
+      .select()
+      .from(sprints)
+      .where(eq(sprints.projectId, projectId))
+      .orderBy(asc(sprints.startDate));
+
+    // Aggregate points per sprint
+    const statuses = await ensureProjectStatuses(projectId);
+    const completedKeys = new Set(
+      statuses.filter((s) => s.category === 'completed').map((s) => s.key)
+    );
+    const sprintTickets = await db
+      .select({ sprintId: tickets.sprintId, status: tickets.status, points: tickets.points })
+      .from(tickets)
+      .where(and(eq(tickets.projectId, projectId), isNotNull(tickets.sprintId)));
+
+    const data = projectSprints.map((sprint) => {
+      const assigned = sprintTickets.filter((t) => t.sprintId === sprint.id);
+      const completed = assigned.filter((t) => completedKeys.has(t.status));
+      return {
+        ...sprint,
+        ticketCount: assigned.length,
+        completedTicketCount: completed.length,
+        totalPoints: assigned.reduce((sum, t) => sum + (t.points ?? 0), 0),
+        completedPoints: completed.reduce((sum, t) => sum + (t.points ?? 0), 0),
+      };
+    });
+
+    return { success: true, data };
+  } catch (error) {
+    console.error('Error fetching sprints:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch sprints',
+      data: [],
+    };
+  }
+}
+
+export async function createSprint(input: CreateSprintInput) {
+  try {
+    const user = await getCurrentUser();
+    const validated = createSprintSchema.parse(input);
+
+    // Verify project permission (update access)
+    const accessCheck = await verifyProjectPermission(validated.projectId, 'update');
+    if (!accessCheck.success) {
+      return accessCheck;
+    }
+
+    const [created] = await db
+      .insert(sprints)
+      .values({
+        projectId: validated.projectId,
+        name: validated.name,
+        goal: validated.goal || null,
+        startDate: new Date(validated.startDate * 1000),
+        endDate: new Date(validated.endDate * 1000),
+      })
+      .returning();
+
+    await notifySprintsChanged(accessCheck.project, user.id);
+
+    return { success: true, data: created };
+  } catch (error) {
+    console.error('Error creating sprint:', error);
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: 'Validation error',
+        details: error.issues,
+      };
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create sprint',
+    };
+  }
+}
+
+export async function updateSprint(input: UpdateSprintInput) {
+  try {
+    const user = await getCurrentUser();
+    const validated = updateSprintSchema.parse(input);
+
+    const access = await getSprintWithAccess(validated.id, 'update');
+    if (!access.success) {
+      return access;
+    }
+
+    const startDate =
+      validated.startDate !== undefined
+        ? new Date(validated.startDate * 1000)
+        : access.sprint.startDate;
+    const endDate =
+      validated.endDate !== undefined
+        ? new Date(validated.endDate * 1000)
+        : access.sprint.endDate;
+
+    if (endDate.getTime() < startDate.getTime()) {
+      return {
+        success: false,
+        error: 'End date must be after the start date',
+      };
+    }
+
+    const updateData: {
+      name?: string;
+      goal?: string | null;
+      startDate: Date;
+      endDate: Date;
+      updatedAt: Date;
+    } = {
+      startDate,
+      endDate,
+      updatedAt: new Date(),
+    };
+
+    if (validated.name !== undefined) {
+      updateData.name = validated.name;
+    }
+
+    if (validated.goal !== undefined) {
+      updateData.goal = validated.goal || null;
+    }
+
+    const [updated] = await db
+      .update(sprints)
+      .set(updateData)
+      .where(eq(sprints.id, validated.id))
+      .returning();
+
+    await notifySprintsChanged(access.project, user.id);
+
+    return { success: true, data: updated };
+  } catch (error) {
+    console.error('Error updating sprint:', error);
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: 'Validation error',
+        details: error.issues,
+      };
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update sprint',
+    };
+  }
+}
+
+export async function startSprint(sprintId: string) {
+  try {
+    const user = await getCurrentUser();
+
+    const access = await getSprintWithAccess(sprintId, 'update');
+    if (!access.success) {
+      return access;
+    }
+
+    if (access.sprint.status !== 'planned') {
+      return {
+        success: false,
+        error: 'Only planned sprints can be started',
+      };
+    }
+
+    const [active] = await db
+      .select({ name: sprints.name })
+      .from(sprints)
+      .where(
+        and(
+          eq(sprints.projectId, access.sprint.projectId),
+          eq(sprints.status, 'active')
+        )
+      )
+      .limit(1);
+
+    if (active) {
+      return {
+        success: false,
+        error: `Complete ${active.name} before starting another sprint`,
+      };
+    }
+
+    const [updated] = await db
+      .update(sprints)
+      .set({ status: 'active', updatedAt: new Date() })
+      .where(eq(sprints.id, sprintId))
+      .returning();
+
+    await notifySprintsChanged(access.project, user.id);
+
+    return { success: true, data: updated };
+  } catch (error) {
+    console.error('Error starting sprint:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to start sprint',
+    };
+  }
+}
+
+export async function completeSprint(input: CompleteSprintInput) {
+  try {
+    const user = await getCurrentUser();
+    const validated = completeSprintSchema.parse(input);
+
+    const access = await getSprintWithAccess(validated.id, 'update');
+    if (!access.success) {
+      return access;
+    }
+
+    const { sprint } = access;
+    if (sprint.status !== 'active') {
+      return {
+        success: false,
+        error: 'Only the active sprint can be completed',
+      };
+    }
+
+    if (validated.moveUnfinishedTo) {
+      const [target] = await db
+        .select()
+        .from(sprints)
+        .where(eq(sprints.id, validated.moveUnfinishedTo))
+        .limit(1);
+
+      if (
+        !target ||
+        target.projectId !== sprint.projectId ||
+        target.id === sprint.id ||
+        target.status === 'completed'
+      ) {
+        return {
+          success: false,
+          error: 'Choose a planned sprint or the backlog for unfinished tickets',
+        };
+      }
+    }
+
+    const statuses = await ensureProjectStatuses(sprint.projectId);
+    const completedKeys = statuses
+      .filter((s) => s.category === 'completed')
+      .map((s) => s.key);
+
+    const sprintTickets = await db
+      .select({ id: tickets.id, status: tickets.status })
+      .from(tickets)
+      .where(eq(tickets.sprintId, sprint.id));
+    const unfinished = sprintTickets.filter((t) => !completedKeys.includes(t.status));
+
+    // Roll unfinished tickets over, recording the move so burndowns stay accurate
+    if (unfinished.length > 0) {
+      const moved = await db
+        .update(tickets)
+        .set({
+          sprintId: validated.moveUnfinishedTo,
+          updatedAt: new Date(),
+          version: sql`${tickets.version} + 1`,
+        })
+        .where(inArray(tickets.id, unfinished.map((t) => t.id)))
+        .returning({ id: tickets.id, version: tickets.version });
+
+      for (const ticket of moved) {
+        await recordTicketHistory(
+          ticket.id,
+          user.id,
+          [{ field: 'sprint', oldValue: sprint.id, newValue: validated.moveUnfinishedTo }],
+          ticket.version
+        );
+      }
+    }
+
+    const [updated] = await db
+      .update(sprints)
+      .set({ status: 'completed', completedAt: new Date(), updatedAt: new Date() })
+      .where(eq(sprints.id, sprint.id))
+      .returning();
+
+    await notifySprintsChanged(access.project, user.id);
+
+    return { success: true, data: { sprint: updated, movedTickets: unfinished.length } };
+  } catch (error) {
+    console.error('Error completing sprint:', error);
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: 'Validation error',
+        details: error.issues,
+      };
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to complete sprint',
+    };
+  }
+}
+
+export async function deleteSprint(sprintId: string) {
+  try {
+    const user = await getCurrentUser();
+
+    const access = await getSprintWithAccess(sprintId, 'update');
+    if (!access.success) {
+      return access;
+    }
+
+    // Tickets go back to the backlog, recorded like any other sprint change
+    const moved = await db
+      .update(tickets)
+      .set({ sprintId: null, updatedAt: new Date(), version: sql`${tickets.version} + 1` })
+      .where(eq(tickets.sprintId, sprintId))
+      .returning({ id: tickets.id, version: tickets.version });
+
+    for (const ticket of moved) {
+      await recordTicketHistory(
+        ticket.id,
+        user.id,
+        [{ field: 'sprint', oldValue: sprintId, newValue: null }],
+        ticket.version
+      );
+    }
+
+    await db.delete(sprints).where(eq(sprints.id, sprintId));
+
+    await notifySprintsChanged(access.project, user.id);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting sprint:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete sprint',
+    };
+  }
+}
+
+export async function getSprintBurndown(sprintId: string) {
+  try {
+    await getCurrentUser(); // Ensure user is authenticated
+
+    const access = await getSprintWithAccess(sprintId, 'read');
+    if (!access.success) {
+      return access;
+    }
+
+    const { sprint } = access;
+
+    // Tickets in the sprint now, plus any that were moved in or out of it
+    const movedTickets = await db
+      .select({ ticketId: ticketHistory.ticketId })
+      .from(ticketHistory)
+      .where(
+        and(
+          eq(ticketHistory.field, 'sprint'),
+          or(eq(ticketHistory.oldValue, sprint.id), eq(ticketHistory.newValue, sprint.id))
+        )
+      );
+
+    const ticketIds = [...new Set(movedTickets.map((t) => t.ticketId))];
+    const sprintTickets = await db
+      .select({
+        id: tickets.id,
+        status: tickets.status,
+        points: tickets.points,
+        sprintId: tickets.sprintId,
+        createdAt: tickets.createdAt,
+      })
+      .from(tickets)
+      .where(
+        ticketIds.length > 0
+          ? or(eq(tickets.sprintId, sprint.id), inArray(tickets.id, ticketIds))
+          : eq(tickets.sprintId, sprint.id)
+      );
+
+    const history =
+      sprintTickets.length > 0
+        ? await db
+            .select({
+              ticketId: ticketHistory.ticketId,
+              field: ticketHistory.field,
+              oldValue: ticketHistory.oldValue,
+              newValue: ticketHistory.newValue,
+              createdAt: ticketHistory.createdAt,
+            })
+            .from(ticketHistory)
+            .where(
+              and(
+                inArray(ticketHistory.ticketId, sprintTickets.map((t) => t.id)),
+                inArray(ticketHistory.field, ['status', 'points', 'sprint'])
+              )
+            )
+        : [];
+
+    const statuses = await ensureProjectStatuses(sprint.projectId);
+    const completedKeys = new Set(
+      statuses.filter((s) => s.category === 'completed').map((s) => s.key)
+    );
+
+    return {
+      success: true,
+      data: computeBurndown(sprint, sprintTickets, history, completedKeys),
+    };
+  } catch (error) {
+    console.error('Error computing sprint burndown:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to compute burndown',
+    };
+  }
+}
@@ -17,6 +17,7 @@ export type CreateTemplateInput = {
   defaultStatus?: TicketStatus;
   defaultPriority?: TicketPriority;
   defaultPoints?: number;
+  defaultLabelIds?: string[];
 };
 
 export type UpdateTemplateInput = {
@@ -25,9 +26,10 @@ export type UpdateTemplateInput = {
   description?: string;
   titleTemplate?: string;
   descriptionTemplate?: string;
-  defaultStatus?: TicketStatus;
+  defaultStatus?: TicketStatus | null;
   defaultPriority?: TicketPriority;
   defaultPoints?: number | null;
+  defaultLabelIds?: string[] | null;
 };
 
 // Create a new ticket template
@@ -49,9 +51,10 @@ export async function createTemplate(data: CreateTemplateInput) {
       description: data.description,
       titleTemplate: data.titleTemplate,
       descriptionTemplate: data.descriptionTemplate,
-      defaultStatus: data.defaultStatus || "backlog",
+      defaultStatus: data.defaultStatus || null,
       defaultPriority: data.defaultPriority || "medium",
       defaultPoints: data.defaultPoints,
+      defaultLabelIds: data.defaultLabelIds?.length ? data.defaultLabelIds : null,
     })
     .returning();
 
@@ -117,6 +120,9 @@ export async function updateTemplate(data: UpdateTemplateInput) {
   if (data.defaultStatus !== undefined) updateData.defaultStatus = data.defaultStatus;
   if (data.defaultPriority !== undefined) updateData.defaultPriority = data.defaultPriority;
   if (data.defaultPoints !== undefined) updateData.defaultPoints = data.defaultPoints;
+  if (data.defaultLabelIds !== undefined) {
+    updateData.defaultLabelIds = data.defaultLabelIds?.length ? data.defaultLabelIds : null;
+  }
 
   const [template] = await db
     .update(ticketTemplates)
@@ -0,0 +1,215 @@
+'use server';
+
+import { headers } from 'next/headers';
+import { auth } from '@/lib/auth';
+import {
+  db,
+  ticketHistory,
+  tickets,
+  projects,
+  users,
+  sprints,
+  eq,
+  desc,
+  inArray,
+  type TicketHistoryField,
+} from '@minute/db';
+
+// Get current user session
+async function getCurrentUser() {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    throw new Error('Unauthorized');
+  }
+
+  return session.user;
+}
+
+// Verify project permission (reuse from tickets.ts pattern)
+async function verifyProjectPermission(
+  projectId: string,
+  permission: 'create' | 'read' | 'update' | 'delete' | 'assign' | 'comment'
+) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  const [project] = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  if (!project) {
+    return { success: false, error: 'Project not found' };
+  }
+
+  // For backward compatibility: if no organizationId, check ownership
+  if (!project.organizationId) {
+    if (project.ownerId !== session.user.id) {
+      return { success: false, error: 'Unauthorized' };
+    }
+    return { success: true, project };
+  }
+
+  // Check organization permission - must pass organizationId explicitly
+  const hasPermission = await auth.api.hasPermission({
+    headers: await headers(),
+    body: {
+      organizationId: project.organizationId,
+      permissions: {
+        project: [permission],
+      },
+    },
+  });
+
+  if (!hasPermission) {
+    return { success: false, error: 'Insufficient permissions' };
+  }
+
+  return { success: true, project };
+}
+
+export type TicketHistoryEntry = {
+  id: string;
+  ticketId: string;
+  field: TicketHistoryField;
+  oldValue: string | null;
+  newValue: string | null;
+  // Display labels for values that reference other rows (e.g. assignee name)
+  oldLabel: string | null;
+  newLabel: string | null;
+  createdAt: Date;
+  user: {
+    id: string;
+    name: string | null;
+    email: string;
+    image: string | null;
+  };
+};
+
+// Get the change history for a ticket, newest first
+export async function getTicketHistory(ticketId: string) {
+  try {
+    await getCurrentUser(); // Verify user is authenticated
+
+    // Get ticket to find project
+    const [ticket] = await db
+      .select()
+      .from(tickets)
+      .where(eq(tickets.id, ticketId))
+      .limit(1);
+
+    if (!ticket) {
+      return {
+        success: false,
+        error: 'Ticket not found',
+        data: [] as TicketHistoryEntry[],
+      };
+    }
+
+    // Verify project permission (read access)
+    const accessCheck = await verifyProjectPermission(ticket.projectId, 'read');
+    if (!accessCheck.success) {
+      return {
+        ...accessCheck,
+        data: [] as TicketHistoryEntry[],
+      };
+    }
+
+    const entries = await db
+      .select({
+        id: ticketHistory.id,
+        ticketId: ticketHistory.ticketId,
+        field: ticketHistory.field,
+        oldValue: ticketHistory.oldValue,
+        newValue: ticketHistory.newValue,
+        createdAt: ticketHistory.createdAt,
+        user: {
+          id: users.id,
+          name: users.name,
+          email: users.email,
+          image: users.image,
+        },
+      })
+      .from(ticketHistory)
+      .innerJoin(users, eq(ticketHistory.userId, users.id))
+      .where(eq(ticketHistory.ticketId, ticketId))
+      .orderBy(desc(ticketHistory.createdAt));
+
+    // Resolve assignee IDs to names
+    const assigneeIds = [
+      ...new Set(
+        entries
+          .filter((entry) => entry.field === 'assignee')
+          .flatMap((entry) => [entry.oldValue, entry.newValue])
+          .filter((value): value is string => !!value)
+      ),
+    ];
+
+    const assignees =
+      assigneeIds.length > 0
+        ? await db
+            .select({ id: users.id, name: users.name, email: users.email })
+            .from(users)
+            .where(inArray(users.id, assigneeIds))
+        : [];
+
+    const assigneeLabel = (userId: string | null) => {
+      if (!userId) return null;
+      const assignee = assignees.find((u) => u.id === userId);
+      return assignee ? assignee.name || assignee.email : 'Unknown user';
+    };
+
+    // Resolve sprint IDs to names
+    const sprintIds = [
+      ...new Set(
+        entries
+          .filter((entry) => entry.field === 'sprint')
+          .flatMap((entry) => [entry.oldValue, entry.newValue])
+          .filter((value): value is string => !!value)
+      ),
+    ];
+
+    const sprintNames =
+      sprintIds.length > 0
+        ? await db
+            .select({ id: sprints.id, name: sprints.name })
+            .from(sprints)
+            .where(inArray(sprints.id, sprintIds))
+        : [];
+
+    const sprintLabel = (sprintId: string | null) => {
+      if (!sprintId) return null;
+      return sprintNames.find((s) => s.id === sprintId)?.name ?? 'Deleted sprint';
+    };
+
+    const valueLabel = (field: string, value: string | null) => {
+      if (field === 'assignee') return assigneeLabel(value);
+      if (field === 'sprint') return sprintLabel(value);
+      return null;
+    };
+
+    return {
+      success: true,
+      data: entries.map((entry) => ({
+        ...entry,
+        field: entry.field as TicketHistoryField,
+        oldLabel: valueLabel(entry.field, entry.oldValue),
+        newLabel: valueLabel(entry.field, entry.newValue),
+      })) as TicketHistoryEntry[],
+    };
+  } catch (error) {
+    console.error('Error fetching ticket history:', error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : 'Failed to fetch ticket history',
+      data: [] as TicketHistoryEntry[],
+    };
+  }
+}
@@ -0,0 +1,361 @@
+'use server';
+
+import { headers } from 'next/headers';
+import { revalidatePath } from 'next/cache';
+import { auth } from '@/lib/auth';
+import { events } from '@/lib/realtime/server';
+import { publishTicketChange } from '@/lib/ticket-events';
+import {
+  db,
+  ticketLinks,
+  tickets,
+  projects,
+  eq,
+  and,
+  or,
+  ticketRelation,
+  type TicketLinkType,
+  type TicketRelation,
+} from '@minute/db';
+import { z } from 'zod';
+
+// Get current user session
+async function getCurrentUser() {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    throw new Error('Unauthorized');
+  }
+
+  return session.user;
+}
+
+// Verify project permission (reuse from tickets.ts pattern)
+async function verifyProjectPermission(
+  projectId: string,
+  permission: 'create' | 'read' | 'update' | 'delete' | 'assign' | 'comment'
+) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  const [project] = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  if (!project) {
+    return { success: false, error: 'Project not found' };
+  }
+
+  // For backward compatibility: if no organizationId, check ownership
+  if (!project.organizationId) {
+    if (project.ownerId !== session.user.id) {
+      return { success: false, error: 'Unauthorized' };
+    }
+    return { success: true, project };
+  }
+
+  // Check organization permission - must pass organizationId explicitly
+  const hasPermission = await auth.api.hasPermission({
+    headers: await headers(),
+    body: {
+      organizationId: project.organizationId,
+      permissions: {
+        project: [permission],
+      },
+    },
+  });
+
+  if (!hasPermission) {
+    return { success: false, error: 'Insufficient permissions' };
+  }
+
+  return { success: true, project };
+}
+
+// Relation as seen from the target side of a stored link
+const INVERSE_RELATIONS: Record<TicketLinkType, TicketRelation> = {
+  blocks: 'blocked_by',
+  duplicates: 'duplicated_by',
+  relates_to: 'relates_to',
+};
+
+// Turn a relation picked from one ticket into a stored source -> target link
+function toStoredLink(
+  ticketId: string,
+  otherTicketId: string,
+  relation: TicketRelation
+): { sourceTicketId: string; targetTicketId: string; type: TicketLinkType } {
+  switch (relation) {
+    case 'blocked_by':
+      return { sourceTicketId: otherTicketId, targetTicketId: ticketId, type: 'blocks' };
+    case 'duplicated_by':
+      return { sourceTicketId: otherTicketId, targetTicketId: ticketId, type: 'duplicates' };
+    default:
+      return { sourceTicketId: ticketId, targetTicketId: otherTicketId, type: relation };
+  }
+}
+
+// Revalidate project pages and notify connected boards (blocked badges may change)
+async function notifyLinksChanged(
+  project: { id: string; slug: string } | undefined,
+  ticketIds: [string, string],
+  userId: string
+) {
+  if (!project) return;
+
+  revalidatePath(`/projects/${project.slug}`);
+  revalidatePath(`/projects/${project.slug}/board`);
+  revalidatePath(`/projects/${project.slug}/list`);
+
+  await publishTicketChange({
+    event: events.TICKET_UPDATED,
+    projectId: project.id,
+    ticketId: ticketIds[0],
+    userId,
+    changedTicketIds: ticketIds,
+  });
+}
+
+// Validation schemas
+const addLinkSchema = z.object({
+  ticketId: z.string(),
+  targetTicketId: z.string(),
+  relation: z.enum(ticketRelation),
+});
+
+// Export types for use in hooks
+export type AddTicketLinkInput = z.infer<typeof addLinkSchema>;
+
+export type TicketLinkWithTicket = {
+  id: string;
+  relation: TicketRelation;
+  ticket: {
+    id: string;
+    title: string;
+    status: string;
+    priority: string;
+  };
+};
+
+// Server Actions
+export async function getTicketLinks(ticketId: string) {
+  try {
+    await getCurrentUser(); // Ensure user is authenticated
+
+    const [ticket] = await db
+      .select()
+      .from(tickets)
+      .where(eq(tickets.id, ticketId))
+      .limit(1);
+
+    if (!ticket) {
+      return {
+        success: false,
+        error: 'Ticket not found',
+        data: [] as TicketLinkWithTicket[],
+      };
+    }
+
+    // Verify project permission (read access)
+    const accessCheck = await verifyProjectPermission(ticket.projectId, 'read');
+    if (!accessCheck.success) {
+      return { ...accessCheck, data: [] as TicketLinkWithTicket[] };
+    }
+
+    const linkedTicket = {
+      id: tickets.id,
+      title: tickets.title,
+      status: tickets.status,
+      priority: tickets.priority,
+    };
+
+    const outgoing = await db
+      .select({ id: ticketLinks.id, type: ticketLinks.type, ticket: linkedTicket })
+      .from(ticketLinks)
+      .innerJoin(tickets, eq(ticketLinks.targetTicketId, tickets.id))
+      .where(eq(ticketLinks.sourceTicketId, ticketId))
+      .orderBy(ticketLinks.createdAt);
+
+    const incoming = await db
+      .select({ id: ticketLinks.id, type: ticketLinks.type, ticket: linkedTicket })
+      .from(ticketLinks)
+      .innerJoin(tickets, eq(ticketLinks.sourceTicketId, tickets.id))
+      .where(eq(ticketLinks.targetTicketId, ticketId))
+      .orderBy(ticketLinks.createdAt);
+
+    const links: TicketLinkWithTicket[] = [
+      ...outgoing.map((link) => ({
+        id: link.id,
+        relation: link.type as TicketRelation,
+        ticket: link.ticket,
+      })),
+      ...incoming.map((link) => ({
+        id: link.id,
+        relation: INVERSE_RELATIONS[link.type],
+        ticket: link.ticket,
+      })),
+    ];
+
+    return { success: true, data: links };
+  } catch (error) {
+    console.error('Error fetching ticket links:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch ticket links',
+      data: [] as TicketLinkWithTicket[],
+    };
+  }
+}
+
+export async function addTicketLink(input: AddTicketLinkInput) {
+  try {
+    const user = await getCurrentUser();
+    const validated = addLinkSchema.parse(input);
+
+    if (validated.ticketId === validated.targetTicketId) {
+      return {
+        success: false,
+        error: 'A ticket cannot be linked to itself',
+      };
+    }
+
+    const [ticket] = await db
+      .select()
+      .from(tickets)
+      .where(eq(tickets.id, validated.ticketId))
+      .limit(1);
+
+    const [target] = await db
+      .select()
+      .from(tickets)
+      .where(eq(tickets.id, validated.targetTicketId))
+      .limit(1);
+
+    if (!ticket || !target) {
+      return {
+        success: false,
+        error: 'Ticket not found',
+      };
+    }
+
+    if (ticket.projectId !== target.projectId) {
+      return {
+        success: false,
+        error: 'Tickets can only be linked within the same project',
+      };
+    }
+
+    // Verify project permission (update access)
+    const accessCheck = await verifyProjectPermission(ticket.projectId, 'update');
+    if (!accessCheck.success) {
+      return accessCheck;
+    }
+
+    // One link per pair keeps "blocks" free of two-way cycles
+    const [existingLink] = await db
+      .select({ id: ticketLinks.id })
+      .from(ticketLinks)
+      .where(
+        or(
+          and(
+            eq(ticketLinks.sourceTicketId, validated.ticketId),
+            eq(ticketLinks.targetTicketId, validated.targetTicketId)
+          ),
+          and(
+            eq(ticketLinks.sourceTicketId, validated.targetTicketId),
+            eq(ticketLinks.targetTicketId, validated.ticketId)
+          )
+        )
+      )
+      .limit(1);
+
+    if (existingLink) {
+      return {
+        success: false,
+        error: 'These tickets are already linked',
+      };
+    }
+
+    const [link] = await db
+      .insert(ticketLinks)
+      .values({
+        ...toStoredLink(validated.ticketId, validated.targetTicketId, validated.relation),
+        creatorId: user.id,
+      })
+      .returning();
+
+    await notifyLinksChanged(
+      accessCheck.project,
+      [validated.ticketId, validated.targetTicketId],
+      user.id
+    );
+
+    return { success: true, data: link };
+  } catch (error) {
+    console.error('Error adding ticket link:', error);
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: 'Validation error',
+        details: error.issues,
+      };
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to add ticket link',
+    };
+  }
+}
+
+export async function removeTicketLink(linkId: string) {
+  try {
+    const user = await getCurrentUser();
+
+    const [link] = await db
+      .select({
+        id: ticketLinks.id,
+        sourceTicketId: ticketLinks.sourceTicketId,
+        targetTicketId: ticketLinks.targetTicketId,
+        projectId: tickets.projectId,
+      })
+      .from(ticketLinks)
+      .innerJoin(tickets, eq(ticketLinks.sourceTicketId, tickets.id))
+      .where(eq(ticketLinks.id, linkId))
+      .limit(1);
+
+    if (!link) {
+      return {
+        success: false,
+        error: 'Link not found',
+      };
+    }
+
+    // Verify project permission (update access)
+    const accessCheck = await verifyProjectPermission(link.projectId, 'update');
+    if (!accessCheck.success) {
+      return accessCheck;
+    }
+
+    await db.delete(ticketLinks).where(eq(ticketLinks.id, linkId));
+
+    await notifyLinksChanged(
+      accessCheck.project,
+      [link.sourceTicketId, link.targetTicketId],
+      user.id
+    );
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error removing ticket link:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to remove ticket link',
+    };
+  }
+}
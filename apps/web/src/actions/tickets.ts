@@ -3,17 +3,39 @@
 import { headers } from 'next/headers';
 import { revalidatePath } from 'next/cache';
 import { auth } from '@/lib/auth';
-import { triggerTicketEvent, events } from '@/lib/pusher';
+import { events } from '@/lib/realtime/server';
+import { publishTicketChange } from '@/lib/ticket-events';
+import { loadTicketListItems, getAffectedTicketIds, type TicketWithAssignee } from '@/lib/ticket-list';
 import { embedTicket } from './search';
+import { logProjectActivity } from './project-activity';
+import { syncMentions } from '@/lib/mentions';
+import { notifyUsers, notifyStatusChange } from '@/lib/notifications';
+import { addTicketWatchers } from '@/lib/watchers';
 import {
   db,
   tickets,
   projects,
-  users,
+  sprints,
+  labels,
+  ticketLabels,
   eq,
   and,
   sql,
   max,
+  inArray,
+  isTransitionAllowed,
+  formatTicketKey,
+  indexTicketsForSearch,
+  diffTicket,
+  recordTicketHistory,
+  getFieldsChangedSince,
+  ticketHistoryFields,
+  getProjectKey,
+  assignTicketNumber,
+  findTicketByRef,
+  ensureProjectStatuses,
+  validateParent,
+  sanitizeRichText,
   type TicketStatus,
   type TicketPriority,
   type Ticket,
@@ -87,46 +109,88 @@ const createTicketSchema = z.object({
   projectId: z.string(),
   title: z.string().min(1, 'Title is required').max(200),
   description: z.string().max(5000).optional(),
-  status: z.enum(['backlog', 'todo', 'in_progress', 'done']).optional(),
+  status: z.string().min(1).optional(),
   priority: z.enum(['low', 'medium', 'high', 'urgent']).optional(),
   assigneeId: z.string().optional(),
   dueDate: z.number().optional(),
   points: z.number().int().positive().optional().nullable(),
+  parentId: z.string().optional(),
+  labelIds: z.array(z.string()).optional(),
+  // Realtime client making the change; it skips its own ticket event
+  clientId: z.string().optional(),
 });
 
 const updateTicketSchema = z.object({
   id: z.string(),
   title: z.string().min(1, 'Title is required').max(200).optional(),
   description: z.string().max(5000).optional(),
-  status: z.enum(['backlog', 'todo', 'in_progress', 'done']).optional(),
+  status: z.string().min(1).optional(),
   priority: z.enum(['low', 'medium', 'high', 'urgent']).optional(),
   assigneeId: z.string().nullable().optional(),
   dueDate: z.number().nullable().optional(),
   points: z.number().int().positive().optional().nullable(),
+  sprintId: z.string().nullable().optional(),
+  // Replaces the ticket's labels
+  labelIds: z.array(z.string()).optional(),
+  // tickets.version of the copy the change is based on; enables conflict checks
+  baseVersion: z.number().int().optional(),
+  clientId: z.string().optional(),
 });
 
 const reorderTicketSchema = z.object({
   ticketId: z.string(),
   projectId: z.string(),
-  newStatus: z.enum(['backlog', 'todo', 'in_progress', 'done']),
+  newStatus: z.string().min(1),
   newOrder: z.number(),
   // For within-column reordering
   targetOrder: z.number().optional(),
+  baseVersion: z.number().int().optional(),
+  clientId: z.string().optional(),
+});
+
+const deleteTicketOptionsSchema = z.object({
+  // Delete the whole subtree instead of detaching the children
+  deleteChildren: z.boolean().optional(),
+  clientId: z.string().optional(),
 });
 
 // Export types for use in hooks
 export type CreateTicketInput = z.infer<typeof createTicketSchema>;
 export type UpdateTicketInput = z.infer<typeof updateTicketSchema>;
 export type ReorderTicketInput = z.infer<typeof reorderTicketSchema>;
+export type DeleteTicketOptions = z.infer<typeof deleteTicketOptionsSchema>;
+
+export type { TicketLabelChip, TicketWithAssignee } from '@/lib/ticket-list';
+
+// Ticket fields checked for conflicts, named as in updateTicket's input
+export type TicketConflictField = (typeof ticketHistoryFields)[keyof typeof ticketHistoryFields];
+
+// The server's current values, in updateTicket's input format
+export type TicketConflictValues = {
+  title: string;
+  description: string | null;
+  status: TicketStatus;
+  priority: TicketPriority;
+  assigneeId: string | null;
+  // Unix seconds
+  dueDate: number | null;
+  points: number | null;
+  sprintId: string | null;
+};
+
+// Returned when someone else changed the same fields to different values
+// since the client's copy was loaded
+export type TicketConflict = {
+  fields: TicketConflictField[];
+  // The ticket's current version; resend with it to overwrite
+  version: number;
+  current: TicketConflictValues;
+};
 
-// Type for ticket with assignee data
-export type TicketWithAssignee = Ticket & {
-  assignee: {
-    id: string | null;
-    name: string | null;
-    email: string | null;
-    image: string | null;
-  } | null;
+// Type for a single ticket as returned by getTicket
+export type TicketDetail = Ticket & {
+  key: string | null;
+  labelIds: string[];
 };
 
 // Get the next order value for a status in a project
@@ -144,6 +208,114 @@ async function getNextOrder(
   return lastOrder + ORDER_GAP;
 }
 
+// Check a status change against the project's workflow
+// Returns an error message, or null if the move is allowed
+async function validateStatusChange(
+  projectId: string,
+  from: TicketStatus,
+  to: TicketStatus
+): Promise<string | null> {
+  const statuses = await ensureProjectStatuses(projectId);
+  const target = statuses.find((s) => s.key === to);
+  if (!target) {
+    return `Invalid status "${to}" for this project`;
+  }
+  if (!isTransitionAllowed(statuses, from, to)) {
+    const source = statuses.find((s) => s.key === from);
+    return `Tickets cannot move from ${source?.name ?? from} to ${target.name}`;
+  }
+  return null;
+}
+
+// Check that every label belongs to the project
+// Returns an error message, or null if the labels are valid
+async function validateLabels(projectId: string, labelIds: string[]): Promise<string | null> {
+  const uniqueIds = [...new Set(labelIds)];
+  if (uniqueIds.length === 0) return null;
+
+  const found = await db
+    .select({ id: labels.id })
+    .from(labels)
+    .where(and(eq(labels.projectId, projectId), inArray(labels.id, uniqueIds)));
+
+  return found.length === uniqueIds.length ? null : 'Label not found';
+}
+
+// Replace a ticket's labels
+async function setTicketLabels(ticketId: string, labelIds: string[]) {
+  const uniqueIds = [...new Set(labelIds)];
+
+  await db.delete(ticketLabels).where(eq(ticketLabels.ticketId, ticketId));
+  if (uniqueIds.length > 0) {
+    await db
+      .insert(ticketLabels)
+      .values(uniqueIds.map((labelId) => ({ ticketId, labelId })));
+  }
+}
+
+// Ids of every ticket below the given one
+async function getDescendantIds(ticketId: string): Promise<string[]> {
+  const descendants: string[] = [];
+  let frontier = [ticketId];
+
+  while (frontier.length > 0) {
+    const children = await db
+      .select({ id: tickets.id })
+      .from(tickets)
+      .where(inArray(tickets.parentId, frontier));
+    frontier = children.map((child) => child.id);
+    descendants.push(...frontier);
+  }
+
+  return descendants;
+}
+
+// Conflict result when another user changed a field after the client's copy
+// was loaded and `proposed` sets it to a different value, or null when it's
+// safe to save. The user's own changes don't count, so edits queued offline
+// replay without tripping over each other.
+async function checkConflict(
+  existing: Ticket,
+  baseVersion: number | undefined,
+  userId: string,
+  proposed: Parameters<typeof diffTicket>[1]
+) {
+  if (baseVersion === undefined || existing.version <= baseVersion) {
+    return null;
+  }
+
+  const changedFields = await getFieldsChangedSince(existing.id, baseVersion, userId);
+  const differingFields = diffTicket(existing, proposed).map((change) => change.field);
+  const conflictingFields = changedFields.filter(
+    (field): field is keyof typeof ticketHistoryFields =>
+      field !== 'created' && differingFields.includes(field)
+  );
+  if (conflictingFields.length === 0) {
+    return null;
+  }
+
+  const conflict: TicketConflict = {
+    fields: conflictingFields.map((field) => ticketHistoryFields[field]),
+    version: existing.version,
+    current: {
+      title: existing.title,
+      description: existing.description,
+      status: existing.status,
+      priority: existing.priority,
+      assigneeId: existing.assigneeId,
+      dueDate: existing.dueDate ? Math.floor(existing.dueDate.getTime() / 1000) : null,
+      points: existing.points,
+      sprintId: existing.sprintId,
+    },
+  };
+
+  return {
+    success: false,
+    error: 'This ticket was changed by someone else',
+    conflict,
+  };
+}
+
 // Rebalance orders in a column when gap is too small
 async function rebalanceColumn(projectId: string, status: TicketStatus) {
   const columnTickets = await db
@@ -176,20 +348,54 @@ export async function createTicket(input: z.infer<typeof createTicketSchema>) {
       return accessCheck;
     }
 
+    // Default to the first status in the project's workflow
+    const statuses = await ensureProjectStatuses(validated.projectId);
+    const status = validated.status || statuses[0]?.key;
+    if (!status || !statuses.some((s) => s.key === status)) {
+      return {
+        success: false,
+        error: `Invalid status "${validated.status}" for this project`,
+      };
+    }
+
+    if (validated.parentId) {
+      const parentError = await validateParent(validated.projectId, validated.parentId);
+      if (parentError) {
+        return {
+          success: false,
+          error: parentError,
+        };
+      }
+    }
+
+    if (validated.labelIds) {
+      const labelError = await validateLabels(validated.projectId, validated.labelIds);
+      if (labelError) {
+        return {
+          success: false,
+          error: labelError,
+        };
+      }
+    }
+
     // Get next order for the status
-    const status = (validated.status || 'backlog') as TicketStatus;
     const order = await getNextOrder(validated.projectId, status);
 
+    const projectKey = await getProjectKey(validated.projectId);
+    const number = await assignTicketNumber(validated.projectId);
+
     // Create ticket
-    const [ticket] = await db
+    const ticketResult = await db
       .insert(tickets)
       .values({
         title: validated.title,
-        description: validated.description || null,
+        description: validated.description ? sanitizeRichText(validated.description) : null,
         status,
         priority: (validated.priority || 'medium') as TicketPriority,
         order,
         projectId: validated.projectId,
+        number,
+        parentId: validated.parentId || null,
         creatorId: user.id,
         assigneeId: validated.assigneeId || null,
         dueDate: validated.dueDate
@@ -208,36 +414,85 @@ export async function createTicket(input: z.infer<typeof createTicketSchema>) {
       })
       .returning();
 
-    if (!ticket || !Array.isArray(ticket) || ticket.length === 0) {
+    if (!ticketResult || !Array.isArray(ticketResult) || ticketResult.length === 0) {
       return {
         success: false,
         error: 'Failed to create ticket',
       };
     }
 
-    const createdTicket = ticket[0];
+    const createdTicket = ticketResult[0];
+
+    if (!createdTicket) {
+      return {
+        success: false,
+        error: 'Failed to create ticket',
+      };
+    }
+
+    if (validated.labelIds && validated.labelIds.length > 0) {
+      await setTicketLabels(createdTicket.id, validated.labelIds);
+    }
+
+    // Creator and assignee follow the ticket
+    await addTicketWatchers(createdTicket.id, [user.id, createdTicket.assigneeId]);
+
+    // Record creation in ticket history
+    await recordTicketHistory(createdTicket.id, user.id, [
+      { field: 'created', oldValue: null, newValue: createdTicket.title },
+    ]);
+
+    await logProjectActivity(validated.projectId, 'created_ticket', {
+      ticketId: createdTicket.id,
+      details: { ticketTitle: createdTicket.title, status: createdTicket.status },
+    });
 
     // Revalidate project pages
     if (accessCheck.success && accessCheck.project) {
       revalidatePath(`/projects/${accessCheck.project.slug}`);
       revalidatePath(`/projects/${accessCheck.project.slug}/board`);
       revalidatePath(`/projects/${accessCheck.project.slug}/list`);
+
+      // Notify users @mentioned in the description
+      await syncMentions({
+        ticket: createdTicket,
+        project: accessCheck.project,
+        author: user,
+        content: createdTicket.description,
+      });
+
+      await notifyUsers({
+        type: 'assigned',
+        recipientIds: [createdTicket.assigneeId],
+        actor: user,
+        ticket: createdTicket,
+        project: accessCheck.project,
+      });
     }
 
     // Trigger real-time event
-    await triggerTicketEvent(validated.projectId, events.TICKET_CREATED, {
-      ticketId: createdTicket.id,
+    await publishTicketChange({
+      event: events.TICKET_CREATED,
       projectId: validated.projectId,
+      ticketId: createdTicket.id,
       userId: user.id,
+      clientId: validated.clientId,
       data: { title: createdTicket.title, status: createdTicket.status },
     });
 
+    await indexTicketsForSearch([createdTicket.id]).catch((err) =>
+      console.error('Search indexing failed:', err)
+    );
+
     // Generate embedding in background (non-blocking)
     embedTicket(createdTicket.id).catch((err) => 
       console.error('Background embedding failed:', err)
     );
 
-    return { success: true, data: createdTicket };
+    return {
+      success: true,
+      data: { ...createdTicket, key: formatTicketKey(projectKey, createdTicket.number) },
+    };
   } catch (error) {
     console.error('Error creating ticket:', error);
     if (error instanceof z.ZodError) {
@@ -263,53 +518,21 @@ export async function getTickets(projectId: string) {
     if (!accessCheck.success) {
       return {
         ...accessCheck,
-        data: {
-          backlog: [],
-          todo: [],
-          in_progress: [],
-          done: [],
-        } as Record<TicketStatus, TicketWithAssignee[]>,
+        data: {} as Record<TicketStatus, TicketWithAssignee[]>,
       };
     }
 
-    // Get all tickets for the project with assignee data, ordered by status and order
-    const projectTickets = await db
-      .select({
-        id: tickets.id,
-        title: tickets.title,
-        description: tickets.description,
-        status: tickets.status,
-        priority: tickets.priority,
-        order: tickets.order,
-        projectId: tickets.projectId,
-        creatorId: tickets.creatorId,
-        assigneeId: tickets.assigneeId,
-        dueDate: tickets.dueDate,
-        points: tickets.points,
-        metadata: tickets.metadata,
-        createdAt: tickets.createdAt,
-        updatedAt: tickets.updatedAt,
-        assignee: {
-          id: users.id,
-          name: users.name,
-          email: users.email,
-          image: users.image,
-        },
-      })
-      .from(tickets)
-      .leftJoin(users, eq(tickets.assigneeId, users.id))
-      .where(eq(tickets.projectId, projectId))
-      .orderBy(tickets.status, tickets.order);
+    const { statuses, items } = await loadTicketListItems(projectId);
 
-    // Group by status
-    const grouped = projectTickets.reduce((acc, ticket) => {
+    // Group by status; every workflow status gets a (possibly empty) column
+    const grouped = items.reduce((acc, ticket) => {
       const status = ticket.status;
       if (!acc[status]) {
         acc[status] = [];
       }
       acc[status].push(ticket);
       return acc;
-    }, {} as Record<TicketStatus, TicketWithAssignee[]>);
+    }, Object.fromEntries(statuses.map((s) => [s.key, []])) as Record<TicketStatus, TicketWithAssignee[]>);
 
     return { success: true, data: grouped };
   } catch (error) {
@@ -317,26 +540,17 @@ export async function getTickets(projectId: string) {
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Failed to fetch tickets',
-      data: {
-        backlog: [],
-        todo: [],
-        in_progress: [],
-        done: [],
-      } as Record<TicketStatus, TicketWithAssignee[]>,
+      data: {} as Record<TicketStatus, TicketWithAssignee[]>,
     };
   }
 }
 
+// Accepts a ticket ID or a ticket key like MIN-123
 export async function getTicket(ticketId: string) {
   try {
     await getCurrentUser(); // Ensure user is authenticated
 
-    // Get ticket with project
-    const [ticket] = await db
-      .select()
-      .from(tickets)
-      .where(eq(tickets.id, ticketId))
-      .limit(1);
+    const ticket = await findTicketByRef(ticketId);
 
     if (!ticket) {
       return {
@@ -351,7 +565,20 @@ export async function getTicket(ticketId: string) {
       return accessCheck;
     }
 
-    return { success: true, data: ticket };
+    const labelRows = await db
+      .select({ labelId: ticketLabels.labelId })
+      .from(ticketLabels)
+      .where(eq(ticketLabels.ticketId, ticket.id));
+
+    const projectKey = await getProjectKey(ticket.projectId);
+
+    const data: TicketDetail = {
+      ...ticket,
+      key: formatTicketKey(projectKey, ticket.number),
+      labelIds: labelRows.map((row) => row.labelId),
+    };
+
+    return { success: true, data };
   } catch (error) {
     console.error('Error fetching ticket:', error);
     return {
@@ -386,6 +613,30 @@ export async function updateTicket(input: z.infer<typeof updateTicketSchema>) {
       return accessCheck;
     }
 
+    // Descriptions are rendered as HTML, so only the sanitized markup is stored
+    const description =
+      validated.description === undefined
+        ? undefined
+        : validated.description
+          ? sanitizeRichText(validated.description)
+          : null;
+
+    const conflictResult = await checkConflict(existing, validated.baseVersion, user.id, {
+      ...(validated.title !== undefined && { title: validated.title }),
+      ...(description !== undefined && { description }),
+      ...(validated.status !== undefined && { status: validated.status }),
+      ...(validated.priority !== undefined && { priority: validated.priority }),
+      ...(validated.assigneeId !== undefined && { assigneeId: validated.assigneeId }),
+      ...(validated.dueDate !== undefined && {
+        dueDate: validated.dueDate !== null ? new Date(validated.dueDate * 1000) : null,
+      }),
+      ...(validated.points !== undefined && { points: validated.points }),
+      ...(validated.sprintId !== undefined && { sprintId: validated.sprintId }),
+    });
+    if (conflictResult) {
+      return conflictResult;
+    }
+
     // Prepare update data
     const updateData: {
       title?: string;
@@ -395,6 +646,7 @@ export async function updateTicket(input: z.infer<typeof updateTicketSchema>) {
       assigneeId?: string | null;
       dueDate?: Date | null;
       points?: number | null;
+      sprintId?: string | null;
       order?: number;
       updatedAt: Date;
     } = {
@@ -405,14 +657,26 @@ export async function updateTicket(input: z.infer<typeof updateTicketSchema>) {
       updateData.title = validated.title;
     }
 
-    if (validated.description !== undefined) {
-      updateData.description = validated.description || null;
+    if (description !== undefined) {
+      updateData.description = description || null;
     }
 
     if (validated.status !== undefined) {
       updateData.status = validated.status;
       // If status changed, move to end of new column
       if (validated.status !== existing.status) {
+        const statusError = await validateStatusChange(
+          existing.projectId,
+          existing.status,
+          validated.status
+        );
+        if (statusError) {
+          return {
+            success: false,
+            error: statusError,
+          };
+        }
+
         const newOrder = await getNextOrder(
           existing.projectId,
           validated.status
@@ -438,30 +702,123 @@ export async function updateTicket(input: z.infer<typeof updateTicketSchema>) {
       updateData.points = validated.points;
     }
 
-    // Update ticket
+    if (validated.sprintId !== undefined) {
+      if (validated.sprintId !== null) {
+        const [sprint] = await db
+          .select()
+          .from(sprints)
+          .where(eq(sprints.id, validated.sprintId))
+          .limit(1);
+
+        if (!sprint || sprint.projectId !== existing.projectId) {
+          return {
+            success: false,
+            error: 'Sprint not found',
+          };
+        }
+        if (sprint.status === 'completed' && sprint.id !== existing.sprintId) {
+          return {
+            success: false,
+            error: 'Tickets cannot be added to a completed sprint',
+          };
+        }
+      }
+      updateData.sprintId = validated.sprintId;
+    }
+
+    if (validated.labelIds !== undefined) {
+      const labelError = await validateLabels(existing.projectId, validated.labelIds);
+      if (labelError) {
+        return {
+          success: false,
+          error: labelError,
+        };
+      }
+      await setTicketLabels(validated.id, validated.labelIds);
+    }
+
+    // Update ticket, bumping its version when a tracked field changes
+    const changes = diffTicket(existing, updateData);
     const [updated] = await db
       .update(tickets)
-      .set(updateData)
+      .set({
+        ...updateData,
+        ...(changes.length > 0 && { version: sql`${tickets.version} + 1` }),
+      })
       .where(eq(tickets.id, validated.id))
       .returning();
 
+    // Record changed fields in ticket history
+    await recordTicketHistory(validated.id, user.id, changes, updated?.version);
+
+    // New assignees follow the ticket
+    if (updateData.assigneeId && updateData.assigneeId !== existing.assigneeId) {
+      await addTicketWatchers(validated.id, [updateData.assigneeId]);
+    }
+
+    if (updateData.status !== undefined && updateData.status !== existing.status) {
+      await logProjectActivity(existing.projectId, 'moved_ticket', {
+        ticketId: validated.id,
+        details: {
+          ticketTitle: updated?.title ?? existing.title,
+          fromStatus: existing.status,
+          toStatus: updateData.status,
+        },
+      });
+    }
+
     // Revalidate project pages
     if (accessCheck.success && accessCheck.project) {
       revalidatePath(`/projects/${accessCheck.project.slug}`);
       revalidatePath(`/projects/${accessCheck.project.slug}/board`);
       revalidatePath(`/projects/${accessCheck.project.slug}/list`);
+
+      // Notify users newly @mentioned in the description
+      if (updated && validated.description !== undefined) {
+        await syncMentions({
+          ticket: updated,
+          project: accessCheck.project,
+          author: user,
+          content: updated.description,
+        });
+      }
+
+      if (updated && updateData.assigneeId && updateData.assigneeId !== existing.assigneeId) {
+        await notifyUsers({
+          type: 'assigned',
+          recipientIds: [updateData.assigneeId],
+          actor: user,
+          ticket: updated,
+          project: accessCheck.project,
+        });
+      }
+
+      if (updated && updateData.status !== undefined && updateData.status !== existing.status) {
+        await notifyStatusChange({
+          ticket: updated,
+          project: accessCheck.project,
+          actor: user,
+          fromStatus: existing.status,
+          toStatus: updateData.status,
+        });
+      }
     }
 
     // Trigger real-time event
-    await triggerTicketEvent(existing.projectId, events.TICKET_UPDATED, {
-      ticketId: validated.id,
+    await publishTicketChange({
+      event: events.TICKET_UPDATED,
       projectId: existing.projectId,
+      ticketId: validated.id,
       userId: user.id,
+      clientId: validated.clientId,
       data: { title: updated?.title, status: updated?.status },
     });
 
-    // Re-generate embedding if title or description changed (non-blocking)
+    // Re-index and re-embed if title or description changed (embedding is non-blocking)
     if (validated.title !== undefined || validated.description !== undefined) {
+      await indexTicketsForSearch([validated.id]).catch((err) =>
+        console.error('Search indexing failed:', err)
+      );
       embedTicket(validated.id).catch((err) =>
         console.error('Background embedding failed:', err)
       );
@@ -484,9 +841,10 @@ export async function updateTicket(input: z.infer<typeof updateTicketSchema>) {
   }
 }
 
-export async function deleteTicket(ticketId: string) {
+export async function deleteTicket(ticketId: string, options: DeleteTicketOptions = {}) {
   try {
     const user = await getCurrentUser();
+    const { deleteChildren, clientId } = deleteTicketOptionsSchema.parse(options);
 
     // Get existing ticket
     const [existing] = await db
@@ -508,9 +866,43 @@ export async function deleteTicket(ticketId: string) {
       return accessCheck;
     }
 
+    // Either remove the whole subtree or move the children up to the top level
+    const descendantIds = deleteChildren ? await getDescendantIds(ticketId) : [];
+    const detachedChildIds = deleteChildren
+      ? []
+      : (
+          await db
+            .select({ id: tickets.id })
+            .from(tickets)
+            .where(eq(tickets.parentId, ticketId))
+        ).map((child) => child.id);
+    // Parents and blocked tickets lose their links to the deleted rows
+    const relatedTicketIds = await getAffectedTicketIds(existing.projectId, [
+      ticketId,
+      ...descendantIds,
+    ]);
+    if (descendantIds.length > 0) {
+      await db.delete(tickets).where(inArray(tickets.id, descendantIds));
+    } else {
+      await db
+        .update(tickets)
+        .set({ parentId: null, updatedAt: new Date() })
+        .where(eq(tickets.parentId, ticketId));
+    }
+
     // Delete ticket
     await db.delete(tickets).where(eq(tickets.id, ticketId));
 
+    // Drops the deleted tickets from keyword search
+    await indexTicketsForSearch([ticketId, ...descendantIds]).catch((err) =>
+      console.error('Search indexing failed:', err)
+    );
+
+    // Ticket row is gone, so keep its details instead of a ticket reference
+    await logProjectActivity(existing.projectId, 'deleted_ticket', {
+      details: { ticketId, ticketTitle: existing.title, deletedChildren: descendantIds.length },
+    });
+
     // Revalidate project pages
     if (accessCheck.success && accessCheck.project) {
       revalidatePath(`/projects/${accessCheck.project.slug}`);
@@ -519,10 +911,15 @@ export async function deleteTicket(ticketId: string) {
     }
 
     // Trigger real-time event
-    await triggerTicketEvent(existing.projectId, events.TICKET_DELETED, {
-      ticketId: ticketId,
+    await publishTicketChange({
+      event: events.TICKET_DELETED,
       projectId: existing.projectId,
+      ticketId,
       userId: user.id,
+      clientId,
+      changedTicketIds: detachedChildIds,
+      removedTicketIds: [ticketId, ...descendantIds],
+      relatedTicketIds,
     });
 
     return { success: true };
@@ -542,28 +939,53 @@ export async function reorderTicket(
     const user = await getCurrentUser();
     const validated = reorderTicketSchema.parse(input);
 
-    // Verify project permission (update access for reordering)
-    const accessCheck = await verifyProjectPermission(validated.projectId, 'update');
-    if (!accessCheck.success) {
-      return accessCheck;
-    }
-
-    // Get existing ticket
+    // Get existing ticket. The project comes from the ticket, not the
+    // client, so permissions and workflow rules are those of its project.
     const [existing] = await db
       .select()
       .from(tickets)
       .where(eq(tickets.id, validated.ticketId))
       .limit(1);
 
-    if (!existing) {
+    if (!existing || existing.projectId !== validated.projectId) {
       return {
         success: false,
         error: 'Ticket not found',
       };
     }
 
+    // Verify project permission (update access for reordering)
+    const accessCheck = await verifyProjectPermission(existing.projectId, 'update');
+    if (!accessCheck.success) {
+      return accessCheck;
+    }
+
+    // A queued move must not undo someone else's status change
+    const conflictResult = await checkConflict(existing, validated.baseVersion, user.id, {
+      status: validated.newStatus,
+    });
+    if (conflictResult) {
+      return conflictResult;
+    }
+
     const isStatusChange = existing.status !== validated.newStatus;
+
+    if (isStatusChange) {
+      const statusError = await validateStatusChange(
+        existing.projectId,
+        existing.status,
+        validated.newStatus
+      );
+      if (statusError) {
+        return {
+          success: false,
+          error: statusError,
+        };
+      }
+    }
+
     let newOrder = validated.newOrder;
+    let rebalancedTicketIds: string[] | undefined;
 
     // If moving within the same column, calculate order between tickets
     if (!isStatusChange && validated.targetOrder !== undefined) {
@@ -573,7 +995,7 @@ export async function reorderTicket(
         .from(tickets)
         .where(
           and(
-            eq(tickets.projectId, validated.projectId),
+            eq(tickets.projectId, existing.projectId),
             eq(tickets.status, validated.newStatus),
             sql`${tickets.order} > ${aboveOrder}`
           )
@@ -587,18 +1009,19 @@ export async function reorderTicket(
 
         // If gap is too small, rebalance the column
         if (gap < 2) {
-          await rebalanceColumn(validated.projectId, validated.newStatus);
+          await rebalanceColumn(existing.projectId, validated.newStatus);
           // After rebalancing, calculate new order
           const rebalancedTickets = await db
             .select()
             .from(tickets)
             .where(
               and(
-                eq(tickets.projectId, validated.projectId),
+                eq(tickets.projectId, existing.projectId),
                 eq(tickets.status, validated.newStatus)
               )
             )
             .orderBy(tickets.order);
+          rebalancedTicketIds = rebalancedTickets.map((t) => t.id);
 
           const targetIndex = rebalancedTickets.findIndex(
             (t) => t.order === aboveOrder
@@ -616,11 +1039,11 @@ export async function reorderTicket(
         }
       } else {
         // Moving to end of column
-        newOrder = await getNextOrder(validated.projectId, validated.newStatus);
+        newOrder = await getNextOrder(existing.projectId, validated.newStatus);
       }
     } else if (isStatusChange) {
       // Moving to different column - place at end
-      newOrder = await getNextOrder(validated.projectId, validated.newStatus);
+      newOrder = await getNextOrder(existing.projectId, validated.newStatus);
     }
 
     // Update ticket
@@ -630,22 +1053,56 @@ export async function reorderTicket(
         status: validated.newStatus,
         order: Math.floor(newOrder),
         updatedAt: new Date(),
+        ...(isStatusChange && { version: sql`${tickets.version} + 1` }),
       })
       .where(eq(tickets.id, validated.ticketId))
       .returning();
 
+    // Record status change in ticket history (order changes are not tracked)
+    if (isStatusChange) {
+      await recordTicketHistory(
+        validated.ticketId,
+        user.id,
+        diffTicket(existing, { status: validated.newStatus }),
+        updated?.version
+      );
+
+      await logProjectActivity(existing.projectId, 'moved_ticket', {
+        ticketId: validated.ticketId,
+        details: {
+          ticketTitle: existing.title,
+          fromStatus: existing.status,
+          toStatus: validated.newStatus,
+        },
+      });
+    }
+
     // Revalidate project pages
     if (accessCheck.success && accessCheck.project) {
       revalidatePath(`/projects/${accessCheck.project.slug}`);
       revalidatePath(`/projects/${accessCheck.project.slug}/board`);
       revalidatePath(`/projects/${accessCheck.project.slug}/list`);
+
+      if (updated && isStatusChange) {
+        await notifyStatusChange({
+          ticket: updated,
+          project: accessCheck.project,
+          actor: user,
+          fromStatus: existing.status,
+          toStatus: validated.newStatus,
+        });
+      }
     }
 
     // Trigger real-time event
-    await triggerTicketEvent(validated.projectId, events.TICKET_MOVED, {
+    await publishTicketChange({
+      event: events.TICKET_MOVED,
+      projectId: existing.projectId,
       ticketId: validated.ticketId,
-      projectId: validated.projectId,
       userId: user.id,
+      clientId: validated.clientId,
+      // Rebalancing renumbers the rest of the column
+      changedTicketIds: rebalancedTicketIds ?? [validated.ticketId],
       data: { 
         newStatus: validated.newStatus, 
         oldStatus: existing.status,
@@ -0,0 +1,173 @@
+'use server';
+
+import { headers } from 'next/headers';
+import { auth } from '@/lib/auth';
+import { addTicketWatchers } from '@/lib/watchers';
+import {
+  db,
+  ticketWatchers,
+  tickets,
+  projects,
+  users,
+  eq,
+  and,
+  asc,
+} from '@minute/db';
+
+// Get current user session
+async function getCurrentUser() {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    throw new Error('Unauthorized');
+  }
+
+  return session.user;
+}
+
+// Verify project permission (reuse from tickets.ts pattern)
+async function verifyProjectPermission(
+  projectId: string,
+  permission: 'create' | 'read' | 'update' | 'delete' | 'assign' | 'comment'
+) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  const [project] = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  if (!project) {
+    return { success: false, error: 'Project not found' };
+  }
+
+  // For backward compatibility: if no organizationId, check ownership
+  if (!project.organizationId) {
+    if (project.ownerId !== session.user.id) {
+      return { success: false, error: 'Unauthorized' };
+    }
+    return { success: true, project };
+  }
+
+  // Check organization permission - must pass organizationId explicitly
+  const hasPermission = await auth.api.hasPermission({
+    headers: await headers(),
+    body: {
+      organizationId: project.organizationId,
+      permissions: {
+        project: [permission],
+      },
+    },
+  });
+
+  if (!hasPermission) {
+    return { success: false, error: 'Insufficient permissions' };
+  }
+
+  return { success: true, project };
+}
+
+export type TicketWatcherUser = {
+  id: string;
+  name: string;
+  email: string;
+  image: string | null;
+};
+
+// Load a ticket and check that the current user can read its project
+async function verifyTicketAccess(ticketId: string) {
+  const [ticket] = await db
+    .select({ id: tickets.id, projectId: tickets.projectId })
+    .from(tickets)
+    .where(eq(tickets.id, ticketId))
+    .limit(1);
+
+  if (!ticket) {
+    return { success: false, error: 'Ticket not found' };
+  }
+
+  return verifyProjectPermission(ticket.projectId, 'read');
+}
+
+// Get a ticket's watchers and whether the current user is one of them
+export async function getTicketWatchers(ticketId: string) {
+  try {
+    const user = await getCurrentUser();
+
+    const accessCheck = await verifyTicketAccess(ticketId);
+    if (!accessCheck.success) {
+      return accessCheck;
+    }
+
+    const watchers: TicketWatcherUser[] = await db
+      .select({
+        id: users.id,
+        name: users.name,
+        email: users.email,
+        image: users.image,
+      })
+      .from(ticketWatchers)
+      .innerJoin(users, eq(ticketWatchers.userId, users.id))
+      .where(eq(ticketWatchers.ticketId, ticketId))
+      .orderBy(asc(ticketWatchers.createdAt));
+
+    return {
+      success: true,
+      data: {
+        watchers,
+        isWatching: watchers.some((watcher) => watcher.id === user.id),
+      },
+    };
+  } catch (error) {
+    console.error('Error fetching ticket watchers:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch watchers',
+    };
+  }
+}
+
+export async function watchTicket(ticketId: string) {
+  try {
+    const user = await getCurrentUser();
+
+    const accessCheck = await verifyTicketAccess(ticketId);
+    if (!accessCheck.success) {
+      return { success: false, error: accessCheck.error };
+    }
+
+    await addTicketWatchers(ticketId, [user.id]);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error watching ticket:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to watch ticket',
+    };
+  }
+}
+
+export async function unwatchTicket(ticketId: string) {
+  try {
+    const user = await getCurrentUser();
+
+    await db
+      .delete(ticketWatchers)
+      .where(and(eq(ticketWatchers.ticketId, ticketId), eq(ticketWatchers.userId, user.id)));
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error unwatching ticket:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to unwatch ticket',
+    };
+  }
+}
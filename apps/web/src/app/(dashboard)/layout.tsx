@@ -2,6 +2,7 @@ import { headers } from "next/headers";
 import { redirect } from "next/navigation";
 import { auth } from "@/lib/auth";
 import { Sidebar } from "@/components/layout/sidebar";
+import { CommandPaletteProvider } from "@/components/layout/command-palette";
 
 export default async function DashboardLayout({
   children,
@@ -17,9 +18,11 @@ export default async function DashboardLayout({
   }
 
   return (
-    <div className="flex h-screen bg-background overflow-hidden">
-      <Sidebar user={session.user} />
-      <main className="flex flex-1 flex-col min-w-0 overflow-hidden">{children}</main>
-    </div>
+    <CommandPaletteProvider>
+      <div className="flex h-screen bg-background overflow-hidden">
+        <Sidebar user={session.user} />
+        <main className="flex flex-1 flex-col min-w-0 overflow-hidden">{children}</main>
+      </div>
+    </CommandPaletteProvider>
   );
 }
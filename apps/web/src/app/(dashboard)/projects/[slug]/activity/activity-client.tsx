@@ -0,0 +1,190 @@
+"use client";
+
+import { useState, useMemo, useCallback } from "react";
+import { useRouter, useSearchParams, usePathname } from "next/navigation";
+import Link from "next/link";
+import { LayoutGrid, List, Filter, X } from "lucide-react";
+import { Header } from "@/components/layout/header";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  ProjectActivityFeed,
+  projectActivityActionLabels,
+} from "@/components/projects/project-activity-feed";
+import { EditTicketSheet } from "@/components/tickets/edit-ticket-sheet";
+import { useProjectMembers } from "@/hooks/use-projects";
+import { useRealtimeTickets } from "@/hooks/use-realtime";
+import type { ProjectActivityAction } from "@/hooks/use-project-activity";
+
+export function ProjectActivityClient({
+  slug,
+  projectId,
+  projectName,
+}: {
+  slug: string;
+  projectId: string;
+  projectName: string;
+}) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const { data: members = [] } = useProjectMembers(projectId);
+  const [selectedTicketId, setSelectedTicketId] = useState<string | null>(null);
+
+  // Subscribe to real-time ticket updates (refreshes the feed)
+  useRealtimeTickets(projectId);
+
+  const userFilter = searchParams.get("user") || undefined;
+  const actionFilters = useMemo(
+    () =>
+      (searchParams.get("action")?.split(",").filter(Boolean) || []) as ProjectActivityAction[],
+    [searchParams]
+  );
+
+  // Update URL params
+  const updateFilter = useCallback((key: string, value: string | null) => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (value) {
+      params.set(key, value);
+    } else {
+      params.delete(key);
+    }
+    router.replace(`${pathname}?${params.toString()}`);
+  }, [searchParams, pathname, router]);
+
+  const toggleAction = (action: ProjectActivityAction) => {
+    const newValues = actionFilters.includes(action)
+      ? actionFilters.filter((a) => a !== action)
+      : [...actionFilters, action];
+
+    updateFilter("action", newValues.length > 0 ? newValues.join(",") : null);
+  };
+
+  const clearFilters = () => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.delete("user");
+    params.delete("action");
+    router.replace(`${pathname}?${params.toString()}`);
+  };
+
+  const hasFilters = !!userFilter || actionFilters.length > 0;
+
+  return (
+    <>
+      <Header title={projectName}>
+        <Link href={`/projects/${slug}/board`}>
+          <Button variant="outline" size="sm">
+            <LayoutGrid className="mr-2 h-4 w-4" />
+            Board View
+          </Button>
+        </Link>
+        <Link href={`/projects/${slug}/list`}>
+          <Button variant="outline" size="sm">
+            <List className="mr-2 h-4 w-4" />
+            List View
+          </Button>
+        </Link>
+      </Header>
+
+      <div className="px-6 py-4 flex flex-col gap-4 sm:flex-row sm:items-center">
+        <Select
+          value={userFilter || "all"}
+          onValueChange={(value) => updateFilter("user", value === "all" ? null : value)}
+        >
+          <SelectTrigger className="h-9 w-full sm:w-[220px]">
+            <SelectValue placeholder="All members" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All members</SelectItem>
+            {members.map((member) => (
+              <SelectItem key={member.id} value={member.id}>
+                {member.name || member.email}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center gap-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="h-9 border-dashed">
+                <Filter className="mr-2 h-4 w-4" />
+                Action
+                {actionFilters.length > 0 && (
+                  <>
+                    <div className="mx-2 h-4 w-px bg-accent" />
+                    <Badge variant="secondary" className="rounded-sm px-1 font-normal">
+                      {actionFilters.length}
+                    </Badge>
+                  </>
+                )}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="w-[220px]">
+              <DropdownMenuLabel>Filter by action</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {(Object.keys(projectActivityActionLabels) as ProjectActivityAction[]).map((action) => (
+                <DropdownMenuCheckboxItem
+                  key={action}
+                  checked={actionFilters.includes(action)}
+                  onCheckedChange={() => toggleAction(action)}
+                >
+                  {projectActivityActionLabels[action]}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          {hasFilters && (
+            <Button
+              variant="ghost"
+              onClick={clearFilters}
+              className="h-9 px-2 lg:px-3"
+            >
+              Reset
+              <X className="ml-2 h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-3xl rounded-lg border border-border p-6">
+          <ProjectActivityFeed
+            projectId={projectId}
+            userId={userFilter}
+            actions={actionFilters}
+            onTicketClick={setSelectedTicketId}
+          />
+        </div>
+      </div>
+
+      <EditTicketSheet
+        open={!!selectedTicketId}
+        onOpenChange={(open) => {
+          if (!open) {
+            setSelectedTicketId(null);
+          }
+        }}
+        ticketId={selectedTicketId}
+        projectId={projectId}
+        onOpenTicket={setSelectedTicketId}
+      />
+    </>
+  );
+}
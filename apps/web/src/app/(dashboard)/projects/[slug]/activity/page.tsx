@@ -0,0 +1,24 @@
+import { getProject } from "@/actions/projects";
+import { ProjectActivityClient } from "./activity-client";
+import { ErrorBoundary } from "@/components/ui/error-boundary";
+
+interface ActivityPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+export default async function ActivityPage({ params }: ActivityPageProps) {
+  const { slug } = await params;
+  const projectResult = await getProject(slug);
+  const project = projectResult.success ? projectResult.data : null;
+
+  if (!project) {
+    return <div>Project not found</div>;
+  }
+
+  return (
+    <ErrorBoundary>
+      <ProjectActivityClient slug={slug} projectId={project.id} projectName={project.name} />
+    </ErrorBoundary>
+  );
+}
+
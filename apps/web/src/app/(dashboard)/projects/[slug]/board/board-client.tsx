@@ -4,7 +4,7 @@ import { useState, useMemo, useCallback } from "react";
 import { useSearchParams } from "next/navigation";
 import { flushSync } from "react-dom";
 import Link from "next/link";
-import { List, GripVertical, Ticket, SearchX } from "lucide-react";
+import { List, GripVertical, Ticket, SearchX, Activity, Ban, Timer } from "lucide-react";
 import {
   DndContext,
   DragOverlay,
@@ -28,6 +28,7 @@ import {
   verticalListSortingStrategy,
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
+import { toast } from "sonner";
 import { Header } from "@/components/layout/header";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -35,29 +36,29 @@ import { ActionButton } from "@/components/ui/action-button";
 import { CreateTicketDialog } from "@/components/tickets/create-ticket-dialog";
 import { EditTicketSheet } from "@/components/tickets/edit-ticket-sheet";
 import { TicketFilters } from "@/components/tickets/ticket-filters";
+import { LabelChips } from "@/components/tickets/label-chips";
 import { InviteMemberDialog } from "@/components/projects/invite-member-dialog";
 import { EmptyState } from "@/components/ui/empty-state";
+import { PresenceAvatars } from "@/components/layout/presence-avatars";
 import { useTickets, useReorderTicket, ticketKeys } from "@/hooks/use-tickets";
 import { useRealtimeTickets } from "@/hooks/use-realtime";
+import { channels } from "@/lib/realtime/client";
+import { useTicketSearchParam } from "@/hooks/use-ticket-search-param";
+import { useProjectStatuses } from "@/hooks/use-project-statuses";
 import { useQueryClient } from "@tanstack/react-query";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { isTransitionAllowed } from "@minute/db/schema";
 import type { TicketStatus } from "@minute/db";
+import type { TicketLabelChip } from "@/actions/tickets";
 
 // Order gap for calculating new order values
 const ORDER_GAP = 1000;
 
-// Column configuration
-const columns: { id: TicketStatus; name: string; color: string }[] = [
-  { id: "backlog", name: "Backlog", color: "bg-muted" },
-  { id: "todo", name: "Todo", color: "bg-blue-500/10" },
-  { id: "in_progress", name: "In Progress", color: "bg-yellow-500/10" },
-  { id: "done", name: "Done", color: "bg-green-500/10" },
-];
-
 // Type for a ticket
 type Ticket = {
   id: string;
+  key?: string | null;
   title: string;
   priority: string | null;
   points: number | null;
@@ -69,6 +70,14 @@ type Ticket = {
     email: string | null;
     image: string | null;
   } | null;
+  sprintId?: string | null;
+  labels?: TicketLabelChip[];
+  isBlocked?: boolean;
+  childCount?: number;
+  completedChildCount?: number;
+  rolledUpPoints?: number | null;
+  updatedAt?: Date;
+  version?: number;
 };
 
 // Sortable ticket card component
@@ -152,19 +161,54 @@ function SortableTicketCard({
           <GripVertical className="h-4 w-4" />
         </button>
         <div className="flex-1 min-w-0">
+          {ticket.key && (
+            <span className="block font-mono text-[11px] text-muted-foreground">{ticket.key}</span>
+          )}
           <h4 className="font-medium text-sm mb-1 line-clamp-3">{ticket.title}</h4>
+          {ticket.labels && ticket.labels.length > 0 && (
+            <LabelChips labels={ticket.labels} max={3} className="mb-1.5" />
+          )}
           <div className="flex items-center gap-2 flex-wrap">
+            {ticket.isBlocked && (
+              <Badge
+                variant="outline"
+                className="text-xs border-destructive/40 text-destructive"
+                title="Blocked by an unfinished ticket"
+              >
+                <Ban className="h-3 w-3" />
+                Blocked
+              </Badge>
+            )}
             {ticket.priority && (
               <Badge variant="outline" className="text-xs">
                 {ticket.priority}
               </Badge>
             )}
-            {ticket.points !== null && ticket.points !== undefined && (
+            {ticket.rolledUpPoints !== null && ticket.rolledUpPoints !== undefined ? (
+              <Badge variant="secondary" className="text-xs" title="Rolled up from sub-tasks">
+                {ticket.rolledUpPoints} {ticket.rolledUpPoints === 1 ? 'pt' : 'pts'}
+              </Badge>
+            ) : ticket.points !== null && ticket.points !== undefined && (
               <Badge variant="secondary" className="text-xs">
                 {ticket.points} {ticket.points === 1 ? 'pt' : 'pts'}
               </Badge>
             )}
           </div>
+          {!!ticket.childCount && (
+            <div className="flex items-center gap-2 mt-2">
+              <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-muted">
+                <div
+                  className="h-full bg-primary"
+                  style={{
+                    width: `${Math.round(((ticket.completedChildCount ?? 0) / ticket.childCount) * 100)}%`,
+                  }}
+                />
+              </div>
+              <span className="text-xs text-muted-foreground">
+                {ticket.completedChildCount ?? 0}/{ticket.childCount}
+              </span>
+            </div>
+          )}
           {ticket.assignee && (
             <div className="flex items-center gap-1.5 mt-2">
               <Avatar className="h-5 w-5">
@@ -225,17 +269,22 @@ function DroppableColumn({
   id,
   children,
   className,
+  style,
   overId,
   ticketsGrouped,
+  isDropDisabled = false,
 }: {
   id: string;
   children: React.ReactNode;
   className?: string;
+  style?: React.CSSProperties;
   overId: string | null;
   ticketsGrouped?: Record<TicketStatus, Ticket[]>;
+  isDropDisabled?: boolean;
 }) {
   const { setNodeRef, isOver } = useDroppable({
     id,
+    disabled: isDropDisabled,
     data: {
       type: "column",
       status: id,
@@ -258,7 +307,14 @@ function DroppableColumn({
   return (
     <div
       ref={setNodeRef}
-      className={`${className} ${isColumnOver ? "ring-2 ring-primary/30" : ""}`}
+      className={`${className} ${
+        isDropDisabled
+          ? "opacity-50 cursor-not-allowed"
+          : isColumnOver
+            ? "ring-2 ring-primary/30"
+            : ""
+      }`}
+      style={style}
     >
       {children}
     </div>
@@ -276,40 +332,57 @@ export function BoardPageClient({
 }) {
   const searchParams = useSearchParams();
   const queryClient = useQueryClient();
-  const { data: ticketsGrouped, isLoading, error } = useTickets(projectId);
+  const { data: ticketsGrouped, isLoading: isLoadingTickets, error } = useTickets(projectId);
+  const { data: statuses, isLoading: isLoadingStatuses } = useProjectStatuses(projectId);
+  const isLoading = isLoadingTickets || isLoadingStatuses;
   const reorderMutation = useReorderTicket();
   
   // Subscribe to real-time ticket updates
   useRealtimeTickets(projectId); // Enable real-time updates
 
+  // One column per workflow status, in the project's order
+  const columns = useMemo(
+    () =>
+      (statuses || []).map((status) => ({
+        id: status.key,
+        name: status.name,
+        color: status.color,
+      })),
+    [statuses]
+  );
+
   const filteredTicketsGrouped = useMemo(() => {
     if (!ticketsGrouped) return null;
 
     const searchQuery = searchParams.get("search")?.toLowerCase() || "";
     const statusFilter = searchParams.get("status")?.split(",").filter(Boolean) || [];
     const priorityFilter = searchParams.get("priority")?.split(",").filter(Boolean) || [];
+    const sprintFilter = searchParams.get("sprint");
+    const labelFilter = searchParams.get("label")?.split(",").filter(Boolean) || [];
 
-    const filtered: Record<TicketStatus, Ticket[]> = {
-      backlog: [],
-      todo: [],
-      in_progress: [],
-      done: [],
-    };
+    const filtered: Record<TicketStatus, Ticket[]> = {};
 
     Object.entries(ticketsGrouped).forEach(([status, tickets]) => {
       filtered[status as TicketStatus] = tickets.filter((ticket) => {
-        const matchesSearch = ticket.title.toLowerCase().includes(searchQuery);
+        const matchesSearch =
+          ticket.title.toLowerCase().includes(searchQuery) ||
+          !!ticket.key?.toLowerCase().includes(searchQuery);
         const matchesStatus = statusFilter.length === 0 || statusFilter.includes(ticket.status);
         const matchesPriority = priorityFilter.length === 0 || priorityFilter.includes(ticket.priority);
-        return matchesSearch && matchesStatus && matchesPriority;
+        const matchesSprint =
+          !sprintFilter ||
+          (sprintFilter === "backlog" ? !ticket.sprintId : ticket.sprintId === sprintFilter);
+        const matchesLabel =
+          labelFilter.length === 0 ||
+          (ticket.labels ?? []).some((label) => labelFilter.includes(label.id));
+        return matchesSearch && matchesStatus && matchesPriority && matchesSprint && matchesLabel;
       });
     });
 
     return filtered;
   }, [ticketsGrouped, searchParams]);
   
-  const [selectedTicketId, setSelectedTicketId] = useState<string | null>(null);
-  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [selectedTicketId, setSelectedTicketId] = useTicketSearchParam();
   const [activeId, setActiveId] = useState<string | null>(null);
   const [overId, setOverId] = useState<string | null>(null);
   const [overPosition, setOverPosition] = useState<"above" | "below" | null>(null);
@@ -503,6 +576,15 @@ export function BoardPageClient({
         return;
       }
 
+      // Refuse moves the project's workflow doesn't allow
+      if (statuses && !isTransitionAllowed(statuses, sourceStatus, targetStatus)) {
+        const targetName = statuses.find((s) => s.key === targetStatus)?.name ?? targetStatus;
+        const sourceName = statuses.find((s) => s.key === sourceStatus)?.name ?? sourceStatus;
+        toast.error(`Tickets cannot move from ${sourceName} to ${targetName}`);
+        setActiveId(null);
+        return;
+      }
+
       // SYNCHRONOUSLY update cache BEFORE clearing activeId (key to avoiding flicker)
       // flushSync ensures React re-renders DOM before dnd-kit transforms reset
       const previousData = queryClient.getQueryData<Record<TicketStatus, Ticket[]>>(
@@ -515,15 +597,12 @@ export function BoardPageClient({
       );
       
       if (previousData) {
-        const newData: Record<TicketStatus, Ticket[]> = {
-          backlog: [...(previousData.backlog || [])],
-          todo: [...(previousData.todo || [])],
-          in_progress: [...(previousData.in_progress || [])],
-          done: [...(previousData.done || [])],
-        };
+        const newData: Record<TicketStatus, Ticket[]> = Object.fromEntries(
+          Object.entries(previousData).map(([status, tickets]) => [status, [...tickets]])
+        );
 
         // Remove from source column
-        newData[sourceStatus] = newData[sourceStatus].filter(
+        newData[sourceStatus] = (newData[sourceStatus] || []).filter(
           (t) => t.id !== activeTicketId
         );
 
@@ -535,7 +614,7 @@ export function BoardPageClient({
           status: targetStatus, // Always update status - handles both cross-column and same-column
           order: newOrder,
         };
-        newData[targetStatus] = [...newData[targetStatus], updatedTicket].sort(
+        newData[targetStatus] = [...(newData[targetStatus] || []), updatedTicket].sort(
           (a, b) => a.order - b.order
         );
 
@@ -565,6 +644,8 @@ export function BoardPageClient({
             newStatus: targetStatus,
             newOrder,
             targetOrder,
+            // Lets the server spot a status change made while this was queued offline
+            baseVersion: sourceTicket.version,
           },
           {
             // Rollback on error
@@ -581,7 +662,7 @@ export function BoardPageClient({
         setActiveId(null);
       }
     },
-    [ticketsGrouped, projectId, reorderMutation, queryClient]
+    [ticketsGrouped, statuses, projectId, reorderMutation, queryClient]
   );
 
   // Handle drag cancel
@@ -594,12 +675,25 @@ export function BoardPageClient({
   return (
     <>
       <Header title={projectName}>
+        <PresenceAvatars channelName={channels.presenceProject(projectId)} className="mr-2" />
         <Link href={`/projects/${slug}/list`}>
           <Button variant="outline" size="sm">
             <List className="mr-2 h-4 w-4" />
             List View
           </Button>
         </Link>
+        <Link href={`/projects/${slug}/activity`}>
+          <Button variant="outline" size="sm">
+            <Activity className="mr-2 h-4 w-4" />
+            Activity
+          </Button>
+        </Link>
+        <Link href={`/projects/${slug}/sprints`}>
+          <Button variant="outline" size="sm">
+            <Timer className="mr-2 h-4 w-4" />
+            Sprints
+          </Button>
+        </Link>
         <ActionButton
           action="invite"
           entity="project"
@@ -626,17 +720,17 @@ export function BoardPageClient({
       </Header>
 
       <div className="px-6 py-4">
-        <TicketFilters />
+        <TicketFilters projectId={projectId} />
       </div>
 
       {/* Board columns */}
       <div className="flex-1 overflow-x-auto overflow-y-hidden p-6">
         {isLoading ? (
           <div className="flex gap-4 h-full">
-            {columns.map((column) => (
+            {[1, 2, 3, 4].map((i) => (
               <div
-                key={column.id}
-                className={`w-[300px] flex-shrink-0 rounded-lg ${column.color} p-4`}
+                key={i}
+                className="w-[300px] flex-shrink-0 rounded-lg bg-muted p-4"
               >
                 <Skeleton className="h-6 w-24 mb-4" />
                 <Skeleton className="h-20 w-full mb-2" />
@@ -696,17 +790,29 @@ export function BoardPageClient({
               {columns.map((column) => {
                 const tickets = filteredTicketsGrouped?.[column.id] || [];
                 const ticketIds = tickets.map((t) => t.id);
+                const isDropDisabled =
+                  !!activeTicket &&
+                  !!statuses &&
+                  !isTransitionAllowed(statuses, activeTicket.status, column.id);
 
                 return (
                   <DroppableColumn
                     key={column.id}
                     id={column.id}
-                    className={`w-[300px] flex-shrink-0 rounded-lg ${column.color} p-4 transition-all`}
+                    className="w-[300px] flex-shrink-0 rounded-lg p-4 transition-all"
+                    style={{ backgroundColor: `${column.color}1a` }}
                     overId={overId}
                     ticketsGrouped={filteredTicketsGrouped || undefined}
+                    isDropDisabled={isDropDisabled}
                   >
                     <div className="mb-4 flex items-center justify-between">
-                      <h3 className="font-medium">{column.name}</h3>
+                      <div className="flex items-center gap-2">
+                        <span
+                          className="h-2.5 w-2.5 rounded-full"
+                          style={{ backgroundColor: column.color }}
+                        />
+                        <h3 className="font-medium">{column.name}</h3>
+                      </div>
                       <Badge variant="secondary" className="text-xs">
                         {tickets.length}
                       </Badge>
@@ -717,7 +823,7 @@ export function BoardPageClient({
                     >
                       <div className="flex flex-col gap-2 min-h-[100px]">
                         {tickets.length === 0 ? (
-                          activeId && overId === column.id ? (
+                          activeId && overId === column.id && !isDropDisabled ? (
                             // Show full-width placeholder when dragging over empty column
                             <div className="rounded-md border-2 border-dashed border-primary/50 bg-primary/5 h-20 
                                           animate-in fade-in duration-150 flex items-center justify-center">
@@ -733,7 +839,7 @@ export function BoardPageClient({
                         ) : (
                           tickets.map((ticket) => {
                             // Simplified check: are we dragging and hovering over this ticket?
-                            const isDragging = activeId && activeId !== ticket.id;
+                            const isDragging = activeId && activeId !== ticket.id && !isDropDisabled;
                             const isHoveringThis = overId === ticket.id;
                             
                             const showPlaceholderAbove = isDragging && isHoveringThis && overPosition === "above";
@@ -746,7 +852,6 @@ export function BoardPageClient({
                                   ticket={ticket}
                                   onEdit={() => {
                                     setSelectedTicketId(ticket.id);
-                                    setIsEditDialogOpen(true);
                                   }}
                                 />
                                 {showPlaceholderBelow && <DropPlaceholder />}
@@ -781,15 +886,15 @@ export function BoardPageClient({
       </div>
 
       <EditTicketSheet
-        open={isEditDialogOpen}
+        open={!!selectedTicketId}
         onOpenChange={(open) => {
-          setIsEditDialogOpen(open);
           if (!open) {
             setSelectedTicketId(null);
           }
         }}
         ticketId={selectedTicketId}
         projectId={projectId}
+        onOpenTicket={setSelectedTicketId}
       />
     </>
   );
@@ -3,7 +3,7 @@
 import { useState, useMemo } from "react";
 import { useSearchParams } from "next/navigation";
 import Link from "next/link";
-import { LayoutGrid, ArrowUpDown, ArrowUp, ArrowDown, Ticket, SearchX } from "lucide-react";
+import { LayoutGrid, ArrowUpDown, ArrowUp, ArrowDown, Ticket, SearchX, Activity, Timer } from "lucide-react";
 import { format } from "date-fns";
 import { Header } from "@/components/layout/header";
 import { Button } from "@/components/ui/button";
@@ -14,6 +14,14 @@ import { EditTicketSheet } from "@/components/tickets/edit-ticket-sheet";
 import { TicketFilters } from "@/components/tickets/ticket-filters";
 import { EmptyState } from "@/components/ui/empty-state";
 import { useTickets } from "@/hooks/use-tickets";
+import { useProjectStatuses } from "@/hooks/use-project-statuses";
+import { StatusBadge } from "@/components/tickets/status-badge";
+import { SprintSelect } from "@/components/tickets/sprint-select";
+import { LabelChips } from "@/components/tickets/label-chips";
+import { SearchHighlight } from "@/components/tickets/search-highlight";
+import { useSprints } from "@/hooks/use-sprints";
+import { useTicketSearchParam } from "@/hooks/use-ticket-search-param";
+import { useTicketSearch } from "@/hooks/use-search";
 import {
   Table,
   TableBody,
@@ -25,24 +33,9 @@ import {
 import { Skeleton } from "@/components/ui/skeleton";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { cn } from "@/lib/utils";
-import type { TicketStatus, TicketPriority } from "@minute/db";
+import type { TicketPriority } from "@minute/db";
 
 // Helper functions for badge colors
-function getStatusBadgeVariant(status: TicketStatus): string {
-  switch (status) {
-    case "backlog":
-      return "bg-muted text-muted-foreground";
-    case "todo":
-      return "bg-blue-500/10 text-blue-700 dark:text-blue-400 border-blue-500/20";
-    case "in_progress":
-      return "bg-yellow-500/10 text-yellow-700 dark:text-yellow-400 border-yellow-500/20";
-    case "done":
-      return "bg-green-500/10 text-green-700 dark:text-green-400 border-green-500/20";
-    default:
-      return "";
-  }
-}
-
 function getPriorityBadgeVariant(priority: TicketPriority): string {
   switch (priority) {
     case "low":
@@ -76,10 +69,21 @@ function SortIcon({ field, sortField, sortDirection }: { field: SortField; sortF
 export function TicketsTableClient({ slug, projectId, projectName }: { slug: string; projectId: string; projectName: string }) {
   const searchParams = useSearchParams();
   const { data: ticketsGrouped, isLoading, error } = useTickets(projectId);
-  const [selectedTicketId, setSelectedTicketId] = useState<string | null>(null);
-  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const { data: statuses } = useProjectStatuses(projectId);
+  const { data: sprints = [] } = useSprints(projectId);
+  const [selectedTicketId, setSelectedTicketId] = useTicketSearchParam();
   const [sortField, setSortField] = useState<SortField>(null);
   const [sortDirection, setSortDirection] = useState<SortDirection>("asc");
+  const searchQuery = searchParams.get("search")?.trim() || "";
+  const { data: searchResults } = useTicketSearch(projectId, searchQuery, { limit: 100 });
+
+  // Server-side matches for longer queries: keyword (titles, descriptions,
+  // comments) and semantic, best first. Until they arrive, titles are
+  // filtered locally.
+  const searchMatches = useMemo(() => {
+    if (searchQuery.length <= 2 || !searchResults?.success) return null;
+    return new Map(searchResults.data.map((result, index) => [result.ticket.id, { ...result, index }]));
+  }, [searchQuery, searchResults]);
 
   // Flatten grouped tickets into a single array for table display
   const allTickets = ticketsGrouped
@@ -88,17 +92,29 @@ export function TicketsTableClient({ slug, projectId, projectName }: { slug: str
 
   // Filter tickets based on search params
   const filteredTickets = useMemo(() => {
-    const searchQuery = searchParams.get("search")?.toLowerCase() || "";
+    const query = searchQuery.toLowerCase();
     const statusFilter = searchParams.get("status")?.split(",").filter(Boolean) || [];
     const priorityFilter = searchParams.get("priority")?.split(",").filter(Boolean) || [];
+    const sprintFilter = searchParams.get("sprint");
+    const labelFilter = searchParams.get("label")?.split(",").filter(Boolean) || [];
 
     return allTickets.filter((ticket) => {
-      const matchesSearch = ticket.title.toLowerCase().includes(searchQuery);
+      const matchesSearch =
+        (searchMatches
+          ? searchMatches.has(ticket.id)
+          : ticket.title.toLowerCase().includes(query)) ||
+        !!ticket.key?.toLowerCase().includes(query);
       const matchesStatus = statusFilter.length === 0 || statusFilter.includes(ticket.status);
       const matchesPriority = priorityFilter.length === 0 || priorityFilter.includes(ticket.priority);
-      return matchesSearch && matchesStatus && matchesPriority;
+      const matchesSprint =
+        !sprintFilter ||
+        (sprintFilter === "backlog" ? !ticket.sprintId : ticket.sprintId === sprintFilter);
+      const matchesLabel =
+        labelFilter.length === 0 ||
+        ticket.labels.some((label) => labelFilter.includes(label.id));
+      return matchesSearch && matchesStatus && matchesPriority && matchesSprint && matchesLabel;
     });
-  }, [allTickets, searchParams]);
+  }, [allTickets, searchParams, searchQuery, searchMatches]);
 
   // Handle column sorting
   const handleSort = (field: SortField) => {
@@ -114,7 +130,12 @@ export function TicketsTableClient({ slug, projectId, projectName }: { slug: str
 
   // Sort tickets based on current sort field and direction
   const sortedTickets = useMemo(() => {
-    if (!sortField) return filteredTickets;
+    if (!sortField) {
+      if (!searchMatches) return filteredTickets;
+      // Best search matches first; tickets matched only by key go last
+      const position = (id: string) => searchMatches.get(id)?.index ?? Infinity;
+      return [...filteredTickets].sort((a, b) => position(a.id) - position(b.id));
+    }
 
     return [...filteredTickets].sort((a, b) => {
       let aValue: string | number | Date | null;
@@ -126,8 +147,9 @@ export function TicketsTableClient({ slug, projectId, projectName }: { slug: str
           bValue = b.title.toLowerCase();
           break;
         case "status":
-          aValue = a.status;
-          bValue = b.status;
+          // Workflow order rather than alphabetical
+          aValue = statuses?.findIndex((s) => s.key === a.status) ?? 0;
+          bValue = statuses?.findIndex((s) => s.key === b.status) ?? 0;
           break;
         case "priority":
           // Priority order: low < medium < high < urgent
@@ -190,7 +212,7 @@ export function TicketsTableClient({ slug, projectId, projectName }: { slug: str
 
       return sortDirection === "asc" ? comparison : -comparison;
     });
-  }, [filteredTickets, sortField, sortDirection]);
+  }, [filteredTickets, sortField, sortDirection, statuses, searchMatches]);
 
   return (
     <>
@@ -201,6 +223,18 @@ export function TicketsTableClient({ slug, projectId, projectName }: { slug: str
             Board View
           </Button>
         </Link>
+        <Link href={`/projects/${slug}/activity`}>
+          <Button variant="outline" size="sm">
+            <Activity className="mr-2 h-4 w-4" />
+            Activity
+          </Button>
+        </Link>
+        <Link href={`/projects/${slug}/sprints`}>
+          <Button variant="outline" size="sm">
+            <Timer className="mr-2 h-4 w-4" />
+            Sprints
+          </Button>
+        </Link>
         <ActionButton
           action="create"
           entity="ticket"
@@ -215,7 +249,7 @@ export function TicketsTableClient({ slug, projectId, projectName }: { slug: str
       </Header>
 
       <div className="px-6 py-4">
-        <TicketFilters />
+        <TicketFilters projectId={projectId} />
       </div>
 
       {/* Table */}
@@ -329,13 +363,14 @@ export function TicketsTableClient({ slug, projectId, projectName }: { slug: str
                       <SortIcon field="assignee" sortField={sortField} sortDirection={sortDirection} />
                     </button>
                   </TableHead>
+                  <TableHead>Sprint</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {sortedTickets.length === 0 ? (
                   // This case should be handled by the EmptyState above, but keeping as fallback
                   <TableRow>
-                    <TableCell colSpan={6} className="h-24 text-center text-muted-foreground">
+                    <TableCell colSpan={7} className="h-24 text-center text-muted-foreground">
                       No tickets found
                     </TableCell>
                   </TableRow>
@@ -362,26 +397,39 @@ export function TicketsTableClient({ slug, projectId, projectName }: { slug: str
                       return "?";
                     };
 
+                    const match = searchMatches?.get(ticket.id);
+
                     return (
                       <TableRow
                         key={ticket.id}
                         onClick={() => {
                           setSelectedTicketId(ticket.id);
-                          setIsEditDialogOpen(true);
                         }}
                         className="cursor-pointer hover:bg-muted/50"
                       >
-                        <TableCell className="font-medium">{ticket.title}</TableCell>
-                        <TableCell>
-                          <Badge
-                            variant="outline"
-                            className={cn(
-                              "text-xs border",
-                              getStatusBadgeVariant(ticket.status as TicketStatus)
+                        <TableCell className="font-medium">
+                          <div className="flex flex-wrap items-center gap-x-2 gap-y-1">
+                            {ticket.key && (
+                              <span className="font-mono text-xs text-muted-foreground">
+                                {ticket.key}
+                              </span>
                             )}
-                          >
-                            {ticket.status === "in_progress" ? "In Progress" : ticket.status.charAt(0).toUpperCase() + ticket.status.slice(1)}
-                          </Badge>
+                            {match?.title ? (
+                              <SearchHighlight parts={match.title} />
+                            ) : (
+                              <span>{ticket.title}</span>
+                            )}
+                            <LabelChips labels={ticket.labels} max={3} />
+                          </div>
+                          {match?.snippet && (
+                            <SearchHighlight
+                              parts={match.snippet}
+                              className="mt-1 line-clamp-2 block text-xs font-normal text-muted-foreground"
+                            />
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <StatusBadge status={ticket.status} statuses={statuses} />
                         </TableCell>
                         <TableCell>
                           <Badge
@@ -433,6 +481,13 @@ export function TicketsTableClient({ slug, projectId, projectName }: { slug: str
                             <span className="text-muted-foreground text-sm">Unassigned</span>
                           )}
                         </TableCell>
+                        <TableCell onClick={(e) => e.stopPropagation()}>
+                          <SprintSelect
+                            ticketId={ticket.id}
+                            sprintId={ticket.sprintId}
+                            sprints={sprints}
+                          />
+                        </TableCell>
                       </TableRow>
                     );
                   })
@@ -444,15 +499,15 @@ export function TicketsTableClient({ slug, projectId, projectName }: { slug: str
       </div>
 
       <EditTicketSheet
-        open={isEditDialogOpen}
+        open={!!selectedTicketId}
         onOpenChange={(open) => {
-          setIsEditDialogOpen(open);
           if (!open) {
             setSelectedTicketId(null);
           }
         }}
         ticketId={selectedTicketId}
         projectId={projectId}
+        onOpenTicket={setSelectedTicketId}
       />
     </>
   );
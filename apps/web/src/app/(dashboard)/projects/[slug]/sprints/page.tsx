@@ -0,0 +1,24 @@
+import { getProject } from "@/actions/projects";
+import { SprintsClient } from "./sprints-client";
+import { ErrorBoundary } from "@/components/ui/error-boundary";
+
+interface SprintsPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+export default async function SprintsPage({ params }: SprintsPageProps) {
+  const { slug } = await params;
+  const projectResult = await getProject(slug);
+  const project = projectResult.success ? projectResult.data : null;
+
+  if (!project) {
+    return <div>Project not found</div>;
+  }
+
+  return (
+    <ErrorBoundary>
+      <SprintsClient slug={slug} projectId={project.id} projectName={project.name} />
+    </ErrorBoundary>
+  );
+}
+
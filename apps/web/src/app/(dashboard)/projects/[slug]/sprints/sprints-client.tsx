@@ -0,0 +1,342 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import {
+  LayoutGrid,
+  List,
+  Plus,
+  Play,
+  CheckCircle2,
+  Pencil,
+  Trash2,
+  Timer,
+  Loader2,
+} from "lucide-react";
+import { Header } from "@/components/layout/header";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { EmptyState } from "@/components/ui/empty-state";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { SprintDialog, CompleteSprintDialog, BurndownChart } from "@/components/sprints";
+import { cn } from "@/lib/utils";
+import {
+  useSprints,
+  useSprintBurndown,
+  useStartSprint,
+  useDeleteSprint,
+  type SprintWithStats,
+} from "@/hooks/use-sprints";
+import { useRealtimeTickets } from "@/hooks/use-realtime";
+
+const statusBadgeVariant = {
+  planned: "outline",
+  active: "default",
+  completed: "secondary",
+} as const;
+
+function formatRange(sprint: SprintWithStats) {
+  return `${format(sprint.startDate, "MMM d")} – ${format(sprint.endDate, "MMM d, yyyy")}`;
+}
+
+function SprintBurndown({ sprint }: { sprint: SprintWithStats }) {
+  const { data: burndown, isLoading } = useSprintBurndown(sprint.id);
+
+  return (
+    <div className="rounded-lg border border-border p-6 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="font-semibold">{sprint.name} burndown</h2>
+          <p className="text-sm text-muted-foreground">{formatRange(sprint)}</p>
+        </div>
+        {burndown && (
+          <div className="text-right text-sm">
+            <div className="font-medium">
+              {burndown.remainingPoints} / {burndown.totalPoints} pts
+            </div>
+            <div className="text-muted-foreground">remaining</div>
+          </div>
+        )}
+      </div>
+
+      {isLoading || !burndown ? (
+        <div className="h-[220px] rounded-md bg-muted animate-pulse" />
+      ) : (
+        <BurndownChart burndown={burndown} />
+      )}
+
+      <div className="flex items-center gap-4 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1.5">
+          <span className="h-0.5 w-4 bg-primary" />
+          Remaining
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="h-0 w-4 border-t border-dashed border-muted-foreground" />
+          Ideal
+        </span>
+      </div>
+    </div>
+  );
+}
+
+export function SprintsClient({
+  slug,
+  projectId,
+  projectName,
+}: {
+  slug: string;
+  projectId: string;
+  projectName: string;
+}) {
+  const { data: sprints = [], isLoading } = useSprints(projectId);
+  const startSprint = useStartSprint();
+  const deleteSprint = useDeleteSprint();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingSprint, setEditingSprint] = useState<SprintWithStats | null>(null);
+  const [completingSprint, setCompletingSprint] = useState<SprintWithStats | null>(null);
+  const [deletingSprint, setDeletingSprint] = useState<SprintWithStats | null>(null);
+  const [selectedSprintId, setSelectedSprintId] = useState<string | null>(null);
+
+  // Burndown data is rebuilt from ticket history, so keep it fresh
+  useRealtimeTickets(projectId);
+
+  const activeSprint = sprints.find((s) => s.status === "active");
+  const selectedSprint =
+    sprints.find((s) => s.id === selectedSprintId) ??
+    activeSprint ??
+    sprints.filter((s) => s.status === "completed").at(-1);
+
+  const openCreate = () => {
+    setEditingSprint(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (sprint: SprintWithStats) => {
+    setEditingSprint(sprint);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async () => {
+    if (!deletingSprint) return;
+    try {
+      await deleteSprint.mutateAsync(deletingSprint.id);
+      setDeletingSprint(null);
+    } catch {
+      // Error handling is done in the mutation hook
+    }
+  };
+
+  return (
+    <>
+      <Header title={projectName}>
+        <Link href={`/projects/${slug}/board`}>
+          <Button variant="outline" size="sm">
+            <LayoutGrid className="mr-2 h-4 w-4" />
+            Board View
+          </Button>
+        </Link>
+        <Link href={`/projects/${slug}/list`}>
+          <Button variant="outline" size="sm">
+            <List className="mr-2 h-4 w-4" />
+            List View
+          </Button>
+        </Link>
+        <Button size="sm" onClick={openCreate}>
+          <Plus className="mr-2 h-4 w-4" />
+          Create Sprint
+        </Button>
+      </Header>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-6">
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-24 rounded-lg bg-muted animate-pulse" />
+            ))}
+          </div>
+        ) : sprints.length === 0 ? (
+          <EmptyState
+            icon={Timer}
+            title="No sprints yet"
+            description="Plan work in time-boxed iterations and track progress with a burndown chart."
+            action={
+              <Button onClick={openCreate}>
+                <Plus className="mr-2 h-4 w-4" />
+                Create Sprint
+              </Button>
+            }
+          />
+        ) : (
+          <>
+            {selectedSprint && <SprintBurndown sprint={selectedSprint} />}
+
+            <div className="space-y-3">
+              {sprints.map((sprint) => {
+                const progress =
+                  sprint.totalPoints > 0
+                    ? Math.round((sprint.completedPoints / sprint.totalPoints) * 100)
+                    : 0;
+
+                return (
+                  <div
+                    key={sprint.id}
+                    className={cn(
+                      "rounded-lg border border-border p-4 space-y-3 cursor-pointer transition-colors hover:bg-muted/50",
+                      selectedSprint?.id === sprint.id && "border-primary"
+                    )}
+                    onClick={() => setSelectedSprintId(sprint.id)}
+                  >
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0 space-y-1">
+                        <div className="flex items-center gap-2">
+                          <h3 className="font-semibold truncate">{sprint.name}</h3>
+                          <Badge variant={statusBadgeVariant[sprint.status]} className="capitalize">
+                            {sprint.status}
+                          </Badge>
+                        </div>
+                        <p className="text-sm text-muted-foreground">{formatRange(sprint)}</p>
+                        {sprint.goal && <p className="text-sm">{sprint.goal}</p>}
+                      </div>
+
+                      <div
+                        className="flex items-center gap-1 shrink-0"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        {sprint.status !== "completed" && (
+                          <Link href={`/projects/${slug}/board?sprint=${sprint.id}`}>
+                            <Button variant="ghost" size="sm">
+                              <LayoutGrid className="mr-2 h-4 w-4" />
+                              Board
+                            </Button>
+                          </Link>
+                        )}
+                        {sprint.status === "planned" && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => startSprint.mutate(sprint.id)}
+                            disabled={!!activeSprint || startSprint.isPending}
+                            title={activeSprint ? "Complete the active sprint first" : undefined}
+                          >
+                            <Play className="mr-2 h-4 w-4" />
+                            Start
+                          </Button>
+                        )}
+                        {sprint.status === "active" && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setCompletingSprint(sprint)}
+                          >
+                            <CheckCircle2 className="mr-2 h-4 w-4" />
+                            Complete
+                          </Button>
+                        )}
+                        {sprint.status !== "completed" && (
+                          <Button variant="ghost" size="icon" onClick={() => openEdit(sprint)}>
+                            <Pencil className="h-4 w-4" />
+                            <span className="sr-only">Edit sprint</span>
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setDeletingSprint(sprint)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">Delete sprint</span>
+                        </Button>
+                      </div>
+                    </div>
+
+                    <div className="space-y-1">
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>
+                          {sprint.completedTicketCount}/{sprint.ticketCount} tickets
+                        </span>
+                        <span>
+                          {sprint.completedPoints}/{sprint.totalPoints} pts
+                        </span>
+                      </div>
+                      <div className="h-1.5 w-full overflow-hidden rounded-full bg-muted">
+                        <div
+                          className="h-full bg-primary transition-all"
+                          style={{ width: `${progress}%` }}
+                        />
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+
+      <SprintDialog
+        key={editingSprint?.id ?? "new"}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        projectId={projectId}
+        sprint={editingSprint ?? undefined}
+        suggestedName={`Sprint ${sprints.length + 1}`}
+      />
+
+      {completingSprint && (
+        <CompleteSprintDialog
+          key={completingSprint.id}
+          open={!!completingSprint}
+          onOpenChange={(open) => !open && setCompletingSprint(null)}
+          sprint={completingSprint}
+          sprints={sprints}
+        />
+      )}
+
+      <AlertDialog
+        open={!!deletingSprint}
+        onOpenChange={(open) => !open && !deleteSprint.isPending && setDeletingSprint(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deletingSprint?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tickets in this sprint will be moved back to the backlog. This action cannot
+              be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteSprint.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleDelete();
+              }}
+              disabled={deleteSprint.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleteSprint.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                "Delete"
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,56 @@
+import { redirect } from "next/navigation";
+import { getProject } from "@/actions/projects";
+import { getTicket } from "@/actions/tickets";
+import { getComments } from "@/actions/comments";
+import { getAttachments } from "@/actions/attachments";
+import { getTicketHistory } from "@/actions/ticket-history";
+import { TicketDetailClient } from "./ticket-detail-client";
+import { ErrorBoundary } from "@/components/ui/error-boundary";
+
+interface TicketPageProps {
+  params: Promise<{ slug: string; id: string }>;
+}
+
+// Accepts a ticket ID or key (e.g. /projects/minute/tickets/MIN-123)
+export default async function TicketPage({ params }: TicketPageProps) {
+  const { slug, id } = await params;
+  const projectResult = await getProject(slug);
+  const project = projectResult.success ? projectResult.data : null;
+
+  if (!project) {
+    return <div>Project not found</div>;
+  }
+
+  const ref = decodeURIComponent(id);
+  const ticketResult = await getTicket(ref);
+  const ticket = ticketResult.success && "data" in ticketResult ? ticketResult.data : null;
+
+  if (!ticket || ticket.projectId !== project.id) {
+    return <div>Ticket not found</div>;
+  }
+
+  // The key is the canonical URL
+  if (ticket.key && ref !== ticket.key) {
+    redirect(`/projects/${slug}/tickets/${ticket.key}`);
+  }
+
+  const [commentsResult, attachments, historyResult] = await Promise.all([
+    getComments(ticket.id),
+    getAttachments(ticket.id),
+    getTicketHistory(ticket.id),
+  ]);
+
+  return (
+    <ErrorBoundary>
+      <TicketDetailClient
+        slug={slug}
+        projectId={project.id}
+        projectName={project.name}
+        ticket={ticket}
+        initialComments={commentsResult.success ? commentsResult.data : undefined}
+        initialAttachments={attachments}
+        initialHistory={historyResult.success ? historyResult.data : undefined}
+      />
+    </ErrorBoundary>
+  );
+}
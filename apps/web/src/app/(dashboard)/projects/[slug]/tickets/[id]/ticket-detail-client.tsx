@@ -0,0 +1,275 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import {
+  LayoutGrid,
+  List,
+  Link2,
+  Pencil,
+  MessageSquare,
+  History,
+  SearchX,
+} from "lucide-react";
+import { Header } from "@/components/layout/header";
+import { Button } from "@/components/ui/button";
+import { EmptyState } from "@/components/ui/empty-state";
+import { RichTextViewer } from "@/components/ui/rich-text-editor";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { StatusBadge } from "@/components/tickets/status-badge";
+import { LabelChips } from "@/components/tickets/label-chips";
+import { EditTicketSheet } from "@/components/tickets/edit-ticket-sheet";
+import { CommentsSection } from "@/components/tickets/comments-section";
+import { AttachmentsSection } from "@/components/tickets/attachments-section";
+import { LinkedTicketsSection } from "@/components/tickets/linked-tickets-section";
+import { SubtasksSection } from "@/components/tickets/subtasks-section";
+import { TicketTimeline } from "@/components/tickets/ticket-timeline";
+import { WatchButton } from "@/components/tickets/watch-button";
+import { PresenceAvatars } from "@/components/layout/presence-avatars";
+import { cn } from "@/lib/utils";
+import { useTicket } from "@/hooks/use-tickets";
+import { useProjectStatuses } from "@/hooks/use-project-statuses";
+import { useProjectMembers } from "@/hooks/use-projects";
+import { useSprints } from "@/hooks/use-sprints";
+import { useLabels } from "@/hooks/use-labels";
+import { useRealtimeTicketDetail } from "@/hooks/use-realtime";
+import { channels } from "@/lib/realtime/client";
+import type { CommentList } from "@/hooks/use-comments";
+import type { TicketHistoryEntry } from "@/hooks/use-ticket-history";
+import type { TicketDetail } from "@/actions/tickets";
+import type { Attachment } from "@/actions/attachments";
+
+interface TicketDetailClientProps {
+  slug: string;
+  projectId: string;
+  projectName: string;
+  ticket: TicketDetail;
+  initialComments?: CommentList;
+  initialAttachments?: Attachment[];
+  initialHistory?: TicketHistoryEntry[];
+}
+
+function DetailRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex items-center justify-between gap-4 py-2 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <div className="text-right">{children}</div>
+    </div>
+  );
+}
+
+export function TicketDetailClient({
+  slug,
+  projectId,
+  projectName,
+  ticket: serverTicket,
+  initialComments,
+  initialAttachments,
+  initialHistory,
+}: TicketDetailClientProps) {
+  const router = useRouter();
+  const { data: ticket = serverTicket, error } = useTicket(serverTicket.id, {
+    initialData: serverTicket,
+  });
+  const { data: statuses } = useProjectStatuses(projectId);
+  const { data: members = [] } = useProjectMembers(projectId);
+  const { data: sprints = [] } = useSprints(projectId);
+  const { data: labels = [] } = useLabels(projectId);
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [activityTab, setActivityTab] = useState<"comments" | "timeline">("comments");
+
+  // Subscribe to real-time ticket and comment updates
+  useRealtimeTicketDetail(projectId, serverTicket.id);
+
+  const assignee = members.find((m) => m.id === ticket.assigneeId);
+  const sprint = sprints.find((s) => s.id === ticket.sprintId);
+  const ticketLabels = labels.filter((label) => ticket.labelIds.includes(label.id));
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success("Link copied");
+    } catch {
+      toast.error("Failed to copy link");
+    }
+  };
+
+  // Sub-tasks and linked tickets open as their own page
+  const openTicket = (ticketId: string) => {
+    router.push(`/projects/${slug}/tickets/${ticketId}`);
+  };
+
+  return (
+    <>
+      <Header title={projectName}>
+        {!error && (
+          <PresenceAvatars channelName={channels.presenceTicket(ticket.id)} className="mr-2" />
+        )}
+        <Link href={`/projects/${slug}/board`}>
+          <Button variant="outline" size="sm">
+            <LayoutGrid className="mr-2 h-4 w-4" />
+            Board View
+          </Button>
+        </Link>
+        <Link href={`/projects/${slug}/list`}>
+          <Button variant="outline" size="sm">
+            <List className="mr-2 h-4 w-4" />
+            List View
+          </Button>
+        </Link>
+        <Button variant="outline" size="sm" onClick={handleCopyLink}>
+          <Link2 className="mr-2 h-4 w-4" />
+          Copy Link
+        </Button>
+        {!error && <WatchButton ticketId={ticket.id} />}
+        <Button size="sm" onClick={() => setIsEditOpen(true)} disabled={!!error}>
+          <Pencil className="mr-2 h-4 w-4" />
+          Edit
+        </Button>
+      </Header>
+
+      <div className="flex-1 overflow-y-auto p-6">
+        {error ? (
+          <EmptyState
+            icon={SearchX}
+            title="Ticket not found"
+            description="This ticket may have been deleted or you no longer have access to it."
+            action={
+              <Link href={`/projects/${slug}/board`}>
+                <Button variant="outline">Back to board</Button>
+              </Link>
+            }
+          />
+        ) : (
+          <div className="mx-auto grid max-w-5xl gap-8 lg:grid-cols-[1fr_260px]">
+            <div className="min-w-0 space-y-6">
+              <div className="space-y-2">
+                {ticket.key && (
+                  <span className="font-mono text-sm text-muted-foreground">{ticket.key}</span>
+                )}
+                <h2 className="text-2xl font-semibold">{ticket.title}</h2>
+                <LabelChips labels={ticketLabels} />
+              </div>
+
+              {ticket.description ? (
+                <RichTextViewer content={ticket.description} />
+              ) : (
+                <p className="text-sm text-muted-foreground">No description</p>
+              )}
+
+              <div className="pt-4 border-t">
+                <SubtasksSection
+                  ticketId={ticket.id}
+                  projectId={projectId}
+                  onOpenTicket={openTicket}
+                />
+              </div>
+              <div className="pt-4 border-t">
+                <LinkedTicketsSection
+                  ticketId={ticket.id}
+                  projectId={projectId}
+                  onOpenTicket={openTicket}
+                />
+              </div>
+              <div className="pt-4 border-t">
+                <AttachmentsSection ticketId={ticket.id} initialAttachments={initialAttachments} />
+              </div>
+              <div className="pt-4 border-t space-y-4">
+                <div className="flex gap-1 rounded-md bg-muted p-1 w-fit">
+                  <Button
+                    type="button"
+                    variant={activityTab === "comments" ? "secondary" : "ghost"}
+                    size="sm"
+                    className={cn("h-7", activityTab === "comments" && "bg-background shadow-sm")}
+                    onClick={() => setActivityTab("comments")}
+                  >
+                    <MessageSquare className="mr-2 h-3.5 w-3.5" />
+                    Comments
+                  </Button>
+                  <Button
+                    type="button"
+                    variant={activityTab === "timeline" ? "secondary" : "ghost"}
+                    size="sm"
+                    className={cn("h-7", activityTab === "timeline" && "bg-background shadow-sm")}
+                    onClick={() => setActivityTab("timeline")}
+                  >
+                    <History className="mr-2 h-3.5 w-3.5" />
+                    Timeline
+                  </Button>
+                </div>
+                {activityTab === "comments" ? (
+                  <CommentsSection
+                    ticketId={ticket.id}
+                    projectId={projectId}
+                    initialComments={initialComments}
+                  />
+                ) : (
+                  <TicketTimeline
+                    ticketId={ticket.id}
+                    projectId={projectId}
+                    initialHistory={initialHistory}
+                    initialComments={initialComments}
+                  />
+                )}
+              </div>
+            </div>
+
+            <aside className="h-fit rounded-lg border p-4 divide-y">
+              <DetailRow label="Status">
+                <StatusBadge status={ticket.status} statuses={statuses} />
+              </DetailRow>
+              <DetailRow label="Priority">
+                <span className="capitalize">{ticket.priority}</span>
+              </DetailRow>
+              <DetailRow label="Assignee">
+                {assignee ? (
+                  <span className="flex items-center gap-2">
+                    <Avatar className="h-5 w-5">
+                      <AvatarImage src={assignee.image || undefined} alt={assignee.name || ""} />
+                      <AvatarFallback className="text-[10px]">
+                        {(assignee.name || assignee.email || "?").charAt(0).toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                    {assignee.name || assignee.email}
+                  </span>
+                ) : (
+                  <span className="text-muted-foreground">Unassigned</span>
+                )}
+              </DetailRow>
+              <DetailRow label="Points">
+                {ticket.points ?? <span className="text-muted-foreground">None</span>}
+              </DetailRow>
+              <DetailRow label="Due date">
+                {ticket.dueDate ? (
+                  format(new Date(ticket.dueDate), "MMM d, yyyy")
+                ) : (
+                  <span className="text-muted-foreground">None</span>
+                )}
+              </DetailRow>
+              <DetailRow label="Sprint">
+                {sprint ? sprint.name : <span className="text-muted-foreground">Backlog</span>}
+              </DetailRow>
+              <DetailRow label="Created">
+                {format(new Date(ticket.createdAt), "MMM d, yyyy")}
+              </DetailRow>
+              <DetailRow label="Updated">
+                {format(new Date(ticket.updatedAt), "MMM d, yyyy")}
+              </DetailRow>
+            </aside>
+          </div>
+        )}
+      </div>
+
+      <EditTicketSheet
+        open={isEditOpen}
+        onOpenChange={setIsEditOpen}
+        ticketId={ticket.id}
+        projectId={projectId}
+        onOpenTicket={openTicket}
+      />
+    </>
+  );
+}
@@ -0,0 +1,27 @@
+import { backfillCommentFormats } from "@/lib/rich-text";
+
+// Sanitizes comments written by the editor before comments had a format and
+// marks them as HTML. Call once after pushing the format column with
+// `Authorization: Bearer $CRON_SECRET`; later calls find nothing to do.
+export async function GET(request: Request) {
+  const cronSecret = process.env.CRON_SECRET;
+  const isDevelopment = process.env.NODE_ENV === "development";
+
+  // Development allows unauthenticated calls so the backfill can be run locally
+  if (!isDevelopment && (!cronSecret || request.headers.get("authorization") !== `Bearer ${cronSecret}`)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await backfillCommentFormats();
+    return Response.json(result);
+  } catch (error) {
+    console.error("Error backfilling comment formats:", error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Failed to backfill comment formats" },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = "nodejs";
@@ -0,0 +1,27 @@
+import { sanitizeTicketDescriptions } from "@/lib/rich-text";
+
+// Sanitizes ticket descriptions stored before descriptions were sanitized on
+// save. Call once after upgrading with `Authorization: Bearer $CRON_SECRET`;
+// later calls find nothing to do.
+export async function GET(request: Request) {
+  const cronSecret = process.env.CRON_SECRET;
+  const isDevelopment = process.env.NODE_ENV === "development";
+
+  // Development allows unauthenticated calls so the backfill can be run locally
+  if (!isDevelopment && (!cronSecret || request.headers.get("authorization") !== `Bearer ${cronSecret}`)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await sanitizeTicketDescriptions();
+    return Response.json(result);
+  } catch (error) {
+    console.error("Error sanitizing ticket descriptions:", error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Failed to sanitize ticket descriptions" },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = "nodejs";
@@ -0,0 +1,18 @@
+import { sendDailyDigests } from "@/lib/notification-emails";
+
+// Sends daily notification digests. Call once a day from a scheduler
+// (e.g. Vercel Cron) with `Authorization: Bearer $CRON_SECRET`.
+export async function GET(request: Request) {
+  const cronSecret = process.env.CRON_SECRET;
+  const isDevelopment = process.env.NODE_ENV === "development";
+
+  // Development allows unauthenticated calls so digests can be tested offline
+  if (!isDevelopment && (!cronSecret || request.headers.get("authorization") !== `Bearer ${cronSecret}`)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const result = await sendDailyDigests();
+  return Response.json(result);
+}
+
+export const runtime = "nodejs";
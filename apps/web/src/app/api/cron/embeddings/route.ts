@@ -0,0 +1,29 @@
+import { reembedTickets } from "@/lib/ticket-embeddings";
+
+// Re-embeds tickets whose embeddings came from another model and fills the
+// native vector column for older rows. Call after changing the embedding
+// provider or pushing the vector column (and on a schedule to backfill new
+// tickets) with `Authorization: Bearer $CRON_SECRET`, repeating while
+// `hasMore` is true.
+export async function GET(request: Request) {
+  const cronSecret = process.env.CRON_SECRET;
+  const isDevelopment = process.env.NODE_ENV === "development";
+
+  // Development allows unauthenticated calls so re-embedding can be run locally
+  if (!isDevelopment && (!cronSecret || request.headers.get("authorization") !== `Bearer ${cronSecret}`)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await reembedTickets();
+    return Response.json(result);
+  } catch (error) {
+    console.error("Error re-embedding tickets:", error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Failed to re-embed tickets" },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = "nodejs";
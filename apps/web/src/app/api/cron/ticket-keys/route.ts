@@ -0,0 +1,27 @@
+import { backfillProjectKeys } from "@minute/db";
+
+// Gives projects created before ticket keys a key and numbers their tickets.
+// Call once after upgrading (reads no longer backfill keys) with
+// `Authorization: Bearer $CRON_SECRET`; later calls find nothing to do.
+export async function GET(request: Request) {
+  const cronSecret = process.env.CRON_SECRET;
+  const isDevelopment = process.env.NODE_ENV === "development";
+
+  // Development allows unauthenticated calls so the backfill can be run locally
+  if (!isDevelopment && (!cronSecret || request.headers.get("authorization") !== `Bearer ${cronSecret}`)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await backfillProjectKeys();
+    return Response.json(result);
+  } catch (error) {
+    console.error("Error backfilling ticket keys:", error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Failed to backfill ticket keys" },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = "nodejs";
@@ -0,0 +1,86 @@
+import { z } from "zod";
+import { db, tickets, projects, users, eq } from "@minute/db";
+import { notifyUsers, notifyStatusChange } from "@/lib/notifications";
+import { getTicketWatcherIds } from "@/lib/watchers";
+
+const ticketActivitySchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("created"), ticketId: z.string(), userId: z.string() }),
+  z.object({
+    type: z.literal("status_changed"),
+    ticketId: z.string(),
+    userId: z.string(),
+    fromStatus: z.string(),
+    toStatus: z.string(),
+  }),
+  z.object({
+    type: z.literal("commented"),
+    ticketId: z.string(),
+    userId: z.string(),
+    commentId: z.string(),
+  }),
+]);
+
+// Sends the notifications the ticket and comment actions send, for changes
+// made outside the web app (the MCP server). Called with
+// `Authorization: Bearer $MCP_APP_SECRET`.
+export async function POST(request: Request) {
+  const appSecret = process.env.MCP_APP_SECRET;
+  if (!appSecret || request.headers.get("authorization") !== `Bearer ${appSecret}`) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const parsed = ticketActivitySchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid ticket activity", details: parsed.error.issues }, { status: 400 });
+  }
+  const activity = parsed.data;
+
+  const [row] = await db
+    .select({ ticket: tickets, project: projects })
+    .from(tickets)
+    .innerJoin(projects, eq(tickets.projectId, projects.id))
+    .where(eq(tickets.id, activity.ticketId))
+    .limit(1);
+
+  const [actor] = await db
+    .select({ id: users.id, name: users.name })
+    .from(users)
+    .where(eq(users.id, activity.userId))
+    .limit(1);
+
+  if (!row || !actor) {
+    return Response.json({ error: "Ticket or user not found" }, { status: 404 });
+  }
+  const { ticket, project } = row;
+
+  if (activity.type === "created") {
+    await notifyUsers({
+      type: "assigned",
+      recipientIds: [ticket.assigneeId],
+      actor,
+      ticket,
+      project,
+    });
+  } else if (activity.type === "status_changed") {
+    await notifyStatusChange({
+      ticket,
+      project,
+      actor,
+      fromStatus: activity.fromStatus,
+      toStatus: activity.toStatus,
+    });
+  } else {
+    await notifyUsers({
+      type: "commented",
+      recipientIds: await getTicketWatcherIds(ticket.id),
+      actor,
+      ticket,
+      project,
+      commentId: activity.commentId,
+    });
+  }
+
+  return Response.json({ success: true });
+}
+
+export const runtime = "nodejs";
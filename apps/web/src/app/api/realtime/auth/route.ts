@@ -0,0 +1,53 @@
+import { auth } from "@/lib/auth";
+import { getRealtimeTransport } from "@/lib/realtime/server";
+import {
+  isPresenceChannel,
+  requiresAuthorization,
+  verifyChannelAccess,
+} from "@/lib/realtime/channel-access";
+
+// Pusher channel authorization endpoint. pusher-js posts the socket id and
+// channel name here before subscribing to a private or presence channel.
+// Presence subscriptions are signed with the member's id, name and avatar.
+export async function POST(request: Request) {
+  const session = await auth.api.getSession({ headers: request.headers });
+  if (!session) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const form = await request.formData();
+  const socketId = form.get("socket_id");
+  const channelName = form.get("channel_name");
+  if (typeof socketId !== "string" || typeof channelName !== "string") {
+    return Response.json({ error: "socket_id and channel_name are required" }, { status: 400 });
+  }
+
+  if (!requiresAuthorization(channelName)) {
+    return Response.json({ error: "Channel does not require authorization" }, { status: 400 });
+  }
+
+  const accessCheck = await verifyChannelAccess(channelName);
+  if (!accessCheck.success) {
+    return Response.json({ error: accessCheck.error }, { status: 403 });
+  }
+
+  const transport = getRealtimeTransport();
+  if (!transport.authorizeChannel) {
+    return Response.json(
+      { error: `The ${transport.name} transport does not use channel authorization` },
+      { status: 400 }
+    );
+  }
+
+  const member = isPresenceChannel(channelName)
+    ? {
+        userId: session.user.id,
+        userName: session.user.name,
+        userImage: session.user.image ?? undefined,
+      }
+    : undefined;
+
+  return Response.json(transport.authorizeChannel(socketId, channelName, member));
+}
+
+export const runtime = "nodejs";
@@ -0,0 +1,80 @@
+import { auth } from "@/lib/auth";
+import { subscribeToChannels } from "@/lib/realtime/sse-server";
+import { verifyChannelAccess } from "@/lib/realtime/channel-access";
+import type { RealtimeMessage } from "@/lib/realtime/events";
+
+// Keeps proxies from closing idle streams
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+// Server-Sent Events stream for the built-in realtime transport.
+// GET /api/realtime/events?channel=project-123&channel=user-456
+export async function GET(request: Request) {
+  const session = await auth.api.getSession({ headers: request.headers });
+  if (!session) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const channelNames = new URL(request.url).searchParams.getAll("channel");
+  if (channelNames.length === 0) {
+    return new Response("At least one channel is required", { status: 400 });
+  }
+
+  // Same checks Pusher makes through /api/realtime/auth
+  for (const channelName of channelNames) {
+    const accessCheck = await verifyChannelAccess(channelName);
+    if (!accessCheck.success) {
+      return new Response(accessCheck.error, { status: 403 });
+    }
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed
+          cleanup();
+        }
+      };
+
+      const unsubscribe = subscribeToChannels(channelNames, (message: RealtimeMessage) => {
+        send(`data: ${JSON.stringify(message)}\n\n`);
+      });
+      const heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+
+      // Tell the client how long to wait before reconnecting
+      send("retry: 3000\n\n");
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
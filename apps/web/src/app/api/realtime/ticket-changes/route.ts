@@ -0,0 +1,42 @@
+import { z } from "zod";
+import { db, tickets, eq } from "@minute/db";
+import { events } from "@/lib/realtime/server";
+import { publishTicketChange } from "@/lib/ticket-events";
+
+const ticketChangeSchema = z.object({
+  event: z.enum([events.TICKET_CREATED, events.TICKET_UPDATED]),
+  ticketId: z.string(),
+  userId: z.string(),
+  data: z.record(z.string(), z.unknown()).optional(),
+});
+
+// Publishes ticket changes made outside the web app (the MCP server) on the
+// project channel, so open boards update as they do for changes made here.
+// Called with `Authorization: Bearer $MCP_APP_SECRET`.
+export async function POST(request: Request) {
+  const appSecret = process.env.MCP_APP_SECRET;
+  if (!appSecret || request.headers.get("authorization") !== `Bearer ${appSecret}`) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const parsed = ticketChangeSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid ticket change", details: parsed.error.issues }, { status: 400 });
+  }
+
+  const [ticket] = await db
+    .select({ projectId: tickets.projectId })
+    .from(tickets)
+    .where(eq(tickets.id, parsed.data.ticketId))
+    .limit(1);
+
+  if (!ticket) {
+    return Response.json({ error: "Ticket not found" }, { status: 404 });
+  }
+
+  await publishTicketChange({ ...parsed.data, projectId: ticket.projectId });
+
+  return Response.json({ success: true });
+}
+
+export const runtime = "nodejs";
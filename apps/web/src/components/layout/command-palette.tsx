@@ -0,0 +1,464 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import {
+  Activity,
+  ArrowLeftRight,
+  FolderKanban,
+  LayoutGrid,
+  List,
+  Plus,
+  Sparkles,
+  Ticket,
+  Timer,
+  Users,
+} from "lucide-react";
+import {
+  Command,
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandLoading,
+} from "@/components/ui/command";
+import { CreateTicketDialog } from "@/components/tickets/create-ticket-dialog";
+import { useProject, useProjects } from "@/hooks/use-projects";
+import { useTeams } from "@/hooks/use-teams";
+import { useTickets } from "@/hooks/use-tickets";
+import { useSemanticSearch } from "@/hooks/use-search";
+
+const RECENT_STORAGE_KEY = "minute-command-palette-recent";
+const MAX_RECENT = 8;
+const MAX_PER_GROUP = 6;
+
+const icons = {
+  ticket: Ticket,
+  similar: Sparkles,
+  project: FolderKanban,
+  team: Users,
+  create: Plus,
+  switch: ArrowLeftRight,
+  board: LayoutGrid,
+  list: List,
+  sprints: Timer,
+  activity: Activity,
+};
+
+type PalettePage = "create-ticket" | "switch-team";
+
+type PaletteTarget =
+  | { type: "navigate"; href: string }
+  | { type: "create-ticket"; projectId: string }
+  | { type: "page"; page: PalettePage };
+
+// Items are plain data so recent ones can be kept in localStorage and run
+// again without the lists they came from being loaded
+type PaletteItem = {
+  id: string;
+  label: string;
+  hint?: string;
+  // Extra text the query is matched against, e.g. a project's key
+  keywords?: string;
+  icon: keyof typeof icons;
+  target: PaletteTarget;
+};
+
+const pagePlaceholders: Record<PalettePage, string> = {
+  "create-ticket": "Create a ticket in which project?",
+  "switch-team": "Switch to which team?",
+};
+
+function readRecentItems(): PaletteItem[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveRecentItem(item: PaletteItem) {
+  const recent = [item, ...readRecentItems().filter((r) => r.id !== item.id)].slice(0, MAX_RECENT);
+  try {
+    localStorage.setItem(RECENT_STORAGE_KEY, JSON.stringify(recent));
+  } catch {
+    // Storage full or disabled; recents just aren't remembered
+  }
+  return recent;
+}
+
+// 0 when the item doesn't match. Label prefixes beat word prefixes, which
+// beat matches anywhere in the label, hint or keywords.
+function matchScore(item: PaletteItem, query: string) {
+  if (!query) return 1;
+  const label = item.label.toLowerCase();
+  if (label.startsWith(query)) return 4;
+  if (label.split(/\s+/).some((word) => word.startsWith(query))) return 3;
+  if (label.includes(query)) return 2;
+  return `${item.hint ?? ""} ${item.keywords ?? ""}`.toLowerCase().includes(query) ? 1 : 0;
+}
+
+// Matching items, recently used ones first, then by match quality
+function rankItems(items: PaletteItem[], query: string, recentIds: string[], limit = MAX_PER_GROUP) {
+  const recency = (id: string) => {
+    const index = recentIds.indexOf(id);
+    return index === -1 ? Infinity : index;
+  };
+  return items
+    .map((item, index) => ({ item, index, score: matchScore(item, query) }))
+    .filter((entry) => entry.score > 0)
+    .sort(
+      (a, b) =>
+        recency(a.item.id) - recency(b.item.id) || b.score - a.score || a.index - b.index
+    )
+    .slice(0, limit)
+    .map((entry) => entry.item);
+}
+
+const CommandPaletteContext = createContext<{ openPalette: () => void } | null>(null);
+
+// Opens the command palette, e.g. from a header button
+export function useCommandPalette() {
+  const context = useContext(CommandPaletteContext);
+  if (!context) {
+    throw new Error("useCommandPalette must be used within CommandPaletteProvider");
+  }
+  return context;
+}
+
+// Cmd+K (Ctrl+K) palette for jumping to projects, tickets and teams and
+// running common actions. Mounted once by the dashboard layout.
+export function CommandPaletteProvider({ children }: { children: React.ReactNode }) {
+  const [open, setOpen] = useState(false);
+  const [page, setPage] = useState<PalettePage | null>(null);
+  const [search, setSearch] = useState("");
+  const [recentItems, setRecentItems] = useState<PaletteItem[]>([]);
+  const [createTicketProjectId, setCreateTicketProjectId] = useState<string | null>(null);
+
+  const openPalette = useCallback(() => {
+    setRecentItems(readRecentItems());
+    setPage(null);
+    setSearch("");
+    setOpen(true);
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey) && !e.altKey) {
+        e.preventDefault();
+        if (open) {
+          setOpen(false);
+        } else {
+          openPalette();
+        }
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [open, openPalette]);
+
+  return (
+    <CommandPaletteContext.Provider value={{ openPalette }}>
+      {children}
+      <CommandPalette
+        open={open}
+        onOpenChange={setOpen}
+        page={page}
+        onPageChange={(next) => {
+          setPage(next);
+          setSearch("");
+        }}
+        search={search}
+        onSearchChange={setSearch}
+        recentItems={recentItems}
+        onRun={(item) => {
+          setRecentItems(saveRecentItem(item));
+          setOpen(false);
+          if (item.target.type === "create-ticket") {
+            setCreateTicketProjectId(item.target.projectId);
+          }
+        }}
+      />
+      {createTicketProjectId && (
+        <CreateTicketDialog
+          open
+          onOpenChange={(isOpen) => !isOpen && setCreateTicketProjectId(null)}
+          projectId={createTicketProjectId}
+        />
+      )}
+    </CommandPaletteContext.Provider>
+  );
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  page: PalettePage | null;
+  onPageChange: (page: PalettePage | null) => void;
+  search: string;
+  onSearchChange: (search: string) => void;
+  recentItems: PaletteItem[];
+  // Called after an item other than a page was picked
+  onRun: (item: PaletteItem) => void;
+}
+
+function CommandPalette({
+  open,
+  onOpenChange,
+  page,
+  onPageChange,
+  search,
+  onSearchChange,
+  recentItems,
+  onRun,
+}: CommandPaletteProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const query = search.trim().toLowerCase();
+
+  // Tickets are searched within the project being viewed
+  const slug = pathname.match(/^\/projects\/([^/]+)/)?.[1] ?? "";
+  const { data: projects = [] } = useProjects(undefined, { enabled: open });
+  const { data: teams = [] } = useTeams({ enabled: open });
+  const { data: currentProject } = useProject(slug, { enabled: open && !!slug });
+  const { data: ticketsGrouped } = useTickets(open && currentProject ? currentProject.id : "");
+
+  // Semantic matches are fetched once typing pauses
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+  const { data: semanticResults, isFetching: isSearching } = useSemanticSearch(
+    currentProject?.id ?? null,
+    debouncedQuery,
+    { enabled: open && page === null, limit: 5 }
+  );
+
+  const run = (item: PaletteItem) => {
+    if (item.target.type === "page") {
+      onPageChange(item.target.page);
+      return;
+    }
+    if (item.target.type === "navigate") {
+      router.push(item.target.href);
+    }
+    onRun(item);
+  };
+
+  const recentIds = recentItems.map((item) => item.id);
+
+  const projectItems: PaletteItem[] = projects.map((project) => ({
+    id: `project:${project.id}`,
+    label: project.name,
+    hint: project.teamName ?? undefined,
+    keywords: project.key ?? undefined,
+    icon: "project",
+    target: { type: "navigate", href: `/projects/${project.slug}/board` },
+  }));
+
+  const teamItems: PaletteItem[] = teams.map((team) => ({
+    id: `team:${team.id}`,
+    label: team.name,
+    hint: `${team.projectCount ?? 0} projects`,
+    icon: "team",
+    target: { type: "navigate", href: `/teams/${team.id}` },
+  }));
+
+  const createTicketItems: PaletteItem[] = projects.map((project) => ({
+    id: `create-ticket:${project.id}`,
+    label: `Create ticket in ${project.name}`,
+    keywords: project.key ?? undefined,
+    icon: "create",
+    target: { type: "create-ticket", projectId: project.id },
+  }));
+
+  const switchTeamItems: PaletteItem[] = teams.map((team) => ({
+    id: `switch-team:${team.id}`,
+    label: `Switch to ${team.name}`,
+    icon: "switch",
+    target: { type: "navigate", href: `/teams/${team.id}` },
+  }));
+
+  const currentTickets = ticketsGrouped ? Object.values(ticketsGrouped).flat() : [];
+  const ticketItem = (ticket: { id: string; title: string; key?: string | null }): PaletteItem => ({
+    id: `ticket:${ticket.id}`,
+    label: ticket.title,
+    hint: ticket.key ?? undefined,
+    keywords: ticket.key ?? undefined,
+    icon: "ticket",
+    target: { type: "navigate", href: `/projects/${slug}/tickets/${ticket.key ?? ticket.id}` },
+  });
+
+  let groups: { heading: string; items: PaletteItem[] }[];
+  if (page === "create-ticket") {
+    groups = [
+      { heading: "Create ticket in", items: rankItems(createTicketItems, query, recentIds, Infinity) },
+    ];
+  } else if (page === "switch-team") {
+    groups = [
+      { heading: "Switch team", items: rankItems(switchTeamItems, query, recentIds, Infinity) },
+    ];
+  } else {
+    const actionItems: PaletteItem[] = [];
+    if (currentProject) {
+      actionItems.push({
+        id: `create-ticket:${currentProject.id}`,
+        label: `Create ticket in ${currentProject.name}`,
+        icon: "create",
+        target: { type: "create-ticket", projectId: currentProject.id },
+      });
+      for (const view of ["board", "list", "sprints", "activity"] as const) {
+        actionItems.push({
+          id: `view:${currentProject.id}:${view}`,
+          label: `Go to ${view}`,
+          hint: currentProject.name,
+          icon: view,
+          target: { type: "navigate", href: `/projects/${currentProject.slug}/${view}` },
+        });
+      }
+    }
+    actionItems.push(
+      {
+        id: "page:create-ticket",
+        label: "Create ticket in…",
+        icon: "create",
+        target: { type: "page", page: "create-ticket" },
+      },
+      {
+        id: "page:switch-team",
+        label: "Switch team…",
+        icon: "switch",
+        target: { type: "page", page: "switch-team" },
+      },
+      {
+        id: "nav:projects",
+        label: "Go to projects",
+        icon: "project",
+        target: { type: "navigate", href: "/projects" },
+      },
+      {
+        id: "nav:teams",
+        label: "Go to teams",
+        icon: "team",
+        target: { type: "navigate", href: "/teams" },
+      }
+    );
+
+    // Recently used items lead; they aren't repeated in the other groups
+    const recent = rankItems(recentItems, query, recentIds, 5);
+    const shown = new Set(recent.map((item) => item.id));
+    const notShown = (item: PaletteItem) => !shown.has(item.id);
+
+    const ticketItems: PaletteItem[] = [];
+    if (query) {
+      ticketItems.push(...rankItems(currentTickets.map(ticketItem), query, [], MAX_PER_GROUP));
+
+      // A ticket key from any project, e.g. "MIN-42"
+      const keyMatch = query.match(/^([a-z][a-z0-9]*)-(\d+)$/);
+      const keyProject = keyMatch && projects.find((p) => p.key?.toLowerCase() === keyMatch[1]);
+      const key = search.trim().toUpperCase();
+      if (keyProject && !currentTickets.some((t) => t.key === key)) {
+        ticketItems.unshift({
+          id: `ticket-key:${key}`,
+          label: `Open ${key}`,
+          hint: keyProject.name,
+          icon: "ticket",
+          target: { type: "navigate", href: `/projects/${keyProject.slug}/tickets/${key}` },
+        });
+      }
+
+      // Matches by meaning the title search missed
+      if (semanticResults?.success && debouncedQuery === search.trim()) {
+        for (const result of semanticResults.data) {
+          const ticket = result.ticket;
+          if (!ticket || ticketItems.some((item) => item.id === `ticket:${ticket.id}`)) continue;
+          const listed = currentTickets.find((t) => t.id === ticket.id);
+          ticketItems.push({ ...ticketItem(listed ?? ticket), icon: "similar" });
+        }
+      }
+    }
+
+    groups = [
+      { heading: "Recent", items: recent },
+      { heading: "Tickets", items: ticketItems.filter(notShown) },
+      {
+        heading: "Actions",
+        items: rankItems(actionItems.filter(notShown), query, recentIds, query ? MAX_PER_GROUP : Infinity),
+      },
+      { heading: "Projects", items: rankItems(projectItems.filter(notShown), query, recentIds) },
+      { heading: "Teams", items: rankItems(teamItems.filter(notShown), query, recentIds) },
+    ];
+    if (query) {
+      groups.push({
+        heading: "Create ticket in",
+        items: rankItems(createTicketItems.filter(notShown), query, recentIds, 3),
+      });
+    }
+  }
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      title="Command palette"
+      description="Search tickets, projects and teams, or run an action"
+      showCloseButton={false}
+      className="max-w-xl"
+    >
+      <Command
+        shouldFilter={false}
+        loop
+        onKeyDown={(e) => {
+          // Backspace on an empty query leaves a nested page
+          if (page && e.key === "Backspace" && !search) {
+            e.preventDefault();
+            onPageChange(null);
+          }
+        }}
+      >
+        <CommandInput
+          value={search}
+          onValueChange={onSearchChange}
+          placeholder={page ? pagePlaceholders[page] : "Search tickets, projects, teams or actions…"}
+        />
+        <CommandList className="max-h-[400px]">
+          <CommandEmpty>No results found.</CommandEmpty>
+          {groups.map(
+            (group) =>
+              group.items.length > 0 && (
+                <CommandGroup key={group.heading} heading={group.heading}>
+                  {group.items.map((item) => {
+                    const Icon = icons[item.icon];
+                    return (
+                      <CommandItem key={item.id} value={item.id} onSelect={() => run(item)}>
+                        <Icon />
+                        <span className="truncate">{item.label}</span>
+                        {item.hint && (
+                          <span className="text-muted-foreground ml-auto shrink-0 text-xs">
+                            {item.hint}
+                          </span>
+                        )}
+                      </CommandItem>
+                    );
+                  })}
+                </CommandGroup>
+              )
+          )}
+          {page === null && isSearching && query.length > 2 && (
+            <CommandLoading>Searching tickets by meaning…</CommandLoading>
+          )}
+        </CommandList>
+        <div className="text-muted-foreground flex items-center gap-3 border-t px-3 py-2 text-xs">
+          <span>↑↓ to navigate</span>
+          <span>↵ to select</span>
+          {page && <span>⌫ to go back</span>}
+          <span className="ml-auto">esc to close</span>
+        </div>
+      </Command>
+    </CommandDialog>
+  );
+}
@@ -1,7 +1,11 @@
 "use client";
 
-import { Menu, Plus } from "lucide-react";
+import { Menu, Plus, Search } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { useRealtimeNotifications } from "@/hooks/use-realtime";
+import { NotificationBell } from "./notification-bell";
+import { SyncStatus } from "./sync-status";
+import { useCommandPalette } from "./command-palette";
 
 interface HeaderProps {
   title?: string;
@@ -9,6 +13,10 @@ interface HeaderProps {
 }
 
 export function Header({ title = "Dashboard", children }: HeaderProps) {
+  // Refresh the inbox and toast as notifications arrive
+  useRealtimeNotifications();
+  const { openPalette } = useCommandPalette();
+
   return (
     <header className="sticky top-0 z-10 flex h-14 items-center justify-between border-b border-border bg-background px-4 md:px-6">
       <div className="flex items-center gap-4">
@@ -23,6 +31,21 @@ export function Header({ title = "Dashboard", children }: HeaderProps) {
 
       <div className="flex items-center gap-2">
         {children}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={openPalette}
+          className="text-muted-foreground gap-2"
+          aria-label="Open command palette"
+        >
+          <Search className="h-4 w-4" />
+          <span className="hidden lg:inline">Search</span>
+          <kbd className="bg-muted pointer-events-none hidden rounded px-1.5 font-mono text-[10px] lg:inline">
+            ⌘K
+          </kbd>
+        </Button>
+        <SyncStatus />
+        <NotificationBell />
       </div>
     </header>
   );
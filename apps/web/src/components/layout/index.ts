@@ -9,3 +9,4 @@ export { MobileNav } from "./mobile-nav";
 
 
 
+export { CommandPaletteProvider, useCommandPalette } from "./command-palette";
@@ -0,0 +1,186 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { formatDistanceToNow } from "date-fns";
+import { Bell, CheckCheck, Mail } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+import {
+  useNotifications,
+  useMarkNotificationRead,
+  useMarkAllNotificationsRead,
+  useNotificationPreferences,
+  useUpdateNotificationPreferences,
+} from "@/hooks/use-notifications";
+import type { InboxNotification } from "@/actions/notifications";
+import type { EmailFrequency } from "@minute/db";
+
+const emailFrequencyLabels: Record<EmailFrequency, string> = {
+  instant: "Instantly",
+  daily: "Daily digest",
+  off: "Off",
+};
+
+function getInitials(name: string) {
+  return name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2);
+}
+
+// Header bell with the unread count and a dropdown inbox
+export function NotificationBell() {
+  const router = useRouter();
+  const { data, isLoading } = useNotifications();
+  const markRead = useMarkNotificationRead();
+  const markAllRead = useMarkAllNotificationsRead();
+  const { data: preferences } = useNotificationPreferences();
+  const updatePreferences = useUpdateNotificationPreferences();
+
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const openNotification = (notification: InboxNotification) => {
+    if (!notification.readAt) {
+      markRead.mutate(notification.id);
+    }
+    router.push(notification.url);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute right-1 top-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-primary px-1 text-[10px] font-medium text-primary-foreground">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">
+            {unreadCount > 0 ? `${unreadCount} unread notifications` : "Notifications"}
+          </span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-[380px] p-0">
+        <div className="flex items-center justify-between px-2 py-1.5">
+          <DropdownMenuLabel className="p-0 px-1">Notifications</DropdownMenuLabel>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={unreadCount === 0 || markAllRead.isPending}
+            onClick={() => markAllRead.mutate()}
+          >
+            <CheckCheck className="mr-1 h-3.5 w-3.5" />
+            Mark all read
+          </Button>
+        </div>
+        <DropdownMenuSeparator className="m-0" />
+
+        {isLoading ? (
+          <div className="space-y-3 p-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="flex items-start gap-3">
+                <Skeleton className="h-8 w-8 rounded-full" />
+                <div className="flex-1 space-y-2">
+                  <Skeleton className="h-4 w-3/4" />
+                  <Skeleton className="h-3 w-1/4" />
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : notifications.length === 0 ? (
+          <div className="py-8 text-center text-sm text-muted-foreground">
+            You&apos;re all caught up.
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[420px]">
+            <div className="p-1">
+              {notifications.map((notification) => (
+                <DropdownMenuItem
+                  key={notification.id}
+                  onSelect={() => openNotification(notification)}
+                  className="flex items-start gap-3 px-2 py-2"
+                >
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={notification.actor?.image || undefined} />
+                    <AvatarFallback>
+                      {getInitials(notification.actor?.name || "?")}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="min-w-0 flex-1">
+                    <p
+                      className={cn(
+                        "text-sm",
+                        notification.readAt ? "text-muted-foreground" : "font-medium"
+                      )}
+                    >
+                      {notification.message}
+                    </p>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {notification.ticketTitle} · {notification.projectName}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  {!notification.readAt && (
+                    <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" />
+                  )}
+                </DropdownMenuItem>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DropdownMenuSeparator className="m-0" />
+        <div className="p-1">
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>
+              <Mail className="mr-2 h-4 w-4" />
+              Email
+              {preferences && (
+                <span className="ml-auto text-xs text-muted-foreground">
+                  {emailFrequencyLabels[preferences.emailFrequency]}
+                </span>
+              )}
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              <DropdownMenuRadioGroup
+                value={preferences?.emailFrequency}
+                onValueChange={(value) =>
+                  updatePreferences.mutate({ emailFrequency: value as EmailFrequency })
+                }
+              >
+                {(Object.keys(emailFrequencyLabels) as EmailFrequency[]).map((frequency) => (
+                  <DropdownMenuRadioItem key={frequency} value={frequency}>
+                    {emailFrequencyLabels[frequency]}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { usePresence } from "@/hooks/use-presence";
+import { cn } from "@/lib/utils";
+
+// Avatars shown before the rest collapse into a "+N" bubble
+const MAX_AVATARS = 4;
+
+function getInitials(name: string) {
+  return name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2);
+}
+
+// Stacked avatars of the other users viewing a board or ticket right now
+export function PresenceAvatars({
+  channelName,
+  className,
+}: {
+  channelName: string | null;
+  className?: string;
+}) {
+  const { viewers } = usePresence(channelName);
+
+  if (viewers.length === 0) return null;
+
+  const shown = viewers.slice(0, MAX_AVATARS);
+  const hidden = viewers.slice(MAX_AVATARS);
+
+  return (
+    <div className={cn("flex items-center -space-x-2", className)}>
+      {shown.map((viewer) => (
+        <Tooltip key={viewer.userId}>
+          <TooltipTrigger asChild>
+            <Avatar className="h-7 w-7 border-2 border-background">
+              <AvatarImage src={viewer.userImage} />
+              <AvatarFallback className="text-[10px]">{getInitials(viewer.userName)}</AvatarFallback>
+            </Avatar>
+          </TooltipTrigger>
+          <TooltipContent>{viewer.userName} is viewing</TooltipContent>
+        </Tooltip>
+      ))}
+      {hidden.length > 0 && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <span className="flex h-7 w-7 items-center justify-center rounded-full border-2 border-background bg-muted text-[10px] font-medium">
+              +{hidden.length}
+            </span>
+          </TooltipTrigger>
+          <TooltipContent>{hidden.map((viewer) => viewer.userName).join(", ")}</TooltipContent>
+        </Tooltip>
+      )}
+    </div>
+  );
+}
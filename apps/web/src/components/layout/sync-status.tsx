@@ -0,0 +1,42 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { onlineManager, useMutationState } from "@tanstack/react-query";
+import { CloudOff, RefreshCw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+
+function subscribeOnline(callback: () => void) {
+  return onlineManager.subscribe(callback);
+}
+
+function getIsOnline() {
+  return onlineManager.isOnline();
+}
+
+// Header badge for offline mode and changes waiting to be synced
+export function SyncStatus() {
+  const isOnline = useSyncExternalStore(subscribeOnline, getIsOnline, () => true);
+  const pendingCount = useMutationState({
+    filters: { status: "pending", predicate: (mutation) => mutation.state.isPaused },
+  }).length;
+
+  if (isOnline && pendingCount === 0) return null;
+
+  const changes = `${pendingCount} ${pendingCount === 1 ? "change" : "changes"}`;
+
+  return (
+    <Badge variant="secondary" className="gap-1.5" role="status">
+      {isOnline ? (
+        <>
+          <RefreshCw className="h-3 w-3 animate-spin" />
+          Syncing {changes}
+        </>
+      ) : (
+        <>
+          <CloudOff className="h-3 w-3" />
+          {pendingCount > 0 ? `Offline · ${changes} pending sync` : "Offline"}
+        </>
+      )}
+    </Badge>
+  );
+}
@@ -28,7 +28,9 @@ import { useProject, useUpdateProject, useDeleteProject, useProjectMembers } fro
 import { Separator } from "@/components/ui/separator";
 import { InviteMemberDialog } from "./invite-member-dialog";
 import { ProjectInvitesList } from "./project-invites-list";
-import { UserPlus, Users, Shield, Eye } from "lucide-react";
+import { WorkflowStatusesEditor } from "./workflow-statuses-editor";
+import { LabelsEditor } from "./labels-editor";
+import { UserPlus, Users, Shield, Eye, Workflow, Tag } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 
@@ -174,6 +176,40 @@ export function EditProjectSheet({
 
                 <Separator />
 
+                {/* Workflow Section */}
+                <div className="space-y-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Workflow className="h-4 w-4 text-muted-foreground" />
+                      <Label className="text-base font-semibold">Workflow</Label>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      Board columns in order and the moves allowed between them. Changes are saved immediately.
+                    </p>
+                  </div>
+
+                  <WorkflowStatusesEditor projectId={project.id} />
+                </div>
+
+                <Separator />
+
+                {/* Labels Section */}
+                <div className="space-y-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Tag className="h-4 w-4 text-muted-foreground" />
+                      <Label className="text-base font-semibold">Labels</Label>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      Colored tags for categorizing tickets. Changes are saved immediately.
+                    </p>
+                  </div>
+
+                  <LabelsEditor projectId={project.id} />
+                </div>
+
+                <Separator />
+
                 {/* Permissions & Access Section */}
                 <div className="space-y-4">
                   <div className="flex items-center justify-between">
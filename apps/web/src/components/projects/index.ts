@@ -3,4 +3,6 @@ export { EditProjectSheet } from "./edit-project-sheet";
 export { DeleteProjectDialog } from "./delete-project-dialog";
 export { InviteMemberDialog } from "./invite-member-dialog";
 export { ProjectInvitesList } from "./project-invites-list";
-
+export { ProjectActivityFeed } from "./project-activity-feed";
+export { WorkflowStatusesEditor } from "./workflow-statuses-editor";
+export { LabelsEditor } from "./labels-editor";
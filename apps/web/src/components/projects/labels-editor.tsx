@@ -0,0 +1,234 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  useLabels,
+  useCreateLabel,
+  useUpdateLabel,
+  useDeleteLabel,
+  type LabelWithUsage,
+} from "@/hooks/use-labels";
+
+interface LabelsEditorProps {
+  projectId: string;
+}
+
+// Prevent Enter from submitting the surrounding project form
+function blurOnEnter(e: React.KeyboardEvent<HTMLInputElement>) {
+  if (e.key === "Enter") {
+    e.preventDefault();
+    e.currentTarget.blur();
+  }
+}
+
+function LabelRow({
+  label,
+  disabled,
+  onDelete,
+}: {
+  label: LabelWithUsage;
+  disabled: boolean;
+  onDelete: () => void;
+}) {
+  const updateLabel = useUpdateLabel();
+  const [name, setName] = useState(label.name);
+  const [color, setColor] = useState(label.color);
+
+  const saveName = () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setName(label.name);
+      return;
+    }
+    if (trimmed !== label.name) {
+      updateLabel.mutate({ id: label.id, name: trimmed });
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <input
+        type="color"
+        value={color}
+        onChange={(e) => setColor(e.target.value)}
+        onBlur={() => {
+          if (color !== label.color) {
+            updateLabel.mutate({ id: label.id, color });
+          }
+        }}
+        disabled={disabled}
+        className="h-8 w-8 flex-shrink-0 cursor-pointer rounded border bg-transparent p-0.5"
+        aria-label={`${label.name} color`}
+      />
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={saveName}
+        onKeyDown={blurOnEnter}
+        disabled={disabled}
+        maxLength={50}
+        className="h-8"
+      />
+      <span className="w-16 flex-shrink-0 text-right text-xs text-muted-foreground">
+        {label.ticketCount} {label.ticketCount === 1 ? "ticket" : "tickets"}
+      </span>
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 flex-shrink-0 text-muted-foreground hover:text-destructive"
+        onClick={onDelete}
+        disabled={disabled}
+        aria-label="Delete label"
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+export function LabelsEditor({ projectId }: LabelsEditorProps) {
+  const { data: labels = [], isLoading } = useLabels(projectId);
+  const createLabel = useCreateLabel();
+  const deleteLabel = useDeleteLabel();
+
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState("#3b82f6");
+  const [labelToDelete, setLabelToDelete] = useState<LabelWithUsage | null>(null);
+
+  const isMutating = createLabel.isPending || deleteLabel.isPending;
+
+  const handleAdd = async () => {
+    if (!newName.trim()) return;
+    try {
+      await createLabel.mutateAsync({ projectId, name: newName.trim(), color: newColor });
+      setNewName("");
+    } catch {
+      // Error handling is done in the mutation hook
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!labelToDelete) return;
+    try {
+      await deleteLabel.mutateAsync(labelToDelete.id);
+      setLabelToDelete(null);
+    } catch {
+      // Error handling is done in the mutation hook
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-8 w-full" />
+        <Skeleton className="h-8 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="space-y-2 rounded-lg border p-3">
+        {labels.map((label) => (
+          <LabelRow
+            key={`${label.id}-${label.name}-${label.color}`}
+            label={label}
+            disabled={isMutating}
+            onDelete={() => setLabelToDelete(label)}
+          />
+        ))}
+
+        <div className="flex items-center gap-2 pt-2">
+          <input
+            type="color"
+            value={newColor}
+            onChange={(e) => setNewColor(e.target.value)}
+            disabled={isMutating}
+            className="h-8 w-8 flex-shrink-0 cursor-pointer rounded border bg-transparent p-0.5"
+            aria-label="New label color"
+          />
+          <Input
+            placeholder="New label name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+            disabled={isMutating}
+            maxLength={50}
+            className="h-8"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={handleAdd}
+            disabled={isMutating || !newName.trim()}
+          >
+            {createLabel.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Plus className="mr-2 h-4 w-4" />
+            )}
+            Add
+          </Button>
+        </div>
+      </div>
+
+      <AlertDialog
+        open={!!labelToDelete}
+        onOpenChange={(open) => {
+          if (!open) setLabelToDelete(null);
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete &quot;{labelToDelete?.name}&quot;?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {labelToDelete && labelToDelete.ticketCount > 0
+                ? `The label will be removed from ${labelToDelete.ticketCount} ${
+                    labelToDelete.ticketCount === 1 ? "ticket" : "tickets"
+                  } and from any templates that use it.`
+                : "No tickets use this label."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteLabel.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={deleteLabel.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleteLabel.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                "Delete"
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useProjectActivity } from "@/hooks/use-project-activity";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Plus,
+  ArrowRight,
+  Trash2,
+  MessageSquare,
+  Paperclip,
+  Activity,
+  Loader2,
+} from "lucide-react";
+import { useProjectStatuses, getStatusDisplay } from "@/hooks/use-project-statuses";
+import type { ProjectActivityAction } from "@/hooks/use-project-activity";
+import type { ProjectStatus } from "@minute/db";
+
+interface ProjectActivityFeedProps {
+  projectId: string;
+  userId?: string;
+  actions?: ProjectActivityAction[];
+  onTicketClick?: (ticketId: string) => void;
+}
+
+export const projectActivityActionLabels: Record<ProjectActivityAction, string> = {
+  created_ticket: "Ticket created",
+  moved_ticket: "Ticket moved",
+  deleted_ticket: "Ticket deleted",
+  created_comment: "Comment posted",
+  uploaded_attachment: "Attachment uploaded",
+};
+
+function getActivityIcon(action: ProjectActivityAction) {
+  switch (action) {
+    case 'created_ticket':
+      return <Plus className="h-4 w-4" />;
+    case 'moved_ticket':
+      return <ArrowRight className="h-4 w-4" />;
+    case 'deleted_ticket':
+      return <Trash2 className="h-4 w-4" />;
+    case 'created_comment':
+      return <MessageSquare className="h-4 w-4" />;
+    case 'uploaded_attachment':
+      return <Paperclip className="h-4 w-4" />;
+    default:
+      return <Activity className="h-4 w-4" />;
+  }
+}
+
+function getActivityMessage(
+  action: ProjectActivityAction,
+  details: Record<string, unknown> | null,
+  userName: string | null,
+  statuses: ProjectStatus[]
+) {
+  const name = userName || 'Someone';
+  const ticketTitle = (details?.ticketTitle as string) || 'a ticket';
+
+  switch (action) {
+    case 'created_ticket':
+      return `${name} created "${ticketTitle}"`;
+    case 'moved_ticket': {
+      const fromStatus = details?.fromStatus as string;
+      const toStatus = details?.toStatus as string;
+      return `${name} moved "${ticketTitle}" from ${getStatusDisplay(statuses, fromStatus).name} to ${getStatusDisplay(statuses, toStatus).name}`;
+    }
+    case 'deleted_ticket':
+      return `${name} deleted "${ticketTitle}"`;
+    case 'created_comment':
+      return `${name} commented on "${ticketTitle}"`;
+    case 'uploaded_attachment': {
+      const fileName = (details?.fileName as string) || 'a file';
+      return `${name} attached ${fileName} to "${ticketTitle}"`;
+    }
+    default:
+      return `${name} performed an action`;
+  }
+}
+
+export function ProjectActivityFeed({ projectId, userId, actions, onTicketClick }: ProjectActivityFeedProps) {
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useProjectActivity(projectId, { userId, actions });
+  const { data: statuses = [] } = useProjectStatuses(projectId);
+
+  const activities = data?.pages.flatMap((page) => page.data) ?? [];
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {[1, 2, 3].map((i) => (
+          <div key={i} className="flex items-start gap-3">
+            <Skeleton className="h-8 w-8 rounded-full" />
+            <div className="flex-1 space-y-2">
+              <Skeleton className="h-4 w-3/4" />
+              <Skeleton className="h-3 w-1/4" />
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (activities.length === 0) {
+    return (
+      <div className="text-center py-8 text-sm text-muted-foreground">
+        No activity yet. Project activity will appear here.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {activities.map((activity) => {
+        const userName = activity.user?.name || activity.user?.email || 'Unknown';
+        const userInitials = userName
+          .split(' ')
+          .map((n: string) => n[0])
+          .join('')
+          .toUpperCase()
+          .slice(0, 2);
+        const ticketId = activity.ticketId;
+        const message = getActivityMessage(activity.action, activity.details, userName, statuses);
+
+        return (
+          <div key={activity.id} className="flex items-start gap-3">
+            <Avatar className="h-8 w-8">
+              <AvatarImage src={activity.user?.image || undefined} />
+              <AvatarFallback>{userInitials}</AvatarFallback>
+            </Avatar>
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <div className="text-muted-foreground">
+                  {getActivityIcon(activity.action)}
+                </div>
+                {ticketId && onTicketClick ? (
+                  <button
+                    type="button"
+                    className="text-sm text-left hover:underline"
+                    onClick={() => onTicketClick(ticketId)}
+                  >
+                    {message}
+                  </button>
+                ) : (
+                  <p className="text-sm">{message}</p>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                {activity.createdAt
+                  ? formatDistanceToNow(new Date(activity.createdAt), { addSuffix: true })
+                  : 'Just now'}
+              </p>
+            </div>
+          </div>
+        );
+      })}
+
+      {hasNextPage && (
+        <div className="flex justify-center pt-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+          >
+            {isFetchingNextPage ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Loading...
+              </>
+            ) : (
+              "Load more"
+            )}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
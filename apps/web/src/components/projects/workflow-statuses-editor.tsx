@@ -0,0 +1,427 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowDown, ArrowRight, ArrowUp, ChevronDown, Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  useProjectStatuses,
+  useCreateProjectStatus,
+  useUpdateProjectStatus,
+  useReorderProjectStatuses,
+  useDeleteProjectStatus,
+} from "@/hooks/use-project-statuses";
+import { useTickets } from "@/hooks/use-tickets";
+import type { ProjectStatus, StatusCategory } from "@minute/db";
+
+interface WorkflowStatusesEditorProps {
+  projectId: string;
+}
+
+const categoryOptions: { value: StatusCategory; label: string }[] = [
+  { value: "unstarted", label: "Unstarted" },
+  { value: "started", label: "Started" },
+  { value: "completed", label: "Completed" },
+];
+
+// Prevent Enter from submitting the surrounding project form
+function blurOnEnter(e: React.KeyboardEvent<HTMLInputElement>) {
+  if (e.key === "Enter") {
+    e.preventDefault();
+    e.currentTarget.blur();
+  }
+}
+
+// Edits which statuses tickets may move to from `status`
+function TransitionRules({
+  status,
+  statuses,
+  disabled,
+}: {
+  status: ProjectStatus;
+  statuses: ProjectStatus[];
+  disabled: boolean;
+}) {
+  const updateStatus = useUpdateProjectStatus();
+  const targets = statuses.filter((s) => s.id !== status.id);
+  const allowed = status.allowedTransitions;
+
+  const toggleTarget = (key: string) => {
+    const current = allowed ?? targets.map((s) => s.key);
+    const next = current.includes(key)
+      ? current.filter((k) => k !== key)
+      : [...current, key];
+    updateStatus.mutate({ id: status.id, allowedTransitions: next });
+  };
+
+  const summary = !allowed
+    ? "Any status"
+    : allowed.length === 0
+      ? "No statuses"
+      : targets
+          .filter((s) => allowed.includes(s.key))
+          .map((s) => s.name)
+          .join(", ");
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs text-muted-foreground max-w-full"
+          disabled={disabled}
+        >
+          <ArrowRight className="mr-1 h-3 w-3 flex-shrink-0" />
+          <span className="truncate">Moves to: {summary}</span>
+          <ChevronDown className="ml-1 h-3 w-3 flex-shrink-0" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-[220px]">
+        <DropdownMenuLabel>Tickets in {status.name} can move to</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={!allowed}
+          onCheckedChange={() =>
+            updateStatus.mutate({
+              id: status.id,
+              allowedTransitions: allowed ? null : targets.map((s) => s.key),
+            })
+          }
+        >
+          Any status
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuSeparator />
+        {targets.map((target) => (
+          <DropdownMenuCheckboxItem
+            key={target.id}
+            checked={!allowed || allowed.includes(target.key)}
+            onCheckedChange={() => toggleTarget(target.key)}
+          >
+            {target.name}
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+function StatusRow({
+  status,
+  statuses,
+  isFirst,
+  isLast,
+  disabled,
+  onMove,
+  onDelete,
+}: {
+  status: ProjectStatus;
+  statuses: ProjectStatus[];
+  isFirst: boolean;
+  isLast: boolean;
+  disabled: boolean;
+  onMove: (direction: -1 | 1) => void;
+  onDelete: () => void;
+}) {
+  const updateStatus = useUpdateProjectStatus();
+  const [name, setName] = useState(status.name);
+  const [color, setColor] = useState(status.color);
+
+  const saveName = () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setName(status.name);
+      return;
+    }
+    if (trimmed !== status.name) {
+      updateStatus.mutate({ id: status.id, name: trimmed });
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          value={color}
+          onChange={(e) => setColor(e.target.value)}
+          onBlur={() => {
+            if (color !== status.color) {
+              updateStatus.mutate({ id: status.id, color });
+            }
+          }}
+          disabled={disabled}
+          className="h-8 w-8 flex-shrink-0 cursor-pointer rounded border bg-transparent p-0.5"
+          aria-label={`${status.name} color`}
+        />
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={saveName}
+          onKeyDown={blurOnEnter}
+          disabled={disabled}
+          maxLength={50}
+          className="h-8"
+        />
+        <Select
+          value={status.category}
+          onValueChange={(value) =>
+            updateStatus.mutate({ id: status.id, category: value as StatusCategory })
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger className="h-8 w-[130px] flex-shrink-0">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {categoryOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex flex-shrink-0">
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => onMove(-1)}
+            disabled={disabled || isFirst}
+            aria-label="Move up"
+          >
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => onMove(1)}
+            disabled={disabled || isLast}
+            aria-label="Move down"
+          >
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-muted-foreground hover:text-destructive"
+            onClick={onDelete}
+            disabled={disabled || (isFirst && isLast)}
+            aria-label="Delete status"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <div className="pl-10">
+        <TransitionRules status={status} statuses={statuses} disabled={disabled} />
+      </div>
+    </div>
+  );
+}
+
+export function WorkflowStatusesEditor({ projectId }: WorkflowStatusesEditorProps) {
+  const { data: statuses = [], isLoading } = useProjectStatuses(projectId);
+  const { data: ticketsGrouped } = useTickets(projectId);
+  const createStatus = useCreateProjectStatus();
+  const reorderStatuses = useReorderProjectStatuses();
+  const deleteStatus = useDeleteProjectStatus();
+
+  const [newName, setNewName] = useState("");
+  const [statusToDelete, setStatusToDelete] = useState<ProjectStatus | null>(null);
+  const [moveTicketsTo, setMoveTicketsTo] = useState<string>("");
+
+  const isMutating = createStatus.isPending || reorderStatuses.isPending || deleteStatus.isPending;
+  const ticketsInDeletedStatus = statusToDelete
+    ? ticketsGrouped?.[statusToDelete.key]?.length || 0
+    : 0;
+
+  const handleAdd = async () => {
+    if (!newName.trim()) return;
+    try {
+      await createStatus.mutateAsync({ projectId, name: newName.trim() });
+      setNewName("");
+    } catch (error) {
+      // Error handling is done in the mutation hook
+      console.error("Error creating status:", error);
+    }
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const statusIds = statuses.map((s) => s.id);
+    const target = index + direction;
+    const current = statusIds[index];
+    const swapped = statusIds[target];
+    if (!current || !swapped) return;
+    statusIds[index] = swapped;
+    statusIds[target] = current;
+    reorderStatuses.mutate({ projectId, statusIds });
+  };
+
+  const handleDelete = async () => {
+    if (!statusToDelete) return;
+    try {
+      await deleteStatus.mutateAsync({
+        id: statusToDelete.id,
+        moveTicketsTo: ticketsInDeletedStatus > 0 ? moveTicketsTo : undefined,
+      });
+      setStatusToDelete(null);
+    } catch (error) {
+      // Error handling is done in the mutation hook
+      console.error("Error deleting status:", error);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-8 w-full" />
+        <Skeleton className="h-8 w-full" />
+        <Skeleton className="h-8 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="space-y-2 rounded-lg border p-3">
+        {statuses.map((status, index) => (
+          <StatusRow
+            key={`${status.id}-${status.name}-${status.color}`}
+            status={status}
+            statuses={statuses}
+            isFirst={index === 0}
+            isLast={index === statuses.length - 1}
+            disabled={isMutating}
+            onMove={(direction) => handleMove(index, direction)}
+            onDelete={() => {
+              setStatusToDelete(status);
+              setMoveTicketsTo(statuses.find((s) => s.id !== status.id)?.key || "");
+            }}
+          />
+        ))}
+
+        <div className="flex items-center gap-2 pt-2">
+          <Input
+            placeholder="New status name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+            disabled={isMutating}
+            maxLength={50}
+            className="h-8"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={handleAdd}
+            disabled={isMutating || !newName.trim()}
+          >
+            {createStatus.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Plus className="mr-2 h-4 w-4" />
+            )}
+            Add
+          </Button>
+        </div>
+      </div>
+
+      <AlertDialog
+        open={!!statusToDelete}
+        onOpenChange={(open) => {
+          if (!open) setStatusToDelete(null);
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete &quot;{statusToDelete?.name}&quot;?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {ticketsInDeletedStatus > 0
+                ? `${ticketsInDeletedStatus} ${
+                    ticketsInDeletedStatus === 1 ? "ticket is" : "tickets are"
+                  } in this status. Choose where to move ${
+                    ticketsInDeletedStatus === 1 ? "it" : "them"
+                  }.`
+                : "No tickets use this status."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {ticketsInDeletedStatus > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="move-tickets-to">Move tickets to</Label>
+              <Select value={moveTicketsTo} onValueChange={setMoveTicketsTo}>
+                <SelectTrigger id="move-tickets-to">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {statuses
+                    .filter((s) => s.id !== statusToDelete?.id)
+                    .map((s) => (
+                      <SelectItem key={s.id} value={s.key}>
+                        {s.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteStatus.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={deleteStatus.isPending || (ticketsInDeletedStatus > 0 && !moveTicketsTo)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleteStatus.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                "Delete"
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { format, parseISO } from 'date-fns';
+import type { Burndown } from '@/lib/burndown';
+
+interface BurndownChartProps {
+  burndown: Burndown;
+  height?: number;
+}
+
+const WIDTH = 600;
+const PADDING = { top: 12, right: 12, bottom: 24, left: 32 };
+
+// Remaining points per day against the ideal straight line
+export function BurndownChart({ burndown, height = 220 }: BurndownChartProps) {
+  const { days } = burndown;
+  const maxValue = Math.max(
+    1,
+    ...days.map((day) => Math.max(day.ideal, day.remaining ?? 0))
+  );
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const x = (index: number) =>
+    PADDING.left + (days.length > 1 ? (index / (days.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (value: number) => PADDING.top + plotHeight - (value / maxValue) * plotHeight;
+
+  const idealPath = days.map((day, i) => `${x(i)},${y(day.ideal)}`).join(' ');
+  const actualPath = days
+    .map((day, i) => (day.remaining === null ? null : `${x(i)},${y(day.remaining)}`))
+    .filter(Boolean)
+    .join(' ');
+
+  // Label roughly six days so the axis stays readable on long sprints
+  const labelEvery = Math.max(1, Math.ceil(days.length / 6));
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${height}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label="Sprint burndown chart"
+    >
+      {/* Horizontal grid */}
+      {[0, 0.5, 1].map((fraction) => (
+        <g key={fraction} className="text-muted-foreground">
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={y(maxValue * fraction)}
+            y2={y(maxValue * fraction)}
+            stroke="currentColor"
+            strokeOpacity={0.15}
+          />
+          <text
+            x={PADDING.left - 6}
+            y={y(maxValue * fraction)}
+            textAnchor="end"
+            dominantBaseline="middle"
+            fontSize={10}
+            fill="currentColor"
+          >
+            {Math.round(maxValue * fraction)}
+          </text>
+        </g>
+      ))}
+
+      {days.map((day, i) =>
+        i % labelEvery === 0 || i === days.length - 1 ? (
+          <text
+            key={day.date}
+            x={x(i)}
+            y={height - 6}
+            textAnchor="middle"
+            fontSize={10}
+            className="fill-muted-foreground"
+          >
+            {format(parseISO(day.date), 'MMM d')}
+          </text>
+        ) : null
+      )}
+
+      <polyline
+        points={idealPath}
+        fill="none"
+        strokeWidth={1.5}
+        strokeDasharray="4 4"
+        className="stroke-muted-foreground"
+      />
+      {actualPath && (
+        <polyline
+          points={actualPath}
+          fill="none"
+          strokeWidth={2}
+          className="stroke-primary"
+        />
+      )}
+      {days.map((day, i) =>
+        day.remaining === null ? null : (
+          <circle
+            key={day.date}
+            cx={x(i)}
+            cy={y(day.remaining)}
+            r={2.5}
+            className="fill-primary"
+          >
+            <title>{`${format(parseISO(day.date), 'MMM d')}: ${day.remaining} pts remaining`}</title>
+          </circle>
+        )
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useCompleteSprint, type SprintWithStats } from '@/hooks/use-sprints';
+
+interface CompleteSprintDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sprint: SprintWithStats;
+  sprints: SprintWithStats[];
+}
+
+const BACKLOG = '__backlog__';
+
+export function CompleteSprintDialog({
+  open,
+  onOpenChange,
+  sprint,
+  sprints,
+}: CompleteSprintDialogProps) {
+  const completeSprint = useCompleteSprint();
+  const targets = sprints.filter((s) => s.id !== sprint.id && s.status === 'planned');
+  // Roll over into the next planned sprint by default
+  const [target, setTarget] = useState<string>(targets[0]?.id ?? BACKLOG);
+
+  const unfinished = sprint.ticketCount - sprint.completedTicketCount;
+  const isLoading = completeSprint.isPending;
+
+  const handleComplete = async (e: React.MouseEvent) => {
+    e.preventDefault();
+    try {
+      await completeSprint.mutateAsync({
+        id: sprint.id,
+        moveUnfinishedTo: target === BACKLOG ? null : target,
+      });
+      onOpenChange(false);
+    } catch {
+      // Error handling is done in the mutation hook
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={(newOpen) => !isLoading && onOpenChange(newOpen)}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Complete {sprint.name}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {sprint.completedTicketCount} of {sprint.ticketCount} tickets are done.
+            {unfinished > 0 && ' Unfinished tickets will be moved out of this sprint.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {unfinished > 0 && (
+          <div className="space-y-2">
+            <Label>
+              Move {unfinished} unfinished ticket{unfinished === 1 ? '' : 's'} to
+            </Label>
+            <Select value={target} onValueChange={setTarget} disabled={isLoading}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {targets.map((s) => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {s.name}
+                  </SelectItem>
+                ))}
+                <SelectItem value={BACKLOG}>Backlog (no sprint)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isLoading}>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={handleComplete} disabled={isLoading}>
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Completing...
+              </>
+            ) : (
+              'Complete Sprint'
+            )}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,3 @@
+export { SprintDialog } from "./sprint-dialog";
+export { CompleteSprintDialog } from "./complete-sprint-dialog";
+export { BurndownChart } from "./burndown-chart";
@@ -0,0 +1,216 @@
+'use client';
+
+import { useState } from 'react';
+import { addDays, format, startOfDay } from 'date-fns';
+import type { DateRange } from 'react-day-picker';
+import { CalendarIcon, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Calendar } from '@/components/ui/calendar';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { useCreateSprint, useUpdateSprint } from '@/hooks/use-sprints';
+import type { Sprint } from '@minute/db';
+
+interface SprintDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  sprint?: Sprint; // Edit this sprint instead of creating one
+  suggestedName?: string;
+}
+
+// Two-week sprints starting today unless the user picks other dates
+function defaultRange(): DateRange {
+  const from = startOfDay(new Date());
+  return { from, to: addDays(from, 13) };
+}
+
+const toUnixSeconds = (date: Date) => Math.floor(date.getTime() / 1000);
+
+export function SprintDialog({
+  open,
+  onOpenChange,
+  projectId,
+  sprint,
+  suggestedName,
+}: SprintDialogProps) {
+  const [name, setName] = useState(sprint?.name ?? suggestedName ?? '');
+  const [goal, setGoal] = useState(sprint?.goal ?? '');
+  const [range, setRange] = useState<DateRange | undefined>(
+    sprint ? { from: sprint.startDate, to: sprint.endDate } : defaultRange()
+  );
+  const createSprint = useCreateSprint();
+  const updateSprint = useUpdateSprint();
+
+  const isLoading = createSprint.isPending || updateSprint.isPending;
+  const canSubmit = !!name.trim() && !!range?.from && !!range?.to;
+
+  const resetForm = () => {
+    setName(sprint?.name ?? suggestedName ?? '');
+    setGoal(sprint?.goal ?? '');
+    setRange(sprint ? { from: sprint.startDate, to: sprint.endDate } : defaultRange());
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!canSubmit || !range?.from || !range?.to) {
+      return;
+    }
+
+    try {
+      if (sprint) {
+        await updateSprint.mutateAsync({
+          id: sprint.id,
+          name: name.trim(),
+          goal: goal.trim() || null,
+          startDate: toUnixSeconds(range.from),
+          endDate: toUnixSeconds(range.to),
+        });
+      } else {
+        await createSprint.mutateAsync({
+          projectId,
+          name: name.trim(),
+          goal: goal.trim() || undefined,
+          startDate: toUnixSeconds(range.from),
+          endDate: toUnixSeconds(range.to),
+        });
+        resetForm();
+      }
+      onOpenChange(false);
+    } catch (error) {
+      // Error handling is done in the mutation hook
+      console.error('Error saving sprint:', error);
+    }
+  };
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!isLoading) {
+      onOpenChange(newOpen);
+      if (!newOpen) {
+        resetForm();
+      }
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{sprint ? 'Edit Sprint' : 'Create Sprint'}</DialogTitle>
+          <DialogDescription>
+            Time-box a set of tickets and track progress with a burndown chart.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="sprint-name">
+              Name <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              id="sprint-name"
+              placeholder="Sprint 1"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              disabled={isLoading}
+              maxLength={100}
+              autoFocus
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>
+              Dates <span className="text-destructive">*</span>
+            </Label>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className={cn(
+                    'w-full justify-start text-left font-normal',
+                    !range?.from && 'text-muted-foreground'
+                  )}
+                  disabled={isLoading}
+                >
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {range?.from ? (
+                    range.to ? (
+                      `${format(range.from, 'MMM d')} – ${format(range.to, 'MMM d, yyyy')}`
+                    ) : (
+                      format(range.from, 'MMM d, yyyy')
+                    )
+                  ) : (
+                    <span>Pick dates</span>
+                  )}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="range"
+                  selected={range}
+                  onSelect={setRange}
+                  numberOfMonths={2}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="sprint-goal">Goal (optional)</Label>
+            <Textarea
+              id="sprint-goal"
+              placeholder="What should this sprint achieve?"
+              value={goal}
+              onChange={(e) => setGoal(e.target.value)}
+              disabled={isLoading}
+              maxLength={1000}
+              rows={3}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isLoading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading || !canSubmit}>
+              {isLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : sprint ? (
+                'Save Changes'
+              ) : (
+                'Create Sprint'
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
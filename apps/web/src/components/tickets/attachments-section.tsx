@@ -27,11 +27,13 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Separator } from "@/components/ui/separator";
 import { useAttachments, useCreateAttachment, useDeleteAttachment } from "@/hooks/use-attachments";
+import type { Attachment } from "@/actions/attachments";
 import { useSession } from "@/lib/auth-client";
 import { UploadDropzone } from "@/lib/uploadthing-client";
 
 interface AttachmentsSectionProps {
   ticketId: string;
+  initialAttachments?: Attachment[]; // Server-rendered attachments, shown before the first fetch
 }
 
 // Format file size for display
@@ -62,9 +64,11 @@ function isPreviewableImage(mimeType: string): boolean {
   return ["image/jpeg", "image/png", "image/gif", "image/webp"].includes(mimeType);
 }
 
-export function AttachmentsSection({ ticketId }: AttachmentsSectionProps) {
+export function AttachmentsSection({ ticketId, initialAttachments }: AttachmentsSectionProps) {
   const { data: session } = useSession();
-  const { data: attachments = [], isLoading } = useAttachments(ticketId);
+  const { data: attachments = [], isLoading } = useAttachments(ticketId, {
+    initialData: initialAttachments,
+  });
   const createAttachment = useCreateAttachment();
   const deleteAttachment = useDeleteAttachment();
 
@@ -0,0 +1,18 @@
+import type { CommentFormat } from "@minute/db/schema";
+import { RichTextViewer } from "@/components/ui/rich-text-editor";
+import { cn } from "@/lib/utils";
+
+interface CommentContentProps {
+  content: string;
+  format: CommentFormat;
+  className?: string;
+}
+
+// Editor comments are HTML sanitized on save; MCP comments are plain text
+export function CommentContent({ content, format, className }: CommentContentProps) {
+  if (format === "html") {
+    return <RichTextViewer content={content} className={cn("text-sm [&_p]:my-1", className)} />;
+  }
+
+  return <p className={cn("text-sm whitespace-pre-wrap break-words", className)}>{content}</p>;
+}
@@ -5,7 +5,8 @@ import { formatDistanceToNow } from "date-fns";
 import { MessageSquare, Edit2, Trash2, Send, X } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
+import { RichTextEditor } from "@/components/ui/rich-text-editor";
+import { CommentContent } from "./comment-content";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -16,13 +17,24 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { useComments, useCreateComment, useUpdateComment, useDeleteComment } from "@/hooks/use-comments";
+import {
+  useComments,
+  useCreateComment,
+  useUpdateComment,
+  useDeleteComment,
+  type CommentList,
+} from "@/hooks/use-comments";
 import { useRealtimeComments } from "@/hooks/use-realtime";
+import { useTypingIndicator } from "@/hooks/use-presence";
+import { channels } from "@/lib/realtime/client";
 import { useSession } from "@/lib/auth-client";
 import { Separator } from "@/components/ui/separator";
+import type { CommentFormat } from "@minute/db";
 
 interface CommentsSectionProps {
   ticketId: string;
+  projectId?: string; // Enables @mentions in the comment editor
+  initialComments?: CommentList; // Server-rendered comments, shown before the first fetch
 }
 
 type CommentWithUser = {
@@ -30,6 +42,7 @@ type CommentWithUser = {
   ticketId: string;
   userId: string;
   content: string;
+  format: CommentFormat;
   parentId: string | null;
   createdAt: Date | number;
   updatedAt: Date | number;
@@ -41,15 +54,31 @@ type CommentWithUser = {
   };
 };
 
-export function CommentsSection({ ticketId }: CommentsSectionProps) {
+// The editor produces "<p></p>" when empty
+function isEmptyContent(html: string) {
+  return !html.includes('data-type="mention"') && html.replace(/<[^>]*>/g, "").trim() === "";
+}
+
+// "Ana is typing…", "Ana and Ben are typing…", "Ana and 2 others are typing…"
+function formatTypingUsers(names: string[]) {
+  if (names.length === 0) return null;
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  return `${names[0]} and ${names.length - 1} others are typing…`;
+}
+
+export function CommentsSection({ ticketId, projectId, initialComments }: CommentsSectionProps) {
   const { data: session } = useSession();
-  const { data: comments = [], isLoading } = useComments(ticketId);
+  const { data: comments = [], isLoading } = useComments(ticketId, {
+    initialData: initialComments,
+  });
   const createComment = useCreateComment();
   const updateComment = useUpdateComment();
   const deleteComment = useDeleteComment();
   
   // Subscribe to real-time comment updates
   useRealtimeComments(ticketId);
+  const { typingUsers, notifyTyping } = useTypingIndicator(channels.presenceTicket(ticketId));
 
   const [newComment, setNewComment] = useState("");
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -59,12 +88,12 @@ export function CommentsSection({ ticketId }: CommentsSectionProps) {
   const handleSubmit = async (e?: React.FormEvent) => {
     e?.preventDefault();
     e?.stopPropagation();
-    if (!newComment.trim() || !ticketId) return;
+    if (isEmptyContent(newComment) || !ticketId) return;
 
     try {
       await createComment.mutateAsync({
         ticketId,
-        content: newComment.trim(),
+        content: newComment,
       });
       setNewComment("");
     } catch (error) {
@@ -72,7 +101,14 @@ export function CommentsSection({ ticketId }: CommentsSectionProps) {
     }
   };
 
-  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+  const handleNewCommentChange = (content: string) => {
+    setNewComment(content);
+    if (!isEmptyContent(content)) {
+      notifyTyping();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
     if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
       e.preventDefault();
       e.stopPropagation();
@@ -91,12 +127,12 @@ export function CommentsSection({ ticketId }: CommentsSectionProps) {
   };
 
   const handleSaveEdit = async () => {
-    if (!editingId || !editContent.trim()) return;
+    if (!editingId || isEmptyContent(editContent)) return;
 
     try {
       await updateComment.mutateAsync({
         id: editingId,
-        content: editContent.trim(),
+        content: editContent,
       });
       setEditingId(null);
       setEditContent("");
@@ -186,18 +222,17 @@ export function CommentsSection({ ticketId }: CommentsSectionProps) {
                 </div>
                 {isEditing ? (
                   <div className="mt-2 space-y-2">
-                    <Textarea
-                      value={editContent}
-                      onChange={(e) => setEditContent(e.target.value)}
-                      rows={3}
-                      className="min-h-[60px]"
-                      autoFocus
+                    <RichTextEditor
+                      content={editContent}
+                      onChange={setEditContent}
+                      minHeight="60px"
+                      projectId={projectId}
                     />
                     <div className="flex gap-2">
                       <Button
                         size="sm"
                         onClick={handleSaveEdit}
-                        disabled={updateComment.isPending || !editContent.trim()}
+                        disabled={updateComment.isPending || isEmptyContent(editContent)}
                       >
                         Save
                       </Button>
@@ -212,7 +247,7 @@ export function CommentsSection({ ticketId }: CommentsSectionProps) {
                     </div>
                   </div>
                 ) : (
-                  <p className="mt-1 text-sm whitespace-pre-wrap break-words">{comment.content}</p>
+                  <CommentContent content={comment.content} format={comment.format} className="mt-1" />
                 )}
               </div>
               {isOwnComment && !isEditing && (
@@ -284,21 +319,25 @@ export function CommentsSection({ ticketId }: CommentsSectionProps) {
           )}
 
           <div className="space-y-2">
-            <Textarea
-              placeholder="Add a comment..."
-              value={newComment}
-              onChange={(e) => setNewComment(e.target.value)}
-              onKeyDown={handleKeyDown}
-              rows={3}
-              className="min-h-[60px] resize-none"
-              disabled={createComment.isPending}
-            />
-            <div className="flex justify-end">
+            <div onKeyDown={handleKeyDown}>
+              <RichTextEditor
+                content={newComment}
+                onChange={handleNewCommentChange}
+                placeholder="Add a comment... Type @ to mention someone"
+                minHeight="60px"
+                disabled={createComment.isPending}
+                projectId={projectId}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs text-muted-foreground" aria-live="polite">
+                {formatTypingUsers(typingUsers.map((user) => user.userName))}
+              </p>
               <Button
                 type="button"
                 size="sm"
                 onClick={handleSubmit}
-                disabled={createComment.isPending || !newComment.trim()}
+                disabled={createComment.isPending || isEmptyContent(newComment)}
               >
                 {createComment.isPending ? (
                   <>
@@ -31,8 +31,10 @@ import {
 import { cn } from '@/lib/utils';
 import { useCreateTicket } from '@/hooks/use-tickets';
 import { useProjectMembers } from '@/hooks/use-projects';
+import { useProjectStatuses } from '@/hooks/use-project-statuses';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { TemplateSelector } from './template-selector';
+import { LabelPicker } from './label-picker';
 import type { TicketStatus, TicketPriority, TicketTemplate } from '@minute/db';
 
 interface CreateTicketDialogProps {
@@ -41,13 +43,6 @@ interface CreateTicketDialogProps {
   projectId: string;
 }
 
-const statusOptions: { value: TicketStatus; label: string }[] = [
-  { value: 'backlog', label: 'Backlog' },
-  { value: 'todo', label: 'Todo' },
-  { value: 'in_progress', label: 'In Progress' },
-  { value: 'done', label: 'Done' },
-];
-
 const priorityOptions: { value: TicketPriority; label: string }[] = [
   { value: 'low', label: 'Low' },
   { value: 'medium', label: 'Medium' },
@@ -62,11 +57,13 @@ export function CreateTicketDialog({
 }: CreateTicketDialogProps) {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
-  const [status, setStatus] = useState<TicketStatus>('backlog');
+  // Empty means the project's first workflow status
+  const [status, setStatus] = useState<TicketStatus>('');
   const [priority, setPriority] = useState<TicketPriority>('medium');
   const [dueDate, setDueDate] = useState<Date | undefined>(undefined);
   const [points, setPoints] = useState<string>('');
   const [assigneeId, setAssigneeId] = useState<string>('unassigned');
+  const [labelIds, setLabelIds] = useState<string[]>([]);
   const [selectedTemplate, setSelectedTemplate] =
     useState<TicketTemplate | null>(null);
 
@@ -77,7 +74,11 @@ export function CreateTicketDialog({
       enabled: open && !!projectId,
     }
   );
+  const { data: statuses = [] } = useProjectStatuses(projectId, {
+    enabled: open && !!projectId,
+  });
   const isLoading = createTicket.isPending;
+  const selectedStatus = status || statuses[0]?.key || '';
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -91,22 +92,24 @@ export function CreateTicketDialog({
         projectId,
         title: title.trim(),
         description: description.trim() || undefined,
-        status,
+        status: selectedStatus || undefined,
         priority,
         assigneeId:
           assigneeId === 'unassigned' ? undefined : assigneeId || undefined,
         dueDate: dueDate ? Math.floor(dueDate.getTime() / 1000) : undefined,
         points: points ? parseInt(points, 10) : undefined,
+        labelIds: labelIds.length > 0 ? labelIds : undefined,
       });
 
       // Reset form and close dialog on success
       setTitle('');
       setDescription('');
-      setStatus('backlog');
+      setStatus('');
       setPriority('medium');
       setDueDate(undefined);
       setPoints('');
       setAssigneeId('unassigned');
+      setLabelIds([]);
       setSelectedTemplate(null);
       onOpenChange(false);
     } catch (error) {
@@ -122,11 +125,12 @@ export function CreateTicketDialog({
       if (!newOpen) {
         setTitle('');
         setDescription('');
-        setStatus('backlog');
+        setStatus('');
         setPriority('medium');
         setDueDate(undefined);
         setPoints('');
         setAssigneeId('unassigned');
+        setLabelIds([]);
         setSelectedTemplate(null);
       }
     }
@@ -157,7 +161,11 @@ export function CreateTicketDialog({
     if (template.descriptionTemplate) {
       setDescription(template.descriptionTemplate);
     }
-    if (template.defaultStatus) {
+    // Ignore template statuses that no longer exist in the workflow
+    if (
+      template.defaultStatus &&
+      statuses.some((s) => s.key === template.defaultStatus)
+    ) {
       setStatus(template.defaultStatus);
     }
     if (template.defaultPriority) {
@@ -166,6 +174,13 @@ export function CreateTicketDialog({
     if (template.defaultPoints) {
       setPoints(template.defaultPoints.toString());
     }
+    if (template.defaultLabelIds && template.defaultLabelIds.length > 0) {
+      const templateLabelIds = template.defaultLabelIds;
+      setLabelIds((current) => [
+        ...current,
+        ...templateLabelIds.filter((id) => !current.includes(id)),
+      ]);
+    }
   };
 
   const handleClearTemplate = () => {
@@ -223,6 +238,7 @@ export function CreateTicketDialog({
               placeholder="Describe the ticket..."
               disabled={isLoading}
               minHeight="100px"
+              projectId={projectId}
             />
           </div>
 
@@ -230,7 +246,7 @@ export function CreateTicketDialog({
             <div className="space-y-2">
               <Label htmlFor="status">Status</Label>
               <Select
-                value={status}
+                value={selectedStatus}
                 onValueChange={(value) => setStatus(value as TicketStatus)}
                 disabled={isLoading}
               >
@@ -238,9 +254,9 @@ export function CreateTicketDialog({
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {statusOptions.map((option) => (
-                    <SelectItem key={option.value} value={option.value}>
-                      {option.label}
+                  {statuses.map((option) => (
+                    <SelectItem key={option.id} value={option.key}>
+                      {option.name}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -320,6 +336,16 @@ export function CreateTicketDialog({
             </p>
           </div>
 
+          <div className="space-y-2">
+            <Label>Labels (optional)</Label>
+            <LabelPicker
+              projectId={projectId}
+              value={labelIds}
+              onChange={setLabelIds}
+              disabled={isLoading}
+            />
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="assignee">Assignee (optional)</Label>
             <Select
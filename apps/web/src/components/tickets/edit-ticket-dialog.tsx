@@ -40,6 +40,8 @@ import {
 } from "@/components/ui/popover";
 import { cn } from "@/lib/utils";
 import { useTicket, useUpdateTicket, useDeleteTicket } from "@/hooks/use-tickets";
+import { useProjectStatuses } from "@/hooks/use-project-statuses";
+import { isTransitionAllowed } from "@minute/db/schema";
 import type { TicketStatus, TicketPriority } from "@minute/db";
 
 interface EditTicketDialogProps {
@@ -48,13 +50,6 @@ interface EditTicketDialogProps {
   ticketId: string | null;
 }
 
-const statusOptions: { value: TicketStatus; label: string }[] = [
-  { value: "backlog", label: "Backlog" },
-  { value: "todo", label: "Todo" },
-  { value: "in_progress", label: "In Progress" },
-  { value: "done", label: "Done" },
-];
-
 const priorityOptions: { value: TicketPriority; label: string }[] = [
   { value: "low", label: "Low" },
   { value: "medium", label: "Medium" },
@@ -72,10 +67,13 @@ export function EditTicketDialog({
   });
   const updateTicket = useUpdateTicket();
   const deleteTicket = useDeleteTicket();
+  const { data: statuses = [] } = useProjectStatuses(ticket?.projectId || "", {
+    enabled: !!ticket?.projectId && open,
+  });
 
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
-  const [status, setStatus] = useState<TicketStatus>("backlog");
+  const [status, setStatus] = useState<TicketStatus>("");
   const [priority, setPriority] = useState<TicketPriority>("medium");
   const [dueDate, setDueDate] = useState<Date | undefined>(undefined);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -133,7 +131,7 @@ export function EditTicketDialog({
     if (!ticketId) return;
 
     try {
-      await deleteTicket.mutateAsync(ticketId);
+      await deleteTicket.mutateAsync({ ticketId });
       setShowDeleteConfirm(false);
       onOpenChange(false);
     } catch (error) {
@@ -156,7 +154,14 @@ export function EditTicketDialog({
       <Dialog open={open} onOpenChange={handleOpenChange}>
         <DialogContent className="sm:max-w-[500px]">
           <DialogHeader>
-            <DialogTitle>Edit Ticket</DialogTitle>
+            <DialogTitle>
+              Edit Ticket
+              {ticket?.key && (
+                <span className="ml-2 font-mono text-sm font-normal text-muted-foreground">
+                  {ticket.key}
+                </span>
+              )}
+            </DialogTitle>
             <DialogDescription>
               Update ticket details and information.
             </DialogDescription>
@@ -219,9 +224,13 @@ export function EditTicketDialog({
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      {statusOptions.map((option) => (
-                        <SelectItem key={option.value} value={option.value}>
-                          {option.label}
+                      {statuses.map((option) => (
+                        <SelectItem
+                          key={option.id}
+                          value={option.key}
+                          disabled={!!ticket && !isTransitionAllowed(statuses, ticket.status, option.key)}
+                        >
+                          {option.name}
                         </SelectItem>
                       ))}
                     </SelectContent>
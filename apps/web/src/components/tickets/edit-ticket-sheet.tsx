@@ -2,7 +2,8 @@
 
 import { useState, useEffect } from "react";
 import { format } from "date-fns";
-import { CalendarIcon, Loader2, Trash2 } from "lucide-react";
+import { onlineManager } from "@tanstack/react-query";
+import { CalendarIcon, History, Loader2, MessageSquare, Trash2 } from "lucide-react";
 import {
   Sheet,
   SheetContent,
@@ -39,27 +40,39 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { cn } from "@/lib/utils";
-import { useTicket, useUpdateTicket, useDeleteTicket } from "@/hooks/use-tickets";
+import { useTicket, useTickets, useUpdateTicket, useDeleteTicket } from "@/hooks/use-tickets";
 import { useProjectMembers } from "@/hooks/use-projects";
+import { useProjectStatuses } from "@/hooks/use-project-statuses";
+import { useSprints } from "@/hooks/use-sprints";
 import { CommentsSection } from "@/components/tickets/comments-section";
 import { AttachmentsSection } from "@/components/tickets/attachments-section";
+import { LinkedTicketsSection } from "@/components/tickets/linked-tickets-section";
+import { LabelPicker } from "@/components/tickets/label-picker";
+import { SubtasksSection } from "@/components/tickets/subtasks-section";
+import { TicketTimeline } from "@/components/tickets/ticket-timeline";
+import { TicketMergeDialog } from "@/components/tickets/ticket-merge-dialog";
+import { WatchButton } from "@/components/tickets/watch-button";
+import { PresenceAvatars } from "@/components/layout/presence-avatars";
+import { channels } from "@/lib/realtime/client";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { isTransitionAllowed } from "@minute/db/schema";
 import type { TicketStatus, TicketPriority } from "@minute/db";
+import type {
+  TicketConflict,
+  TicketConflictField,
+  TicketConflictValues,
+  TicketDetail,
+  UpdateTicketInput,
+} from "@/actions/tickets";
 
 interface EditTicketSheetProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   ticketId: string | null;
   projectId?: string; // Optional: if provided, will use cached list data for instant status display
+  onOpenTicket?: (ticketId: string) => void; // Switches the sheet to a linked ticket
 }
 
-const statusOptions: { value: TicketStatus; label: string }[] = [
-  { value: "backlog", label: "Backlog" },
-  { value: "todo", label: "Todo" },
-  { value: "in_progress", label: "In Progress" },
-  { value: "done", label: "Done" },
-];
-
 const priorityOptions: { value: TicketPriority; label: string }[] = [
   { value: "low", label: "Low" },
   { value: "medium", label: "Medium" },
@@ -67,27 +80,76 @@ const priorityOptions: { value: TicketPriority; label: string }[] = [
   { value: "urgent", label: "Urgent" },
 ];
 
+function toUnixSeconds(date: Date | string | null | undefined) {
+  return date ? Math.floor(new Date(date).getTime() / 1000) : null;
+}
+
+// Only the fields edited since the form was loaded are sent, so saving doesn't
+// overwrite fields someone else changed in the meantime
+function getEditedFields(base: TicketDetail, values: TicketConflictValues, labelIds: string[]) {
+  const baseValues: TicketConflictValues = {
+    title: base.title,
+    description: base.description || null,
+    status: base.status,
+    priority: base.priority,
+    assigneeId: base.assigneeId,
+    dueDate: toUnixSeconds(base.dueDate),
+    points: base.points,
+    sprintId: base.sprintId,
+  };
+  const edited: Partial<TicketConflictValues> & { labelIds?: string[] } = Object.fromEntries(
+    Object.entries(values).filter(
+      ([field, value]) => baseValues[field as TicketConflictField] !== value
+    )
+  );
+
+  const sortedLabelIds = [...labelIds].sort();
+  const baseLabelIds = [...(base.labelIds ?? [])].sort();
+  if (sortedLabelIds.join() !== baseLabelIds.join()) {
+    edited.labelIds = labelIds;
+  }
+  return edited;
+}
+
 export function EditTicketSheet({
   open,
   onOpenChange,
   ticketId,
   projectId,
+  onOpenTicket,
 }: EditTicketSheetProps) {
   const { data: ticket, isLoading: isLoadingTicket } = useTicket(ticketId || "", {
     enabled: !!ticketId && open,
     projectId, // Pass projectId to enable cache lookup for instant status display
   });
-  const updateTicket = useUpdateTicket();
+  // The copy the form was loaded from. Refetches (e.g. someone else's edit
+  // arriving in realtime) don't reset the form; conflicts are merged on save.
+  const [baseTicket, setBaseTicket] = useState<TicketDetail | null>(null);
+  const [pendingMerge, setPendingMerge] = useState<{
+    conflict: TicketConflict;
+    input: UpdateTicketInput;
+  } | null>(null);
+  const updateTicket = useUpdateTicket({
+    onConflict: (error, variables) => {
+      if (!open || variables.id !== ticketId) return false;
+      setPendingMerge({ conflict: error.conflict, input: variables });
+      return true;
+    },
+  });
   const deleteTicket = useDeleteTicket();
 
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
-  const [status, setStatus] = useState<TicketStatus>("backlog");
+  const [status, setStatus] = useState<TicketStatus>("");
   const [priority, setPriority] = useState<TicketPriority>("medium");
   const [dueDate, setDueDate] = useState<Date | undefined>(undefined);
   const [points, setPoints] = useState<string>("");
   const [assigneeId, setAssigneeId] = useState<string>("unassigned");
+  const [sprintId, setSprintId] = useState<string>("none");
+  const [labelIds, setLabelIds] = useState<string[]>([]);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [deleteChildren, setDeleteChildren] = useState(false);
+  const [activityTab, setActivityTab] = useState<"comments" | "timeline">("comments");
 
   // Fetch project members for assignee selection
   const { data: members = [], isLoading: isLoadingMembers } = useProjectMembers(
@@ -96,11 +158,27 @@ export function EditTicketSheet({
       enabled: !!ticket?.projectId && open,
     }
   );
+  const { data: statuses = [] } = useProjectStatuses(ticket?.projectId || "", {
+    enabled: !!ticket?.projectId && open,
+  });
+  const { data: sprints = [] } = useSprints(ticket?.projectId || "", {
+    enabled: !!ticket?.projectId && open,
+  });
+  const { data: ticketsByStatus } = useTickets(ticket?.projectId || "");
+  const childCount = Object.values(ticketsByStatus ?? {})
+    .flat()
+    .filter((t) => t.parentId === ticketId).length;
 
-  // Initialize form when ticket data loads
+  // Initialize form when a ticket's data first loads
   useEffect(() => {
-    if (ticket) {
+    if (!open) {
       // eslint-disable-next-line react-hooks/set-state-in-effect
+      setBaseTicket(null);
+      setPendingMerge(null);
+      return;
+    }
+    if (ticket && ticket.id !== baseTicket?.id) {
+      setBaseTicket(ticket);
       setTitle(ticket.title);
       // eslint-disable-next-line react-hooks/set-state-in-effect
       setDescription(ticket.description || "");
@@ -120,8 +198,12 @@ export function EditTicketSheet({
       setPoints(ticket.points?.toString() || "");
       // eslint-disable-next-line react-hooks/set-state-in-effect
       setAssigneeId(ticket.assigneeId || "unassigned");
+      // eslint-disable-next-line react-hooks/set-state-in-effect
+      setSprintId(ticket.sprintId || "none");
+      // eslint-disable-next-line react-hooks/set-state-in-effect
+      setLabelIds(ticket.labelIds ?? []);
     }
-  }, [ticket]);
+  }, [open, ticket, baseTicket]);
 
   const isLoading = updateTicket.isPending || deleteTicket.isPending;
   const isFormLoading = isLoadingTicket || isLoading;
@@ -129,21 +211,45 @@ export function EditTicketSheet({
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!ticketId || !title.trim()) {
+    if (!ticketId || !baseTicket || !title.trim()) {
       return;
     }
 
-    try {
-      await updateTicket.mutateAsync({
-        id: ticketId,
+    const edited = getEditedFields(
+      baseTicket,
+      {
         title: title.trim(),
-        description: description.trim() || undefined,
+        description: description.trim() || null,
         status,
         priority,
         assigneeId: assigneeId === "unassigned" ? null : assigneeId || null,
-        dueDate: dueDate ? Math.floor(dueDate.getTime() / 1000) : null,
+        dueDate: toUnixSeconds(dueDate),
         points: points ? parseInt(points, 10) : null,
-      });
+        sprintId: sprintId === "none" ? null : sprintId,
+      },
+      labelIds
+    );
+    if (Object.keys(edited).length === 0) {
+      onOpenChange(false);
+      return;
+    }
+
+    const input: UpdateTicketInput = {
+      ...edited,
+      id: ticketId,
+      description: edited.description === null ? "" : edited.description,
+      baseVersion: baseTicket.version,
+    };
+
+    // Offline, the change is queued and shown optimistically until it syncs
+    if (!onlineManager.isOnline()) {
+      updateTicket.mutate(input);
+      onOpenChange(false);
+      return;
+    }
+
+    try {
+      await updateTicket.mutateAsync(input);
 
       onOpenChange(false);
     } catch (error) {
@@ -152,11 +258,37 @@ export function EditTicketSheet({
     }
   };
 
+  // Resend the edits against the server's current copy, leaving out the
+  // fields where the other change wins
+  const handleMerge = async (keepTheirs: TicketConflictField[]) => {
+    if (!pendingMerge) return;
+
+    const input: UpdateTicketInput = {
+      ...pendingMerge.input,
+      baseVersion: pendingMerge.conflict.version,
+    };
+    for (const field of keepTheirs) {
+      delete input[field];
+    }
+
+    try {
+      await updateTicket.mutateAsync(input);
+      setPendingMerge(null);
+      onOpenChange(false);
+    } catch (error) {
+      // A newer conflict reopens the merge dialog; other errors are toasted
+      console.error("Error merging ticket changes:", error);
+    }
+  };
+
   const handleDelete = async () => {
     if (!ticketId) return;
 
     try {
-      await deleteTicket.mutateAsync(ticketId);
+      await deleteTicket.mutateAsync({
+        ticketId,
+        deleteChildren: childCount > 0 && deleteChildren,
+      });
       setShowDeleteConfirm(false);
       onOpenChange(false);
     } catch (error) {
@@ -170,6 +302,7 @@ export function EditTicketSheet({
       onOpenChange(newOpen);
       if (!newOpen) {
         setShowDeleteConfirm(false);
+        setDeleteChildren(false);
       }
     }
   };
@@ -179,10 +312,23 @@ export function EditTicketSheet({
       <Sheet open={open} onOpenChange={handleOpenChange}>
         <SheetContent side="right" className="w-full sm:max-w-lg flex flex-col h-full p-0">
           <SheetHeader className="px-6 pt-6 pb-4 flex-shrink-0">
-            <SheetTitle>Edit Ticket</SheetTitle>
+            <SheetTitle>
+              Edit Ticket
+              {ticket?.key && (
+                <span className="ml-2 font-mono text-sm font-normal text-muted-foreground">
+                  {ticket.key}
+                </span>
+              )}
+            </SheetTitle>
             <SheetDescription>
               Update ticket details and information.
             </SheetDescription>
+            {ticketId && (
+              <div className="flex items-center justify-between pt-2">
+                <WatchButton ticketId={ticketId} />
+                <PresenceAvatars channelName={channels.presenceTicket(ticketId)} />
+              </div>
+            )}
           </SheetHeader>
 
           <div className="flex-1 flex flex-col overflow-hidden">
@@ -224,6 +370,7 @@ export function EditTicketSheet({
                     placeholder="Describe the ticket..."
                     disabled={isFormLoading}
                     minHeight="100px"
+                    projectId={ticket.projectId}
                   />
                 </div>
 
@@ -239,9 +386,13 @@ export function EditTicketSheet({
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        {statusOptions.map((option) => (
-                          <SelectItem key={option.value} value={option.value}>
-                            {option.label}
+                        {statuses.map((option) => (
+                          <SelectItem
+                            key={option.id}
+                            value={option.key}
+                            disabled={!!ticket && !isTransitionAllowed(statuses, ticket.status, option.key)}
+                          >
+                            {option.name}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -352,13 +503,89 @@ export function EditTicketSheet({
                   </Select>
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="edit-sprint">Sprint</Label>
+                  <Select
+                    value={sprintId}
+                    onValueChange={setSprintId}
+                    disabled={isFormLoading}
+                  >
+                    <SelectTrigger id="edit-sprint">
+                      <SelectValue placeholder="No sprint" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No sprint (backlog)</SelectItem>
+                      {sprints
+                        .filter((sprint) => sprint.status !== "completed" || sprint.id === ticket.sprintId)
+                        .map((sprint) => (
+                          <SelectItem key={sprint.id} value={sprint.id}>
+                            {sprint.name}
+                            {sprint.status === "active" && (
+                              <span className="text-muted-foreground text-xs">(active)</span>
+                            )}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Labels</Label>
+                  <LabelPicker
+                    projectId={ticket.projectId}
+                    value={labelIds}
+                    onChange={setLabelIds}
+                    disabled={isFormLoading}
+                  />
+                </div>
+
                 {ticketId && (
                   <>
                     <div className="pt-4 border-t">
-                      <AttachmentsSection ticketId={ticketId} />
+                      <SubtasksSection
+                        ticketId={ticketId}
+                        projectId={ticket.projectId}
+                        onOpenTicket={onOpenTicket}
+                      />
                     </div>
                     <div className="pt-4 border-t">
-                      <CommentsSection ticketId={ticketId} />
+                      <LinkedTicketsSection
+                        ticketId={ticketId}
+                        projectId={ticket.projectId}
+                        onOpenTicket={onOpenTicket}
+                      />
+                    </div>
+                    <div className="pt-4 border-t">
+                      <AttachmentsSection ticketId={ticketId} />
+                    </div>
+                    <div className="pt-4 border-t space-y-4">
+                      <div className="flex gap-1 rounded-md bg-muted p-1 w-fit">
+                        <Button
+                          type="button"
+                          variant={activityTab === "comments" ? "secondary" : "ghost"}
+                          size="sm"
+                          className={cn("h-7", activityTab === "comments" && "bg-background shadow-sm")}
+                          onClick={() => setActivityTab("comments")}
+                        >
+                          <MessageSquare className="mr-2 h-3.5 w-3.5" />
+                          Comments
+                        </Button>
+                        <Button
+                          type="button"
+                          variant={activityTab === "timeline" ? "secondary" : "ghost"}
+                          size="sm"
+                          className={cn("h-7", activityTab === "timeline" && "bg-background shadow-sm")}
+                          onClick={() => setActivityTab("timeline")}
+                        >
+                          <History className="mr-2 h-3.5 w-3.5" />
+                          Timeline
+                        </Button>
+                      </div>
+                      {activityTab === "comments" ? (
+                        <CommentsSection ticketId={ticketId} projectId={ticket.projectId} />
+                      ) : (
+                        <TicketTimeline ticketId={ticketId} projectId={ticket.projectId} />
+                      )}
                     </div>
                   </>
                 )}
@@ -409,6 +636,18 @@ export function EditTicketSheet({
         </SheetContent>
       </Sheet>
 
+      {ticket && (
+        <TicketMergeDialog
+          key={pendingMerge?.conflict.version}
+          projectId={ticket.projectId}
+          conflict={pendingMerge?.conflict ?? null}
+          mine={pendingMerge?.input ?? null}
+          isSaving={updateTicket.isPending}
+          onCancel={() => setPendingMerge(null)}
+          onMerge={handleMerge}
+        />
+      )}
+
       <AlertDialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -418,6 +657,26 @@ export function EditTicketSheet({
               &quot;{ticket?.title}&quot;.
             </AlertDialogDescription>
           </AlertDialogHeader>
+          {childCount > 0 && (
+            <div className="space-y-2">
+              <Label>
+                This ticket has {childCount} sub-task{childCount === 1 ? "" : "s"}
+              </Label>
+              <Select
+                value={deleteChildren ? "cascade" : "orphan"}
+                onValueChange={(value) => setDeleteChildren(value === "cascade")}
+                disabled={isLoading}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="orphan">Keep sub-tasks as top-level tickets</SelectItem>
+                  <SelectItem value="cascade">Delete sub-tasks too</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
           <AlertDialogFooter>
             <AlertDialogCancel disabled={isLoading}>Cancel</AlertDialogCancel>
             <AlertDialogAction
@@ -3,6 +3,13 @@ export { EditTicketDialog } from "./edit-ticket-dialog";
 export { EditTicketSheet } from "./edit-ticket-sheet";
 export { AttachmentsSection } from "./attachments-section";
 export { CommentsSection } from "./comments-section";
+export { LinkedTicketsSection } from "./linked-tickets-section";
+export { SubtasksSection } from "./subtasks-section";
+export { TicketTimeline } from "./ticket-timeline";
+export { StatusBadge } from "./status-badge";
+export { LabelChips } from "./label-chips";
+export { LabelPicker } from "./label-picker";
 export { TemplateDialog } from "./template-dialog";
 export { TemplateSelector } from "./template-selector";
 
+export { SearchHighlight } from "./search-highlight";
@@ -0,0 +1,43 @@
+import { cn } from "@/lib/utils";
+import type { TicketLabelChip } from "@/actions/tickets";
+
+interface LabelChipsProps {
+  labels: TicketLabelChip[];
+  // Show at most this many chips followed by a "+N" counter
+  max?: number;
+  className?: string;
+}
+
+export function LabelChips({ labels, max, className }: LabelChipsProps) {
+  if (labels.length === 0) return null;
+
+  const visible = max !== undefined ? labels.slice(0, max) : labels;
+  const hidden = labels.length - visible.length;
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-1", className)}>
+      {visible.map((label) => (
+        <span
+          key={label.id}
+          className="inline-flex max-w-[120px] items-center gap-1 rounded-full border px-1.5 py-0 text-[10px] font-medium leading-4"
+          style={{ borderColor: `${label.color}66`, backgroundColor: `${label.color}1a` }}
+          title={label.name}
+        >
+          <span
+            className="h-1.5 w-1.5 flex-shrink-0 rounded-full"
+            style={{ backgroundColor: label.color }}
+          />
+          <span className="truncate">{label.name}</span>
+        </span>
+      ))}
+      {hidden > 0 && (
+        <span
+          className="text-[10px] text-muted-foreground"
+          title={labels.slice(visible.length).map((label) => label.name).join(", ")}
+        >
+          +{hidden}
+        </span>
+      )}
+    </div>
+  );
+}
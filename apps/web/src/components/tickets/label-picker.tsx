@@ -0,0 +1,148 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Check, Loader2, Plus, Tag } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import { useLabels, useCreateLabel } from "@/hooks/use-labels";
+import { LabelChips } from "./label-chips";
+
+interface LabelPickerProps {
+  projectId: string;
+  value: string[]; // Selected label IDs
+  onChange: (labelIds: string[]) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Colors handed out to labels created from the picker
+const labelColors = [
+  "#ef4444",
+  "#f97316",
+  "#eab308",
+  "#22c55e",
+  "#14b8a6",
+  "#3b82f6",
+  "#8b5cf6",
+  "#ec4899",
+];
+
+export function LabelPicker({ projectId, value, onChange, disabled, className }: LabelPickerProps) {
+  const { data: labels = [] } = useLabels(projectId);
+  const createLabel = useCreateLabel();
+
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+
+  const query = search.trim();
+  const filtered = useMemo(
+    () => labels.filter((label) => label.name.toLowerCase().includes(query.toLowerCase())),
+    [labels, query]
+  );
+  const canCreate =
+    !!query && !labels.some((label) => label.name.toLowerCase() === query.toLowerCase());
+  const selected = labels.filter((label) => value.includes(label.id));
+
+  const toggle = (labelId: string) => {
+    onChange(value.includes(labelId) ? value.filter((id) => id !== labelId) : [...value, labelId]);
+  };
+
+  const handleCreate = async () => {
+    if (!canCreate) return;
+    try {
+      const created = await createLabel.mutateAsync({
+        projectId,
+        name: query,
+        color: labelColors[labels.length % labelColors.length],
+      });
+      onChange([...value, created.id]);
+      setSearch("");
+    } catch {
+      // Error handling is done in the mutation hook
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          className={cn("w-full justify-start font-normal h-auto min-h-9 py-1.5", className)}
+          disabled={disabled}
+        >
+          {selected.length > 0 ? (
+            <LabelChips labels={selected} />
+          ) : (
+            <span className="flex items-center text-muted-foreground">
+              <Tag className="mr-2 h-4 w-4" />
+              Add labels
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-2" align="start">
+        <Input
+          placeholder="Search or create label..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              // Don't submit the surrounding ticket form
+              e.preventDefault();
+              handleCreate();
+            }
+          }}
+          className="h-8 text-sm mb-2"
+          autoFocus
+        />
+        <div className="max-h-60 overflow-y-auto space-y-0.5">
+          {filtered.map((label) => {
+            const isSelected = value.includes(label.id);
+            return (
+              <button
+                key={label.id}
+                type="button"
+                onClick={() => toggle(label.id)}
+                className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted"
+              >
+                <span
+                  className="h-2.5 w-2.5 flex-shrink-0 rounded-full"
+                  style={{ backgroundColor: label.color }}
+                />
+                <span className="flex-1 truncate">{label.name}</span>
+                {isSelected && <Check className="h-4 w-4 text-primary" />}
+              </button>
+            );
+          })}
+          {canCreate && (
+            <button
+              type="button"
+              onClick={handleCreate}
+              disabled={createLabel.isPending}
+              className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted disabled:opacity-50"
+            >
+              {createLabel.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Plus className="h-4 w-4" />
+              )}
+              <span className="truncate">Create &quot;{query}&quot;</span>
+            </button>
+          )}
+          {filtered.length === 0 && !canCreate && (
+            <p className="px-2 py-4 text-center text-xs text-muted-foreground">
+              No labels yet
+            </p>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
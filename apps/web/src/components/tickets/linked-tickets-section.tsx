@@ -0,0 +1,216 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Link2, Loader2, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { StatusBadge } from "@/components/tickets/status-badge";
+import { useTickets } from "@/hooks/use-tickets";
+import { useProjectStatuses } from "@/hooks/use-project-statuses";
+import {
+  useTicketLinks,
+  useAddTicketLink,
+  useRemoveTicketLink,
+} from "@/hooks/use-ticket-links";
+import type { TicketRelation } from "@minute/db";
+
+interface LinkedTicketsSectionProps {
+  ticketId: string;
+  projectId: string;
+  onOpenTicket?: (ticketId: string) => void;
+}
+
+const relationLabels: Record<TicketRelation, string> = {
+  blocks: "Blocks",
+  blocked_by: "Blocked by",
+  duplicates: "Duplicates",
+  duplicated_by: "Duplicated by",
+  relates_to: "Relates to",
+};
+
+const relationOrder = Object.keys(relationLabels) as TicketRelation[];
+
+export function LinkedTicketsSection({
+  ticketId,
+  projectId,
+  onOpenTicket,
+}: LinkedTicketsSectionProps) {
+  const { data: links = [], isLoading } = useTicketLinks(ticketId);
+  const { data: ticketsByStatus } = useTickets(projectId);
+  const { data: statuses } = useProjectStatuses(projectId);
+  const addLink = useAddTicketLink();
+  const removeLink = useRemoveTicketLink();
+
+  const [relation, setRelation] = useState<TicketRelation>("relates_to");
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [search, setSearch] = useState("");
+
+  // Tickets that can still be linked: same project, not this one, not already linked
+  const candidates = useMemo(() => {
+    const linkedIds = new Set(links.map((link) => link.ticket.id));
+    const query = search.trim().toLowerCase();
+    return Object.values(ticketsByStatus ?? {})
+      .flat()
+      .filter((t) => t.id !== ticketId && !linkedIds.has(t.id))
+      .filter((t) => !query || t.title.toLowerCase().includes(query))
+      .slice(0, 20);
+  }, [ticketsByStatus, links, ticketId, search]);
+
+  const groupedLinks = relationOrder
+    .map((key) => ({
+      relation: key,
+      links: links.filter((link) => link.relation === key),
+    }))
+    .filter((group) => group.links.length > 0);
+
+  const handleSelect = async (targetTicketId: string) => {
+    setPickerOpen(false);
+    setSearch("");
+    try {
+      await addLink.mutateAsync({ ticketId, targetTicketId, relation });
+    } catch {
+      // Error handling is done in the mutation hook
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Link2 className="h-4 w-4 text-muted-foreground" />
+          <h3 className="font-semibold text-sm">Linked Tickets</h3>
+          {links.length > 0 && (
+            <span className="text-xs text-muted-foreground">({links.length})</span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Select
+            value={relation}
+            onValueChange={(value) => setRelation(value as TicketRelation)}
+          >
+            <SelectTrigger size="sm" className="h-7 text-xs w-[130px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {relationOrder.map((key) => (
+                <SelectItem key={key} value={key}>
+                  {relationLabels[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+            <PopoverTrigger asChild>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs"
+                disabled={addLink.isPending}
+              >
+                {addLink.isPending ? (
+                  <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                ) : (
+                  <Plus className="mr-1 h-3 w-3" />
+                )}
+                Link Ticket
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 p-2" align="end">
+              <Input
+                placeholder="Search tickets..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="h-8 text-sm mb-2"
+                autoFocus
+              />
+              <div className="max-h-60 overflow-y-auto space-y-1">
+                {candidates.length > 0 ? (
+                  candidates.map((candidate) => (
+                    <button
+                      key={candidate.id}
+                      type="button"
+                      onClick={() => handleSelect(candidate.id)}
+                      className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted"
+                    >
+                      <span className="flex-1 truncate">{candidate.title}</span>
+                      <StatusBadge status={candidate.status} statuses={statuses} />
+                    </button>
+                  ))
+                ) : (
+                  <p className="px-2 py-4 text-center text-xs text-muted-foreground">
+                    No tickets found
+                  </p>
+                )}
+              </div>
+            </PopoverContent>
+          </Popover>
+        </div>
+      </div>
+
+      <Separator />
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {[1, 2].map((i) => (
+            <div key={i} className="h-8 rounded-md bg-muted animate-pulse" />
+          ))}
+        </div>
+      ) : groupedLinks.length > 0 ? (
+        <div className="space-y-3">
+          {groupedLinks.map((group) => (
+            <div key={group.relation} className="space-y-1">
+              <p className="text-xs font-medium text-muted-foreground">
+                {relationLabels[group.relation]}
+              </p>
+              {group.links.map((link) => (
+                <div
+                  key={link.id}
+                  className="flex items-center gap-2 p-2 rounded-md bg-muted/50 hover:bg-muted transition-colors group"
+                >
+                  <button
+                    type="button"
+                    onClick={() => onOpenTicket?.(link.ticket.id)}
+                    disabled={!onOpenTicket}
+                    className="flex-1 truncate text-left text-sm hover:underline disabled:no-underline disabled:cursor-default"
+                  >
+                    {link.ticket.title}
+                  </button>
+                  <StatusBadge status={link.ticket.status} statuses={statuses} />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                    onClick={() => removeLink.mutate(link.id)}
+                    disabled={removeLink.isPending}
+                  >
+                    <X className="h-3 w-3" />
+                    <span className="sr-only">Remove link</span>
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground text-center py-2">
+          No linked tickets
+        </p>
+      )}
+    </div>
+  );
+}
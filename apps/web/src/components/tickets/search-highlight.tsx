@@ -0,0 +1,26 @@
+import type { HighlightedText } from "@minute/db";
+
+interface SearchHighlightProps {
+  parts: HighlightedText;
+  className?: string;
+}
+
+// Text from a keyword search result with the matched terms marked
+export function SearchHighlight({ parts, className }: SearchHighlightProps) {
+  return (
+    <span className={className}>
+      {parts.map((part, index) =>
+        part.match ? (
+          <mark
+            key={index}
+            className="rounded-sm bg-yellow-200/70 px-0.5 text-inherit dark:bg-yellow-500/30"
+          >
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </span>
+  );
+}
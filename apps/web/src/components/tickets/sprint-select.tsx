@@ -0,0 +1,52 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { useUpdateTicket } from "@/hooks/use-tickets";
+import type { SprintWithStats } from "@/hooks/use-sprints";
+
+interface SprintSelectProps {
+  ticketId: string;
+  sprintId: string | null;
+  sprints: SprintWithStats[];
+  className?: string;
+}
+
+// Inline sprint picker that saves as soon as a sprint is chosen
+export function SprintSelect({ ticketId, sprintId, sprints, className }: SprintSelectProps) {
+  const updateTicket = useUpdateTicket();
+
+  return (
+    <Select
+      value={sprintId || "none"}
+      onValueChange={(value) =>
+        updateTicket.mutate({ id: ticketId, sprintId: value === "none" ? null : value })
+      }
+      disabled={updateTicket.isPending}
+    >
+      <SelectTrigger
+        size="sm"
+        className={cn("h-7 text-xs w-[150px]", className)}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <SelectValue placeholder="Backlog" />
+      </SelectTrigger>
+      <SelectContent onClick={(e) => e.stopPropagation()}>
+        <SelectItem value="none">Backlog</SelectItem>
+        {sprints
+          .filter((sprint) => sprint.status !== "completed" || sprint.id === sprintId)
+          .map((sprint) => (
+            <SelectItem key={sprint.id} value={sprint.id}>
+              {sprint.name}
+            </SelectItem>
+          ))}
+      </SelectContent>
+    </Select>
+  );
+}
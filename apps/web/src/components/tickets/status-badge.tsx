@@ -0,0 +1,28 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { getStatusDisplay } from "@/hooks/use-project-statuses";
+import type { ProjectStatus } from "@minute/db";
+
+interface StatusBadgeProps {
+  status: string;
+  statuses: ProjectStatus[] | undefined;
+  className?: string;
+}
+
+// Badge tinted with the workflow status color
+export function StatusBadge({ status, statuses, className }: StatusBadgeProps) {
+  const { name, color } = getStatusDisplay(statuses, status);
+
+  return (
+    <Badge
+      variant="outline"
+      className={cn("text-xs border", className)}
+      style={{ backgroundColor: `${color}1a`, borderColor: `${color}33` }}
+    >
+      <span className="h-2 w-2 rounded-full" style={{ backgroundColor: color }} />
+      {name}
+    </Badge>
+  );
+}
@@ -0,0 +1,204 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { CheckCircle2, Circle, CornerLeftUp, ListTree, Loader2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { cn } from "@/lib/utils";
+import { useTickets, useCreateTicket, useUpdateTicket } from "@/hooks/use-tickets";
+import { useProjectStatuses } from "@/hooks/use-project-statuses";
+import { isTransitionAllowed, maxTicketDepth } from "@minute/db/schema";
+
+interface SubtasksSectionProps {
+  ticketId: string;
+  projectId: string;
+  onOpenTicket?: (ticketId: string) => void;
+}
+
+export function SubtasksSection({ ticketId, projectId, onOpenTicket }: SubtasksSectionProps) {
+  const { data: ticketsByStatus, isLoading } = useTickets(projectId);
+  const { data: statuses = [] } = useProjectStatuses(projectId);
+  const createTicket = useCreateTicket();
+  const updateTicket = useUpdateTicket();
+
+  const [newTitle, setNewTitle] = useState("");
+
+  const { ticket, parent, children, depth } = useMemo(() => {
+    const all = Object.values(ticketsByStatus ?? {}).flat();
+    const byId = new Map(all.map((t) => [t.id, t]));
+    const current = byId.get(ticketId);
+
+    // Level of this ticket in the hierarchy (1 = top level)
+    let level = 1;
+    let ancestorId = current?.parentId ?? null;
+    while (ancestorId && level <= maxTicketDepth) {
+      level++;
+      ancestorId = byId.get(ancestorId)?.parentId ?? null;
+    }
+
+    return {
+      ticket: current,
+      parent: current?.parentId ? byId.get(current.parentId) : undefined,
+      children: all.filter((t) => t.parentId === ticketId),
+      depth: level,
+    };
+  }, [ticketsByStatus, ticketId]);
+
+  const completedKeys = new Set(
+    statuses.filter((s) => s.category === "completed").map((s) => s.key)
+  );
+  const doneStatus = statuses.find((s) => s.category === "completed");
+  const reopenStatus = statuses.find((s) => s.category !== "completed");
+  const completedCount = children.filter((child) => completedKeys.has(child.status)).length;
+  const progress = children.length > 0 ? Math.round((completedCount / children.length) * 100) : 0;
+
+  // Checking a sub-task moves it to the first completed status; unchecking reopens it
+  const handleToggle = (child: { id: string; status: string; version: number }) => {
+    const target = completedKeys.has(child.status) ? reopenStatus : doneStatus;
+    if (!target) return;
+    updateTicket.mutate({
+      id: child.id,
+      status: target.key,
+      baseVersion: child.version,
+    });
+  };
+
+  const handleAdd = async () => {
+    const title = newTitle.trim();
+    if (!title) return;
+    try {
+      await createTicket.mutateAsync({ projectId, title, parentId: ticketId });
+      setNewTitle("");
+    } catch {
+      // Error handling is done in the mutation hook
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {parent && (
+        <button
+          type="button"
+          onClick={() => onOpenTicket?.(parent.id)}
+          disabled={!onOpenTicket}
+          className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground disabled:hover:text-muted-foreground"
+        >
+          <CornerLeftUp className="h-3.5 w-3.5" />
+          Sub-task of <span className="font-medium truncate">{parent.title}</span>
+        </button>
+      )}
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ListTree className="h-4 w-4 text-muted-foreground" />
+          <h3 className="font-semibold text-sm">Sub-tasks</h3>
+          {children.length > 0 && (
+            <span className="text-xs text-muted-foreground">
+              ({completedCount}/{children.length})
+            </span>
+          )}
+        </div>
+        {ticket?.rolledUpPoints !== null && ticket?.rolledUpPoints !== undefined && (
+          <span className="text-xs text-muted-foreground">
+            {ticket.rolledUpPoints} {ticket.rolledUpPoints === 1 ? "pt" : "pts"} total
+          </span>
+        )}
+      </div>
+
+      <Separator />
+
+      {children.length > 0 && (
+        <div className="h-1.5 w-full overflow-hidden rounded-full bg-muted">
+          <div
+            className="h-full bg-primary transition-all"
+            style={{ width: `${progress}%` }}
+          />
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {[1, 2].map((i) => (
+            <div key={i} className="h-8 rounded-md bg-muted animate-pulse" />
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-1">
+          {children.map((child) => {
+            const isDone = completedKeys.has(child.status);
+            const target = isDone ? reopenStatus : doneStatus;
+            const canToggle = !!target && isTransitionAllowed(statuses, child.status, target.key);
+
+            return (
+              <div
+                key={child.id}
+                className="flex items-center gap-2 p-2 rounded-md bg-muted/50 hover:bg-muted transition-colors"
+              >
+                <button
+                  type="button"
+                  onClick={() => handleToggle(child)}
+                  disabled={!canToggle || updateTicket.isPending}
+                  title={canToggle ? undefined : "The workflow doesn't allow this move"}
+                  className="text-muted-foreground hover:text-foreground disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isDone ? (
+                    <CheckCircle2 className="h-4 w-4 text-primary" />
+                  ) : (
+                    <Circle className="h-4 w-4" />
+                  )}
+                  <span className="sr-only">{isDone ? "Reopen" : "Complete"}</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onOpenTicket?.(child.id)}
+                  disabled={!onOpenTicket}
+                  className={cn(
+                    "flex-1 truncate text-left text-sm hover:underline disabled:no-underline disabled:cursor-default",
+                    isDone && "line-through text-muted-foreground"
+                  )}
+                >
+                  {child.title}
+                </button>
+                {child.points !== null && (
+                  <span className="text-xs text-muted-foreground">
+                    {child.points} {child.points === 1 ? "pt" : "pts"}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+
+          {depth < maxTicketDepth ? (
+            <div className="flex items-center gap-2 pt-1">
+              {createTicket.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              ) : (
+                <Circle className="h-4 w-4 text-muted-foreground/50" />
+              )}
+              <Input
+                placeholder="Add a sub-task..."
+                value={newTitle}
+                onChange={(e) => setNewTitle(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    // Don't submit the surrounding ticket form
+                    e.preventDefault();
+                    handleAdd();
+                  }
+                }}
+                disabled={createTicket.isPending}
+                className="h-8 text-sm"
+              />
+            </div>
+          ) : (
+            children.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-2">
+                Sub-tasks can&apos;t be nested any deeper
+              </p>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -21,7 +21,9 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { RichTextEditor } from "@/components/ui/rich-text-editor";
+import { LabelPicker } from "./label-picker";
 import { useCreateTemplate, useUpdateTemplate } from "@/hooks/use-templates";
+import { useProjectStatuses } from "@/hooks/use-project-statuses";
 import type { TicketStatus, TicketPriority, TicketTemplate } from "@minute/db";
 
 interface TemplateDialogProps {
@@ -31,12 +33,8 @@ interface TemplateDialogProps {
   template?: TicketTemplate | null; // If provided, edit mode
 }
 
-const statusOptions: { value: TicketStatus; label: string }[] = [
-  { value: "backlog", label: "Backlog" },
-  { value: "todo", label: "Todo" },
-  { value: "in_progress", label: "In Progress" },
-  { value: "done", label: "Done" },
-];
+// Select value for "use the project's first status"
+const FIRST_STATUS = "__first__";
 
 const priorityOptions: { value: TicketPriority; label: string }[] = [
   { value: "low", label: "Low" },
@@ -55,12 +53,16 @@ export function TemplateDialog({
   const [description, setDescription] = useState("");
   const [titleTemplate, setTitleTemplate] = useState("");
   const [descriptionTemplate, setDescriptionTemplate] = useState("");
-  const [defaultStatus, setDefaultStatus] = useState<TicketStatus>("backlog");
+  const [defaultStatus, setDefaultStatus] = useState<TicketStatus>(FIRST_STATUS);
   const [defaultPriority, setDefaultPriority] = useState<TicketPriority>("medium");
   const [defaultPoints, setDefaultPoints] = useState<string>("");
+  const [defaultLabelIds, setDefaultLabelIds] = useState<string[]>([]);
 
   const createTemplate = useCreateTemplate();
   const updateTemplate = useUpdateTemplate();
+  const { data: statuses = [] } = useProjectStatuses(projectId, {
+    enabled: open && !!projectId,
+  });
   const isLoading = createTemplate.isPending || updateTemplate.isPending;
   const isEditMode = !!template;
 
@@ -76,11 +78,13 @@ export function TemplateDialog({
       // eslint-disable-next-line react-hooks/set-state-in-effect
       setDescriptionTemplate(template.descriptionTemplate || "");
       // eslint-disable-next-line react-hooks/set-state-in-effect
-      setDefaultStatus(template.defaultStatus || "backlog");
+      setDefaultStatus(template.defaultStatus || FIRST_STATUS);
       // eslint-disable-next-line react-hooks/set-state-in-effect
       setDefaultPriority(template.defaultPriority || "medium");
       // eslint-disable-next-line react-hooks/set-state-in-effect
       setDefaultPoints(template.defaultPoints?.toString() || "");
+      // eslint-disable-next-line react-hooks/set-state-in-effect
+      setDefaultLabelIds(template.defaultLabelIds ?? []);
     } else {
       // Reset form for create mode
       // eslint-disable-next-line react-hooks/set-state-in-effect
@@ -92,11 +96,13 @@ export function TemplateDialog({
       // eslint-disable-next-line react-hooks/set-state-in-effect
       setDescriptionTemplate("");
       // eslint-disable-next-line react-hooks/set-state-in-effect
-      setDefaultStatus("backlog");
+      setDefaultStatus(FIRST_STATUS);
       // eslint-disable-next-line react-hooks/set-state-in-effect
       setDefaultPriority("medium");
       // eslint-disable-next-line react-hooks/set-state-in-effect
       setDefaultPoints("");
+      // eslint-disable-next-line react-hooks/set-state-in-effect
+      setDefaultLabelIds([]);
     }
   }, [template, open]);
 
@@ -115,9 +121,10 @@ export function TemplateDialog({
           description: description.trim() || undefined,
           titleTemplate: titleTemplate.trim() || undefined,
           descriptionTemplate: descriptionTemplate || undefined,
-          defaultStatus,
+          defaultStatus: defaultStatus === FIRST_STATUS ? null : defaultStatus,
           defaultPriority,
           defaultPoints: defaultPoints ? parseInt(defaultPoints, 10) : null,
+          defaultLabelIds,
         });
       } else {
         await createTemplate.mutateAsync({
@@ -126,9 +133,10 @@ export function TemplateDialog({
           description: description.trim() || undefined,
           titleTemplate: titleTemplate.trim() || undefined,
           descriptionTemplate: descriptionTemplate || undefined,
-          defaultStatus,
+          defaultStatus: defaultStatus === FIRST_STATUS ? undefined : defaultStatus,
           defaultPriority,
           defaultPoints: defaultPoints ? parseInt(defaultPoints, 10) : undefined,
+          defaultLabelIds: defaultLabelIds.length > 0 ? defaultLabelIds : undefined,
         });
       }
 
@@ -228,9 +236,10 @@ export function TemplateDialog({
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {statusOptions.map((option) => (
-                    <SelectItem key={option.value} value={option.value}>
-                      {option.label}
+                  <SelectItem value={FIRST_STATUS}>First status</SelectItem>
+                  {statuses.map((option) => (
+                    <SelectItem key={option.id} value={option.key}>
+                      {option.name}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -276,6 +285,16 @@ export function TemplateDialog({
             />
           </div>
 
+          <div className="space-y-2">
+            <Label>Default Labels (optional)</Label>
+            <LabelPicker
+              projectId={projectId}
+              value={defaultLabelIds}
+              onChange={setDefaultLabelIds}
+              disabled={isLoading}
+            />
+          </div>
+
           <DialogFooter>
             <Button
               type="button"
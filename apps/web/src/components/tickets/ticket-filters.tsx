@@ -2,7 +2,7 @@
 
 import * as React from "react";
 import { useRouter, useSearchParams, usePathname } from "next/navigation";
-import { Search, X, CircleDashed, Signal } from "lucide-react";
+import { Search, X, CircleDashed, Signal, Timer, Tag } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -11,15 +11,23 @@ import {
   DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { cn } from "@/lib/utils";
+import { useProjectStatuses, getStatusDisplay } from "@/hooks/use-project-statuses";
+import { useSprints } from "@/hooks/use-sprints";
+import { useLabels } from "@/hooks/use-labels";
 
-export function TicketFilters({ className }: { className?: string }) {
+export function TicketFilters({ projectId, className }: { projectId: string; className?: string }) {
   const router = useRouter();
   const pathname = usePathname();
   const searchParams = useSearchParams();
+  const { data: statuses = [] } = useProjectStatuses(projectId);
+  const { data: sprints = [] } = useSprints(projectId);
+  const { data: labels = [] } = useLabels(projectId);
 
   // Local state for search input to allow debouncing
   const [searchValue, setSearchValue] = React.useState(
@@ -61,6 +69,8 @@ export function TicketFilters({ className }: { className?: string }) {
     params.delete("search");
     params.delete("status");
     params.delete("priority");
+    params.delete("sprint");
+    params.delete("label");
     setSearchValue("");
     router.replace(`${pathname}?${params.toString()}`);
   };
@@ -68,10 +78,19 @@ export function TicketFilters({ className }: { className?: string }) {
   const hasFilters = 
     !!searchParams.get("search") || 
     !!searchParams.get("status") || 
-    !!searchParams.get("priority");
+    !!searchParams.get("priority") ||
+    !!searchParams.get("sprint") ||
+    !!searchParams.get("label");
 
   const statusFilters = searchParams.get("status")?.split(",") || [];
   const priorityFilters = searchParams.get("priority")?.split(",") || [];
+  const labelFilters = searchParams.get("label")?.split(",") || [];
+  // Single sprint id, or "backlog" for tickets without a sprint
+  const sprintFilter = searchParams.get("sprint");
+  const sprintFilterLabel =
+    sprintFilter === "backlog"
+      ? "Backlog"
+      : sprints.find((sprint) => sprint.id === sprintFilter)?.name;
 
   return (
     <div className={cn("flex flex-col gap-4 sm:flex-row sm:items-start", className)}>
@@ -107,9 +126,9 @@ export function TicketFilters({ className }: { className?: string }) {
                         <Badge
                           variant="secondary"
                           key={status}
-                          className="rounded-sm px-1 font-normal capitalize"
+                          className="rounded-sm px-1 font-normal"
                         >
-                          {status === "in_progress" ? "In Progress" : status}
+                          {getStatusDisplay(statuses, status).name}
                         </Badge>
                       ))
                     )}
@@ -121,30 +140,19 @@ export function TicketFilters({ className }: { className?: string }) {
           <DropdownMenuContent align="start" className="w-[200px]">
             <DropdownMenuLabel>Filter by status</DropdownMenuLabel>
             <DropdownMenuSeparator />
-            <DropdownMenuCheckboxItem
-              checked={statusFilters.includes("backlog")}
-              onCheckedChange={() => toggleValue("status", "backlog")}
-            >
-              Backlog
-            </DropdownMenuCheckboxItem>
-            <DropdownMenuCheckboxItem
-              checked={statusFilters.includes("todo")}
-              onCheckedChange={() => toggleValue("status", "todo")}
-            >
-              Todo
-            </DropdownMenuCheckboxItem>
-            <DropdownMenuCheckboxItem
-              checked={statusFilters.includes("in_progress")}
-              onCheckedChange={() => toggleValue("status", "in_progress")}
-            >
-              In Progress
-            </DropdownMenuCheckboxItem>
-            <DropdownMenuCheckboxItem
-              checked={statusFilters.includes("done")}
-              onCheckedChange={() => toggleValue("status", "done")}
-            >
-              Done
-            </DropdownMenuCheckboxItem>
+            {statuses.map((status) => (
+              <DropdownMenuCheckboxItem
+                key={status.id}
+                checked={statusFilters.includes(status.key)}
+                onCheckedChange={() => toggleValue("status", status.key)}
+              >
+                <span
+                  className="mr-2 h-2 w-2 rounded-full"
+                  style={{ backgroundColor: status.color }}
+                />
+                {status.name}
+              </DropdownMenuCheckboxItem>
+            ))}
           </DropdownMenuContent>
         </DropdownMenu>
 
@@ -210,6 +218,99 @@ export function TicketFilters({ className }: { className?: string }) {
           </DropdownMenuContent>
         </DropdownMenu>
 
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="h-9 border-dashed">
+              <Timer className="mr-2 h-4 w-4" />
+              Sprint
+              {sprintFilterLabel && (
+                <>
+                  <div className="mx-2 h-4 w-px bg-accent" />
+                  <Badge variant="secondary" className="rounded-sm px-1 font-normal">
+                    {sprintFilterLabel}
+                  </Badge>
+                </>
+              )}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-[220px]">
+            <DropdownMenuLabel>Filter by sprint</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            <DropdownMenuRadioGroup
+              value={sprintFilter || "all"}
+              onValueChange={(value) => updateFilter("sprint", value === "all" ? null : value)}
+            >
+              <DropdownMenuRadioItem value="all">All tickets</DropdownMenuRadioItem>
+              <DropdownMenuRadioItem value="backlog">Backlog (no sprint)</DropdownMenuRadioItem>
+              {sprints
+                .filter((sprint) => sprint.status !== "completed" || sprint.id === sprintFilter)
+                .map((sprint) => (
+                  <DropdownMenuRadioItem key={sprint.id} value={sprint.id}>
+                    {sprint.name}
+                    {sprint.status === "active" && (
+                      <span className="ml-auto text-xs text-muted-foreground">Active</span>
+                    )}
+                  </DropdownMenuRadioItem>
+                ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="h-9 border-dashed">
+              <Tag className="mr-2 h-4 w-4" />
+              Label
+              {labelFilters.length > 0 && (
+                <>
+                  <div className="mx-2 h-4 w-px bg-accent" />
+                  <Badge variant="secondary" className="rounded-sm px-1 font-normal lg:hidden">
+                    {labelFilters.length}
+                  </Badge>
+                  <div className="hidden space-x-1 lg:flex">
+                    {labelFilters.length > 2 ? (
+                      <Badge variant="secondary" className="rounded-sm px-1 font-normal">
+                        {labelFilters.length} selected
+                      </Badge>
+                    ) : (
+                      labelFilters.map((labelId) => (
+                        <Badge
+                          variant="secondary"
+                          key={labelId}
+                          className="rounded-sm px-1 font-normal"
+                        >
+                          {labels.find((label) => label.id === labelId)?.name ?? "Unknown"}
+                        </Badge>
+                      ))
+                    )}
+                  </div>
+                </>
+              )}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-[200px]">
+            <DropdownMenuLabel>Filter by label</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {labels.length > 0 ? (
+              labels.map((label) => (
+                <DropdownMenuCheckboxItem
+                  key={label.id}
+                  checked={labelFilters.includes(label.id)}
+                  onCheckedChange={() => toggleValue("label", label.id)}
+                >
+                  <span
+                    className="mr-2 h-2 w-2 rounded-full"
+                    style={{ backgroundColor: label.color }}
+                  />
+                  {label.name}
+                </DropdownMenuCheckboxItem>
+              ))
+            ) : (
+              <p className="px-2 py-1.5 text-sm text-muted-foreground">No labels yet</p>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
         {hasFilters && (
           <Button
             variant="ghost"
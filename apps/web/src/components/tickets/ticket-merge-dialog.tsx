@@ -0,0 +1,163 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { ticketConflictFieldLabels } from "@/hooks/use-tickets";
+import { useProjectMembers } from "@/hooks/use-projects";
+import { useProjectStatuses, getStatusDisplay } from "@/hooks/use-project-statuses";
+import { useSprints } from "@/hooks/use-sprints";
+import type {
+  TicketConflict,
+  TicketConflictField,
+  TicketConflictValues,
+  UpdateTicketInput,
+} from "@/actions/tickets";
+
+type Side = "mine" | "theirs";
+
+interface TicketMergeDialogProps {
+  projectId: string;
+  conflict: TicketConflict | null;
+  // The changes this user tried to save
+  mine: UpdateTicketInput | null;
+  isSaving: boolean;
+  onCancel: () => void;
+  // Called with the fields where the server's value should be kept
+  onMerge: (keepTheirs: TicketConflictField[]) => void;
+}
+
+const priorityLabels: Record<TicketConflictValues["priority"], string> = {
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+  urgent: "Urgent",
+};
+
+// Field-by-field choice between this user's edits and the server's current
+// values after someone else changed the same fields
+export function TicketMergeDialog({
+  projectId,
+  conflict,
+  mine,
+  isSaving,
+  onCancel,
+  onMerge,
+}: TicketMergeDialogProps) {
+  const [choices, setChoices] = useState<Partial<Record<TicketConflictField, Side>>>({});
+
+  const { data: members = [] } = useProjectMembers(projectId, { enabled: !!conflict });
+  const { data: statuses } = useProjectStatuses(projectId, { enabled: !!conflict });
+  const { data: sprints = [] } = useSprints(projectId, { enabled: !!conflict });
+
+  const formatValue = (field: TicketConflictField, value: unknown) => {
+    if (value === null || value === undefined || value === "") {
+      switch (field) {
+        case "assigneeId":
+          return "Unassigned";
+        case "sprintId":
+          return "No sprint (backlog)";
+        default:
+          return "None";
+      }
+    }
+    switch (field) {
+      case "status":
+        return getStatusDisplay(statuses, String(value)).name;
+      case "priority":
+        return priorityLabels[value as TicketConflictValues["priority"]] ?? String(value);
+      case "assigneeId": {
+        const member = members.find((m) => m.id === value);
+        return member ? member.name || member.email : "Unknown member";
+      }
+      case "sprintId":
+        return sprints.find((s) => s.id === value)?.name ?? "Unknown sprint";
+      case "dueDate":
+        return format(new Date(Number(value) * 1000), "PPP");
+      case "description":
+        return String(value).replace(/<[^>]*>/g, " ").trim() || "None";
+      default:
+        return String(value);
+    }
+  };
+
+  const handleMerge = () => {
+    if (!conflict) return;
+    onMerge(conflict.fields.filter((field) => choices[field] === "theirs"));
+  };
+
+  return (
+    <Dialog open={!!conflict} onOpenChange={(open) => !open && !isSaving && onCancel()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Resolve conflicting changes</DialogTitle>
+          <DialogDescription>
+            Someone else changed these fields while you were editing. Choose which
+            value to keep for each one; your other changes are saved as they are.
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflict && mine && (
+          <div className="max-h-[60vh] space-y-4 overflow-y-auto">
+            {conflict.fields.map((field) => {
+              const selected = choices[field] ?? "mine";
+              const options: { side: Side; label: string; value: unknown }[] = [
+                { side: "mine", label: "Yours", value: mine[field] },
+                { side: "theirs", label: "Theirs", value: conflict.current[field] },
+              ];
+
+              return (
+                <div key={field} className="space-y-2">
+                  <p className="text-sm font-medium">{ticketConflictFieldLabels[field]}</p>
+                  <div className="grid grid-cols-2 gap-2" role="radiogroup">
+                    {options.map((option) => (
+                      <button
+                        key={option.side}
+                        type="button"
+                        role="radio"
+                        aria-checked={selected === option.side}
+                        onClick={() => setChoices((prev) => ({ ...prev, [field]: option.side }))}
+                        disabled={isSaving}
+                        className={cn(
+                          "rounded-md border p-3 text-left text-sm transition-colors",
+                          selected === option.side
+                            ? "border-primary bg-primary/5"
+                            : "hover:bg-muted/50"
+                        )}
+                      >
+                        <span className="text-muted-foreground block text-xs">{option.label}</span>
+                        <span className="line-clamp-3 break-words">
+                          {formatValue(field, option.value)}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isSaving}>
+            Keep editing
+          </Button>
+          <Button type="button" onClick={handleMerge} disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save merged
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
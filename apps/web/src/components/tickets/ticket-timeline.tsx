@@ -0,0 +1,237 @@
+"use client";
+
+import { format, formatDistanceToNow } from "date-fns";
+import {
+  History,
+  MessageSquare,
+  CircleDashed,
+  Signal,
+  UserCog,
+  CalendarIcon,
+  Hash,
+  Pencil,
+  FileText,
+  Plus,
+  Timer,
+} from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Separator } from "@/components/ui/separator";
+import { CommentContent } from "./comment-content";
+import { useTicketHistory, type TicketHistoryEntry } from "@/hooks/use-ticket-history";
+import { useComments, type CommentList } from "@/hooks/use-comments";
+import { useRealtimeComments } from "@/hooks/use-realtime";
+import { useProjectStatuses, getStatusDisplay } from "@/hooks/use-project-statuses";
+import type { ProjectStatus, TicketHistoryField, CommentFormat } from "@minute/db";
+
+interface TicketTimelineProps {
+  ticketId: string;
+  projectId: string;
+  // Server-rendered data, shown before the first fetch
+  initialHistory?: TicketHistoryEntry[];
+  initialComments?: CommentList;
+}
+
+type TimelineUser = {
+  id: string;
+  name: string | null;
+  email: string;
+  image: string | null;
+};
+
+type TimelineItem =
+  | { type: "history"; id: string; createdAt: Date; user: TimelineUser; entry: TicketHistoryEntry }
+  | { type: "comment"; id: string; createdAt: Date; user: TimelineUser; content: string; format: CommentFormat };
+
+function getHistoryIcon(field: TicketHistoryField) {
+  switch (field) {
+    case "created":
+      return <Plus className="h-3.5 w-3.5" />;
+    case "status":
+      return <CircleDashed className="h-3.5 w-3.5" />;
+    case "priority":
+      return <Signal className="h-3.5 w-3.5" />;
+    case "assignee":
+      return <UserCog className="h-3.5 w-3.5" />;
+    case "dueDate":
+      return <CalendarIcon className="h-3.5 w-3.5" />;
+    case "points":
+      return <Hash className="h-3.5 w-3.5" />;
+    case "title":
+      return <Pencil className="h-3.5 w-3.5" />;
+    case "description":
+      return <FileText className="h-3.5 w-3.5" />;
+    case "sprint":
+      return <Timer className="h-3.5 w-3.5" />;
+    default:
+      return <History className="h-3.5 w-3.5" />;
+  }
+}
+
+function formatDueDate(value: string | null) {
+  if (!value) return null;
+  return format(new Date(parseInt(value, 10) * 1000), "MMM d, yyyy");
+}
+
+function capitalize(value: string | null) {
+  if (!value) return null;
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function getHistoryMessage(entry: TicketHistoryEntry, statuses: ProjectStatus[]) {
+  switch (entry.field) {
+    case "created":
+      return "created the ticket";
+    case "title":
+      return `renamed the ticket from "${entry.oldValue}" to "${entry.newValue}"`;
+    case "description":
+      return entry.newValue ? "updated the description" : "removed the description";
+    case "status":
+      return `moved from ${getStatusDisplay(statuses, entry.oldValue || "").name} to ${
+        getStatusDisplay(statuses, entry.newValue || "").name
+      }`;
+    case "priority":
+      return `changed priority from ${capitalize(entry.oldValue)} to ${capitalize(entry.newValue)}`;
+    case "assignee":
+      if (!entry.newValue) return `unassigned ${entry.oldLabel}`;
+      if (!entry.oldValue) return `assigned ${entry.newLabel}`;
+      return `reassigned from ${entry.oldLabel} to ${entry.newLabel}`;
+    case "points":
+      if (!entry.newValue) return "removed the estimate";
+      return entry.oldValue
+        ? `changed points from ${entry.oldValue} to ${entry.newValue}`
+        : `estimated at ${entry.newValue} points`;
+    case "dueDate":
+      if (!entry.newValue) return "removed the due date";
+      return entry.oldValue
+        ? `changed due date from ${formatDueDate(entry.oldValue)} to ${formatDueDate(entry.newValue)}`
+        : `set due date to ${formatDueDate(entry.newValue)}`;
+    case "sprint":
+      if (!entry.newValue) return `removed from ${entry.oldLabel}`;
+      if (!entry.oldValue) return `added to ${entry.newLabel}`;
+      return `moved from ${entry.oldLabel} to ${entry.newLabel}`;
+    default:
+      return "updated the ticket";
+  }
+}
+
+function getUserInitials(user: TimelineUser) {
+  if (user.name) {
+    return user.name
+      .split(" ")
+      .map((n) => n[0])
+      .join("")
+      .toUpperCase()
+      .slice(0, 2);
+  }
+  return user.email.charAt(0).toUpperCase() || "?";
+}
+
+export function TicketTimeline({
+  ticketId,
+  projectId,
+  initialHistory,
+  initialComments,
+}: TicketTimelineProps) {
+  const { data: statuses = [] } = useProjectStatuses(projectId);
+  const { data: history = [], isLoading: isLoadingHistory } = useTicketHistory(ticketId, {
+    initialData: initialHistory,
+  });
+  const { data: comments = [], isLoading: isLoadingComments } = useComments(ticketId, {
+    initialData: initialComments,
+  });
+
+  // Subscribe to real-time comment updates
+  useRealtimeComments(ticketId);
+
+  const isLoading = isLoadingHistory || isLoadingComments;
+
+  // Merge history entries and comments into a single chronological list
+  const items: TimelineItem[] = [
+    ...history.map((entry) => ({
+      type: "history" as const,
+      id: entry.id,
+      createdAt: new Date(entry.createdAt),
+      user: entry.user,
+      entry,
+    })),
+    ...comments.map((comment) => ({
+      type: "comment" as const,
+      id: comment.id,
+      createdAt: new Date(comment.createdAt),
+      user: comment.user,
+      content: comment.content,
+      format: comment.format,
+    })),
+  ].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <History className="h-4 w-4 text-muted-foreground" />
+        <h3 className="font-semibold text-sm">Timeline</h3>
+      </div>
+
+      <Separator />
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="flex items-start gap-3">
+              <div className="h-6 w-6 rounded-full bg-muted animate-pulse" />
+              <div className="flex-1 space-y-2">
+                <div className="h-4 w-3/4 bg-muted animate-pulse rounded" />
+                <div className="h-3 w-1/4 bg-muted animate-pulse rounded" />
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : items.length === 0 ? (
+        <div className="text-center py-8 text-sm text-muted-foreground">
+          No activity yet. Changes and comments will appear here.
+        </div>
+      ) : (
+        <ol className="relative space-y-4 border-l border-border ml-3">
+          {items.map((item) => {
+            const userName = item.user.name || item.user.email;
+
+            return (
+              <li key={`${item.type}-${item.id}`} className="ml-6">
+                <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-background ring-1 ring-border text-muted-foreground">
+                  {item.type === "comment" ? (
+                    <MessageSquare className="h-3.5 w-3.5" />
+                  ) : (
+                    getHistoryIcon(item.entry.field)
+                  )}
+                </span>
+                <div className="flex items-center gap-2">
+                  <Avatar className="h-5 w-5">
+                    <AvatarImage src={item.user.image || undefined} alt={userName} />
+                    <AvatarFallback className="text-[10px]">
+                      {getUserInitials(item.user)}
+                    </AvatarFallback>
+                  </Avatar>
+                  <p className="text-sm">
+                    <span className="font-medium">{userName}</span>{" "}
+                    <span className="text-muted-foreground">
+                      {item.type === "comment" ? "commented" : getHistoryMessage(item.entry, statuses)}
+                    </span>
+                  </p>
+                </div>
+                {item.type === "comment" && (
+                  <CommentContent
+                    content={item.content}
+                    format={item.format}
+                    className="mt-1 rounded-md border bg-muted/30 p-2"
+                  />
+                )}
+                <p className="text-xs text-muted-foreground mt-1">
+                  {formatDistanceToNow(item.createdAt, { addSuffix: true })}
+                </p>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { Eye, EyeOff, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useTicketWatchers, useToggleWatch } from "@/hooks/use-watchers";
+
+// Watch/unwatch toggle with the watcher count; the tooltip lists who's watching
+export function WatchButton({ ticketId }: { ticketId: string }) {
+  const { data, isLoading } = useTicketWatchers(ticketId);
+  const toggleWatch = useToggleWatch();
+
+  const watchers = data?.watchers ?? [];
+  const isWatching = data?.isWatching ?? false;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={isLoading || toggleWatch.isPending}
+          onClick={() => toggleWatch.mutate({ ticketId, watch: !isWatching })}
+        >
+          {toggleWatch.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : isWatching ? (
+            <EyeOff className="mr-2 h-4 w-4" />
+          ) : (
+            <Eye className="mr-2 h-4 w-4" />
+          )}
+          {isWatching ? "Unwatch" : "Watch"}
+          {watchers.length > 0 && (
+            <span className="ml-2 text-muted-foreground">{watchers.length}</span>
+          )}
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent>
+        {watchers.length > 0
+          ? `Watching: ${watchers.map((watcher) => watcher.name || watcher.email).join(", ")}`
+          : "No one is watching this ticket"}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { forwardRef, useImperativeHandle, useState } from "react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { cn } from "@/lib/utils";
+
+export type MentionItem = {
+  id: string;
+  label: string;
+  email: string | null;
+  image: string | null;
+};
+
+export interface MentionListProps {
+  items: MentionItem[];
+  command: (item: { id: string; label: string }) => void;
+}
+
+export interface MentionListHandle {
+  onKeyDown: (event: KeyboardEvent) => boolean;
+}
+
+// Autocomplete popup for @mentions, driven by the editor's suggestion plugin
+export const MentionList = forwardRef<MentionListHandle, MentionListProps>(
+  function MentionList({ items, command }, ref) {
+    const [selectedIndex, setSelectedIndex] = useState(0);
+    const [prevItems, setPrevItems] = useState(items);
+
+    // Reset the selection when the query changes
+    if (items !== prevItems) {
+      setPrevItems(items);
+      setSelectedIndex(0);
+    }
+
+    const selectItem = (index: number) => {
+      const item = items[index];
+      if (item) {
+        command({ id: item.id, label: item.label });
+      }
+    };
+
+    useImperativeHandle(ref, () => ({
+      onKeyDown: (event) => {
+        if (items.length === 0) return false;
+
+        if (event.key === "ArrowUp") {
+          setSelectedIndex((selectedIndex + items.length - 1) % items.length);
+          return true;
+        }
+        if (event.key === "ArrowDown") {
+          setSelectedIndex((selectedIndex + 1) % items.length);
+          return true;
+        }
+        if (event.key === "Enter" || event.key === "Tab") {
+          selectItem(selectedIndex);
+          return true;
+        }
+        return false;
+      },
+    }));
+
+    return (
+      <div className="w-64 rounded-md border bg-popover p-1 text-popover-foreground shadow-md">
+        {items.length === 0 ? (
+          <div className="px-2 py-1.5 text-sm text-muted-foreground">No matching members</div>
+        ) : (
+          items.map((item, index) => (
+            <button
+              key={item.id}
+              type="button"
+              className={cn(
+                "flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm",
+                index === selectedIndex ? "bg-accent text-accent-foreground" : "hover:bg-accent/50"
+              )}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => selectItem(index)}
+            >
+              <Avatar className="h-5 w-5">
+                <AvatarImage src={item.image || undefined} alt={item.label} />
+                <AvatarFallback className="text-[10px]">
+                  {item.label.charAt(0).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <span className="truncate">{item.label}</span>
+              {item.email && item.email !== item.label && (
+                <span className="ml-auto truncate text-xs text-muted-foreground">{item.email}</span>
+              )}
+            </button>
+          ))
+        )}
+      </div>
+    );
+  }
+);
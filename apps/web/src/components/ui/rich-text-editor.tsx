@@ -1,9 +1,11 @@
 "use client";
 
-import { useEditor, EditorContent, Editor } from "@tiptap/react";
+import { useEditor, EditorContent, Editor, ReactRenderer } from "@tiptap/react";
 import StarterKit from "@tiptap/starter-kit";
 import Placeholder from "@tiptap/extension-placeholder";
 import CodeBlockLowlight from "@tiptap/extension-code-block-lowlight";
+import Mention from "@tiptap/extension-mention";
+import type { SuggestionOptions } from "@tiptap/suggestion";
 import { common, createLowlight } from "lowlight";
 import { 
   Bold, 
@@ -20,12 +22,24 @@ import {
 } from "lucide-react";
 import { Toggle } from "@/components/ui/toggle";
 import { Separator } from "@/components/ui/separator";
+import {
+  MentionList,
+  type MentionItem,
+  type MentionListHandle,
+  type MentionListProps,
+} from "@/components/ui/mention-list";
+import { useQueryClient } from "@tanstack/react-query";
+import { useProjectMembers, projectKeys } from "@/hooks/use-projects";
 import { cn } from "@/lib/utils";
-import { useCallback, useEffect, useState } from "react";
+import { useEffect, useState } from "react";
 
 // Create lowlight instance with common languages
 const lowlight = createLowlight(common);
 
+// Styling for mention chips, shared by the editor and viewer
+const mentionClasses =
+  "[&_.mention]:rounded [&_.mention]:bg-primary/10 [&_.mention]:px-1 [&_.mention]:font-medium [&_.mention]:text-primary";
+
 interface RichTextEditorProps {
   content: string;
   onChange: (content: string) => void;
@@ -33,6 +47,66 @@ interface RichTextEditorProps {
   disabled?: boolean;
   className?: string;
   minHeight?: string;
+  projectId?: string; // Enables @mentions of this project's members
+}
+
+type ProjectMembers = NonNullable<ReturnType<typeof useProjectMembers>["data"]>;
+
+// @mention autocomplete, rendered in a fixed popup under the cursor
+function createMentionSuggestion(
+  getMembers: () => MentionItem[]
+): Omit<SuggestionOptions<MentionItem>, "editor"> {
+  return {
+    items: ({ query }) => {
+      const q = query.toLowerCase();
+      return getMembers()
+        .filter(
+          (member) =>
+            member.label.toLowerCase().includes(q) || member.email?.toLowerCase().includes(q)
+        )
+        .slice(0, 8);
+    },
+    render: () => {
+      let renderer: ReactRenderer<MentionListHandle, MentionListProps> | null = null;
+
+      const position = (rect: DOMRect | null | undefined) => {
+        if (!renderer || !rect) return;
+        renderer.element.style.left = `${rect.left}px`;
+        renderer.element.style.top = `${rect.bottom + 4}px`;
+      };
+
+      const close = () => {
+        renderer?.element.remove();
+        renderer?.destroy();
+        renderer = null;
+      };
+
+      return {
+        onStart: (props) => {
+          renderer = new ReactRenderer(MentionList, { props, editor: props.editor });
+          const element = renderer.element;
+          element.style.position = "fixed";
+          element.style.zIndex = "100";
+          element.style.pointerEvents = "auto";
+          // Keep the popup inside open sheets/dialogs so clicks don't dismiss them
+          (props.editor.view.dom.parentElement ?? document.body).appendChild(element);
+          position(props.clientRect?.());
+        },
+        onUpdate: (props) => {
+          renderer?.updateProps(props);
+          position(props.clientRect?.());
+        },
+        onKeyDown: ({ event }) => {
+          if (event.key === "Escape") {
+            close();
+            return true;
+          }
+          return renderer?.ref?.onKeyDown(event) ?? false;
+        },
+        onExit: close,
+      };
+    },
+  };
 }
 
 // Toolbar component
@@ -159,9 +233,15 @@ export function RichTextEditor({
   disabled = false,
   className,
   minHeight = "120px",
+  projectId,
 }: RichTextEditorProps) {
   const [mounted, setMounted] = useState(false);
 
+  // Members for @mention autocomplete; the editor plugin reads them from the
+  // query cache so it always sees the latest list
+  const queryClient = useQueryClient();
+  useProjectMembers(projectId || "", { enabled: !!projectId });
+
   const editor = useEditor({
     extensions: [
       StarterKit.configure({
@@ -173,6 +253,23 @@ export function RichTextEditor({
       CodeBlockLowlight.configure({
         lowlight,
       }),
+      ...(projectId
+        ? [
+            Mention.configure({
+              HTMLAttributes: { class: "mention" },
+              suggestion: createMentionSuggestion(() =>
+                (queryClient.getQueryData<ProjectMembers>(projectKeys.members(projectId)) ?? []).map(
+                  (member) => ({
+                    id: member.id,
+                    label: member.name || member.email,
+                    email: member.email,
+                    image: member.image,
+                  })
+                )
+              ),
+            }),
+          ]
+        : []),
     ],
     content,
     editable: !disabled,
@@ -189,6 +286,7 @@ export function RichTextEditor({
           "[&_pre]:bg-muted [&_pre]:rounded-md [&_pre]:p-3 [&_pre]:overflow-x-auto",
           "[&_code]:bg-muted [&_code]:px-1 [&_code]:py-0.5 [&_code]:rounded [&_code]:text-sm",
           "[&_pre_code]:bg-transparent [&_pre_code]:p-0",
+          mentionClasses,
           "[&_.is-editor-empty:first-child::before]:text-muted-foreground",
           "[&_.is-editor-empty:first-child::before]:content-[attr(data-placeholder)]",
           "[&_.is-editor-empty:first-child::before]:float-left",
@@ -269,6 +367,7 @@ export function RichTextViewer({ content, className }: RichTextViewerProps) {
         "[&_pre]:bg-muted [&_pre]:rounded-md [&_pre]:p-3 [&_pre]:overflow-x-auto",
         "[&_code]:bg-muted [&_code]:px-1 [&_code]:py-0.5 [&_code]:rounded [&_code]:text-sm",
         "[&_pre_code]:bg-transparent [&_pre_code]:p-0",
+        mentionClasses,
         className
       )}
       dangerouslySetInnerHTML={{ __html: content }}
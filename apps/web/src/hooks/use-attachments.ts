@@ -5,6 +5,7 @@ import {
   createAttachment,
   deleteAttachment,
   type CreateAttachmentInput,
+  type Attachment,
 } from "@/actions/attachments";
 
 // Query keys
@@ -14,11 +15,12 @@ export const attachmentKeys = {
 };
 
 // Query hook: Get attachments for a ticket
-export function useAttachments(ticketId: string) {
+export function useAttachments(ticketId: string, options?: { initialData?: Attachment[] }) {
   return useQuery({
     queryKey: attachmentKeys.byTicket(ticketId),
     queryFn: () => getAttachments(ticketId),
     enabled: !!ticketId,
+    initialData: options?.initialData,
   });
 }
 
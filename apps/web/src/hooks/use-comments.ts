@@ -10,6 +10,7 @@ import {
   type CreateCommentInput,
   type UpdateCommentInput,
 } from "@/actions/comments";
+import { watcherKeys } from "./use-watchers";
 
 // Query keys
 export const commentKeys = {
@@ -18,8 +19,13 @@ export const commentKeys = {
   list: (ticketId: string) => [...commentKeys.lists(), ticketId] as const,
 };
 
+export type CommentList = Awaited<ReturnType<typeof getComments>>["data"];
+
 // Queries
-export function useComments(ticketId: string, options?: { enabled?: boolean }) {
+export function useComments(
+  ticketId: string,
+  options?: { enabled?: boolean; initialData?: CommentList }
+) {
   return useQuery({
     queryKey: commentKeys.list(ticketId),
     queryFn: async () => {
@@ -31,6 +37,7 @@ export function useComments(ticketId: string, options?: { enabled?: boolean }) {
       return result.data;
     },
     enabled: options?.enabled !== undefined ? options.enabled : !!ticketId,
+    initialData: options?.initialData,
   });
 }
 
@@ -53,6 +60,8 @@ export function useCreateComment() {
     onSuccess: (data, variables) => {
       // Invalidate comments list for the ticket
       queryClient.invalidateQueries({ queryKey: commentKeys.list(variables.ticketId) });
+      // Commenting auto-watches the ticket
+      queryClient.invalidateQueries({ queryKey: watcherKeys.detail(variables.ticketId) });
       toast.success("Comment added!");
     },
     onError: (error: Error) => {
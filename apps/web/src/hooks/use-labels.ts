@@ -0,0 +1,117 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  getLabels,
+  createLabel,
+  updateLabel,
+  deleteLabel,
+  type CreateLabelInput,
+  type UpdateLabelInput,
+} from "@/actions/labels";
+import { ticketKeys } from "./use-tickets";
+import { templateKeys } from "./use-templates";
+
+// Query keys
+export const labelKeys = {
+  all: ["labels"] as const,
+  lists: () => [...labelKeys.all, "list"] as const,
+  list: (projectId: string) => [...labelKeys.lists(), projectId] as const,
+};
+
+export type LabelWithUsage = Awaited<ReturnType<typeof getLabels>>["data"][number];
+
+// Queries
+export function useLabels(projectId: string, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: labelKeys.list(projectId),
+    queryFn: async () => {
+      const result = await getLabels(projectId);
+      if (!result.success) {
+        const errorMessage = 'error' in result ? result.error : "Failed to fetch labels";
+        throw new Error(errorMessage);
+      }
+      return result.data;
+    },
+    enabled: options?.enabled !== undefined ? options.enabled : !!projectId,
+  });
+}
+
+// Mutations
+export function useCreateLabel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: CreateLabelInput) => {
+      const result = await createLabel(input);
+      if (!result.success) {
+        const errorMessage = 'error' in result ? result.error : "Failed to create label";
+        throw new Error(errorMessage);
+      }
+      if ('data' in result && result.data) {
+        return result.data;
+      }
+      throw new Error("Failed to create label");
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: labelKeys.list(variables.projectId) });
+      toast.success("Label created");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to create label");
+    },
+  });
+}
+
+export function useUpdateLabel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: UpdateLabelInput) => {
+      const result = await updateLabel(input);
+      if (!result.success) {
+        const errorMessage = 'error' in result ? result.error : "Failed to update label";
+        throw new Error(errorMessage);
+      }
+      if ('data' in result) {
+        return result.data;
+      }
+      throw new Error("Failed to update label");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: labelKeys.lists() });
+      // Chips on cards and rows show the label name and color
+      queryClient.invalidateQueries({ queryKey: ticketKeys.lists() });
+      toast.success("Label updated");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update label");
+    },
+  });
+}
+
+export function useDeleteLabel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (labelId: string) => {
+      const result = await deleteLabel(labelId);
+      if (!result.success) {
+        const errorMessage = 'error' in result ? result.error : "Failed to delete label";
+        throw new Error(errorMessage);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: labelKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: ticketKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: ticketKeys.details() });
+      // Deleted labels are removed from template defaults
+      queryClient.invalidateQueries({ queryKey: templateKeys.all });
+      toast.success("Label deleted");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to delete label");
+    },
+  });
+}
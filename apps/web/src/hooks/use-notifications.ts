@@ -0,0 +1,140 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+  getNotificationPreferences,
+  updateNotificationPreferences,
+  type InboxNotification,
+  type UpdateNotificationPreferencesInput,
+} from "@/actions/notifications";
+
+// Query keys
+export const notificationKeys = {
+  all: ["notifications"] as const,
+  inbox: () => [...notificationKeys.all, "inbox"] as const,
+  preferences: () => [...notificationKeys.all, "preferences"] as const,
+};
+
+type Inbox = { notifications: InboxNotification[]; unreadCount: number };
+
+// Queries
+export function useNotifications(options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: notificationKeys.inbox(),
+    queryFn: async () => {
+      const result = await getNotifications();
+      if (!result.success || !result.data) {
+        const errorMessage = 'error' in result ? result.error : "Failed to fetch notifications";
+        throw new Error(errorMessage);
+      }
+      return result.data;
+    },
+    enabled: options?.enabled,
+  });
+}
+
+export function useNotificationPreferences() {
+  return useQuery({
+    queryKey: notificationKeys.preferences(),
+    queryFn: async () => {
+      const result = await getNotificationPreferences();
+      if (!result.success || !result.data) {
+        const errorMessage = 'error' in result ? result.error : "Failed to fetch notification preferences";
+        throw new Error(errorMessage);
+      }
+      return result.data;
+    },
+  });
+}
+
+// Mutations
+// Both mark-read mutations update the inbox optimistically so the badge
+// clears immediately, and refetch on error
+export function useMarkNotificationRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (notificationId: string) => {
+      const result = await markNotificationRead(notificationId);
+      if (!result.success) {
+        const errorMessage = 'error' in result ? result.error : "Failed to mark notification read";
+        throw new Error(errorMessage);
+      }
+    },
+    onMutate: async (notificationId) => {
+      await queryClient.cancelQueries({ queryKey: notificationKeys.inbox() });
+      queryClient.setQueryData<Inbox>(notificationKeys.inbox(), (inbox) => {
+        const target = inbox?.notifications.find((n) => n.id === notificationId);
+        if (!inbox || !target || target.readAt) return inbox;
+        return {
+          notifications: inbox.notifications.map((n) =>
+            n.id === notificationId ? { ...n, readAt: new Date() } : n
+          ),
+          unreadCount: Math.max(0, inbox.unreadCount - 1),
+        };
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: notificationKeys.inbox() });
+      toast.error(error.message || "Failed to mark notification read");
+    },
+  });
+}
+
+export function useMarkAllNotificationsRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const result = await markAllNotificationsRead();
+      if (!result.success) {
+        const errorMessage = 'error' in result ? result.error : "Failed to mark notifications read";
+        throw new Error(errorMessage);
+      }
+    },
+    onMutate: async () => {
+      await queryClient.cancelQueries({ queryKey: notificationKeys.inbox() });
+      queryClient.setQueryData<Inbox>(notificationKeys.inbox(), (inbox) => {
+        if (!inbox) return inbox;
+        const readAt = new Date();
+        return {
+          notifications: inbox.notifications.map((n) => (n.readAt ? n : { ...n, readAt })),
+          unreadCount: 0,
+        };
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: notificationKeys.inbox() });
+      toast.error(error.message || "Failed to mark notifications read");
+    },
+  });
+}
+
+export function useUpdateNotificationPreferences() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: UpdateNotificationPreferencesInput) => {
+      const result = await updateNotificationPreferences(input);
+      if (!result.success) {
+        const errorMessage = 'error' in result ? result.error : "Failed to update notification preferences";
+        throw new Error(errorMessage);
+      }
+      if ('data' in result && result.data) {
+        return result.data;
+      }
+      throw new Error("Failed to update notification preferences");
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(notificationKeys.preferences(), data);
+      toast.success("Email preferences updated");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update notification preferences");
+    },
+  });
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import { useEffect, useCallback, useRef, useState } from "react";
+import { useChannel, events } from "@/lib/realtime/client";
+import {
+  PRESENCE_HEARTBEAT_INTERVAL_MS,
+  PRESENCE_TIMEOUT_MS,
+  TYPING_TIMEOUT_MS,
+  type PresenceEvent,
+} from "@/lib/realtime/events";
+import { useSession } from "@/lib/auth-client";
+import { sendPresence, type SendPresenceInput } from "@/actions/presence";
+
+// Minimum gap between two typing events from this client
+const TYPING_THROTTLE_MS = 2_000;
+
+// Presence is best-effort: a lost ping only delays an avatar or indicator
+function announce(channel: string, action: SendPresenceInput["action"]) {
+  sendPresence({ channel, action }).catch(() => {});
+}
+
+type PresenceEntry = { user: PresenceEvent; expiresAt: number };
+
+function upsertEntry(
+  entries: Record<string, PresenceEntry>,
+  user: PresenceEvent,
+  ttl: number
+) {
+  return { ...entries, [user.userId]: { user, expiresAt: Date.now() + ttl } };
+}
+
+function removeEntry(entries: Record<string, PresenceEntry>, userId: string) {
+  if (!entries[userId]) return entries;
+  const rest = { ...entries };
+  delete rest[userId];
+  return rest;
+}
+
+// Drop expired entries, keeping the same object when nothing changed
+function pruneEntries(entries: Record<string, PresenceEntry>) {
+  const now = Date.now();
+  const live = Object.entries(entries).filter(([, entry]) => entry.expiresAt > now);
+  if (live.length === Object.keys(entries).length) return entries;
+  return Object.fromEntries(live);
+}
+
+// Other users currently viewing a presence channel (see channels.presenceProject
+// and channels.presenceTicket). Pusher tracks the channel's members itself.
+// On the SSE transport this user is announced on join, heartbeats while
+// mounted and leaves on unmount; viewers whose heartbeats stop disappear
+// after PRESENCE_TIMEOUT_MS, and newcomers see existing viewers at their
+// next heartbeat.
+export function usePresence(channelName: string | null) {
+  const { data: session } = useSession();
+  const currentUserId = session?.user.id ?? null;
+  const { isConnected, bind, watchMembers } = useChannel(channelName);
+  const [viewers, setViewers] = useState<Record<string, PresenceEntry>>({});
+
+  useEffect(() => {
+    if (!isConnected || !channelName || !currentUserId) return;
+
+    const unwatchMembers = watchMembers((members) => {
+      setViewers(
+        Object.fromEntries(
+          members
+            .filter((member) => member.userId !== currentUserId)
+            .map((member) => [member.userId, { user: member, expiresAt: Infinity }])
+        )
+      );
+    });
+    if (unwatchMembers) {
+      return () => {
+        unwatchMembers();
+        setViewers({});
+      };
+    }
+
+    const handleJoined = (data: PresenceEvent) => {
+      if (data.userId === currentUserId) return;
+      setViewers((entries) => upsertEntry(entries, data, PRESENCE_TIMEOUT_MS));
+    };
+    const handleHeartbeat = (data: PresenceEvent) => {
+      if (data.userId === currentUserId) return;
+      setViewers((entries) => upsertEntry(entries, data, PRESENCE_TIMEOUT_MS));
+    };
+    const handleLeft = (data: PresenceEvent) => {
+      setViewers((entries) => removeEntry(entries, data.userId));
+    };
+
+    const unbindJoined = bind(events.USER_JOINED, handleJoined);
+    const unbindHeartbeat = bind(events.USER_HEARTBEAT, handleHeartbeat);
+    const unbindLeft = bind(events.USER_LEFT, handleLeft);
+
+    announce(channelName, "joined");
+    const heartbeat = setInterval(
+      () => announce(channelName, "heartbeat"),
+      PRESENCE_HEARTBEAT_INTERVAL_MS
+    );
+    const prune = setInterval(() => setViewers(pruneEntries), 5_000);
+
+    return () => {
+      unbindJoined();
+      unbindHeartbeat();
+      unbindLeft();
+      clearInterval(heartbeat);
+      clearInterval(prune);
+      announce(channelName, "left");
+      setViewers({});
+    };
+  }, [isConnected, bind, watchMembers, channelName, currentUserId]);
+
+  return {
+    isConnected,
+    viewers: Object.values(viewers).map((entry) => entry.user),
+  };
+}
+
+// Who else is typing on a presence channel, plus a throttled notifyTyping
+// to call as this user types
+export function useTypingIndicator(channelName: string | null) {
+  const { data: session } = useSession();
+  const currentUserId = session?.user.id ?? null;
+  const { isConnected, bind } = useChannel(channelName);
+  const [typing, setTyping] = useState<Record<string, PresenceEntry>>({});
+  const lastSentRef = useRef(0);
+
+  useEffect(() => {
+    if (!isConnected || !currentUserId) return;
+
+    const handleTyping = (data: PresenceEvent) => {
+      if (data.userId === currentUserId) return;
+      setTyping((entries) => upsertEntry(entries, data, TYPING_TIMEOUT_MS));
+    };
+    const handleLeft = (data: PresenceEvent) => {
+      setTyping((entries) => removeEntry(entries, data.userId));
+    };
+
+    const unbindTyping = bind(events.USER_TYPING, handleTyping);
+    const unbindLeft = bind(events.USER_LEFT, handleLeft);
+    const prune = setInterval(() => setTyping(pruneEntries), 1_000);
+
+    return () => {
+      unbindTyping();
+      unbindLeft();
+      clearInterval(prune);
+      setTyping({});
+    };
+  }, [isConnected, bind, currentUserId]);
+
+  const notifyTyping = useCallback(() => {
+    if (!channelName) return;
+    const now = Date.now();
+    if (now - lastSentRef.current < TYPING_THROTTLE_MS) return;
+    lastSentRef.current = now;
+    announce(channelName, "typing");
+  }, [channelName]);
+
+  return {
+    typingUsers: Object.values(typing).map((entry) => entry.user),
+    notifyTyping,
+  };
+}
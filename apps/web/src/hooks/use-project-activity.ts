@@ -0,0 +1,50 @@
+"use client";
+
+import { useInfiniteQuery } from "@tanstack/react-query";
+import {
+  getProjectActivity,
+  type ProjectActivityAction,
+} from "@/actions/project-activity";
+
+// Query keys
+export const projectActivityKeys = {
+  all: ["project-activity"] as const,
+  lists: () => [...projectActivityKeys.all, "list"] as const,
+  list: (projectId: string, filters: { userId?: string; actions?: ProjectActivityAction[] } = {}) =>
+    [...projectActivityKeys.lists(), projectId, filters] as const,
+};
+
+// Paginated query hook
+export function useProjectActivity(
+  projectId: string,
+  options?: {
+    enabled?: boolean;
+    limit?: number;
+    userId?: string;
+    actions?: ProjectActivityAction[];
+  }
+) {
+  const filters = { userId: options?.userId, actions: options?.actions };
+
+  return useInfiniteQuery({
+    queryKey: projectActivityKeys.list(projectId, filters),
+    queryFn: async ({ pageParam }) => {
+      const result = await getProjectActivity(projectId, {
+        ...filters,
+        limit: options?.limit || 30,
+        offset: pageParam,
+      });
+      if (!result.success) {
+        const errorMessage = 'error' in result ? result.error : "Failed to fetch project activity";
+        throw new Error(errorMessage);
+      }
+      return result;
+    },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => lastPage.nextOffset ?? undefined,
+    enabled: options?.enabled !== undefined ? options.enabled : !!projectId,
+  });
+}
+
+// Export types
+export type { ProjectActivityAction };
@@ -0,0 +1,171 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  getProjectStatuses,
+  createProjectStatus,
+  updateProjectStatus,
+  reorderProjectStatuses,
+  deleteProjectStatus,
+  type CreateProjectStatusInput,
+  type UpdateProjectStatusInput,
+  type ReorderProjectStatusesInput,
+  type DeleteProjectStatusInput,
+} from "@/actions/project-statuses";
+import type { ProjectStatus } from "@minute/db";
+import { ticketKeys } from "./use-tickets";
+import { templateKeys } from "./use-templates";
+
+// Query keys
+export const projectStatusKeys = {
+  all: ["project-statuses"] as const,
+  lists: () => [...projectStatusKeys.all, "list"] as const,
+  list: (projectId: string) => [...projectStatusKeys.lists(), projectId] as const,
+};
+
+// Queries
+export function useProjectStatuses(projectId: string, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: projectStatusKeys.list(projectId),
+    queryFn: async () => {
+      const result = await getProjectStatuses(projectId);
+      if (!result.success) {
+        const errorMessage = 'error' in result ? result.error : "Failed to fetch statuses";
+        throw new Error(errorMessage);
+      }
+      return result.data;
+    },
+    enabled: options?.enabled !== undefined ? options.enabled : !!projectId,
+  });
+}
+
+// Look up a status by key, falling back to the raw key for unknown statuses
+export function getStatusDisplay(statuses: ProjectStatus[] | undefined, key: string) {
+  const status = statuses?.find((s) => s.key === key);
+  return {
+    name: status?.name ?? key,
+    color: status?.color ?? "#6b7280",
+  };
+}
+
+// Mutations
+export function useCreateProjectStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: CreateProjectStatusInput) => {
+      const result = await createProjectStatus(input);
+      if (!result.success) {
+        const errorMessage = 'error' in result ? result.error : "Failed to create status";
+        throw new Error(errorMessage);
+      }
+      if ('data' in result) {
+        return result.data;
+      }
+      throw new Error("Failed to create status");
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: projectStatusKeys.list(variables.projectId) });
+      toast.success("Status created");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to create status");
+    },
+  });
+}
+
+export function useUpdateProjectStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: UpdateProjectStatusInput) => {
+      const result = await updateProjectStatus(input);
+      if (!result.success) {
+        const errorMessage = 'error' in result ? result.error : "Failed to update status";
+        throw new Error(errorMessage);
+      }
+      if ('data' in result) {
+        return result.data;
+      }
+      throw new Error("Failed to update status");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: projectStatusKeys.lists() });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update status");
+    },
+  });
+}
+
+export function useReorderProjectStatuses() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: ReorderProjectStatusesInput) => {
+      const result = await reorderProjectStatuses(input);
+      if (!result.success) {
+        const errorMessage = 'error' in result ? result.error : "Failed to reorder statuses";
+        throw new Error(errorMessage);
+      }
+      return result;
+    },
+    onMutate: async (variables) => {
+      const queryKey = projectStatusKeys.list(variables.projectId);
+      await queryClient.cancelQueries({ queryKey });
+
+      // Optimistically apply the new order
+      const previousStatuses = queryClient.getQueryData<ProjectStatus[]>(queryKey);
+      if (previousStatuses) {
+        queryClient.setQueryData<ProjectStatus[]>(
+          queryKey,
+          variables.statusIds
+            .map((id) => previousStatuses.find((status) => status.id === id))
+            .filter((status): status is ProjectStatus => !!status)
+        );
+      }
+
+      return { previousStatuses };
+    },
+    onError: (error: Error, variables, context) => {
+      if (context?.previousStatuses) {
+        queryClient.setQueryData(
+          projectStatusKeys.list(variables.projectId),
+          context.previousStatuses
+        );
+      }
+      toast.error(error.message || "Failed to reorder statuses");
+    },
+    onSettled: (_, __, variables) => {
+      queryClient.invalidateQueries({ queryKey: projectStatusKeys.list(variables.projectId) });
+    },
+  });
+}
+
+export function useDeleteProjectStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: DeleteProjectStatusInput) => {
+      const result = await deleteProjectStatus(input);
+      if (!result.success) {
+        const errorMessage = 'error' in result ? result.error : "Failed to delete status";
+        throw new Error(errorMessage);
+      }
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: projectStatusKeys.lists() });
+      // Tickets may have been moved to another status
+      queryClient.invalidateQueries({ queryKey: ticketKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: ticketKeys.details() });
+      // Templates defaulting to the deleted status now use another one
+      queryClient.invalidateQueries({ queryKey: templateKeys.all });
+      toast.success("Status deleted");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to delete status");
+    },
+  });
+}
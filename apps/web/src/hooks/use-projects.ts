@@ -33,7 +33,7 @@ export const projectKeys = {
 };
 
 // Queries
-export function useProjects(teamId?: string) {
+export function useProjects(teamId?: string, options?: { enabled?: boolean }) {
   return useQuery({
     queryKey: projectKeys.list(teamId),
     queryFn: async () => {
@@ -44,6 +44,7 @@ export function useProjects(teamId?: string) {
       }
       return result.data;
     },
+    enabled: options?.enabled,
   });
 }
 
@@ -1,23 +1,176 @@
 "use client";
 
-import { useEffect, useCallback } from "react";
+import { useEffect, useCallback, useRef } from "react";
+import { useRouter } from "next/navigation";
 import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
 import { 
   useProjectChannel, 
   useTicketChannel, 
-  events 
-} from "@/lib/pusher-client";
+  useUserChannel,
+  events,
+  realtimeClientId,
+} from "@/lib/realtime/client";
+import { useSession } from "@/lib/auth-client";
+import type { NotificationEvent, TicketEvent } from "@/lib/realtime/events";
+import type { TicketStatus } from "@minute/db";
+import type { TicketWithAssignee } from "@/actions/tickets";
 import { ticketKeys } from "./use-tickets";
 import { commentKeys } from "./use-comments";
+import { ticketHistoryKeys } from "./use-ticket-history";
+import { projectActivityKeys } from "./use-project-activity";
+import { projectStatusKeys } from "./use-project-statuses";
+import { ticketLinkKeys } from "./use-ticket-links";
+import { sprintKeys } from "./use-sprints";
+import { labelKeys } from "./use-labels";
+import { notificationKeys } from "./use-notifications";
 
-// Hook to auto-invalidate ticket queries on real-time events
+type GroupedTickets = Record<TicketStatus, TicketWithAssignee[]>;
+
+// Event payloads arrive as JSON, so dates come back as strings
+function reviveTicket(ticket: TicketWithAssignee): TicketWithAssignee {
+  return {
+    ...ticket,
+    createdAt: new Date(ticket.createdAt),
+    updatedAt: new Date(ticket.updatedAt),
+    dueDate: ticket.dueDate ? new Date(ticket.dueDate) : null,
+  };
+}
+
+// Apply changed and removed tickets to the grouped list: drop them from their
+// old column, then insert the changed ones into their new column by order.
+// Returns null when a ticket lands in a column the cache doesn't have.
+function patchTicketList(
+  grouped: GroupedTickets,
+  changed: TicketWithAssignee[],
+  removedIds: string[]
+): GroupedTickets | null {
+  if (changed.some((ticket) => !grouped[ticket.status])) return null;
+
+  const replacedIds = new Set([...changed.map((ticket) => ticket.id), ...removedIds]);
+  const patched: GroupedTickets = {};
+  for (const [status, column] of Object.entries(grouped)) {
+    const kept = column.filter((ticket) => !replacedIds.has(ticket.id));
+    const incoming = changed.filter((ticket) => ticket.status === status);
+    patched[status] =
+      incoming.length > 0
+        ? [...kept, ...incoming].sort((a, b) => a.order - b.order)
+        : kept.length === column.length
+          ? column
+          : kept;
+  }
+  return patched;
+}
+
+// Hook to keep ticket queries in sync with real-time events. Ticket events
+// carry the changed tickets, which are patched into the cached list; the list
+// is only refetched when an event was missed or couldn't be applied.
 export function useRealtimeTickets(projectId: string | null) {
   const queryClient = useQueryClient();
   const { isConnected, bind } = useProjectChannel(projectId);
-  
-  const handleTicketEvent = useCallback(() => {
+  // Last ticket event sequence seen for this project
+  const sequenceRef = useRef<{ projectId: string; sequence: number } | null>(null);
+
+  const syncTicketList = useCallback(
+    (data: TicketEvent) => {
+      if (!projectId) return;
+      const listKey = ticketKeys.list(projectId);
+
+      const last = sequenceRef.current?.projectId === projectId ? sequenceRef.current : null;
+      const missedEvent =
+        last !== null && data.sequence !== undefined && data.sequence !== last.sequence + 1;
+      if (data.sequence !== undefined) {
+        sequenceRef.current = {
+          projectId,
+          sequence: Math.max(last?.sequence ?? 0, data.sequence),
+        };
+      }
+
+      if (missedEvent) {
+        queryClient.invalidateQueries({ queryKey: listKey });
+        return;
+      }
+      // This tab's own mutations already updated the list
+      if (data.clientId === realtimeClientId) return;
+
+      // A fetch in flight would overwrite the patch with older data
+      if (!data.tickets || queryClient.isFetching({ queryKey: listKey }) > 0) {
+        queryClient.invalidateQueries({ queryKey: listKey });
+        return;
+      }
+
+      const grouped = queryClient.getQueryData<GroupedTickets>(listKey);
+      if (!grouped) return;
+
+      const patched = patchTicketList(
+        grouped,
+        data.tickets.map(reviveTicket),
+        data.removedTicketIds ?? []
+      );
+      if (patched) {
+        queryClient.setQueryData(listKey, patched);
+      } else {
+        queryClient.invalidateQueries({ queryKey: listKey });
+      }
+    },
+    [projectId, queryClient]
+  );
+
+  const handleTicketEvent = useCallback((data: TicketEvent) => {
+    if (projectId) {
+      syncTicketList(data);
+      // Open sheets and ticket pages show the ticket's own fields
+      queryClient.invalidateQueries({
+        queryKey: ticketKeys.detail(data.ticketId),
+      });
+      // Open timelines may have new history entries
+      queryClient.invalidateQueries({
+        queryKey: ticketHistoryKeys.lists(),
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...projectActivityKeys.lists(), projectId],
+      });
+      // Linked tickets show each other's title and status
+      queryClient.invalidateQueries({
+        queryKey: ticketLinkKeys.lists(),
+      });
+      // Sprint totals and burndowns follow ticket status and points
+      queryClient.invalidateQueries({
+        queryKey: sprintKeys.all,
+      });
+    }
+  }, [projectId, queryClient, syncTicketList]);
+
+  const handleSprintsEvent = useCallback(() => {
+    if (projectId) {
+      queryClient.invalidateQueries({
+        queryKey: sprintKeys.all,
+      });
+      // Completing or deleting a sprint moves its tickets
+      queryClient.invalidateQueries({
+        queryKey: ticketKeys.list(projectId),
+      });
+    }
+  }, [projectId, queryClient]);
+
+  const handleLabelsEvent = useCallback(() => {
     if (projectId) {
-      // Invalidate all ticket queries for this project
+      queryClient.invalidateQueries({
+        queryKey: labelKeys.list(projectId),
+      });
+      // Renamed, recolored or deleted labels change ticket chips
+      queryClient.invalidateQueries({
+        queryKey: ticketKeys.list(projectId),
+      });
+    }
+  }, [projectId, queryClient]);
+
+  const handleStatusesEvent = useCallback(() => {
+    if (projectId) {
+      queryClient.invalidateQueries({
+        queryKey: projectStatusKeys.list(projectId),
+      });
+      // Deleting a status moves its tickets
       queryClient.invalidateQueries({
         queryKey: ticketKeys.list(projectId),
       });
@@ -31,14 +184,27 @@ export function useRealtimeTickets(projectId: string | null) {
     const unbindUpdated = bind(events.TICKET_UPDATED, handleTicketEvent);
     const unbindDeleted = bind(events.TICKET_DELETED, handleTicketEvent);
     const unbindMoved = bind(events.TICKET_MOVED, handleTicketEvent);
+    const unbindStatuses = bind(events.STATUSES_UPDATED, handleStatusesEvent);
+    const unbindSprints = bind(events.SPRINTS_UPDATED, handleSprintsEvent);
+    const unbindLabels = bind(events.LABELS_UPDATED, handleLabelsEvent);
     
     return () => {
       unbindCreated();
       unbindUpdated();
       unbindDeleted();
       unbindMoved();
+      unbindStatuses();
+      unbindSprints();
+      unbindLabels();
     };
-  }, [isConnected, bind, handleTicketEvent]);
+  }, [
+    isConnected,
+    bind,
+    handleTicketEvent,
+    handleStatusesEvent,
+    handleSprintsEvent,
+    handleLabelsEvent,
+  ]);
   
   return { isConnected };
 }
@@ -86,3 +252,36 @@ export function useRealtimeTicketDetail(projectId: string | null, ticketId: stri
   };
 }
 
+// Hook to refresh the inbox and toast new notifications for the signed-in user
+export function useRealtimeNotifications() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { data: session } = useSession();
+  const { isConnected, bind } = useUserChannel(session?.user.id ?? null);
+
+  const handleNotification = useCallback(
+    (data: NotificationEvent) => {
+      queryClient.invalidateQueries({ queryKey: notificationKeys.inbox() });
+      toast(data.message, {
+        description: data.ticketTitle,
+        action: {
+          label: "View",
+          onClick: () => router.push(data.url),
+        },
+      });
+    },
+    [router, queryClient]
+  );
+
+  useEffect(() => {
+    if (!isConnected) return;
+
+    const unbindNotification = bind(events.NOTIFICATION_CREATED, handleNotification);
+
+    return () => {
+      unbindNotification();
+    };
+  }, [isConnected, bind, handleNotification]);
+
+  return { isConnected };
+}
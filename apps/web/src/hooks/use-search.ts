@@ -2,6 +2,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
 import {
   semanticSearchTickets,
+  searchTickets,
   findSimilarTickets,
   embedTicket,
   embedProjectTickets,
@@ -12,6 +13,8 @@ export const searchKeys = {
   all: ['search'] as const,
   semantic: (projectId: string, query: string) =>
     [...searchKeys.all, 'semantic', projectId, query] as const,
+  tickets: (projectId: string, query: string) =>
+    [...searchKeys.all, 'tickets', projectId, query] as const,
   similar: (ticketId: string) =>
     [...searchKeys.all, 'similar', ticketId] as const,
 };
@@ -33,6 +36,22 @@ export function useSemanticSearch(
   });
 }
 
+// Hook for hybrid keyword + semantic search with highlighted snippets
+export function useTicketSearch(
+  projectId: string | null,
+  query: string,
+  options: { enabled?: boolean; limit?: number; threshold?: number } = {}
+) {
+  const { enabled = true, limit, threshold } = options;
+
+  return useQuery({
+    queryKey: searchKeys.tickets(projectId || '', query),
+    queryFn: () => searchTickets(projectId!, query, { limit, threshold }),
+    enabled: enabled && !!projectId && query.length > 2,
+    staleTime: 1000 * 30, // 30 seconds; edits change keyword matches
+  });
+}
+
 // Hook for finding similar tickets
 export function useSimilarTickets(
   ticketId: string | null,
@@ -0,0 +1,189 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  getSprints,
+  getSprintBurndown,
+  createSprint,
+  updateSprint,
+  startSprint,
+  completeSprint,
+  deleteSprint,
+  type CreateSprintInput,
+  type UpdateSprintInput,
+  type CompleteSprintInput,
+} from "@/actions/sprints";
+import { ticketKeys } from "./use-tickets";
+
+// Query keys
+export const sprintKeys = {
+  all: ["sprints"] as const,
+  lists: () => [...sprintKeys.all, "list"] as const,
+  list: (projectId: string) => [...sprintKeys.lists(), projectId] as const,
+  burndowns: () => [...sprintKeys.all, "burndown"] as const,
+  burndown: (sprintId: string) => [...sprintKeys.burndowns(), sprintId] as const,
+};
+
+export type SprintWithStats = Awaited<ReturnType<typeof getSprints>>["data"][number];
+
+// Queries
+export function useSprints(projectId: string, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: sprintKeys.list(projectId),
+    queryFn: async () => {
+      const result = await getSprints(projectId);
+      if (!result.success) {
+        const errorMessage = 'error' in result ? result.error : "Failed to fetch sprints";
+        throw new Error(errorMessage);
+      }
+      return result.data;
+    },
+    enabled: options?.enabled !== undefined ? options.enabled : !!projectId,
+  });
+}
+
+export function useSprintBurndown(sprintId: string, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: sprintKeys.burndown(sprintId),
+    queryFn: async () => {
+      const result = await getSprintBurndown(sprintId);
+      if (!result.success) {
+        const errorMessage = 'error' in result ? result.error : "Failed to load burndown";
+        throw new Error(errorMessage);
+      }
+      if ('data' in result) {
+        return result.data;
+      }
+      throw new Error("Failed to load burndown");
+    },
+    enabled: options?.enabled !== undefined ? options.enabled : !!sprintId,
+  });
+}
+
+// Mutations
+export function useCreateSprint() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: CreateSprintInput) => {
+      const result = await createSprint(input);
+      if (!result.success) {
+        const errorMessage = 'error' in result ? result.error : "Failed to create sprint";
+        throw new Error(errorMessage);
+      }
+      if ('data' in result) {
+        return result.data;
+      }
+      throw new Error("Failed to create sprint");
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: sprintKeys.list(variables.projectId) });
+      toast.success("Sprint created!");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to create sprint");
+    },
+  });
+}
+
+export function useUpdateSprint() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: UpdateSprintInput) => {
+      const result = await updateSprint(input);
+      if (!result.success) {
+        const errorMessage = 'error' in result ? result.error : "Failed to update sprint";
+        throw new Error(errorMessage);
+      }
+      if ('data' in result) {
+        return result.data;
+      }
+      throw new Error("Failed to update sprint");
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: sprintKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: sprintKeys.burndown(variables.id) });
+      toast.success("Sprint updated!");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update sprint");
+    },
+  });
+}
+
+export function useStartSprint() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (sprintId: string) => {
+      const result = await startSprint(sprintId);
+      if (!result.success) {
+        const errorMessage = 'error' in result ? result.error : "Failed to start sprint";
+        throw new Error(errorMessage);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sprintKeys.lists() });
+      toast.success("Sprint started!");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to start sprint");
+    },
+  });
+}
+
+export function useCompleteSprint() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: CompleteSprintInput) => {
+      const result = await completeSprint(input);
+      if (!result.success) {
+        const errorMessage = 'error' in result ? result.error : "Failed to complete sprint";
+        throw new Error(errorMessage);
+      }
+      if ('data' in result) {
+        return result.data;
+      }
+      throw new Error("Failed to complete sprint");
+    },
+    onSuccess: (data) => {
+      // Unfinished tickets moved to another sprint or the backlog
+      queryClient.invalidateQueries({ queryKey: sprintKeys.all });
+      queryClient.invalidateQueries({ queryKey: ticketKeys.lists() });
+      const moved = data?.movedTickets ?? 0;
+      toast.success(
+        moved > 0
+          ? `Sprint completed, ${moved} unfinished ticket${moved === 1 ? "" : "s"} moved`
+          : "Sprint completed!"
+      );
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to complete sprint");
+    },
+  });
+}
+
+export function useDeleteSprint() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (sprintId: string) => {
+      const result = await deleteSprint(sprintId);
+      if (!result.success) {
+        const errorMessage = 'error' in result ? result.error : "Failed to delete sprint";
+        throw new Error(errorMessage);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sprintKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: ticketKeys.lists() });
+      toast.success("Sprint deleted!");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to delete sprint");
+    },
+  });
+}
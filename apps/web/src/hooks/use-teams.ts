@@ -34,7 +34,7 @@ export const teamKeys = {
 };
 
 // Queries
-export function useTeams() {
+export function useTeams(options?: { enabled?: boolean }) {
   return useQuery({
     queryKey: teamKeys.lists(),
     queryFn: async () => {
@@ -45,6 +45,7 @@ export function useTeams() {
       }
       return result.data;
     },
+    enabled: options?.enabled,
   });
 }
 
@@ -0,0 +1,34 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { getTicketHistory, type TicketHistoryEntry } from "@/actions/ticket-history";
+
+// Query keys
+export const ticketHistoryKeys = {
+  all: ["ticket-history"] as const,
+  lists: () => [...ticketHistoryKeys.all, "list"] as const,
+  list: (ticketId: string) => [...ticketHistoryKeys.lists(), ticketId] as const,
+};
+
+// Query hook
+export function useTicketHistory(
+  ticketId: string,
+  options?: { enabled?: boolean; initialData?: TicketHistoryEntry[] }
+) {
+  return useQuery({
+    queryKey: ticketHistoryKeys.list(ticketId),
+    queryFn: async () => {
+      const result = await getTicketHistory(ticketId);
+      if (!result.success) {
+        const errorMessage = 'error' in result ? result.error : "Failed to fetch ticket history";
+        throw new Error(errorMessage);
+      }
+      return result.data;
+    },
+    enabled: options?.enabled !== undefined ? options.enabled : !!ticketId,
+    initialData: options?.initialData,
+  });
+}
+
+// Export types
+export type { TicketHistoryEntry };
@@ -0,0 +1,88 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  getTicketLinks,
+  addTicketLink,
+  removeTicketLink,
+  type AddTicketLinkInput,
+  type TicketLinkWithTicket,
+} from "@/actions/ticket-links";
+import { ticketKeys } from "./use-tickets";
+
+// Query keys
+export const ticketLinkKeys = {
+  all: ["ticket-links"] as const,
+  lists: () => [...ticketLinkKeys.all, "list"] as const,
+  list: (ticketId: string) => [...ticketLinkKeys.lists(), ticketId] as const,
+};
+
+// Queries
+export function useTicketLinks(ticketId: string, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: ticketLinkKeys.list(ticketId),
+    queryFn: async () => {
+      const result = await getTicketLinks(ticketId);
+      if (!result.success) {
+        const errorMessage = 'error' in result ? result.error : "Failed to fetch ticket links";
+        throw new Error(errorMessage);
+      }
+      return result.data;
+    },
+    enabled: options?.enabled !== undefined ? options.enabled : !!ticketId,
+  });
+}
+
+// Mutations
+export function useAddTicketLink() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: AddTicketLinkInput) => {
+      const result = await addTicketLink(input);
+      if (!result.success) {
+        const errorMessage = 'error' in result ? result.error : "Failed to add link";
+        throw new Error(errorMessage);
+      }
+      if ('data' in result) {
+        return result.data;
+      }
+      throw new Error("Failed to add link");
+    },
+    onSuccess: () => {
+      // Both tickets show the link, and blocked badges may change
+      queryClient.invalidateQueries({ queryKey: ticketLinkKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: ticketKeys.lists() });
+      toast.success("Link added!");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to add link");
+    },
+  });
+}
+
+export function useRemoveTicketLink() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (linkId: string) => {
+      const result = await removeTicketLink(linkId);
+      if (!result.success) {
+        const errorMessage = 'error' in result ? result.error : "Failed to remove link";
+        throw new Error(errorMessage);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ticketLinkKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: ticketKeys.lists() });
+      toast.success("Link removed!");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to remove link");
+    },
+  });
+}
+
+// Export types
+export type { TicketLinkWithTicket };
@@ -0,0 +1,29 @@
+"use client";
+
+import { useCallback } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+
+// The ticket open in a board/list sheet, kept in the ?ticket= search param
+// so back/forward and copied links reopen it
+export function useTicketSearchParam() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const ticketId = searchParams.get("ticket");
+
+  const setTicketId = useCallback(
+    (id: string | null) => {
+      const params = new URLSearchParams(searchParams.toString());
+      if (id) {
+        params.set("ticket", id);
+      } else {
+        params.delete("ticket");
+      }
+      const query = params.toString();
+      router.push(query ? `${pathname}?${query}` : pathname, { scroll: false });
+    },
+    [searchParams, pathname, router]
+  );
+
+  return [ticketId, setTicketId] as const;
+}
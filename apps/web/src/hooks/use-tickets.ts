@@ -1,6 +1,12 @@
 "use client";
 
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  useQuery,
+  useMutation,
+  useQueryClient,
+  onlineManager,
+  type QueryClient,
+} from "@tanstack/react-query";
 import { toast } from "sonner";
 import {
   createTicket,
@@ -12,9 +18,17 @@ import {
   type CreateTicketInput,
   type UpdateTicketInput,
   type ReorderTicketInput,
+  type DeleteTicketOptions,
+  type TicketConflict,
+  type TicketConflictField,
 } from "@/actions/tickets";
-import type { Ticket, TicketStatus } from "@minute/db";
-import type { TicketWithAssignee } from "@/actions/tickets";
+import type { TicketStatus } from "@minute/db";
+import type { TicketWithAssignee, TicketDetail } from "@/actions/tickets";
+import { ticketHistoryKeys } from "./use-ticket-history";
+import { sprintKeys } from "./use-sprints";
+import { labelKeys } from "./use-labels";
+import { watcherKeys } from "./use-watchers";
+import { realtimeClientId } from "@/lib/realtime/client";
 
 // Query keys
 export const ticketKeys = {
@@ -25,6 +39,189 @@ export const ticketKeys = {
   detail: (id: string) => [...ticketKeys.details(), id] as const,
 };
 
+// Mutations that can be queued while offline and persisted across reloads
+export const ticketMutationKeys = {
+  update: [...ticketKeys.all, "update"] as const,
+  reorder: [...ticketKeys.all, "reorder"] as const,
+};
+
+type GroupedTickets = Record<TicketStatus, TicketWithAssignee[]>;
+
+export const ticketConflictFieldLabels: Record<TicketConflictField, string> = {
+  title: "Title",
+  description: "Description",
+  status: "Status",
+  priority: "Priority",
+  assigneeId: "Assignee",
+  dueDate: "Due date",
+  points: "Story points",
+  sprintId: "Sprint",
+};
+
+// Thrown when someone else changed the same fields since the client's copy
+export class TicketConflictError extends Error {
+  conflict: TicketConflict;
+
+  constructor(conflict: TicketConflict) {
+    super("This ticket was changed by someone else");
+    this.name = "TicketConflictError";
+    this.conflict = conflict;
+  }
+}
+
+// Server actions fail with a TypeError when the request never reaches the
+// server (flaky Wi-Fi). Those are retried; while the browser reports being
+// offline, queued mutations pause instead and replay on reconnect.
+function retryNetworkErrors(failureCount: number, error: Error) {
+  return error instanceof TypeError && failureCount < 3;
+}
+
+async function updateTicketRequest(input: UpdateTicketInput) {
+  const result = await updateTicket({ ...input, clientId: realtimeClientId });
+  if ('conflict' in result && result.conflict) {
+    throw new TicketConflictError(result.conflict);
+  }
+  if (!result.success) {
+    const errorMessage = 'error' in result ? result.error : "Failed to update ticket";
+    throw new Error(errorMessage);
+  }
+  if ('data' in result) {
+    return result.data;
+  }
+  throw new Error("Failed to update ticket");
+}
+
+async function reorderTicketRequest(input: ReorderTicketInput) {
+  const result = await reorderTicket({ ...input, clientId: realtimeClientId });
+  if ('conflict' in result && result.conflict) {
+    throw new TicketConflictError(result.conflict);
+  }
+  if (!result.success) {
+    const errorMessage = 'error' in result ? result.error : "Failed to reorder ticket";
+    throw new Error(errorMessage);
+  }
+  if ('data' in result) {
+    return result.data;
+  }
+  throw new Error("Failed to reorder ticket");
+}
+
+// Mutations restored from IndexedDB after a reload only have their key and
+// variables, so the functions that replay them are registered as defaults
+export function registerTicketMutationDefaults(queryClient: QueryClient) {
+  queryClient.setMutationDefaults(ticketMutationKeys.update, {
+    mutationFn: updateTicketRequest,
+    retry: retryNetworkErrors,
+    onError: (error, variables) =>
+      handleTicketSyncError(queryClient, error, variables.id, (version) =>
+        updateTicketRequest({ ...variables, baseVersion: version })
+      ),
+  });
+  queryClient.setMutationDefaults(ticketMutationKeys.reorder, {
+    mutationFn: reorderTicketRequest,
+    retry: retryNetworkErrors,
+    onError: (error, variables) =>
+      handleTicketSyncError(queryClient, error, variables.ticketId, (version) =>
+        reorderTicketRequest({ ...variables, baseVersion: version })
+      ),
+  });
+}
+
+function notifyQueuedOffline() {
+  if (!onlineManager.isOnline()) {
+    toast.info("You're offline. This change will sync when you reconnect.");
+  }
+}
+
+function findCachedTicket(queryClient: QueryClient, ticketId: string) {
+  const detail = queryClient.getQueryData<TicketDetail>(ticketKeys.detail(ticketId));
+  if (detail) return detail;
+  for (const [, grouped] of queryClient.getQueriesData<GroupedTickets>({ queryKey: ticketKeys.lists() })) {
+    const ticket = Object.values(grouped ?? {}).flat().find((t) => t.id === ticketId);
+    if (ticket) return ticket;
+  }
+  return undefined;
+}
+
+// Undo optimistic state by refetching, and on a conflict ask whether to
+// overwrite the other change (resend based on the server's copy) or keep it
+function handleTicketSyncError(
+  queryClient: QueryClient,
+  error: Error,
+  ticketId: string,
+  overwrite: (version: number) => Promise<unknown>
+) {
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ticketKeys.lists() });
+    queryClient.invalidateQueries({ queryKey: ticketKeys.detail(ticketId) });
+  };
+  refresh();
+
+  if (!(error instanceof TicketConflictError)) {
+    toast.error(error.message || "Failed to update ticket");
+    return;
+  }
+
+  const ticket = findCachedTicket(queryClient, ticketId);
+  const label = ticket?.key ?? ticket?.title ?? "This ticket";
+  toast.warning(`${label} was changed by someone else`, {
+    description: `Their change to ${error.conflict.fields
+      .map((field) => ticketConflictFieldLabels[field].toLowerCase())
+      .join(", ")} conflicts with yours.`,
+    duration: Infinity,
+    action: {
+      label: "Keep mine",
+      onClick: () => {
+        overwrite(error.conflict.version)
+          .then(() => toast.success("Your change was saved"))
+          .catch((overwriteError: Error) =>
+            toast.error(overwriteError.message || "Failed to update ticket")
+          )
+          .finally(refresh);
+      },
+    },
+    cancel: {
+      label: "Keep theirs",
+      onClick: refresh,
+    },
+  });
+}
+
+// Apply an update's fields to the cached detail and list copies of a ticket
+function applyOptimisticUpdate(queryClient: QueryClient, input: UpdateTicketInput) {
+  const fields = {
+    ...(input.title !== undefined && { title: input.title }),
+    ...(input.description !== undefined && { description: input.description }),
+    ...(input.status !== undefined && { status: input.status }),
+    ...(input.priority !== undefined && { priority: input.priority }),
+    ...(input.points !== undefined && { points: input.points }),
+    ...(input.sprintId !== undefined && { sprintId: input.sprintId }),
+    ...(input.assigneeId !== undefined && { assigneeId: input.assigneeId }),
+    ...(input.dueDate !== undefined && {
+      dueDate: input.dueDate === null ? null : new Date(input.dueDate * 1000),
+    }),
+  };
+
+  queryClient.setQueryData<TicketDetail>(ticketKeys.detail(input.id), (ticket) =>
+    ticket ? { ...ticket, ...fields } : ticket
+  );
+  queryClient.setQueriesData<GroupedTickets>({ queryKey: ticketKeys.lists() }, (grouped) => {
+    const ticket = Object.values(grouped ?? {}).flat().find((t) => t.id === input.id);
+    if (!grouped || !ticket) return grouped;
+
+    const updated = { ...ticket, ...fields };
+    const patched: GroupedTickets = {};
+    for (const [status, column] of Object.entries(grouped)) {
+      const kept = column.filter((t) => t.id !== input.id);
+      patched[status] =
+        status === updated.status
+          ? [...kept, updated].sort((a, b) => a.order - b.order)
+          : kept;
+    }
+    return patched;
+  });
+}
+
 // Queries
 export function useTickets(projectId: string) {
   return useQuery({
@@ -41,12 +238,17 @@ export function useTickets(projectId: string) {
   });
 }
 
-export function useTicket(ticketId: string, options?: { enabled?: boolean; projectId?: string }) {
+export function useTicket(
+  ticketId: string,
+  options?: { enabled?: boolean; projectId?: string; initialData?: TicketDetail }
+) {
   const queryClient = useQueryClient();
   
   // Try to get initial data from the cached list query if projectId is provided
   // This provides instant status display when opening a ticket from the board/list
   const initialData = (() => {
+    // Server-rendered pages pass the ticket they already loaded
+    if (options?.initialData) return options.initialData;
     if (!options?.projectId || !ticketId) return undefined;
     
     const listData = queryClient.getQueryData<Record<TicketStatus, TicketWithAssignee[]>>(
@@ -68,6 +270,10 @@ export function useTicket(ticketId: string, options?: { enabled?: boolean; proje
             priority: ticket.priority,
             order: ticket.order,
             projectId: ticket.projectId,
+            number: ticket.number,
+            key: ticket.key,
+            parentId: ticket.parentId,
+            sprintId: ticket.sprintId,
             creatorId: ticket.creatorId,
             assigneeId: ticket.assignee?.id || null,
             dueDate: ticket.dueDate,
@@ -75,7 +281,9 @@ export function useTicket(ticketId: string, options?: { enabled?: boolean; proje
             metadata: ticket.metadata,
             createdAt: ticket.createdAt,
             updatedAt: ticket.updatedAt,
-          } as Ticket;
+            version: ticket.version,
+            labelIds: ticket.labels.map((label) => label.id),
+          } as TicketDetail;
         }
       }
     }
@@ -109,7 +317,7 @@ export function useCreateTicket() {
 
   return useMutation({
     mutationFn: async (input: CreateTicketInput) => {
-      const result = await createTicket(input);
+      const result = await createTicket({ ...input, clientId: realtimeClientId });
       if (!result.success) {
         const errorMessage = 'error' in result ? result.error : "Failed to create ticket";
         throw new Error(errorMessage);
@@ -130,34 +338,55 @@ export function useCreateTicket() {
   });
 }
 
-export function useUpdateTicket() {
+export function useUpdateTicket(options?: {
+  // Resolve conflicts in place (e.g. a merge UI) instead of the default
+  // toast prompt; return false to fall back to the prompt
+  onConflict?: (error: TicketConflictError, variables: UpdateTicketInput) => boolean;
+}) {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (input: UpdateTicketInput) => {
-      const result = await updateTicket(input);
-      if (!result.success) {
-        const errorMessage = 'error' in result ? result.error : "Failed to update ticket";
-        throw new Error(errorMessage);
-      }
-      if ('data' in result) {
-        return result.data;
-      }
-      throw new Error("Failed to update ticket");
+    mutationKey: ticketMutationKeys.update,
+    mutationFn: updateTicketRequest,
+    retry: retryNetworkErrors,
+    // Show the change right away; it stays applied while queued offline
+    onMutate: async (variables) => {
+      await queryClient.cancelQueries({ queryKey: ticketKeys.detail(variables.id) });
+      applyOptimisticUpdate(queryClient, variables);
+      notifyQueuedOffline();
     },
     onSuccess: (data, variables) => {
       // Invalidate ticket detail
       queryClient.invalidateQueries({ queryKey: ticketKeys.detail(variables.id) });
+      queryClient.invalidateQueries({ queryKey: ticketHistoryKeys.list(variables.id) });
       
       // Invalidate all ticket lists (since status might have changed)
       // We'll need to invalidate by project, but we don't have projectId here
       // So we invalidate all ticket lists and let the queries refetch
       queryClient.invalidateQueries({ queryKey: ticketKeys.lists() });
+      // Sprint totals and burndowns depend on status, points and sprint
+      queryClient.invalidateQueries({ queryKey: sprintKeys.all });
+      if (variables.labelIds !== undefined) {
+        // Usage counts in the label editor
+        queryClient.invalidateQueries({ queryKey: labelKeys.lists() });
+      }
+      if (variables.assigneeId) {
+        // New assignees are auto-watched
+        queryClient.invalidateQueries({ queryKey: watcherKeys.detail(variables.id) });
+      }
       
       toast.success("Ticket updated successfully!");
     },
-    onError: (error: Error) => {
-      toast.error(error.message || "Failed to update ticket");
+    onError: (error: Error, variables) => {
+      if (error instanceof TicketConflictError && options?.onConflict?.(error, variables)) {
+        // Drop the optimistic values; the resolver resends what it keeps
+        queryClient.invalidateQueries({ queryKey: ticketKeys.lists() });
+        queryClient.invalidateQueries({ queryKey: ticketKeys.detail(variables.id) });
+        return;
+      }
+      handleTicketSyncError(queryClient, error, variables.id, (version) =>
+        updateTicketRequest({ ...variables, baseVersion: version })
+      );
     },
   });
 }
@@ -166,15 +395,15 @@ export function useDeleteTicket() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (ticketId: string) => {
-      const result = await deleteTicket(ticketId);
+    mutationFn: async ({ ticketId, ...options }: { ticketId: string } & DeleteTicketOptions) => {
+      const result = await deleteTicket(ticketId, { ...options, clientId: realtimeClientId });
       if (!result.success) {
         const errorMessage = 'error' in result ? result.error : "Failed to delete ticket";
         throw new Error(errorMessage);
       }
       return result;
     },
-    onSuccess: (_, ticketId) => {
+    onSuccess: (_, { ticketId }) => {
       // Invalidate ticket detail
       queryClient.invalidateQueries({ queryKey: ticketKeys.detail(ticketId) });
       
@@ -193,21 +422,16 @@ export function useReorderTicket() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (input: ReorderTicketInput) => {
-      const result = await reorderTicket(input);
-      if (!result.success) {
-        const errorMessage = 'error' in result ? result.error : "Failed to reorder ticket";
-        throw new Error(errorMessage);
-      }
-      if ('data' in result) {
-        return result.data;
-      }
-      throw new Error("Failed to reorder ticket");
-    },
+    mutationKey: ticketMutationKeys.reorder,
+    mutationFn: reorderTicketRequest,
+    retry: retryNetworkErrors,
+    onMutate: notifyQueuedOffline,
     // Note: Optimistic update is done synchronously in the board component
     // before calling mutate() to avoid timing issues with dnd-kit transforms
-    onError: (error: Error) => {
-      toast.error(error.message || "Failed to reorder ticket");
+    onError: (error: Error, variables) => {
+      handleTicketSyncError(queryClient, error, variables.ticketId, (version) =>
+        reorderTicketRequest({ ...variables, baseVersion: version })
+      );
     },
     onSuccess: (data, variables) => {
       // Invalidate ticket detail query to ensure edit dialog shows updated status
@@ -215,6 +439,20 @@ export function useReorderTicket() {
       queryClient.invalidateQueries({
         queryKey: ticketKeys.detail(variables.ticketId),
       });
+      queryClient.invalidateQueries({
+        queryKey: ticketHistoryKeys.list(variables.ticketId),
+      });
+
+      // This tab skips its own realtime event, so refetch if the server placed
+      // the ticket differently (e.g. after rebalancing the column)
+      const cached = queryClient
+        .getQueryData<Record<TicketStatus, TicketWithAssignee[]>>(ticketKeys.list(variables.projectId))
+        ?.[variables.newStatus]?.find((ticket) => ticket.id === variables.ticketId);
+      if (data && cached && cached.order !== data.order) {
+        queryClient.invalidateQueries({
+          queryKey: ticketKeys.list(variables.projectId),
+        });
+      }
     },
     onSettled: (_, error, variables) => {
       // Only refetch list on error to sync with server state
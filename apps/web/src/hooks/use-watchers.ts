@@ -0,0 +1,50 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { getTicketWatchers, watchTicket, unwatchTicket } from "@/actions/watchers";
+
+// Query keys
+export const watcherKeys = {
+  all: ["ticket-watchers"] as const,
+  details: () => [...watcherKeys.all, "detail"] as const,
+  detail: (ticketId: string) => [...watcherKeys.details(), ticketId] as const,
+};
+
+// Queries
+export function useTicketWatchers(ticketId: string, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: watcherKeys.detail(ticketId),
+    queryFn: async () => {
+      const result = await getTicketWatchers(ticketId);
+      if (!result.success || !("data" in result) || !result.data) {
+        const errorMessage = 'error' in result ? result.error : "Failed to fetch watchers";
+        throw new Error(errorMessage);
+      }
+      return result.data;
+    },
+    enabled: options?.enabled !== undefined ? options.enabled : !!ticketId,
+  });
+}
+
+// Mutations
+export function useToggleWatch() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ ticketId, watch }: { ticketId: string; watch: boolean }) => {
+      const result = watch ? await watchTicket(ticketId) : await unwatchTicket(ticketId);
+      if (!result.success) {
+        const errorMessage = 'error' in result ? result.error : "Failed to update watch status";
+        throw new Error(errorMessage);
+      }
+    },
+    onSuccess: (_, { ticketId, watch }) => {
+      queryClient.invalidateQueries({ queryKey: watcherKeys.detail(ticketId) });
+      toast.success(watch ? "Watching ticket" : "Stopped watching ticket");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update watch status");
+    },
+  });
+}
@@ -15,22 +15,8 @@ import {
   teamMember,
 } from '@minute/db';
 import { eq, and } from 'drizzle-orm';
-import { Resend } from 'resend';
 import { ac, owner, admin, member } from './permissions';
-
-// Lazy initialization of Resend client
-let resendInstance: Resend | null = null;
-
-function getResend() {
-  if (!resendInstance) {
-    const apiKey = process.env.RESEND_API_KEY;
-    if (!apiKey) {
-      throw new Error('RESEND_API_KEY environment variable is not set');
-    }
-    resendInstance = new Resend(apiKey);
-  }
-  return resendInstance;
-}
+import { getResend, EMAIL_FROM } from './email';
 
 export const auth = betterAuth({
   database: drizzleAdapter(db, {
@@ -140,7 +126,7 @@ export const auth = betterAuth({
 
         try {
           const result = await resend.emails.send({
-            from: 'Minute <noreply@dylanreed.dev>',
+            from: EMAIL_FROM,
             to: data.email,
             subject,
             html,
@@ -238,7 +224,7 @@ export const auth = betterAuth({
 
         try {
           const result = await resend.emails.send({
-            from: 'Minute <noreply@dylanreed.dev>',
+            from: EMAIL_FROM,
             to: email,
             subject,
             html,
@@ -0,0 +1,115 @@
+import { eachDayOfInterval, endOfDay, format, startOfDay } from "date-fns";
+
+export type BurndownPoint = {
+  date: string; // yyyy-MM-dd
+  remaining: number | null; // null for days that haven't happened yet
+  ideal: number;
+};
+
+export type Burndown = {
+  days: BurndownPoint[];
+  totalPoints: number;
+  remainingPoints: number;
+};
+
+type BurndownTicket = {
+  id: string;
+  status: string;
+  points: number | null;
+  sprintId: string | null;
+  createdAt: Date;
+};
+
+type BurndownHistoryEntry = {
+  ticketId: string;
+  field: string;
+  oldValue: string | null;
+  newValue: string | null;
+  createdAt: Date;
+};
+
+// Value of a field at a point in time, replayed from its history entries (oldest first).
+// Falls back to the current value when the field never changed.
+function valueAt(
+  current: string | null,
+  entries: BurndownHistoryEntry[],
+  at: Date
+): string | null {
+  if (entries.length === 0) return current;
+
+  let value: string | null = entries[0]!.oldValue;
+  for (const entry of entries) {
+    if (entry.createdAt.getTime() > at.getTime()) break;
+    value = entry.newValue;
+  }
+  return value;
+}
+
+// Remaining points per day of a sprint, rebuilt from ticket history so that
+// scope changes and reopened tickets show up on the day they happened
+export function computeBurndown(
+  sprint: { id: string; startDate: Date; endDate: Date; completedAt: Date | null },
+  tickets: BurndownTicket[],
+  history: BurndownHistoryEntry[],
+  completedKeys: Set<string>,
+  now: Date = new Date()
+): Burndown {
+  const entriesFor = (ticketId: string, field: string) =>
+    history
+      .filter((entry) => entry.ticketId === ticketId && entry.field === field)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  const replay = tickets.map((ticket) => ({
+    ticket,
+    status: entriesFor(ticket.id, "status"),
+    points: entriesFor(ticket.id, "points"),
+    sprint: entriesFor(ticket.id, "sprint"),
+  }));
+
+  // Completing a sprint moves unfinished tickets out, so stop just before that
+  const cutoff = sprint.completedAt
+    ? new Date(Math.min(sprint.completedAt.getTime() - 1000, now.getTime()))
+    : now;
+
+  const snapshot = (at: Date) => {
+    let scope = 0;
+    let remaining = 0;
+    for (const { ticket, status, points, sprint: sprintEntries } of replay) {
+      if (ticket.createdAt.getTime() > at.getTime()) continue;
+      if (valueAt(ticket.sprintId, sprintEntries, at) !== sprint.id) continue;
+
+      const ticketPoints = Number(valueAt(ticket.points?.toString() ?? null, points, at) ?? 0);
+      scope += ticketPoints;
+      if (!completedKeys.has(valueAt(ticket.status, status, at) ?? "")) {
+        remaining += ticketPoints;
+      }
+    }
+    return { scope, remaining };
+  };
+
+  const days = eachDayOfInterval({
+    start: startOfDay(sprint.startDate),
+    end: startOfDay(sprint.endDate),
+  });
+  const initialScope = snapshot(endOfDay(days[0] ?? sprint.startDate)).scope;
+  const current = snapshot(cutoff);
+
+  return {
+    days: days.map((day, index) => {
+      const at = endOfDay(day);
+      const started = startOfDay(day).getTime() <= cutoff.getTime();
+      return {
+        date: format(day, "yyyy-MM-dd"),
+        remaining: started
+          ? snapshot(at.getTime() < cutoff.getTime() ? at : cutoff).remaining
+          : null,
+        ideal:
+          days.length > 1
+            ? Math.round(initialScope * (1 - index / (days.length - 1)) * 10) / 10
+            : 0,
+      };
+    }),
+    totalPoints: current.scope,
+    remainingPoints: current.remaining,
+  };
+}
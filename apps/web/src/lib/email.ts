@@ -0,0 +1,28 @@
+import { Resend } from 'resend';
+
+// Sender for all outgoing email
+export const EMAIL_FROM = 'Minute <noreply@dylanreed.dev>';
+
+// Lazy initialization of Resend client
+let resendInstance: Resend | null = null;
+
+export function getResend() {
+  if (!resendInstance) {
+    const apiKey = process.env.RESEND_API_KEY;
+    if (!apiKey) {
+      throw new Error('RESEND_API_KEY environment variable is not set');
+    }
+    resendInstance = new Resend(apiKey);
+  }
+  return resendInstance;
+}
+
+// Escape user content (ticket titles, names) before putting it in an email
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
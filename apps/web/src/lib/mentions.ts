@@ -0,0 +1,80 @@
+import { db, mentions, eq, and, isNull, type Project, type Ticket } from "@minute/db";
+import { getProjectMembers } from "@/actions/projects";
+import { notifyUsers } from "@/lib/notifications";
+
+// Mention nodes as rendered by the editor's mention extension:
+// <span data-type="mention" data-id="<userId>" data-label="<name>">@name</span>
+const MENTION_TAG = /<span\b[^>]*\bdata-type="mention"[^>]*>/g;
+const MENTION_ID = /\bdata-id="([^"]+)"/;
+
+// User IDs mentioned in a description or comment, without duplicates
+export function extractMentionedUserIds(html: string | null | undefined): string[] {
+  if (!html) return [];
+
+  const ids = new Set<string>();
+  for (const tag of html.match(MENTION_TAG) ?? []) {
+    const id = tag.match(MENTION_ID)?.[1];
+    if (id) ids.add(id);
+  }
+  return [...ids];
+}
+
+// Store the mentions in a ticket description (commentId null) or comment and
+// notify users who weren't mentioned there before. Users who aren't project
+// members are ignored. Returns the IDs of newly mentioned users.
+export async function syncMentions({
+  ticket,
+  project,
+  commentId = null,
+  author,
+  content,
+}: {
+  ticket: Pick<Ticket, "id" | "projectId" | "title" | "number">;
+  project: Pick<Project, "slug" | "key">;
+  commentId?: string | null;
+  author: { id: string; name: string };
+  content: string | null | undefined;
+}): Promise<string[]> {
+  const authorId = author.id;
+  const mentionedIds = extractMentionedUserIds(content);
+
+  const sourceFilter = and(
+    eq(mentions.ticketId, ticket.id),
+    commentId ? eq(mentions.commentId, commentId) : isNull(mentions.commentId)
+  );
+
+  const existing = await db.select().from(mentions).where(sourceFilter);
+  const existingIds = new Set(existing.map((m) => m.userId));
+
+  let memberIds = new Set<string>();
+  if (mentionedIds.some((id) => !existingIds.has(id))) {
+    const membersResult = await getProjectMembers(ticket.projectId);
+    memberIds = new Set((membersResult.data ?? []).map((m) => m.id));
+  }
+
+  const added = mentionedIds.filter((id) => !existingIds.has(id) && memberIds.has(id));
+  const removed = existing.filter((m) => !mentionedIds.includes(m.userId));
+
+  for (const mention of removed) {
+    await db.delete(mentions).where(eq(mentions.id, mention.id));
+  }
+
+  if (added.length > 0) {
+    await db.insert(mentions).values(
+      added.map((userId) => ({ ticketId: ticket.id, commentId, userId, authorId }))
+    );
+  }
+
+  // Mentioning yourself doesn't notify
+  const notified = added.filter((userId) => userId !== authorId);
+  await notifyUsers({
+    type: "mentioned",
+    recipientIds: notified,
+    actor: author,
+    ticket,
+    project,
+    commentId,
+  });
+
+  return notified;
+}
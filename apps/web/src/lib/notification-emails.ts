@@ -0,0 +1,330 @@
+import {
+  db,
+  notifications,
+  notificationPreferences,
+  projects,
+  tickets,
+  users,
+  eq,
+  and,
+  or,
+  lt,
+  isNull,
+  inArray,
+  desc,
+  formatTicketKey,
+  formatNotificationMessage,
+  defaultEmailFrequency,
+  type EmailFrequency,
+  type NotificationType,
+} from '@minute/db';
+import { getResend, escapeHtml, EMAIL_FROM } from './email';
+
+// Daily digests go out at most this often per user, so a cron that fires a
+// little early or twice still sends one digest a day
+const DIGEST_INTERVAL_MS = 20 * 60 * 60 * 1000;
+
+export type DigestItem = {
+  id: string;
+  type: NotificationType;
+  message: string;
+  ticketTitle: string;
+  url: string;
+  createdAt: Date;
+};
+
+export type DigestGroup = {
+  projectId: string;
+  projectName: string;
+  items: DigestItem[];
+};
+
+function getBaseUrl() {
+  return process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+}
+
+export async function getEmailFrequency(userId: string): Promise<EmailFrequency> {
+  const [preferences] = await db
+    .select({ emailFrequency: notificationPreferences.emailFrequency })
+    .from(notificationPreferences)
+    .where(eq(notificationPreferences.userId, userId))
+    .limit(1);
+
+  return preferences?.emailFrequency ?? defaultEmailFrequency;
+}
+
+// Group a user's unread notifications that haven't been emailed yet by
+// project, newest first. Pass notificationIds to limit it to those rows.
+export async function buildDigest(
+  userId: string,
+  options: { notificationIds?: string[] } = {}
+): Promise<DigestGroup[]> {
+  const conditions = [
+    eq(notifications.userId, userId),
+    isNull(notifications.readAt),
+    isNull(notifications.emailedAt),
+  ];
+  if (options.notificationIds) {
+    if (options.notificationIds.length === 0) return [];
+    conditions.push(inArray(notifications.id, options.notificationIds));
+  }
+
+  const rows = await db
+    .select({
+      id: notifications.id,
+      type: notifications.type,
+      data: notifications.data,
+      createdAt: notifications.createdAt,
+      ticketId: tickets.id,
+      ticketNumber: tickets.number,
+      ticketTitle: tickets.title,
+      projectId: projects.id,
+      projectName: projects.name,
+      projectSlug: projects.slug,
+      projectKey: projects.key,
+      actorName: users.name,
+    })
+    .from(notifications)
+    .innerJoin(tickets, eq(notifications.ticketId, tickets.id))
+    .innerJoin(projects, eq(notifications.projectId, projects.id))
+    .leftJoin(users, eq(notifications.actorId, users.id))
+    .where(and(...conditions))
+    .orderBy(desc(notifications.createdAt));
+
+  const groups = new Map<string, DigestGroup>();
+  for (const row of rows) {
+    let group = groups.get(row.projectId);
+    if (!group) {
+      group = { projectId: row.projectId, projectName: row.projectName, items: [] };
+      groups.set(row.projectId, group);
+    }
+
+    group.items.push({
+      id: row.id,
+      type: row.type,
+      message: formatNotificationMessage({
+        type: row.type,
+        actorName: row.actorName,
+        ticketLabel: formatTicketKey(row.projectKey, row.ticketNumber) ?? row.ticketTitle,
+        data: row.data,
+      }),
+      ticketTitle: row.ticketTitle,
+      url: `${getBaseUrl()}/projects/${row.projectSlug}/tickets/${row.ticketId}`,
+      createdAt: row.createdAt,
+    });
+  }
+
+  return [...groups.values()];
+}
+
+// ==================== TEMPLATES ====================
+// Inline styles match the invitation email in lib/auth.ts
+
+function renderItem(item: DigestItem) {
+  return `
+    <li style="margin: 0 0 12px;">
+      <a href="${item.url}" style="color: #18181b; text-decoration: none; font-weight: 500;">
+        ${escapeHtml(item.message)}
+      </a>
+      <div style="color: #a1a1aa; font-size: 14px;">${escapeHtml(item.ticketTitle)}</div>
+    </li>
+  `;
+}
+
+function renderFooter() {
+  return `
+    <p style="color: #a1a1aa; font-size: 14px; margin-top: 24px;">
+      You can change how often Minute emails you from the notifications menu.
+    </p>
+  `;
+}
+
+export function renderNotificationEmail(group: DigestGroup) {
+  const item = group.items[0]!;
+  const subject = `[${group.projectName}] ${item.message}`;
+  const html = `
+    <div style="font-family: sans-serif; max-width: 500px; margin: 0 auto;">
+      <h1 style="color: #18181b;">${escapeHtml(item.message)}</h1>
+      <p style="color: #71717a;">
+        <strong>${escapeHtml(item.ticketTitle)}</strong> in <strong>${escapeHtml(group.projectName)}</strong>
+      </p>
+      <div style="margin: 32px 0;">
+        <a
+          href="${item.url}"
+          style="display: inline-block; background: #18181b; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 500;"
+        >
+          View Ticket
+        </a>
+      </div>
+      ${renderFooter()}
+    </div>
+  `;
+  return { subject, html };
+}
+
+export function renderDigestEmail(userName: string, groups: DigestGroup[]) {
+  const total = groups.reduce((sum, group) => sum + group.items.length, 0);
+  const subject = `Your Minute digest: ${total} new update${total === 1 ? '' : 's'}`;
+  const sections = groups
+    .map(
+      (group) => `
+        <h2 style="color: #18181b; font-size: 18px; margin: 24px 0 12px;">${escapeHtml(group.projectName)}</h2>
+        <ul style="list-style: none; padding: 0; margin: 0;">
+          ${group.items.map(renderItem).join('')}
+        </ul>
+      `
+    )
+    .join('');
+  const html = `
+    <div style="font-family: sans-serif; max-width: 500px; margin: 0 auto;">
+      <h1 style="color: #18181b;">Your daily digest</h1>
+      <p style="color: #71717a;">
+        Hi ${escapeHtml(userName)}, here's what happened on tickets you follow.
+      </p>
+      ${sections}
+      <div style="margin: 32px 0;">
+        <a
+          href="${getBaseUrl()}"
+          style="display: inline-block; background: #18181b; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 500;"
+        >
+          Open Minute
+        </a>
+      </div>
+      ${renderFooter()}
+    </div>
+  `;
+  return { subject, html };
+}
+
+// ==================== DELIVERY ====================
+
+// Send an email, or log it and skip sending in development
+async function deliverEmail(
+  to: string,
+  email: { subject: string; html: string },
+  groups: DigestGroup[]
+) {
+  const isDevelopment = process.env.NODE_ENV === 'development';
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`📧 ${email.subject}`);
+  console.log(`👤 To: ${to}`);
+  for (const group of groups) {
+    console.log(`🏢 ${group.projectName}`);
+    for (const item of group.items) {
+      console.log(`   • ${item.message}: ${item.url}`);
+    }
+  }
+  console.log('='.repeat(50) + '\n');
+
+  // In development, skip email sending to avoid Resend restrictions
+  if (isDevelopment) {
+    console.log('⚠️  Development mode: Skipping email send.');
+    return;
+  }
+
+  const resend = getResend();
+  const result = await resend.emails.send({
+    from: EMAIL_FROM,
+    to,
+    subject: email.subject,
+    html: email.html,
+  });
+
+  if (result.error) {
+    console.error('Resend error:', result.error);
+    throw new Error(`Failed to send notification email: ${result.error.message}`);
+  }
+}
+
+async function markEmailed(groups: DigestGroup[]) {
+  const ids = groups.flatMap((group) => group.items.map((item) => item.id));
+  if (ids.length === 0) return;
+
+  await db
+    .update(notifications)
+    .set({ emailedAt: new Date() })
+    .where(inArray(notifications.id, ids));
+}
+
+// Email new notifications to recipients who chose instant delivery
+export async function sendInstantNotificationEmails(notificationIds: string[]) {
+  if (notificationIds.length === 0) return;
+
+  const recipients = await db
+    .selectDistinct({ id: users.id, email: users.email })
+    .from(notifications)
+    .innerJoin(users, eq(notifications.userId, users.id))
+    .where(inArray(notifications.id, notificationIds));
+
+  for (const recipient of recipients) {
+    if ((await getEmailFrequency(recipient.id)) !== 'instant') continue;
+
+    const groups = await buildDigest(recipient.id, { notificationIds });
+    for (const group of groups) {
+      for (const item of group.items) {
+        const single = { ...group, items: [item] };
+        await deliverEmail(recipient.email, renderNotificationEmail(single), [single]);
+        await markEmailed([single]);
+      }
+    }
+  }
+}
+
+// Send the daily digest to every user who is due one. Meant to be called
+// once a day by a scheduler; see app/api/cron/digests.
+export async function sendDailyDigests(): Promise<{ sent: number }> {
+  const dueBefore = new Date(Date.now() - DIGEST_INTERVAL_MS);
+
+  // Users with pending notifications who want digests and haven't had one
+  // recently. Users without a preferences row get the default, daily.
+  const candidates = await db
+    .selectDistinct({
+      id: users.id,
+      name: users.name,
+      email: users.email,
+    })
+    .from(notifications)
+    .innerJoin(users, eq(notifications.userId, users.id))
+    .leftJoin(notificationPreferences, eq(notificationPreferences.userId, users.id))
+    .where(
+      and(
+        isNull(notifications.readAt),
+        isNull(notifications.emailedAt),
+        or(
+          isNull(notificationPreferences.userId),
+          eq(notificationPreferences.emailFrequency, 'daily')
+        ),
+        or(
+          isNull(notificationPreferences.lastDigestAt),
+          lt(notificationPreferences.lastDigestAt, dueBefore)
+        )
+      )
+    );
+
+  let sent = 0;
+  for (const user of candidates) {
+    try {
+      const groups = await buildDigest(user.id);
+      if (groups.length === 0) continue;
+
+      await deliverEmail(user.email, renderDigestEmail(user.name, groups), groups);
+      await markEmailed(groups);
+
+      const now = new Date();
+      await db
+        .insert(notificationPreferences)
+        .values({ userId: user.id, lastDigestAt: now, updatedAt: now })
+        .onConflictDoUpdate({
+          target: notificationPreferences.userId,
+          set: { lastDigestAt: now },
+        });
+      sent++;
+    } catch (error) {
+      // One failed address shouldn't stop everyone else's digest
+      console.error(`Error sending digest to ${user.email}:`, error);
+    }
+  }
+
+  return { sent };
+}
@@ -0,0 +1,116 @@
+import {
+  db,
+  notifications,
+  formatTicketKey,
+  formatNotificationMessage,
+  ensureProjectStatuses,
+  type NotificationType,
+  type Project,
+  type Ticket,
+} from "@minute/db";
+import { getTicketWatcherIds } from "@/lib/watchers";
+import { sendInstantNotificationEmails } from "@/lib/notification-emails";
+import { triggerEvent, channels, events, type NotificationEvent } from "@/lib/realtime/server";
+
+type NotificationTicket = Pick<Ticket, "id" | "projectId" | "title" | "number">;
+type NotificationProject = Pick<Project, "slug" | "key">;
+
+// Store a notification for each recipient, push it on their user channel and
+// email it to recipients who chose instant delivery.
+// The actor is never notified about their own change. Failures are logged,
+// not thrown - notifications should not break the main flow.
+export async function notifyUsers({
+  type,
+  recipientIds,
+  actor,
+  ticket,
+  project,
+  commentId = null,
+  data,
+}: {
+  type: NotificationType;
+  recipientIds: (string | null | undefined)[];
+  actor: { id: string; name: string };
+  ticket: NotificationTicket;
+  project: NotificationProject;
+  commentId?: string | null;
+  data?: Record<string, unknown>;
+}) {
+  const userIds = [
+    ...new Set(recipientIds.filter((id): id is string => !!id && id !== actor.id)),
+  ];
+  if (userIds.length === 0) return;
+
+  try {
+    const created = await db
+      .insert(notifications)
+      .values(
+        userIds.map((userId) => ({
+          userId,
+          actorId: actor.id,
+          type,
+          projectId: ticket.projectId,
+          ticketId: ticket.id,
+          commentId,
+          data: data ?? null,
+        }))
+      )
+      .returning();
+
+    const message = formatNotificationMessage({
+      type,
+      actorName: actor.name,
+      ticketLabel: formatTicketKey(project.key, ticket.number) ?? ticket.title,
+      data,
+    });
+
+    for (const notification of created) {
+      const payload: NotificationEvent = {
+        notificationId: notification.id,
+        type,
+        ticketId: ticket.id,
+        projectId: ticket.projectId,
+        ticketTitle: ticket.title,
+        message,
+        url: `/projects/${project.slug}/tickets/${ticket.id}`,
+      };
+      await triggerEvent(channels.user(notification.userId), events.NOTIFICATION_CREATED, payload);
+    }
+
+    // Email recipients who chose instant delivery (non-blocking); everyone
+    // else gets these in their daily digest
+    sendInstantNotificationEmails(created.map((notification) => notification.id)).catch((err) =>
+      console.error("Instant notification email failed:", err)
+    );
+  } catch (error) {
+    console.error("Error creating notifications:", error);
+  }
+}
+
+// Notify the ticket's watchers that it moved between statuses
+export async function notifyStatusChange({
+  ticket,
+  project,
+  actor,
+  fromStatus,
+  toStatus,
+}: {
+  ticket: NotificationTicket;
+  project: NotificationProject;
+  actor: { id: string; name: string };
+  fromStatus: string;
+  toStatus: string;
+}) {
+  // Store display names so the inbox reads well after statuses are renamed
+  const statuses = await ensureProjectStatuses(ticket.projectId);
+  const statusName = (key: string) => statuses.find((s) => s.key === key)?.name ?? key;
+
+  await notifyUsers({
+    type: "status_changed",
+    recipientIds: await getTicketWatcherIds(ticket.id),
+    actor,
+    ticket,
+    project,
+    data: { fromStatus: statusName(fromStatus), toStatus: statusName(toStatus) },
+  });
+}
@@ -0,0 +1,18 @@
+// Turn a status name into a key for tickets.status, unique within the project
+export function generateStatusKey(name: string, existingKeys: string[]): string {
+  const baseKey =
+    name
+      .toLowerCase()
+      .trim()
+      .replace(/[^\w\s-]/g, "")
+      .replace(/[\s-]+/g, "_")
+      .replace(/^_+|_+$/g, "") || "status";
+
+  let key = baseKey;
+  let counter = 1;
+  while (existingKeys.includes(key)) {
+    key = `${baseKey}_${counter}`;
+    counter++;
+  }
+  return key;
+}
@@ -1,38 +1,58 @@
 "use client";
 
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClient } from "@tanstack/react-query";
 import { ReactQueryDevtools } from "@tanstack/react-query-devtools";
+import { PersistQueryClientProvider, type Persister } from "@tanstack/react-query-persist-client";
+import { del, get, set } from "idb-keyval";
 import { useState } from "react";
+import { registerTicketMutationDefaults } from "@/hooks/use-tickets";
+
+const PERSISTED_CACHE_KEY = "minute-query-cache";
+// Queued changes older than this are dropped instead of replayed
+const PERSISTED_CACHE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Keeps mutations queued while offline in IndexedDB, so they survive reloads
+const persister: Persister = {
+  persistClient: (client) => set(PERSISTED_CACHE_KEY, client),
+  restoreClient: () => get(PERSISTED_CACHE_KEY),
+  removeClient: () => del(PERSISTED_CACHE_KEY),
+};
 
 export function QueryProvider({ children }: { children: React.ReactNode }) {
-  const [queryClient] = useState(
-    () =>
-      new QueryClient({
-        defaultOptions: {
-          queries: {
-            staleTime: 60 * 1000, // 1 minute
-            refetchOnWindowFocus: false,
-            retry: 1,
-          },
-          mutations: {
-            retry: 1,
-          },
+  const [queryClient] = useState(() => {
+    const client = new QueryClient({
+      defaultOptions: {
+        queries: {
+          staleTime: 60 * 1000, // 1 minute
+          refetchOnWindowFocus: false,
+          retry: 1,
         },
-      })
-  );
+        mutations: {
+          retry: 1,
+        },
+      },
+    });
+    registerTicketMutationDefaults(client);
+    return client;
+  });
 
   return (
-    <QueryClientProvider client={queryClient}>
+    <PersistQueryClientProvider
+      client={queryClient}
+      persistOptions={{
+        persister,
+        maxAge: PERSISTED_CACHE_MAX_AGE_MS,
+        dehydrateOptions: {
+          // Queries are refetched anyway; only the offline queue is persisted
+          shouldDehydrateQuery: () => false,
+          shouldDehydrateMutation: (mutation) => mutation.state.isPaused,
+        },
+      }}
+      // Replay changes queued before the page was reloaded
+      onSuccess={() => queryClient.resumePausedMutations()}
+    >
       {children}
       {process.env.NODE_ENV === "development" && <ReactQueryDevtools />}
-    </QueryClientProvider>
+    </PersistQueryClientProvider>
   );
 }
-
-
-
-
-
-
-
-
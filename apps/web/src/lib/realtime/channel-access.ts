@@ -0,0 +1,100 @@
+import { headers } from "next/headers";
+import { auth } from "@/lib/auth";
+import { db, projects, tickets, eq } from "@minute/db";
+
+// Channel authorization, shared by the Pusher auth endpoint, the SSE stream
+// and the presence action. Project and ticket channels require read access
+// to the project; user channels are only open to that user.
+
+const channelPattern = /^(private|presence)-(project|ticket|user)-(.+)$/;
+
+export function isPresenceChannel(channelName: string) {
+  return channelName.startsWith("presence-");
+}
+
+// Private and presence channels; Pusher asks /api/realtime/auth to sign these
+export function requiresAuthorization(channelName: string) {
+  return channelName.startsWith("private-") || isPresenceChannel(channelName);
+}
+
+// Resolve the project a project or ticket channel belongs to
+async function getChannelProjectId(scope: string, id: string) {
+  if (scope === "project") return id;
+
+  const [ticket] = await db
+    .select({ projectId: tickets.projectId })
+    .from(tickets)
+    .where(eq(tickets.id, id))
+    .limit(1);
+
+  return ticket?.projectId ?? null;
+}
+
+// Verify project permission (reuse from tickets.ts pattern)
+async function verifyProjectPermission(projectId: string, permission: "read") {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const [project] = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  if (!project) {
+    return { success: false, error: "Project not found" };
+  }
+
+  // For backward compatibility: if no organizationId, check ownership
+  if (!project.organizationId) {
+    if (project.ownerId !== session.user.id) {
+      return { success: false, error: "Unauthorized" };
+    }
+    return { success: true, project };
+  }
+
+  // Check organization permission - must pass organizationId explicitly
+  const hasPermission = await auth.api.hasPermission({
+    headers: await headers(),
+    body: {
+      organizationId: project.organizationId,
+      permissions: {
+        project: [permission],
+      },
+    },
+  });
+
+  if (!hasPermission) {
+    return { success: false, error: "Insufficient permissions" };
+  }
+
+  return { success: true, project };
+}
+
+// Check that the current user may subscribe to a channel
+export async function verifyChannelAccess(
+  channelName: string
+): Promise<{ success: boolean; error?: string }> {
+  const match = channelPattern.exec(channelName);
+  const [, kind, scope, id] = match ?? [];
+  if (!kind || !scope || !id) {
+    return { success: false, error: "Unknown channel" };
+  }
+
+  if (scope === "user") {
+    const session = await auth.api.getSession({ headers: await headers() });
+    if (kind !== "private" || session?.user.id !== id) {
+      return { success: false, error: "Unauthorized" };
+    }
+    return { success: true };
+  }
+
+  const projectId = await getChannelProjectId(scope, id);
+  if (!projectId) {
+    return { success: false, error: "Unknown channel" };
+  }
+
+  return verifyProjectPermission(projectId, "read");
+}
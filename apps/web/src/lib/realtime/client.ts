@@ -1,78 +1,70 @@
 'use client';
 
-import PusherClient from 'pusher-js';
 import { useEffect, useState, useCallback, useRef } from 'react';
+import { channels, events, type PresenceEvent } from './events';
+import { createPusherClientTransport, isPusherClientConfigured } from './pusher-client';
+import { createSseClientTransport } from './sse-client';
+
+export { channels, events };
+
+// Identifies this browser tab. Mutations send it along so the tab can skip
+// the realtime events caused by its own changes.
+export const realtimeClientId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// A subscription to one channel; bind/unbind listen for its events
+export type RealtimeSubscription = {
+  bind(event: string, callback: (data: unknown) => void): void;
+  unbind(event: string, callback: (data: unknown) => void): void;
+  unsubscribe(): void;
+  // Presence channels on transports that track membership themselves (Pusher):
+  // calls back with the subscribed members whenever they change
+  watchMembers?(callback: (members: PresenceEvent[]) => void): () => void;
+};
 
-// Client-side Pusher configuration
-// Configure in .env:
-// NEXT_PUBLIC_PUSHER_KEY=xxx
-// NEXT_PUBLIC_PUSHER_CLUSTER=xxx
-
-const pusherKey = process.env.NEXT_PUBLIC_PUSHER_KEY;
-const pusherCluster = process.env.NEXT_PUBLIC_PUSHER_CLUSTER;
+// Browser side of a realtime transport
+export type ClientTransport = {
+  subscribe(
+    channelName: string,
+    callbacks: { onSubscribed: () => void; onError: () => void }
+  ): RealtimeSubscription;
+};
 
-// Singleton Pusher client
-let pusherClient: PusherClient | null = null;
+// NEXT_PUBLIC_REALTIME_TRANSPORT picks the transport ("pusher" or "sse") and
+// must match REALTIME_TRANSPORT on the server. Without it, Pusher is used
+// when configured and the built-in SSE transport otherwise.
+let clientTransport: ClientTransport | null = null;
 
-function getPusherClient(): PusherClient | null {
+function getClientTransport(): ClientTransport | null {
   if (typeof window === 'undefined') return null;
-  if (!pusherKey || !pusherCluster) return null;
 
-  if (!pusherClient) {
-    pusherClient = new PusherClient(pusherKey, {
-      cluster: pusherCluster,
-    });
+  if (!clientTransport) {
+    const configured = process.env.NEXT_PUBLIC_REALTIME_TRANSPORT;
+    const usePusher = configured ? configured === 'pusher' : isPusherClientConfigured();
+    clientTransport = usePusher ? createPusherClientTransport() : createSseClientTransport();
   }
 
-  return pusherClient;
+  return clientTransport;
 }
 
-// Channel naming (must match server-side)
-export const channels = {
-  project: (projectId: string) => `project-${projectId}`,
-  ticket: (ticketId: string) => `ticket-${ticketId}`,
-  user: (userId: string) => `user-${userId}`,
-};
-
-// Event types (must match server-side)
-export const events = {
-  TICKET_CREATED: 'ticket:created',
-  TICKET_UPDATED: 'ticket:updated',
-  TICKET_DELETED: 'ticket:deleted',
-  TICKET_MOVED: 'ticket:moved',
-  COMMENT_CREATED: 'comment:created',
-  COMMENT_UPDATED: 'comment:updated',
-  COMMENT_DELETED: 'comment:deleted',
-  USER_JOINED: 'user:joined',
-  USER_LEFT: 'user:left',
-  USER_TYPING: 'user:typing',
-};
-
 // Hook to subscribe to a channel and listen for events
 export function useChannel(channelName: string | null) {
   const [isConnected, setIsConnected] = useState(false);
-  const channelRef = useRef<ReturnType<PusherClient['subscribe']> | null>(null);
+  const channelRef = useRef<RealtimeSubscription | null>(null);
 
   useEffect(() => {
     if (!channelName) return;
 
-    const client = getPusherClient();
-    if (!client) return;
-
-    const channel = client.subscribe(channelName);
-    channelRef.current = channel;
-
-    channel.bind('pusher:subscription_succeeded', () => {
-      setIsConnected(true);
-    });
+    const transport = getClientTransport();
+    if (!transport) return;
 
-    channel.bind('pusher:subscription_error', () => {
-      setIsConnected(false);
+    const channel = transport.subscribe(channelName, {
+      onSubscribed: () => setIsConnected(true),
+      onError: () => setIsConnected(false),
     });
+    channelRef.current = channel;
 
     return () => {
-      channel.unbind_all();
-      client.unsubscribe(channelName);
+      channel.unsubscribe();
       channelRef.current = null;
       setIsConnected(false);
     };
@@ -83,13 +75,21 @@ export function useChannel(channelName: string | null) {
       const channel = channelRef.current;
       if (!channel) return () => {};
 
-      channel.bind(event, callback);
-      return () => channel.unbind(event, callback);
+      const listener = callback as (data: unknown) => void;
+      channel.bind(event, listener);
+      return () => channel.unbind(event, listener);
     },
     []
   );
 
-  return { isConnected, bind };
+  // Returns null when the transport doesn't track presence members
+  const watchMembers = useCallback(
+    (callback: (members: PresenceEvent[]) => void) =>
+      channelRef.current?.watchMembers?.(callback) ?? null,
+    []
+  );
+
+  return { isConnected, bind, watchMembers };
 }
 
 // Hook for project-level updates (tickets)
@@ -104,6 +104,12 @@ export function useTicketChannel(ticketId: string | null) {
   return useChannel(channelName);
 }
 
+// Hook for user-level notifications
+export function useUserChannel(userId: string | null) {
+  const channelName = userId ? channels.user(userId) : null;
+  return useChannel(channelName);
+}
+
 // Hook to listen for specific ticket events and invalidate React Query cache
 export function useTicketUpdates(
   projectId: string | null,
@@ -159,9 +165,9 @@ export function useRealtimeStatus() {
   const [isAvailable, setIsAvailable] = useState(false);
 
   useEffect(() => {
-    const client = getPusherClient();
+    const transport = getClientTransport();
     // eslint-disable-next-line react-hooks/set-state-in-effect
-    setIsAvailable(!!client);
+    setIsAvailable(!!transport);
   }, []);
 
   return isAvailable;
@@ -0,0 +1,100 @@
+import type { NotificationType } from "@minute/db";
+import type { TicketWithAssignee } from "@/lib/ticket-list";
+
+// Channel names, event names and payloads shared by the server and the
+// browser, whichever transport carries them
+
+// Channel naming conventions. The "private-" and "presence-" prefixes make
+// Pusher authorize every subscription through /api/realtime/auth; the SSE
+// stream applies the same checks.
+export const channels = {
+  // Project-level channel for ticket updates
+  project: (projectId: string) => `private-project-${projectId}`,
+  // Ticket-level channel for comments, attachments
+  ticket: (ticketId: string) => `private-ticket-${ticketId}`,
+  // User-level channel for notifications
+  user: (userId: string) => `private-user-${userId}`,
+  // Presence channels for who is viewing a board or a ticket, and typing
+  presenceProject: (projectId: string) => `presence-project-${projectId}`,
+  presenceTicket: (ticketId: string) => `presence-ticket-${ticketId}`,
+};
+
+// Event types
+export const events = {
+  // Ticket events
+  TICKET_CREATED: "ticket:created",
+  TICKET_UPDATED: "ticket:updated",
+  TICKET_DELETED: "ticket:deleted",
+  TICKET_MOVED: "ticket:moved",
+  // Workflow events
+  STATUSES_UPDATED: "statuses:updated",
+  // Sprint events
+  SPRINTS_UPDATED: "sprints:updated",
+  // Label events
+  LABELS_UPDATED: "labels:updated",
+  // Comment events
+  COMMENT_CREATED: "comment:created",
+  COMMENT_UPDATED: "comment:updated",
+  COMMENT_DELETED: "comment:deleted",
+  // User notification events
+  NOTIFICATION_CREATED: "notification:created",
+  // Presence events
+  USER_JOINED: "user:joined",
+  USER_LEFT: "user:left",
+  USER_TYPING: "user:typing",
+  USER_HEARTBEAT: "user:heartbeat",
+};
+
+// On the SSE transport, viewers announce themselves on join and then every
+// heartbeat interval; anyone not heard from within the timeout is considered
+// gone (closed tab, lost connection)
+export const PRESENCE_HEARTBEAT_INTERVAL_MS = 15_000;
+export const PRESENCE_TIMEOUT_MS = 40_000;
+// How long a typing indicator stays up after the last keystroke event
+export const TYPING_TIMEOUT_MS = 5_000;
+
+// One event on one channel, as carried by the built-in SSE transport
+export type RealtimeMessage = {
+  channel: string;
+  event: string;
+  data: Record<string, unknown>;
+};
+
+// Event payload types
+export type TicketEvent = {
+  ticketId: string;
+  projectId: string;
+  userId: string;
+  // Browser tab whose mutation caused the event
+  clientId?: string;
+  // Per-project counter; a skipped number means this client missed an event
+  sequence?: number;
+  // Changed tickets as getTickets returns them; missing when too large to send
+  tickets?: TicketWithAssignee[];
+  removedTicketIds?: string[];
+  data?: Record<string, unknown>;
+};
+
+export type CommentEvent = {
+  commentId: string;
+  ticketId: string;
+  userId: string;
+  data?: Record<string, unknown>;
+};
+
+export type NotificationEvent = {
+  notificationId: string;
+  type: NotificationType;
+  ticketId: string;
+  projectId: string;
+  ticketTitle: string;
+  message: string;
+  url: string; // Ticket page
+};
+
+export type PresenceEvent = {
+  userId: string;
+  userName: string;
+  userImage?: string;
+  ticketId?: string;
+};
@@ -0,0 +1,102 @@
+'use client';
+
+import PusherClient, { type PresenceChannel } from 'pusher-js';
+import type { ClientTransport } from './client';
+import type { PresenceEvent } from './events';
+
+// Member info as signed by /api/realtime/auth (see pusher-server.ts)
+type PresenceMember = { id: string; info: { name: string; image?: string } };
+
+const membershipEvents = ['pusher:subscription_succeeded', 'pusher:member_added', 'pusher:member_removed'];
+
+// Pusher Channels adapter for the browser
+// Configure in .env:
+// NEXT_PUBLIC_PUSHER_KEY=xxx
+// NEXT_PUBLIC_PUSHER_CLUSTER=xxx
+
+const pusherKey = process.env.NEXT_PUBLIC_PUSHER_KEY;
+const pusherCluster = process.env.NEXT_PUBLIC_PUSHER_CLUSTER;
+
+export function isPusherClientConfigured() {
+  return !!(pusherKey && pusherCluster);
+}
+
+export function createPusherClientTransport(): ClientTransport {
+  if (!pusherKey || !pusherCluster) {
+    throw new Error('Pusher environment variables are not set');
+  }
+
+  const client = new PusherClient(pusherKey, {
+    cluster: pusherCluster,
+    // Private and presence channels are signed by our endpoint using the
+    // session cookie
+    channelAuthorization: {
+      endpoint: '/api/realtime/auth',
+      transport: 'ajax',
+    },
+  });
+
+  // Hooks can share a channel; only leave it when the last one unsubscribes
+  const subscriberCounts = new Map<string, number>();
+
+  return {
+    subscribe(channelName, { onSubscribed, onError }) {
+      const channel = client.subscribe(channelName);
+      subscriberCounts.set(channelName, (subscriberCounts.get(channelName) ?? 0) + 1);
+
+      const bound: [string, (data: unknown) => void][] = [];
+      const bind = (event: string, callback: (data: unknown) => void) => {
+        channel.bind(event, callback);
+        bound.push([event, callback]);
+      };
+
+      bind('pusher:subscription_succeeded', onSubscribed);
+      bind('pusher:subscription_error', onError);
+      if (channel.subscribed) {
+        onSubscribed();
+      }
+
+      const ticketId = channelName.startsWith('presence-ticket-')
+        ? channelName.slice('presence-ticket-'.length)
+        : undefined;
+      const watchMembers = (callback: (members: PresenceEvent[]) => void) => {
+        const notify = () => {
+          const members: PresenceEvent[] = [];
+          (channel as PresenceChannel).members.each((member: PresenceMember) => {
+            members.push({
+              userId: member.id,
+              userName: member.info.name,
+              userImage: member.info.image,
+              ticketId,
+            });
+          });
+          callback(members);
+        };
+        membershipEvents.forEach((event) => bind(event, notify));
+        if (channel.subscribed) {
+          notify();
+        }
+        return () => membershipEvents.forEach((event) => channel.unbind(event, notify));
+      };
+
+      return {
+        bind,
+        unbind: (event, callback) => channel.unbind(event, callback),
+        watchMembers: channelName.startsWith('presence-') ? watchMembers : undefined,
+        unsubscribe() {
+          for (const [event, callback] of bound) {
+            channel.unbind(event, callback);
+          }
+
+          const remaining = (subscriberCounts.get(channelName) ?? 1) - 1;
+          if (remaining > 0) {
+            subscriberCounts.set(channelName, remaining);
+          } else {
+            subscriberCounts.delete(channelName);
+            client.unsubscribe(channelName);
+          }
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import Pusher from "pusher";
+import type { RealtimeTransport } from "./server";
+
+// Pusher Channels adapter
+// Configure in .env:
+// PUSHER_APP_ID=xxx
+// PUSHER_KEY=xxx (same as NEXT_PUBLIC_PUSHER_KEY)
+// PUSHER_SECRET=xxx
+// PUSHER_CLUSTER=xxx (same as NEXT_PUBLIC_PUSHER_CLUSTER)
+
+const pusherAppId = process.env.PUSHER_APP_ID;
+const pusherKey = process.env.PUSHER_KEY;
+const pusherSecret = process.env.PUSHER_SECRET;
+const pusherCluster = process.env.PUSHER_CLUSTER;
+
+export function isPusherConfigured() {
+  return !!(pusherAppId && pusherKey && pusherSecret && pusherCluster);
+}
+
+export function createPusherTransport(): RealtimeTransport {
+  if (!pusherAppId || !pusherKey || !pusherSecret || !pusherCluster) {
+    throw new Error("Pusher environment variables are not set");
+  }
+
+  const pusher = new Pusher({
+    appId: pusherAppId,
+    key: pusherKey,
+    secret: pusherSecret,
+    cluster: pusherCluster,
+    useTLS: true,
+  });
+
+  return {
+    name: "pusher",
+    async trigger(channel, event, data) {
+      await pusher.trigger(channel, event, data);
+    },
+    authorizeChannel(socketId, channel, member) {
+      if (!member) {
+        return pusher.authorizeChannel(socketId, channel);
+      }
+      return pusher.authorizeChannel(socketId, channel, {
+        user_id: member.userId,
+        user_info: { name: member.userName, image: member.userImage },
+      });
+    },
+  };
+}
@@ -0,0 +1,63 @@
+import { channels, type TicketEvent, type CommentEvent, type PresenceEvent } from "./events";
+import { createPusherTransport, isPusherConfigured } from "./pusher-server";
+import { createSseTransport } from "./sse-server";
+
+export * from "./events";
+
+// Server side of a realtime transport: publishes an event to a channel
+export type RealtimeTransport = {
+  name: "pusher" | "sse";
+  trigger(channel: string, event: string, data: Record<string, unknown>): Promise<void>;
+  // Signs a browser's subscription to a private or presence channel (with
+  // the member for presence). Only Pusher needs this; the SSE stream checks
+  // access itself.
+  authorizeChannel?(
+    socketId: string,
+    channel: string,
+    member?: PresenceEvent
+  ): { auth: string; channel_data?: string };
+};
+
+// REALTIME_TRANSPORT picks the transport ("pusher" or "sse"). Without it,
+// Pusher is used when configured and the built-in SSE transport otherwise.
+// The browser side must match; see NEXT_PUBLIC_REALTIME_TRANSPORT.
+let transport: RealtimeTransport | null = null;
+
+export function getRealtimeTransport(): RealtimeTransport {
+  if (!transport) {
+    const configured = process.env.REALTIME_TRANSPORT;
+    const usePusher = configured ? configured === "pusher" : isPusherConfigured();
+    transport = usePusher ? createPusherTransport() : createSseTransport();
+  }
+  return transport;
+}
+
+// Helper to trigger events (safe - failures are logged, not thrown)
+export async function triggerEvent(
+  channel: string,
+  event: string,
+  data: Record<string, unknown>
+) {
+  try {
+    await getRealtimeTransport().trigger(channel, event, data);
+  } catch (error) {
+    console.error(`[Realtime] Failed to trigger ${event} on ${channel}:`, error);
+  }
+}
+
+// Convenience helpers
+export async function triggerTicketEvent(
+  projectId: string,
+  event: string,
+  data: TicketEvent
+) {
+  return triggerEvent(channels.project(projectId), event, data);
+}
+
+export async function triggerCommentEvent(
+  ticketId: string,
+  event: string,
+  data: CommentEvent
+) {
+  return triggerEvent(channels.ticket(ticketId), event, data);
+}
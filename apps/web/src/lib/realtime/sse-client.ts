@@ -0,0 +1,95 @@
+'use client';
+
+import type { RealtimeMessage } from './events';
+import type { ClientTransport } from './client';
+
+type Subscription = {
+  channelName: string;
+  listeners: Map<string, Set<(data: unknown) => void>>;
+  onSubscribed: () => void;
+  onError: () => void;
+};
+
+// Browser side of the built-in transport. All subscriptions share one
+// EventSource on /api/realtime/events, reopened when the set of channels
+// changes; EventSource reconnects on its own after network errors.
+export function createSseClientTransport(): ClientTransport {
+  const subscriptions = new Set<Subscription>();
+  let source: EventSource | null = null;
+  let sourceChannels = '';
+  let reconnectScheduled = false;
+
+  const connect = () => {
+    const channelNames = [...new Set([...subscriptions].map((s) => s.channelName))].sort();
+    const key = channelNames.join(',');
+
+    if (source && key === sourceChannels) {
+      // Same channels: new subscribers join the open stream
+      if (source.readyState === EventSource.OPEN) {
+        subscriptions.forEach((s) => s.onSubscribed());
+      }
+      return;
+    }
+
+    source?.close();
+    source = null;
+    sourceChannels = key;
+    if (channelNames.length === 0) return;
+
+    const params = new URLSearchParams();
+    channelNames.forEach((name) => params.append('channel', name));
+
+    const next = new EventSource(`/api/realtime/events?${params.toString()}`);
+    next.onopen = () => subscriptions.forEach((s) => s.onSubscribed());
+    next.onerror = () => subscriptions.forEach((s) => s.onError());
+    next.onmessage = (event) => {
+      const message = JSON.parse(event.data) as RealtimeMessage;
+      for (const subscription of subscriptions) {
+        if (subscription.channelName !== message.channel) continue;
+        subscription.listeners.get(message.event)?.forEach((callback) => callback(message.data));
+      }
+    };
+    source = next;
+  };
+
+  // Batch subscribe/unsubscribe calls from one render into a single reconnect
+  const scheduleConnect = () => {
+    if (reconnectScheduled) return;
+    reconnectScheduled = true;
+    queueMicrotask(() => {
+      reconnectScheduled = false;
+      connect();
+    });
+  };
+
+  return {
+    subscribe(channelName, { onSubscribed, onError }) {
+      const subscription: Subscription = {
+        channelName,
+        listeners: new Map(),
+        onSubscribed,
+        onError,
+      };
+      subscriptions.add(subscription);
+      scheduleConnect();
+
+      return {
+        bind(event, callback) {
+          let callbacks = subscription.listeners.get(event);
+          if (!callbacks) {
+            callbacks = new Set();
+            subscription.listeners.set(event, callbacks);
+          }
+          callbacks.add(callback);
+        },
+        unbind(event, callback) {
+          subscription.listeners.get(event)?.delete(callback);
+        },
+        unsubscribe() {
+          subscriptions.delete(subscription);
+          scheduleConnect();
+        },
+      };
+    },
+  };
+}
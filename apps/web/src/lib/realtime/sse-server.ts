@@ -0,0 +1,50 @@
+import type { RealtimeMessage } from "./events";
+import type { RealtimeTransport } from "./server";
+
+// Built-in transport for self-hosting: events are fanned out in memory to
+// the Server-Sent Events streams opened through /api/realtime/events.
+// Subscribers only see events published by the same Node process, so run a
+// single server instance (or use Pusher) when scaling out.
+
+type Listener = (message: RealtimeMessage) => void;
+
+// Kept on globalThis so route handlers and server actions share one broker,
+// including across dev-server module reloads
+const globalForBroker = globalThis as typeof globalThis & {
+  realtimeListeners?: Map<string, Set<Listener>>;
+};
+const listeners = (globalForBroker.realtimeListeners ??= new Map());
+
+// Listen to messages on the given channels; returns the unsubscribe function
+export function subscribeToChannels(channelNames: string[], listener: Listener) {
+  for (const channel of channelNames) {
+    let channelListeners = listeners.get(channel);
+    if (!channelListeners) {
+      channelListeners = new Set();
+      listeners.set(channel, channelListeners);
+    }
+    channelListeners.add(listener);
+  }
+
+  return () => {
+    for (const channel of channelNames) {
+      const channelListeners = listeners.get(channel);
+      channelListeners?.delete(listener);
+      if (channelListeners?.size === 0) {
+        listeners.delete(channel);
+      }
+    }
+  };
+}
+
+export function createSseTransport(): RealtimeTransport {
+  return {
+    name: "sse",
+    async trigger(channel, event, data) {
+      const message: RealtimeMessage = { channel, event, data };
+      for (const listener of listeners.get(channel) ?? []) {
+        listener(message);
+      }
+    },
+  };
+}
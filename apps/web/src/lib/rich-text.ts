@@ -0,0 +1,52 @@
+import { db, comments, tickets, eq, and, gt, asc, like, isNotNull, sanitizeRichText } from "@minute/db";
+
+// Comments from before the format column are all stored as "text". Editor
+// output always starts with a block tag, so those are sanitized and switched
+// to "html"; everything else stays plain text. Returns how many were converted.
+export async function backfillCommentFormats() {
+  const candidates = await db
+    .select({ id: comments.id, content: comments.content })
+    .from(comments)
+    .where(and(eq(comments.format, "text"), like(comments.content, "<%")));
+
+  let converted = 0;
+  for (const comment of candidates) {
+    if (!/^<(p|ul|ol|pre|h2|blockquote)[\s>]/.test(comment.content)) continue;
+    await db
+      .update(comments)
+      .set({ content: sanitizeRichText(comment.content), format: "html" })
+      .where(eq(comments.id, comment.id));
+    converted++;
+  }
+
+  return { converted };
+}
+
+// Description rows checked per query when sanitizing
+const DESCRIPTION_BATCH_SIZE = 100;
+
+// Sanitize ticket descriptions stored before descriptions were sanitized on
+// save. Safe to run repeatedly; returns how many descriptions changed.
+export async function sanitizeTicketDescriptions() {
+  let sanitized = 0;
+  let afterId = "";
+
+  for (;;) {
+    const batch = await db
+      .select({ id: tickets.id, description: tickets.description })
+      .from(tickets)
+      .where(and(isNotNull(tickets.description), gt(tickets.id, afterId)))
+      .orderBy(asc(tickets.id))
+      .limit(DESCRIPTION_BATCH_SIZE);
+
+    if (batch.length === 0) return { sanitized };
+
+    for (const ticket of batch) {
+      const clean = sanitizeRichText(ticket.description ?? "");
+      if (clean === ticket.description) continue;
+      await db.update(tickets).set({ description: clean || null }).where(eq(tickets.id, ticket.id));
+      sanitized++;
+    }
+    afterId = batch[batch.length - 1]!.id;
+  }
+}
@@ -0,0 +1,81 @@
+import {
+  db,
+  embeddings,
+  tickets,
+  eq,
+  and,
+  inArray,
+  isNull,
+  backfillEmbeddingVectors,
+  toIndexedVector,
+} from "@minute/db";
+import {
+  generateEmbeddings,
+  getEmbeddingConfig,
+  hashContent,
+  prepareTicketContent,
+} from "@minute/embeddings";
+
+// Re-embed tickets that have no embedding from the current provider's model,
+// e.g. after switching providers, and replace their old rows. Works through
+// at most `limit` tickets per call so a run stays within request timeouts.
+// Also fills the native vector column for rows stored as JSON only.
+export async function reembedTickets({ batchSize = 32, limit = 500 } = {}) {
+  const { model, dimensions } = getEmbeddingConfig();
+  const vectorsBackfilled = await backfillEmbeddingVectors();
+
+  const staleTickets = await db
+    .select({
+      id: tickets.id,
+      title: tickets.title,
+      description: tickets.description,
+      status: tickets.status,
+      priority: tickets.priority,
+    })
+    .from(tickets)
+    .leftJoin(
+      embeddings,
+      and(
+        eq(embeddings.entityType, "ticket"),
+        eq(embeddings.entityId, tickets.id),
+        eq(embeddings.model, model),
+        eq(embeddings.dimensions, dimensions)
+      )
+    )
+    .where(isNull(embeddings.id))
+    .limit(limit);
+
+  let embedded = 0;
+  for (let start = 0; start < staleTickets.length; start += batchSize) {
+    const batch = staleTickets.slice(start, start + batchSize);
+    const contents = batch.map((ticket) => prepareTicketContent(ticket));
+    const vectors = await generateEmbeddings(contents);
+    const ticketIds = batch.map((ticket) => ticket.id);
+
+    await db
+      .delete(embeddings)
+      .where(and(eq(embeddings.entityType, "ticket"), inArray(embeddings.entityId, ticketIds)));
+    await db.insert(embeddings).values(
+      batch.map((ticket, index) => ({
+        entityType: "ticket" as const,
+        entityId: ticket.id,
+        content: contents[index] ?? "",
+        contentHash: hashContent(contents[index] ?? ""),
+        embedding: vectors[index] ?? [],
+        vector: toIndexedVector(vectors[index] ?? []),
+        model,
+        dimensions,
+      }))
+    );
+    embedded += batch.length;
+  }
+
+  return {
+    model,
+    dimensions,
+    embedded,
+    vectorsBackfilled,
+    // Call again until this is false
+    hasMore: staleTickets.length === limit,
+  };
+}
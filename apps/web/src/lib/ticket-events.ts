@@ -0,0 +1,76 @@
+import { db, projects, eq, sql } from "@minute/db";
+import { triggerTicketEvent } from "@/lib/realtime/server";
+import { getAffectedTicketIds, loadTicketListItems } from "@/lib/ticket-list";
+
+// Pusher rejects messages over 10KB. Bigger changes are sent without ticket
+// payloads, and boards refetch instead.
+const MAX_TICKET_PAYLOAD_BYTES = 8_000;
+
+// Hand out the next ticket event number for a project.
+// A single UPDATE ... RETURNING keeps concurrent events from sharing a number.
+async function nextEventSequence(projectId: string) {
+  const [project] = await db
+    .update(projects)
+    .set({ eventSequence: sql`${projects.eventSequence} + 1` })
+    .where(eq(projects.id, projectId))
+    .returning({ eventSequence: projects.eventSequence });
+
+  return project?.eventSequence;
+}
+
+// Publish a ticket change on the project channel. The event carries the
+// changed tickets as getTickets returns them, so open boards and lists patch
+// their cache instead of refetching. Tickets whose derived fields depend on
+// the change (parents, blocked tickets) are included too.
+export async function publishTicketChange({
+  event,
+  projectId,
+  ticketId,
+  userId,
+  clientId,
+  changedTicketIds = [ticketId],
+  removedTicketIds,
+  relatedTicketIds = [],
+  data,
+}: {
+  event: string;
+  projectId: string;
+  ticketId: string;
+  userId: string;
+  // Browser tab that made the change, so it can skip its own event
+  clientId?: string;
+  changedTicketIds?: string[];
+  removedTicketIds?: string[];
+  // Tickets affected in ways the current rows no longer show, e.g. the parent
+  // of a deleted ticket
+  relatedTicketIds?: string[];
+  data?: Record<string, unknown>;
+}) {
+  try {
+    // Numbered before the payload is read: a later number then always
+    // carries data at least as new, so clients never apply stale rows
+    // without seeing a gap
+    const sequence = await nextEventSequence(projectId);
+
+    const removed = new Set(removedTicketIds);
+    const affectedIds = await getAffectedTicketIds(projectId, changedTicketIds);
+    const ticketIds = [...new Set([...changedTicketIds, ...relatedTicketIds, ...affectedIds])].filter(
+      (id) => !removed.has(id)
+    );
+    const { items } = await loadTicketListItems(projectId, ticketIds);
+    const fitsInEvent = Buffer.byteLength(JSON.stringify(items)) <= MAX_TICKET_PAYLOAD_BYTES;
+
+    await triggerTicketEvent(projectId, event, {
+      ticketId,
+      projectId,
+      userId,
+      clientId,
+      sequence,
+      tickets: fitsInEvent ? items : undefined,
+      removedTicketIds,
+      data,
+    });
+  } catch (error) {
+    console.error(`Error publishing ${event} for ticket ${ticketId}:`, error);
+  }
+}
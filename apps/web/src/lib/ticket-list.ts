@@ -0,0 +1,222 @@
+import {
+  db,
+  tickets,
+  users,
+  ticketLinks,
+  labels,
+  ticketLabels,
+  eq,
+  and,
+  inArray,
+  formatTicketKey,
+  getProjectKey,
+  ensureProjectStatuses,
+  type Ticket,
+  type Label,
+} from "@minute/db";
+
+// Label data shown as chips on cards and rows
+export type TicketLabelChip = Pick<Label, "id" | "name" | "color">;
+
+// Type for ticket with assignee data
+export type TicketWithAssignee = Ticket & {
+  // Human-readable key, e.g. MIN-123
+  key: string | null;
+  assignee: {
+    id: string | null;
+    name: string | null;
+    email: string | null;
+    image: string | null;
+  } | null;
+  // Another ticket blocks this one and is not in a completed status
+  isBlocked: boolean;
+  // Direct children, for the progress bar on parent cards
+  childCount: number;
+  completedChildCount: number;
+  // Sum of the subtree's points; null for tickets without children
+  rolledUpPoints: number | null;
+  labels: TicketLabelChip[];
+};
+
+// Child progress and rolled-up points for every ticket in a project
+function summarizeChildren(
+  projectTickets: { id: string; parentId: string | null; status: string; points: number | null }[],
+  completedKeys: Set<string>
+) {
+  const childrenByParent = new Map<string, typeof projectTickets>();
+  for (const ticket of projectTickets) {
+    if (!ticket.parentId) continue;
+    const siblings = childrenByParent.get(ticket.parentId) ?? [];
+    siblings.push(ticket);
+    childrenByParent.set(ticket.parentId, siblings);
+  }
+
+  // A child with its own children contributes its rolled-up total, not its estimate
+  const rolledUp = new Map<string, number | null>();
+  const rollUp = (ticketId: string): number | null => {
+    if (rolledUp.has(ticketId)) return rolledUp.get(ticketId) ?? null;
+    const children = childrenByParent.get(ticketId);
+    const total = children
+      ? children.reduce((sum, child) => sum + (rollUp(child.id) ?? child.points ?? 0), 0)
+      : null;
+    rolledUp.set(ticketId, total);
+    return total;
+  };
+
+  return new Map(
+    projectTickets.map((ticket) => {
+      const children = childrenByParent.get(ticket.id) ?? [];
+      return [
+        ticket.id,
+        {
+          childCount: children.length,
+          completedChildCount: children.filter((child) => completedKeys.has(child.status)).length,
+          rolledUpPoints: rollUp(ticket.id),
+        },
+      ] as const;
+    })
+  );
+}
+
+// Load tickets as the board and list show them: with assignee, key, blocked
+// flag, child progress and labels. Pass ticketIds to load only those tickets
+// (their derived fields still account for the whole project).
+export async function loadTicketListItems(projectId: string, ticketIds?: string[]) {
+  const statuses = await ensureProjectStatuses(projectId);
+  const projectKey = await getProjectKey(projectId);
+
+  if (ticketIds && ticketIds.length === 0) {
+    return { statuses, items: [] as TicketWithAssignee[] };
+  }
+
+  // Get the tickets with assignee data, ordered by status and order
+  const projectTickets = await db
+    .select({
+      id: tickets.id,
+      title: tickets.title,
+      description: tickets.description,
+      status: tickets.status,
+      priority: tickets.priority,
+      order: tickets.order,
+      projectId: tickets.projectId,
+      number: tickets.number,
+      parentId: tickets.parentId,
+      sprintId: tickets.sprintId,
+      creatorId: tickets.creatorId,
+      assigneeId: tickets.assigneeId,
+      dueDate: tickets.dueDate,
+      points: tickets.points,
+      metadata: tickets.metadata,
+      createdAt: tickets.createdAt,
+      updatedAt: tickets.updatedAt,
+      version: tickets.version,
+      assignee: {
+        id: users.id,
+        name: users.name,
+        email: users.email,
+        image: users.image,
+      },
+    })
+    .from(tickets)
+    .leftJoin(users, eq(tickets.assigneeId, users.id))
+    .where(
+      ticketIds
+        ? and(eq(tickets.projectId, projectId), inArray(tickets.id, ticketIds))
+        : eq(tickets.projectId, projectId)
+    )
+    .orderBy(tickets.status, tickets.order);
+
+  // Child summaries always need the whole project's hierarchy
+  const hierarchy = ticketIds
+    ? await db
+        .select({
+          id: tickets.id,
+          parentId: tickets.parentId,
+          status: tickets.status,
+          points: tickets.points,
+        })
+        .from(tickets)
+        .where(eq(tickets.projectId, projectId))
+    : projectTickets;
+
+  // Tickets with at least one unfinished blocker
+  const blockers = await db
+    .select({
+      targetTicketId: ticketLinks.targetTicketId,
+      blockerStatus: tickets.status,
+    })
+    .from(ticketLinks)
+    .innerJoin(tickets, eq(ticketLinks.sourceTicketId, tickets.id))
+    .where(and(eq(ticketLinks.type, "blocks"), eq(tickets.projectId, projectId)));
+
+  const completedKeys = new Set(
+    statuses.filter((s) => s.category === "completed").map((s) => s.key)
+  );
+  const blockedIds = new Set(
+    blockers
+      .filter((b) => !completedKeys.has(b.blockerStatus))
+      .map((b) => b.targetTicketId)
+  );
+  const childSummaries = summarizeChildren(hierarchy, completedKeys);
+
+  const labelRows = await db
+    .select({
+      ticketId: ticketLabels.ticketId,
+      id: labels.id,
+      name: labels.name,
+      color: labels.color,
+    })
+    .from(ticketLabels)
+    .innerJoin(labels, eq(ticketLabels.labelId, labels.id))
+    .where(eq(labels.projectId, projectId))
+    .orderBy(labels.name);
+
+  const labelsByTicket = new Map<string, TicketLabelChip[]>();
+  for (const { ticketId, ...label } of labelRows) {
+    const ticketLabelList = labelsByTicket.get(ticketId) ?? [];
+    ticketLabelList.push(label);
+    labelsByTicket.set(ticketId, ticketLabelList);
+  }
+
+  const items: TicketWithAssignee[] = projectTickets.map((ticket) => ({
+    ...ticket,
+    key: formatTicketKey(projectKey, ticket.number),
+    isBlocked: blockedIds.has(ticket.id),
+    childCount: 0,
+    completedChildCount: 0,
+    rolledUpPoints: null,
+    ...childSummaries.get(ticket.id),
+    labels: labelsByTicket.get(ticket.id) ?? [],
+  }));
+
+  return { statuses, items };
+}
+
+// Tickets whose list fields depend on the given ones: their ancestors (child
+// progress, rolled-up points) and the tickets they block (blocked flag)
+export async function getAffectedTicketIds(projectId: string, ticketIds: string[]) {
+  if (ticketIds.length === 0) return [];
+
+  const hierarchy = await db
+    .select({ id: tickets.id, parentId: tickets.parentId })
+    .from(tickets)
+    .where(eq(tickets.projectId, projectId));
+  const parentById = new Map(hierarchy.map((t) => [t.id, t.parentId]));
+
+  const affected = new Set<string>();
+  for (const ticketId of ticketIds) {
+    let parentId = parentById.get(ticketId) ?? null;
+    while (parentId && !affected.has(parentId)) {
+      affected.add(parentId);
+      parentId = parentById.get(parentId) ?? null;
+    }
+  }
+
+  const blocked = await db
+    .select({ targetTicketId: ticketLinks.targetTicketId })
+    .from(ticketLinks)
+    .where(and(eq(ticketLinks.type, "blocks"), inArray(ticketLinks.sourceTicketId, ticketIds)));
+  blocked.forEach((link) => affected.add(link.targetTicketId));
+
+  return [...affected];
+}
@@ -0,0 +1,24 @@
+import { db, ticketWatchers, eq } from "@minute/db";
+
+// Subscribe users to a ticket; users already watching are left as they are
+export async function addTicketWatchers(
+  ticketId: string,
+  userIds: (string | null | undefined)[]
+) {
+  const ids = [...new Set(userIds.filter((id): id is string => !!id))];
+  if (ids.length === 0) return;
+
+  await db
+    .insert(ticketWatchers)
+    .values(ids.map((userId) => ({ ticketId, userId })))
+    .onConflictDoNothing();
+}
+
+export async function getTicketWatcherIds(ticketId: string): Promise<string[]> {
+  const rows = await db
+    .select({ userId: ticketWatchers.userId })
+    .from(ticketWatchers)
+    .where(eq(ticketWatchers.ticketId, ticketId));
+
+  return rows.map((row) => row.userId);
+}
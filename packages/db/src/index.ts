@@ -37,6 +37,13 @@ export const db = new Proxy({} as ReturnType<typeof drizzle<typeof schema>>, {
 });
 
 export * from "./schema";
+export * from "./vector-search";
+export * from "./ticket-search";
+export * from "./ticket-history";
+export * from "./ticket-keys";
+export * from "./project-statuses";
+export * from "./ticket-hierarchy";
+export * from "./rich-text";
 export type { schema };
 
 // Re-export drizzle-orm operators to avoid version mismatch issues
@@ -0,0 +1,36 @@
+import { asc, eq } from "drizzle-orm";
+import { db } from "./index";
+import { defaultProjectStatuses, projectStatuses, type ProjectStatus } from "./schema";
+
+// Load a project's workflow statuses in board order.
+// Projects created before custom workflows have no rows yet, so they are
+// seeded with the default statuses on first read.
+export async function ensureProjectStatuses(projectId: string): Promise<ProjectStatus[]> {
+  const existing = await db
+    .select()
+    .from(projectStatuses)
+    .where(eq(projectStatuses.projectId, projectId))
+    .orderBy(asc(projectStatuses.order));
+
+  if (existing.length > 0) {
+    return existing;
+  }
+
+  // Ignore conflicts in case a concurrent request seeded the same project
+  await db
+    .insert(projectStatuses)
+    .values(
+      defaultProjectStatuses.map((status, index) => ({
+        ...status,
+        projectId,
+        order: index,
+      }))
+    )
+    .onConflictDoNothing();
+
+  return db
+    .select()
+    .from(projectStatuses)
+    .where(eq(projectStatuses.projectId, projectId))
+    .orderBy(asc(projectStatuses.order));
+}
@@ -0,0 +1,45 @@
+import sanitizeHtml from "sanitize-html";
+
+// Markup the rich text editor produces. Anything else is dropped (keeping its
+// text), and links may only point at http(s) URLs.
+const richTextOptions: sanitizeHtml.IOptions = {
+  allowedTags: [
+    "p",
+    "br",
+    "strong",
+    "em",
+    "s",
+    "u",
+    "code",
+    "pre",
+    "ul",
+    "ol",
+    "li",
+    "h2",
+    "blockquote",
+    "a",
+    "span",
+  ],
+  allowedAttributes: {
+    a: ["href", "target", "rel"],
+    // Mention nodes: <span data-type="mention" data-id="<userId>" data-label="<name>">
+    span: ["class", "data-type", "data-id", "data-label"],
+    code: ["class"],
+  },
+  allowedClasses: {
+    span: ["mention"],
+    code: ["language-*"],
+  },
+  allowedSchemes: ["http", "https"],
+  allowedSchemesAppliedToAttributes: ["href"],
+  allowProtocolRelative: false,
+  transformTags: {
+    a: sanitizeHtml.simpleTransform("a", { rel: "noopener noreferrer nofollow" }),
+  },
+};
+
+// Clean editor HTML (comments and ticket descriptions) before it is stored,
+// since viewers render it as HTML
+export function sanitizeRichText(html: string): string {
+  return sanitizeHtml(html, richTextOptions);
+}
@@ -20,6 +20,8 @@ export const ticketHistory = sqliteTable(
     field: text("field").notNull(), // "status", "priority", "title", etc.
     oldValue: text("old_value"),
     newValue: text("new_value"),
+    // tickets.version after this change; null for entries from before versions
+    ticketVersion: integer("ticket_version"),
     createdAt: integer("created_at", { mode: "timestamp" })
       .notNull()
       .default(sql`(unixepoch())`),
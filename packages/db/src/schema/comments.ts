@@ -3,6 +3,10 @@ import { sqliteTable, text, integer, index } from "drizzle-orm/sqlite-core";
 import { users } from "./auth";
 import { tickets } from "./tickets";
 
+// "html" comments come from the editor and are sanitized before they are
+// stored; "text" comments (from the MCP server) are shown as plain text
+export const commentFormat = ["text", "html"] as const;
+
 export const comments = sqliteTable(
   "comments",
   {
@@ -16,6 +20,7 @@ export const comments = sqliteTable(
       .notNull()
       .references(() => users.id, { onDelete: "cascade" }),
     content: text("content").notNull(),
+    format: text("format", { enum: commentFormat }).notNull().default("text"),
     parentId: text("parent_id"), // For threading - relation defined in relations.ts
     createdAt: integer("created_at", { mode: "timestamp" })
       .notNull()
@@ -34,6 +39,7 @@ export const comments = sqliteTable(
 // Type exports
 export type Comment = typeof comments.$inferSelect;
 export type NewComment = typeof comments.$inferInsert;
+export type CommentFormat = (typeof commentFormat)[number];
 
 
 
@@ -1,18 +1,44 @@
 import { sql } from 'drizzle-orm';
-import { sqliteTable, text, integer, index, real } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, index, real, customType } from 'drizzle-orm/sqlite-core';
 import { tickets } from './tickets';
 import { projects } from './projects';
 
+/**
+ * Size of the native vector column and its index. Set EMBEDDING_DIMENSIONS
+ * when pushing the schema so it matches the embedding provider; embeddings
+ * of any other size keep a NULL vector and are searched by scanning.
+ */
+export const embeddingVectorDimensions = Number(process.env.EMBEDDING_DIMENSIONS) || 1536;
+
+// libSQL's native F32_BLOB vector type, written from and read as number[]
+const f32Blob = customType<{
+  data: number[];
+  // Node drivers return Buffers, others ArrayBuffers
+  driverData: ArrayBuffer | Uint8Array;
+  config: { dimensions: number };
+  configRequired: true;
+}>({
+  dataType: (config) => `F32_BLOB(${config.dimensions})`,
+  toDriver: (value) => sql`vector32(${JSON.stringify(value)})`,
+  fromDriver: (value) => {
+    const bytes = value instanceof Uint8Array ? value : new Uint8Array(value);
+    // Copy so the floats start on an aligned offset
+    return Array.from(new Float32Array(bytes.slice().buffer, 0, Math.floor(bytes.byteLength / 4)));
+  },
+});
+
 /**
  * Embeddings table for storing vector embeddings
  * 
- * Note: This uses JSON storage for embeddings since sqlite-vec
- * is experimental in Turso. For production, consider migrating
- * to Pinecone, Weaviate, or waiting for native Turso vector support.
+ * Vectors are kept twice: as JSON in `embedding` (any size, used to scan
+ * when the index can't answer) and in the native `vector` column, indexed
+ * with libSQL's DiskANN index for `vector_top_k` searches.
  * 
- * Embedding dimensions:
+ * Embedding dimensions depend on the provider configured in
+ * @minute/embeddings, e.g.:
  * - OpenAI text-embedding-3-small: 1536 dimensions
- * - OpenAI text-embedding-3-large: 3072 dimensions (configurable)
+ * - Local Xenova/all-MiniLM-L6-v2: 384 dimensions
+ * Rows are only compared with rows of the same model and dimensions.
  */
 export const embeddings = sqliteTable(
   'embeddings',
@@ -27,8 +53,10 @@ export const embeddings = sqliteTable(
     content: text('content').notNull(),
     contentHash: text('content_hash').notNull(), // MD5/SHA of content for dedup
     // Embedding vector stored as JSON array
-    // Using JSON since Turso doesn't have native vector support yet
     embedding: text('embedding', { mode: 'json' }).$type<number[]>().notNull(),
+    // Same vector in libSQL's native format; NULL when its size doesn't match
+    // embeddingVectorDimensions
+    vector: f32Blob('vector', { dimensions: embeddingVectorDimensions }),
     // Embedding metadata
     model: text('model').notNull().default('text-embedding-3-small'),
     dimensions: integer('dimensions').notNull().default(1536),
@@ -43,6 +71,7 @@ export const embeddings = sqliteTable(
   (table) => ({
     entityIdx: index('embeddings_entity_idx').on(table.entityType, table.entityId),
     contentHashIdx: index('embeddings_content_hash_idx').on(table.contentHash),
+    vectorIdx: index('embeddings_vector_idx').on(sql`libsql_vector_idx(vector)`),
   })
 );
 
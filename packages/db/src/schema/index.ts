@@ -2,8 +2,15 @@ export * from "./auth";
 export * from "./organization";
 export * from "./projects";
 export * from "./tickets";
+export * from "./statuses";
+export * from "./sprints";
+export * from "./links";
+export * from "./labels";
+export * from "./watchers";
 export * from "./activity";
 export * from "./comments";
+export * from "./mentions";
+export * from "./notifications";
 export * from "./attachments";
 export * from "./templates";
 export * from "./embeddings";
@@ -0,0 +1,65 @@
+import { sql } from 'drizzle-orm';
+import {
+  sqliteTable,
+  text,
+  integer,
+  index,
+  uniqueIndex,
+  primaryKey,
+} from 'drizzle-orm/sqlite-core';
+import { projects } from './projects';
+import { tickets } from './tickets';
+
+// Project-scoped labels (e.g. "bug", "frontend") shown as colored chips
+export const labels = sqliteTable(
+  'labels',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    projectId: text('project_id')
+      .notNull()
+      .references(() => projects.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    color: text('color').notNull().default('#6b7280'), // Hex color
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .default(sql`(unixepoch())`),
+    updatedAt: integer('updated_at', { mode: 'timestamp' })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (table) => ({
+    projectIdx: index('labels_project_idx').on(table.projectId),
+    projectNameIdx: uniqueIndex('labels_project_name_idx').on(
+      table.projectId,
+      table.name
+    ),
+  })
+);
+
+// Many-to-many join between tickets and labels
+export const ticketLabels = sqliteTable(
+  'ticket_labels',
+  {
+    ticketId: text('ticket_id')
+      .notNull()
+      .references(() => tickets.id, { onDelete: 'cascade' }),
+    labelId: text('label_id')
+      .notNull()
+      .references(() => labels.id, { onDelete: 'cascade' }),
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.ticketId, table.labelId] }),
+    labelIdx: index('ticket_labels_label_idx').on(table.labelId),
+  })
+);
+
+// Type exports
+export type Label = typeof labels.$inferSelect;
+export type NewLabel = typeof labels.$inferInsert;
+export type TicketLabel = typeof ticketLabels.$inferSelect;
+export type NewTicketLabel = typeof ticketLabels.$inferInsert;
@@ -0,0 +1,62 @@
+import { sql } from 'drizzle-orm';
+import {
+  sqliteTable,
+  text,
+  integer,
+  index,
+  uniqueIndex,
+} from 'drizzle-orm/sqlite-core';
+import { users } from './auth';
+import { tickets } from './tickets';
+
+// Stored directionally: the source ticket blocks / duplicates / relates to the target.
+// "Blocked by" and "duplicated by" are the same rows read from the target's side.
+export const ticketLinkType = ['blocks', 'duplicates', 'relates_to'] as const;
+
+export type TicketLinkType = (typeof ticketLinkType)[number];
+
+// Link types as seen from one ticket, including the inverse directions
+export const ticketRelation = [
+  'blocks',
+  'blocked_by',
+  'duplicates',
+  'duplicated_by',
+  'relates_to',
+] as const;
+
+export type TicketRelation = (typeof ticketRelation)[number];
+
+export const ticketLinks = sqliteTable(
+  'ticket_links',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    sourceTicketId: text('source_ticket_id')
+      .notNull()
+      .references(() => tickets.id, { onDelete: 'cascade' }),
+    targetTicketId: text('target_ticket_id')
+      .notNull()
+      .references(() => tickets.id, { onDelete: 'cascade' }),
+    type: text('type', { enum: ticketLinkType }).notNull(),
+    creatorId: text('creator_id').references(() => users.id, {
+      onDelete: 'set null',
+    }),
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (table) => ({
+    sourceIdx: index('ticket_links_source_idx').on(table.sourceTicketId),
+    targetIdx: index('ticket_links_target_idx').on(table.targetTicketId),
+    uniqueLinkIdx: uniqueIndex('ticket_links_unique_idx').on(
+      table.sourceTicketId,
+      table.targetTicketId,
+      table.type
+    ),
+  })
+);
+
+// Type exports
+export type TicketLink = typeof ticketLinks.$inferSelect;
+export type NewTicketLink = typeof ticketLinks.$inferInsert;
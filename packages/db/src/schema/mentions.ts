@@ -0,0 +1,37 @@
+import { sql } from "drizzle-orm";
+import { sqliteTable, text, integer, index } from "drizzle-orm/sqlite-core";
+import { users } from "./auth";
+import { tickets } from "./tickets";
+import { comments } from "./comments";
+
+// @mentions of users in a ticket description (commentId null) or a comment
+export const mentions = sqliteTable(
+  "mentions",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    ticketId: text("ticket_id")
+      .notNull()
+      .references(() => tickets.id, { onDelete: "cascade" }),
+    commentId: text("comment_id").references(() => comments.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }), // Mentioned user
+    authorId: text("author_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (table) => ({
+    ticketIdx: index("mentions_ticket_idx").on(table.ticketId),
+    commentIdx: index("mentions_comment_idx").on(table.commentId),
+    userIdx: index("mentions_user_idx").on(table.userId),
+  })
+);
+
+// Type exports
+export type Mention = typeof mentions.$inferSelect;
+export type NewMention = typeof mentions.$inferInsert;
@@ -0,0 +1,104 @@
+import { sql } from "drizzle-orm";
+import { sqliteTable, text, integer, index } from "drizzle-orm/sqlite-core";
+import { users } from "./auth";
+import { projects } from "./projects";
+import { tickets } from "./tickets";
+import { comments } from "./comments";
+
+export const notificationType = [
+  "assigned", // Ticket assigned to the recipient
+  "mentioned", // Recipient @mentioned in a description or comment
+  "comment_reply", // Reply to one of the recipient's comments
+  "status_changed", // Status change on a watched ticket
+  "commented", // New comment on a watched ticket
+] as const;
+
+export type NotificationType = (typeof notificationType)[number];
+
+// Per-user inbox entries, unread until readAt is set
+export const notifications = sqliteTable(
+  "notifications",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }), // Recipient
+    actorId: text("actor_id").references(() => users.id, { onDelete: "set null" }),
+    type: text("type", { enum: notificationType }).notNull(),
+    projectId: text("project_id")
+      .notNull()
+      .references(() => projects.id, { onDelete: "cascade" }),
+    ticketId: text("ticket_id")
+      .notNull()
+      .references(() => tickets.id, { onDelete: "cascade" }),
+    commentId: text("comment_id").references(() => comments.id, { onDelete: "cascade" }),
+    // Type-specific details, e.g. { fromStatus, toStatus } for status changes
+    data: text("data", { mode: "json" }).$type<Record<string, unknown>>(),
+    readAt: integer("read_at", { mode: "timestamp" }),
+    // Set once the notification went out by email, instantly or in a digest
+    emailedAt: integer("emailed_at", { mode: "timestamp" }),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (table) => ({
+    userIdx: index("notifications_user_idx").on(table.userId),
+    userReadIdx: index("notifications_user_read_idx").on(table.userId, table.readAt),
+    ticketIdx: index("notifications_ticket_idx").on(table.ticketId),
+  })
+);
+
+export const emailFrequency = ["instant", "daily", "off"] as const;
+
+export type EmailFrequency = (typeof emailFrequency)[number];
+
+// Users without a row get the daily digest
+export const defaultEmailFrequency: EmailFrequency = "daily";
+
+export const notificationPreferences = sqliteTable("notification_preferences", {
+  userId: text("user_id")
+    .primaryKey()
+    .references(() => users.id, { onDelete: "cascade" }),
+  emailFrequency: text("email_frequency", { enum: emailFrequency })
+    .notNull()
+    .default(defaultEmailFrequency),
+  lastDigestAt: integer("last_digest_at", { mode: "timestamp" }),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+// One-line summary shown in the inbox and toasts, e.g. "Ada assigned you MIN-12"
+export function formatNotificationMessage(notification: {
+  type: NotificationType;
+  actorName: string | null;
+  ticketLabel: string; // Ticket key, or title for tickets without one
+  data?: Record<string, unknown> | null;
+}): string {
+  const actor = notification.actorName || "Someone";
+  const ticket = notification.ticketLabel;
+
+  switch (notification.type) {
+    case "assigned":
+      return `${actor} assigned you ${ticket}`;
+    case "mentioned":
+      return `${actor} mentioned you in ${ticket}`;
+    case "comment_reply":
+      return `${actor} replied to your comment on ${ticket}`;
+    case "commented":
+      return `${actor} commented on ${ticket}`;
+    case "status_changed": {
+      const toStatus = notification.data?.toStatus;
+      return typeof toStatus === "string"
+        ? `${actor} moved ${ticket} to ${toStatus}`
+        : `${actor} changed the status of ${ticket}`;
+    }
+  }
+}
+
+// Type exports
+export type Notification = typeof notifications.$inferSelect;
+export type NewNotification = typeof notifications.$inferInsert;
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
@@ -11,6 +11,13 @@ export const projects = sqliteTable(
     name: text("name").notNull(),
     description: text("description"),
     slug: text("slug").notNull().unique(),
+    // Prefix for human-readable ticket keys (e.g. "MIN" in MIN-123)
+    key: text("key").unique(),
+    // Last ticket number handed out in this project
+    ticketCounter: integer("ticket_counter").notNull().default(0),
+    // Last realtime ticket event number sent for this project; lets boards
+    // notice missed events
+    eventSequence: integer("event_sequence").notNull().default(0),
     ownerId: text("owner_id")
       .notNull()
       .references(() => users.id, { onDelete: "cascade" }),
@@ -30,6 +37,30 @@ export const projects = sqliteTable(
   })
 );
 
+// Build a ticket key prefix from a project name, unique among existing keys.
+// Multi-word names use their initials ("Mobile App" -> "MA"), single words
+// their first letters ("Minute" -> "MIN").
+export function generateProjectKey(name: string, existingKeys: string[]): string {
+  const words = name
+    .toUpperCase()
+    .replace(/[^A-Z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const baseKey =
+    (words.length > 1
+      ? words.map((word) => word[0]).join("").slice(0, 4)
+      : (words[0] ?? "").slice(0, 3)) || "TKT";
+
+  let key = baseKey;
+  let counter = 2;
+  while (existingKeys.includes(key)) {
+    key = `${baseKey}${counter}`;
+    counter++;
+  }
+  return key;
+}
+
 // Type exports
 export type Project = typeof projects.$inferSelect;
 export type NewProject = typeof projects.$inferInsert;
@@ -2,13 +2,20 @@ import { relations } from "drizzle-orm";
 import { users, sessions, accounts } from "./auth";
 import { projects } from "./projects";
 import { tickets } from "./tickets";
+import { projectStatuses } from "./statuses";
+import { sprints } from "./sprints";
+import { ticketLinks } from "./links";
+import { labels, ticketLabels } from "./labels";
+import { ticketWatchers } from "./watchers";
 import { ticketHistory, activityLog } from "./activity";
 import { comments } from "./comments";
+import { mentions } from "./mentions";
+import { notifications, notificationPreferences } from "./notifications";
 import { attachments } from "./attachments";
 import { ticketTemplates } from "./templates";
 
 // User relations
-export const usersRelations = relations(users, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
   sessions: many(sessions),
   accounts: many(accounts),
   projects: many(projects),
@@ -19,6 +26,12 @@ export const usersRelations = relations(users, ({ many }) => ({
   comments: many(comments),
   attachments: many(attachments),
   ticketTemplates: many(ticketTemplates),
+  mentions: many(mentions, { relationName: "mentioned" }),
+  authoredMentions: many(mentions, { relationName: "mentionAuthor" }),
+  notifications: many(notifications, { relationName: "recipient" }),
+  triggeredNotifications: many(notifications, { relationName: "notificationActor" }),
+  watchedTickets: many(ticketWatchers),
+  notificationPreferences: one(notificationPreferences),
 }));
 
 // Session relations
@@ -37,6 +50,26 @@ export const projectsRelations = relations(projects, ({ one, many }) => ({
   tickets: many(tickets),
   activityLogs: many(activityLog),
   ticketTemplates: many(ticketTemplates),
+  statuses: many(projectStatuses),
+  sprints: many(sprints),
+  labels: many(labels),
+}));
+
+// Sprint relations
+export const sprintsRelations = relations(sprints, ({ one, many }) => ({
+  project: one(projects, {
+    fields: [sprints.projectId],
+    references: [projects.id],
+  }),
+  tickets: many(tickets),
+}));
+
+// Project status relations
+export const projectStatusesRelations = relations(projectStatuses, ({ one }) => ({
+  project: one(projects, {
+    fields: [projectStatuses.projectId],
+    references: [projects.id],
+  }),
 }));
 
 // Ticket relations
@@ -55,10 +88,75 @@ export const ticketsRelations = relations(tickets, ({ one, many }) => ({
     references: [users.id],
     relationName: "assignee",
   }),
+  parent: one(tickets, {
+    fields: [tickets.parentId],
+    references: [tickets.id],
+    relationName: "parent",
+  }),
+  children: many(tickets, { relationName: "parent" }),
+  sprint: one(sprints, {
+    fields: [tickets.sprintId],
+    references: [sprints.id],
+  }),
   history: many(ticketHistory),
   activityLogs: many(activityLog),
   comments: many(comments),
   attachments: many(attachments),
+  outgoingLinks: many(ticketLinks, { relationName: "linkSource" }),
+  incomingLinks: many(ticketLinks, { relationName: "linkTarget" }),
+  ticketLabels: many(ticketLabels),
+  watchers: many(ticketWatchers),
+  mentions: many(mentions),
+}));
+
+// Ticket link relations
+export const ticketLinksRelations = relations(ticketLinks, ({ one }) => ({
+  source: one(tickets, {
+    fields: [ticketLinks.sourceTicketId],
+    references: [tickets.id],
+    relationName: "linkSource",
+  }),
+  target: one(tickets, {
+    fields: [ticketLinks.targetTicketId],
+    references: [tickets.id],
+    relationName: "linkTarget",
+  }),
+  creator: one(users, {
+    fields: [ticketLinks.creatorId],
+    references: [users.id],
+  }),
+}));
+
+// Label relations
+export const labelsRelations = relations(labels, ({ one, many }) => ({
+  project: one(projects, {
+    fields: [labels.projectId],
+    references: [projects.id],
+  }),
+  ticketLabels: many(ticketLabels),
+}));
+
+export const ticketLabelsRelations = relations(ticketLabels, ({ one }) => ({
+  ticket: one(tickets, {
+    fields: [ticketLabels.ticketId],
+    references: [tickets.id],
+  }),
+  label: one(labels, {
+    fields: [ticketLabels.labelId],
+    references: [labels.id],
+  }),
+}));
+
+// Ticket watcher relations
+export const ticketWatchersRelations = relations(ticketWatchers, ({ one }) => ({
+  ticket: one(tickets, {
+    fields: [ticketWatchers.ticketId],
+    references: [tickets.id],
+  }),
+  user: one(users, {
+    fields: [ticketWatchers.userId],
+    references: [users.id],
+  }),
 }));
 
 // Ticket history relations
@@ -105,6 +203,63 @@ export const commentsRelations = relations(comments, ({ one, many }) => ({
     relationName: "parent",
   }),
   replies: many(comments, { relationName: "parent" }),
+  mentions: many(mentions),
+}));
+
+// Mention relations
+export const mentionsRelations = relations(mentions, ({ one }) => ({
+  ticket: one(tickets, {
+    fields: [mentions.ticketId],
+    references: [tickets.id],
+  }),
+  comment: one(comments, {
+    fields: [mentions.commentId],
+    references: [comments.id],
+  }),
+  user: one(users, {
+    fields: [mentions.userId],
+    references: [users.id],
+    relationName: "mentioned",
+  }),
+  author: one(users, {
+    fields: [mentions.authorId],
+    references: [users.id],
+    relationName: "mentionAuthor",
+  }),
+}));
+
+// Notification preference relations
+export const notificationPreferencesRelations = relations(notificationPreferences, ({ one }) => ({
+  user: one(users, {
+    fields: [notificationPreferences.userId],
+    references: [users.id],
+  }),
+}));
+
+// Notification relations
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+    relationName: "recipient",
+  }),
+  actor: one(users, {
+    fields: [notifications.actorId],
+    references: [users.id],
+    relationName: "notificationActor",
+  }),
+  project: one(projects, {
+    fields: [notifications.projectId],
+    references: [projects.id],
+  }),
+  ticket: one(tickets, {
+    fields: [notifications.ticketId],
+    references: [tickets.id],
+  }),
+  comment: one(comments, {
+    fields: [notifications.commentId],
+    references: [comments.id],
+  }),
 }));
 
 // Attachment relations
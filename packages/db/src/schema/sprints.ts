@@ -0,0 +1,40 @@
+import { sql } from 'drizzle-orm';
+import { sqliteTable, text, integer, index } from 'drizzle-orm/sqlite-core';
+import { projects } from './projects';
+
+export const sprintStatus = ['planned', 'active', 'completed'] as const;
+
+export type SprintStatus = (typeof sprintStatus)[number];
+
+// Time-boxed iterations; tickets join one through tickets.sprint_id
+export const sprints = sqliteTable(
+  'sprints',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    projectId: text('project_id')
+      .notNull()
+      .references(() => projects.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    goal: text('goal'),
+    startDate: integer('start_date', { mode: 'timestamp' }).notNull(),
+    endDate: integer('end_date', { mode: 'timestamp' }).notNull(),
+    // At most one active sprint per project (enforced in the actions)
+    status: text('status', { enum: sprintStatus }).notNull().default('planned'),
+    completedAt: integer('completed_at', { mode: 'timestamp' }),
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .default(sql`(unixepoch())`),
+    updatedAt: integer('updated_at', { mode: 'timestamp' })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (table) => ({
+    projectIdx: index('sprints_project_idx').on(table.projectId),
+  })
+);
+
+// Type exports
+export type Sprint = typeof sprints.$inferSelect;
+export type NewSprint = typeof sprints.$inferInsert;
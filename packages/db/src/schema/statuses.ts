@@ -0,0 +1,82 @@
+import { sql } from 'drizzle-orm';
+import {
+  sqliteTable,
+  text,
+  integer,
+  index,
+  uniqueIndex,
+} from 'drizzle-orm/sqlite-core';
+import { projects } from './projects';
+
+export const statusCategory = ['unstarted', 'started', 'completed'] as const;
+
+export type StatusCategory = (typeof statusCategory)[number];
+
+// Workflow statuses, defined per project and ordered left-to-right on the board
+export const projectStatuses = sqliteTable(
+  'project_statuses',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    projectId: text('project_id')
+      .notNull()
+      .references(() => projects.id, { onDelete: 'cascade' }),
+    key: text('key').notNull(), // Stored in tickets.status, e.g. "in_progress"
+    name: text('name').notNull(),
+    color: text('color').notNull().default('#6b7280'), // Hex color
+    category: text('category', { enum: statusCategory })
+      .notNull()
+      .default('unstarted'),
+    order: integer('order').notNull().default(0),
+    // Status keys tickets may move to from this status; null allows any
+    allowedTransitions: text('allowed_transitions', { mode: 'json' }).$type<
+      string[]
+    >(),
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .default(sql`(unixepoch())`),
+    updatedAt: integer('updated_at', { mode: 'timestamp' })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (table) => ({
+    projectIdx: index('project_statuses_project_idx').on(table.projectId),
+    projectKeyIdx: uniqueIndex('project_statuses_project_key_idx').on(
+      table.projectId,
+      table.key
+    ),
+  })
+);
+
+// Seeded for new projects and for projects created before custom workflows.
+// Keys match the original hard-coded statuses so existing tickets keep their column.
+export const defaultProjectStatuses: {
+  key: string;
+  name: string;
+  color: string;
+  category: StatusCategory;
+}[] = [
+  { key: 'backlog', name: 'Backlog', color: '#6b7280', category: 'unstarted' },
+  { key: 'todo', name: 'Todo', color: '#3b82f6', category: 'unstarted' },
+  { key: 'in_progress', name: 'In Progress', color: '#eab308', category: 'started' },
+  { key: 'done', name: 'Done', color: '#22c55e', category: 'completed' },
+];
+
+// Whether a ticket may move from one status to another.
+// Shared by the web actions, the board and the MCP server so the rules match everywhere.
+export function isTransitionAllowed(
+  statuses: { key: string; allowedTransitions: string[] | null }[],
+  from: string,
+  to: string
+): boolean {
+  if (from === to) return true;
+  const source = statuses.find((status) => status.key === from);
+  // Tickets in an unknown status (e.g. data from before a workflow edit) can always move
+  if (!source || !source.allowedTransitions) return true;
+  return source.allowedTransitions.includes(to);
+}
+
+// Type exports
+export type ProjectStatus = typeof projectStatuses.$inferSelect;
+export type NewProjectStatus = typeof projectStatuses.$inferInsert;
@@ -2,7 +2,7 @@ import { sql } from 'drizzle-orm';
 import { sqliteTable, text, integer, index } from 'drizzle-orm/sqlite-core';
 import { projects } from './projects';
 import { users } from './auth';
-import { ticketStatus, ticketPriority } from './tickets';
+import { ticketPriority } from './tickets';
 
 export const ticketTemplates = sqliteTable(
   'ticket_templates',
@@ -20,9 +20,10 @@ export const ticketTemplates = sqliteTable(
     // Default values for tickets created from this template
     titleTemplate: text('title_template'), // e.g., "[BUG] " or "[FEATURE] "
     descriptionTemplate: text('description_template'), // Pre-filled description with placeholders
-    defaultStatus: text('default_status', { enum: ticketStatus }).default('backlog'),
+    defaultStatus: text('default_status'), // Status key; null uses the project's first status
     defaultPriority: text('default_priority', { enum: ticketPriority }).default('medium'),
     defaultPoints: integer('default_points'), // Default story points
+    defaultLabelIds: text('default_label_ids', { mode: 'json' }).$type<string[]>(), // Labels applied to new tickets
     // Metadata for extensibility
     metadata: text('metadata', { mode: 'json' }).$type<Record<string, unknown>>(),
     // Timestamps
@@ -1,12 +1,23 @@
 import { sql } from 'drizzle-orm';
-import { sqliteTable, text, integer, index } from 'drizzle-orm/sqlite-core';
+import {
+  sqliteTable,
+  text,
+  integer,
+  index,
+  uniqueIndex,
+  type AnySQLiteColumn,
+} from 'drizzle-orm/sqlite-core';
 import { users } from './auth';
 import { projects } from './projects';
+import { sprints } from './sprints';
 
-export const ticketStatus = ['backlog', 'todo', 'in_progress', 'done'] as const;
 export const ticketPriority = ['low', 'medium', 'high', 'urgent'] as const;
 
-export type TicketStatus = (typeof ticketStatus)[number];
+// Epics -> stories -> sub-tasks
+export const maxTicketDepth = 3;
+
+// Key of one of the project's workflow statuses (see project_statuses)
+export type TicketStatus = string;
 export type TicketPriority = (typeof ticketPriority)[number];
 
 export const tickets = sqliteTable(
@@ -17,7 +28,7 @@ export const tickets = sqliteTable(
       .$defaultFn(() => crypto.randomUUID()),
     title: text('title').notNull(),
     description: text('description'),
-    status: text('status', { enum: ticketStatus }).notNull().default('backlog'),
+    status: text('status').notNull().default('backlog'),
     priority: text('priority', { enum: ticketPriority })
       .notNull()
       .default('medium'),
@@ -25,6 +36,15 @@ export const tickets = sqliteTable(
     projectId: text('project_id')
       .notNull()
       .references(() => projects.id, { onDelete: 'cascade' }),
+    // Per-project sequence number, shown as <project key>-<number>
+    number: integer('number'),
+    // Parent ticket (epic -> story -> sub-task); children are orphaned if it is removed
+    parentId: text('parent_id').references((): AnySQLiteColumn => tickets.id, {
+      onDelete: 'set null',
+    }),
+    sprintId: text('sprint_id').references(() => sprints.id, {
+      onDelete: 'set null',
+    }),
     creatorId: text('creator_id').references(() => users.id, {
       onDelete: 'set null',
     }),
@@ -42,11 +62,20 @@ export const tickets = sqliteTable(
     updatedAt: integer('updated_at', { mode: 'timestamp' })
       .notNull()
       .default(sql`(unixepoch())`),
+    // Bumped by every change to a field in ticket_history, so edits based on
+    // an older copy are detected even within the same second
+    version: integer('version').notNull().default(0),
   },
   (table) => ({
     projectIdx: index('tickets_project_idx').on(table.projectId),
     statusIdx: index('tickets_status_idx').on(table.status),
     assigneeIdx: index('tickets_assignee_idx').on(table.assigneeId),
+    parentIdx: index('tickets_parent_idx').on(table.parentId),
+    sprintIdx: index('tickets_sprint_idx').on(table.sprintId),
+    numberIdx: uniqueIndex('tickets_project_number_idx').on(
+      table.projectId,
+      table.number
+    ),
     orderIdx: index('tickets_order_idx').on(
       table.projectId,
       table.status,
@@ -55,6 +84,23 @@ export const tickets = sqliteTable(
   })
 );
 
+// Human-readable ticket key, e.g. MIN-123
+export function formatTicketKey(
+  projectKey: string | null | undefined,
+  number: number | null | undefined
+): string | null {
+  if (!projectKey || !number) return null;
+  return `${projectKey}-${number}`;
+}
+
+// Split a ticket key into its project key and number.
+// Returns null for anything else, including ticket UUIDs.
+export function parseTicketKey(value: string): { projectKey: string; number: number } | null {
+  const match = /^([A-Za-z0-9]+)-(\d+)$/.exec(value.trim());
+  if (!match) return null;
+  return { projectKey: match[1]!.toUpperCase(), number: Number(match[2]) };
+}
+
 // Type exports
 export type Ticket = typeof tickets.$inferSelect;
 export type NewTicket = typeof tickets.$inferInsert;
@@ -0,0 +1,29 @@
+import { sql } from "drizzle-orm";
+import { sqliteTable, text, integer, index, primaryKey } from "drizzle-orm/sqlite-core";
+import { users } from "./auth";
+import { tickets } from "./tickets";
+
+// Users following a ticket. Creators, assignees and commenters are added
+// automatically; watchers are the audience for notifications and digests.
+export const ticketWatchers = sqliteTable(
+  "ticket_watchers",
+  {
+    ticketId: text("ticket_id")
+      .notNull()
+      .references(() => tickets.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.ticketId, table.userId] }),
+    userIdx: index("ticket_watchers_user_idx").on(table.userId),
+  })
+);
+
+// Type exports
+export type TicketWatcher = typeof ticketWatchers.$inferSelect;
+export type NewTicketWatcher = typeof ticketWatchers.$inferInsert;
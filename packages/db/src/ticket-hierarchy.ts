@@ -0,0 +1,34 @@
+import { eq } from "drizzle-orm";
+import { db } from "./index";
+import { maxTicketDepth, tickets } from "./schema";
+
+// Check that a new child can be attached to the given parent
+// Returns an error message, or null if the parent is valid
+export async function validateParent(projectId: string, parentId: string): Promise<string | null> {
+  let depth = 1;
+  let currentId: string | null = parentId;
+
+  // Walk up to the root to keep the hierarchy within maxTicketDepth levels
+  while (currentId) {
+    const [ancestor] = await db
+      .select({ id: tickets.id, projectId: tickets.projectId, parentId: tickets.parentId })
+      .from(tickets)
+      .where(eq(tickets.id, currentId))
+      .limit(1);
+
+    if (!ancestor) {
+      return "Parent ticket not found";
+    }
+    if (ancestor.projectId !== projectId) {
+      return "Parent ticket must be in the same project";
+    }
+
+    depth++;
+    currentId = ancestor.parentId;
+  }
+
+  if (depth > maxTicketDepth) {
+    return `Tickets can only be nested ${maxTicketDepth} levels deep`;
+  }
+  return null;
+}
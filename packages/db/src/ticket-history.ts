@@ -0,0 +1,110 @@
+import { and, eq, gt, ne } from "drizzle-orm";
+import { db } from "./index";
+import { ticketHistory, type Ticket } from "./schema";
+
+// Fields recorded in ticket_history, keyed by the value stored in the `field` column
+export const ticketHistoryFields = {
+  title: "title",
+  description: "description",
+  status: "status",
+  priority: "priority",
+  assignee: "assigneeId",
+  points: "points",
+  dueDate: "dueDate",
+  sprint: "sprintId",
+} as const satisfies Record<string, keyof Ticket>;
+
+// "created" is recorded once when a ticket is inserted
+export type TicketHistoryField = keyof typeof ticketHistoryFields | "created";
+
+export type TicketHistoryChange = {
+  field: TicketHistoryField;
+  oldValue: string | null;
+  newValue: string | null;
+};
+
+type TrackedTicket = Pick<Ticket, (typeof ticketHistoryFields)[keyof typeof ticketHistoryFields]>;
+
+// Serialize a ticket value for the text old_value/new_value columns
+// Dates are stored as unix seconds to match the API's dueDate input
+function serializeValue(value: unknown): string | null {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  if (value instanceof Date) {
+    return Math.floor(value.getTime() / 1000).toString();
+  }
+  return String(value);
+}
+
+// Compare a ticket before and after an update and return one change per modified field
+export function diffTicket(
+  before: TrackedTicket,
+  after: Partial<TrackedTicket>
+): TicketHistoryChange[] {
+  const changes: TicketHistoryChange[] = [];
+
+  for (const [field, key] of Object.entries(ticketHistoryFields) as [
+    keyof typeof ticketHistoryFields,
+    keyof TrackedTicket,
+  ][]) {
+    if (!(key in after)) continue;
+
+    const oldValue = serializeValue(before[key]);
+    const newValue = serializeValue(after[key]);
+
+    if (oldValue !== newValue) {
+      changes.push({ field, oldValue, newValue });
+    }
+  }
+
+  return changes;
+}
+
+// Persist history entries for a ticket. `ticketVersion` is the ticket's
+// version after the change (see tickets.version).
+export async function recordTicketHistory(
+  ticketId: string,
+  userId: string,
+  changes: TicketHistoryChange[],
+  ticketVersion?: number
+) {
+  if (changes.length === 0) return;
+
+  try {
+    await db.insert(ticketHistory).values(
+      changes.map((change) => ({
+        ticketId,
+        userId,
+        field: change.field,
+        oldValue: change.oldValue,
+        newValue: change.newValue,
+        ticketVersion,
+      }))
+    );
+  } catch (error) {
+    console.error("Error recording ticket history:", error);
+    // Don't throw - history recording should not break the main flow
+  }
+}
+
+// Fields that other users changed on a ticket after the given version. Used
+// to detect conflicts when a client saves changes based on an older copy.
+export async function getFieldsChangedSince(
+  ticketId: string,
+  sinceVersion: number,
+  excludeUserId: string
+): Promise<TicketHistoryField[]> {
+  const changes = await db
+    .select({ field: ticketHistory.field })
+    .from(ticketHistory)
+    .where(
+      and(
+        eq(ticketHistory.ticketId, ticketId),
+        gt(ticketHistory.ticketVersion, sinceVersion),
+        ne(ticketHistory.userId, excludeUserId)
+      )
+    );
+
+  return [...new Set(changes.map((change) => change.field as TicketHistoryField))];
+}
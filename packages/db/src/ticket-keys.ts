@@ -0,0 +1,93 @@
+import { and, asc, eq, isNotNull, isNull, sql } from "drizzle-orm";
+import { db } from "./index";
+import { generateProjectKey, parseTicketKey, projects, tickets, type Ticket } from "./schema";
+
+// Hand out the next ticket number for a project.
+// A single UPDATE ... RETURNING keeps concurrent creates from sharing a number.
+export async function assignTicketNumber(projectId: string): Promise<number> {
+  const [project] = await db
+    .update(projects)
+    .set({ ticketCounter: sql`${projects.ticketCounter} + 1` })
+    .where(eq(projects.id, projectId))
+    .returning({ ticketCounter: projects.ticketCounter });
+
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  return project.ticketCounter;
+}
+
+// Load a project's ticket key prefix. Null for projects created before ticket
+// keys until backfillProjectKeys has run.
+export async function getProjectKey(projectId: string): Promise<string | null> {
+  const [project] = await db
+    .select({ key: projects.key })
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  return project?.key ?? null;
+}
+
+// Give projects created before ticket keys a key and number their tickets in
+// creation order. Safe to run repeatedly; returns how many rows it filled.
+export async function backfillProjectKeys() {
+  const keyless = await db
+    .select({ id: projects.id, name: projects.name })
+    .from(projects)
+    .where(isNull(projects.key))
+    .orderBy(asc(projects.createdAt));
+
+  for (const project of keyless) {
+    const existing = await db
+      .select({ key: projects.key })
+      .from(projects)
+      .where(isNotNull(projects.key));
+
+    // Only set it if a concurrent run hasn't already
+    await db
+      .update(projects)
+      .set({
+        key: generateProjectKey(
+          project.name,
+          existing.map((p) => p.key).filter((k): k is string => !!k)
+        ),
+      })
+      .where(and(eq(projects.id, project.id), isNull(projects.key)));
+  }
+
+  const unnumbered = await db
+    .select({ id: tickets.id, projectId: tickets.projectId })
+    .from(tickets)
+    .where(isNull(tickets.number))
+    .orderBy(asc(tickets.createdAt));
+
+  for (const ticket of unnumbered) {
+    const number = await assignTicketNumber(ticket.projectId);
+    await db
+      .update(tickets)
+      .set({ number })
+      .where(and(eq(tickets.id, ticket.id), isNull(tickets.number)));
+  }
+
+  return { projects: keyless.length, tickets: unnumbered.length };
+}
+
+// Find a ticket by its UUID or its human-readable key (e.g. MIN-123)
+export async function findTicketByRef(ref: string): Promise<Ticket | undefined> {
+  const parsed = parseTicketKey(ref);
+
+  if (parsed) {
+    const [row] = await db
+      .select({ ticket: tickets })
+      .from(tickets)
+      .innerJoin(projects, eq(tickets.projectId, projects.id))
+      .where(and(eq(projects.key, parsed.projectKey), eq(tickets.number, parsed.number)))
+      .limit(1);
+    if (row) return row.ticket;
+  }
+
+  const [ticket] = await db.select().from(tickets).where(eq(tickets.id, ref)).limit(1);
+  return ticket;
+}
@@ -0,0 +1,210 @@
+import { sql } from "drizzle-orm";
+import { db } from "./index";
+
+// Markers FTS5 puts around matched terms. Control characters can't occur in
+// the indexed text, so highlights are split on them instead of parsing HTML.
+const MATCH_START = "\u0002";
+const MATCH_END = "\u0003";
+
+// Tickets indexed per statement when backfilling
+const BACKFILL_BATCH_SIZE = 100;
+
+export type HighlightedText = Array<{ text: string; match: boolean }>;
+
+export type TicketTextMatch = {
+  ticketId: string;
+  // BM25 rank, lower is better
+  rank: number;
+  title: HighlightedText;
+  // Best matching passage of the description or comments, if the match was there
+  snippet: HighlightedText | null;
+};
+
+let ready: Promise<void> | null = null;
+
+// Create the FTS5 table and index any tickets missing from it. Drizzle can't
+// declare virtual tables, so this runs once per process instead of at push time.
+export function ensureTicketSearchIndex() {
+  ready ??= (async () => {
+    await db.run(sql`
+      CREATE VIRTUAL TABLE IF NOT EXISTS ticket_search USING fts5(
+        ticket_id UNINDEXED,
+        project_id UNINDEXED,
+        title,
+        description,
+        comments,
+        tokenize = 'porter unicode61'
+      )
+    `);
+    await backfillTicketSearch();
+  })().catch((error) => {
+    ready = null;
+    throw error;
+  });
+  return ready;
+}
+
+const namedEntities: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+// Entities the editor writes, plus numeric ones such as &#39;
+function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith("#")) {
+      const code = name[1]?.toLowerCase() === "x" ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return namedEntities[name.toLowerCase()] ?? entity;
+  });
+}
+
+function toPlainText(html: string | null) {
+  return decodeEntities((html ?? "").replace(/<[^>]*>/g, " "))
+    .replace(/[\u0002\u0003]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+async function writeSearchRows(ticketIds: string[]) {
+  if (ticketIds.length === 0) return;
+  const ids = sql.join(
+    ticketIds.map((id) => sql`${id}`),
+    sql`, `
+  );
+
+  // Plain-text comments are escaped so toPlainText keeps their angle brackets
+  const rows = await db.all<{
+    id: string;
+    projectId: string;
+    title: string;
+    description: string | null;
+    comments: string | null;
+  }>(sql`
+    SELECT
+      t.id AS id,
+      t.project_id AS projectId,
+      t.title AS title,
+      t.description AS description,
+      (
+        SELECT group_concat(
+          CASE WHEN c.format = 'html' THEN c.content
+          ELSE replace(replace(replace(c.content, '&', '&amp;'), '<', '&lt;'), '>', '&gt;') END,
+          ' '
+        )
+        FROM comments c WHERE c.ticket_id = t.id
+      ) AS comments
+    FROM tickets t
+    WHERE t.id IN (${ids})
+  `);
+
+  await db.run(sql`DELETE FROM ticket_search WHERE ticket_id IN (${ids})`);
+  for (const row of rows) {
+    await db.run(sql`
+      INSERT INTO ticket_search (ticket_id, project_id, title, description, comments)
+      VALUES (
+        ${row.id},
+        ${row.projectId},
+        ${toPlainText(row.title)},
+        ${toPlainText(row.description)},
+        ${toPlainText(row.comments)}
+      )
+    `);
+  }
+}
+
+/**
+ * Re-index tickets after their title, description or comments changed.
+ * Tickets that no longer exist are dropped from the index.
+ */
+export async function indexTicketsForSearch(ticketIds: string[]) {
+  await ensureTicketSearchIndex();
+  await writeSearchRows([...new Set(ticketIds)]);
+}
+
+// Index tickets missing from the search table and drop rows of deleted
+// tickets. Safe to run repeatedly; returns how many tickets were indexed.
+export async function backfillTicketSearch() {
+  await db.run(sql`
+    DELETE FROM ticket_search WHERE ticket_id NOT IN (SELECT id FROM tickets)
+  `);
+
+  let indexed = 0;
+  for (;;) {
+    const missing = await db.all<{ id: string }>(sql`
+      SELECT id FROM tickets
+      WHERE id NOT IN (SELECT ticket_id FROM ticket_search)
+      LIMIT ${BACKFILL_BATCH_SIZE}
+    `);
+    if (missing.length === 0) return indexed;
+    await writeSearchRows(missing.map((row) => row.id));
+    indexed += missing.length;
+  }
+}
+
+// Turn free text into an FTS5 query: every word must match, as a prefix so
+// results show up while typing. Quoting keeps FTS5 syntax out of user input.
+function toMatchQuery(query: string) {
+  const terms = query.match(/[\p{L}\p{N}_]+/gu) ?? [];
+  return terms.map((term) => `"${term}"*`).join(" ");
+}
+
+function splitHighlights(text: string): HighlightedText {
+  const parts: HighlightedText = [];
+  for (const [index, piece] of text.split(MATCH_START).entries()) {
+    const [matched, rest] = index === 0 ? [null, piece] : piece.split(MATCH_END, 2);
+    if (matched) parts.push({ text: matched, match: true });
+    if (rest) parts.push({ text: rest, match: false });
+  }
+  return parts;
+}
+
+/**
+ * Keyword search over a project's ticket titles, descriptions and comments,
+ * best BM25 rank first. Title matches weigh more than description matches,
+ * which weigh more than comment matches.
+ */
+export async function searchTicketText(options: {
+  projectId: string;
+  query: string;
+  limit: number;
+}): Promise<TicketTextMatch[]> {
+  const match = toMatchQuery(options.query);
+  if (!match) return [];
+
+  await ensureTicketSearchIndex();
+
+  const rows = await db.all<{
+    ticketId: string;
+    rank: number;
+    title: string;
+    description: string;
+    comments: string;
+  }>(sql`
+    SELECT
+      ticket_id AS ticketId,
+      bm25(ticket_search, 0, 0, 10.0, 4.0, 1.0) AS rank,
+      highlight(ticket_search, 2, ${MATCH_START}, ${MATCH_END}) AS title,
+      snippet(ticket_search, 3, ${MATCH_START}, ${MATCH_END}, '…', 16) AS description,
+      snippet(ticket_search, 4, ${MATCH_START}, ${MATCH_END}, '…', 16) AS comments
+    FROM ticket_search
+    WHERE ticket_search MATCH ${match} AND project_id = ${options.projectId}
+    ORDER BY rank
+    LIMIT ${Math.max(1, Math.floor(options.limit))}
+  `);
+
+  return rows.map((row) => {
+    const passage = [row.description, row.comments].find((text) => text.includes(MATCH_START));
+    return {
+      ticketId: row.ticketId,
+      rank: row.rank,
+      title: splitHighlights(row.title),
+      snippet: passage ? splitHighlights(passage) : null,
+    };
+  });
+}
@@ -0,0 +1,97 @@
+import { sql } from "drizzle-orm";
+import { db } from "./index";
+import { embeddingVectorDimensions } from "./schema";
+
+// Index neighbours fetched per wanted result. vector_top_k searches every
+// project, so neighbours are filtered to the project afterwards.
+const TOP_K_OVERFETCH = 10;
+
+export type NearestEmbedding = {
+  entityId: string;
+  content: string;
+  similarity: number;
+};
+
+// The value for embeddings.vector: the embedding itself when it has the
+// indexed size, otherwise NULL (such rows are only found by scanning)
+export function toIndexedVector(embedding: number[]): number[] | null {
+  return embedding.length === embeddingVectorDimensions ? embedding : null;
+}
+
+/**
+ * Nearest ticket embeddings of a model within a project, from libSQL's native
+ * vector index. Returns null when the index can't answer — vectors of another
+ * size, no vector support, or too few of the nearest neighbours in this
+ * project — and callers fall back to scanning the JSON embeddings.
+ */
+export async function findNearestTicketEmbeddings(options: {
+  projectId: string;
+  vector: number[];
+  model: string;
+  limit: number;
+  excludeTicketId?: string;
+}): Promise<NearestEmbedding[] | null> {
+  if (!toIndexedVector(options.vector)) {
+    return null;
+  }
+
+  // Inlined into the query: vector_top_k rejects k bound as a float
+  const k = Math.max(1, Math.floor(options.limit)) * TOP_K_OVERFETCH;
+  const queryVector = JSON.stringify(options.vector);
+
+  let neighbours: Array<{
+    entityType: string;
+    entityId: string;
+    content: string;
+    model: string;
+    projectId: string | null;
+    distance: number;
+  }>;
+  try {
+    neighbours = await db.all(sql`
+      SELECT
+        e.entity_type AS entityType,
+        e.entity_id AS entityId,
+        e.content AS content,
+        e.model AS model,
+        t.project_id AS projectId,
+        vector_distance_cos(e.vector, vector32(${queryVector})) AS distance
+      FROM vector_top_k('embeddings_vector_idx', vector32(${queryVector}), ${sql.raw(String(k))}) AS top
+      JOIN embeddings e ON e.rowid = top.id
+      LEFT JOIN tickets t ON e.entity_type = 'ticket' AND t.id = e.entity_id
+    `);
+  } catch (error) {
+    console.error("Vector index search failed, scanning instead:", error);
+    return null;
+  }
+
+  const matches = neighbours.filter(
+    (row) =>
+      row.entityType === "ticket" &&
+      row.projectId === options.projectId &&
+      row.model === options.model &&
+      row.entityId !== options.excludeTicketId
+  );
+
+  // Other projects' tickets filled the neighbours; more matches may exist
+  if (matches.length < options.limit && neighbours.length === k) {
+    return null;
+  }
+
+  return matches.map((row) => ({
+    entityId: row.entityId,
+    content: row.content,
+    similarity: 1 - row.distance,
+  }));
+}
+
+// Copy JSON embeddings of the indexed size into the native vector column,
+// e.g. for rows stored before it existed. Safe to run repeatedly.
+export async function backfillEmbeddingVectors() {
+  const result = await db.run(sql`
+    UPDATE embeddings
+    SET vector = vector32(embedding)
+    WHERE vector IS NULL AND dimensions = ${embeddingVectorDimensions}
+  `);
+  return result.rowsAffected;
+}
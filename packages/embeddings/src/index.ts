@@ -0,0 +1,174 @@
+import { createHash } from "crypto";
+import { getEmbeddingProvider } from "./providers";
+
+export * from "./providers";
+
+// Generate content hash for deduplication
+export function hashContent(content: string): string {
+  return createHash("md5").update(content).digest("hex");
+}
+
+// Generate embedding for a single text
+export async function generateEmbedding(text: string): Promise<number[]> {
+  return getEmbeddingProvider().embed(text);
+}
+
+// Generate embeddings for multiple texts
+export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
+  return getEmbeddingProvider().embedMany(texts);
+}
+
+// Calculate cosine similarity between two vectors
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error("Vectors must have the same length");
+  }
+  
+  if (a.length === 0) {
+    return 0;
+  }
+  
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+  
+  for (let i = 0; i < a.length; i++) {
+    const aVal = a[i] ?? 0;
+    const bVal = b[i] ?? 0;
+    dotProduct += aVal * bVal;
+    normA += aVal * aVal;
+    normB += bVal * bVal;
+  }
+  
+  normA = Math.sqrt(normA);
+  normB = Math.sqrt(normB);
+  
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  
+  return dotProduct / (normA * normB);
+}
+
+// Find most similar embeddings from a list
+export function findSimilar<T extends { embedding: number[] }>(
+  query: number[],
+  candidates: T[],
+  options: { limit?: number; threshold?: number } = {}
+): Array<T & { similarity: number }> {
+  const { limit = 10, threshold = 0.5 } = options;
+  
+  const scored = candidates
+    .map((candidate) => ({
+      ...candidate,
+      similarity: cosineSimilarity(query, candidate.embedding),
+    }))
+    .filter((item) => item.similarity >= threshold)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+  
+  return scored;
+}
+
+// Share of the query's words found in the content, from 0 to 1
+export function keywordScore(query: string, content: string): number {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return 0;
+  }
+
+  const haystack = content.toLowerCase();
+  return words.filter((word) => haystack.includes(word)).length / words.length;
+}
+
+export type SearchRankOptions = {
+  limit?: number;
+  // Minimum cosine similarity for a result
+  threshold?: number;
+  // How much a full keyword match adds to the score
+  keywordWeight?: number;
+};
+
+export const defaultSearchRankOptions = {
+  limit: 10,
+  threshold: 0.3,
+  keywordWeight: 0.1,
+} satisfies Required<SearchRankOptions>;
+
+// Rank search candidates whose similarity to the query is already known
+// (e.g. from a vector index), boosted by how many of the query's words they
+// contain. The threshold applies to the similarity alone, so the boost
+// reorders results but never admits unrelated ones.
+export function rankSearchResults<T extends { content: string; similarity: number }>(
+  queryText: string,
+  candidates: T[],
+  options: SearchRankOptions = {}
+): Array<T & { keywordScore: number; score: number }> {
+  const { limit, threshold, keywordWeight } = { ...defaultSearchRankOptions, ...options };
+
+  return candidates
+    .filter((candidate) => candidate.similarity >= threshold)
+    .map((candidate) => {
+      const keywords = keywordScore(queryText, candidate.content);
+      return {
+        ...candidate,
+        keywordScore: keywords,
+        score: candidate.similarity + keywords * keywordWeight,
+      };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+// Rank candidates for a search query by cosine similarity to the query's
+// embedding, with the keyword boost of rankSearchResults
+export function rankBySimilarity<T extends { embedding: number[]; content: string }>(
+  query: { text: string; embedding: number[] },
+  candidates: T[],
+  options: SearchRankOptions = {}
+): Array<T & { similarity: number; keywordScore: number; score: number }> {
+  return rankSearchResults(
+    query.text,
+    candidates.map((candidate) => ({
+      ...candidate,
+      similarity: cosineSimilarity(query.embedding, candidate.embedding),
+    })),
+    options
+  );
+}
+
+// Prepare ticket content for embedding
+export function prepareTicketContent(ticket: {
+  title: string;
+  description?: string | null;
+  status?: string;
+  priority?: string;
+}): string {
+  const parts = [ticket.title];
+  
+  if (ticket.description) {
+    // Strip HTML tags if description is rich text
+    const plainDescription = ticket.description.replace(/<[^>]*>/g, " ").trim();
+    if (plainDescription) {
+      parts.push(plainDescription);
+    }
+  }
+  
+  // Include metadata for better semantic matching
+  if (ticket.status) {
+    parts.push(`Status: ${ticket.status}`);
+  }
+  if (ticket.priority) {
+    parts.push(`Priority: ${ticket.priority}`);
+  }
+  
+  return parts.join("\n\n");
+}
+
+// Model and size of the current provider's embeddings, stored with each row.
+// Searches only compare rows that match, so switching providers never mixes models.
+export function getEmbeddingConfig() {
+  const { model, dimensions } = getEmbeddingProvider();
+  return { model, dimensions };
+}
+
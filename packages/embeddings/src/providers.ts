@@ -0,0 +1,173 @@
+import { createOpenAI } from "@ai-sdk/openai";
+import { embed, embedMany } from "ai";
+
+// Turns text into vectors. `model` and `dimensions` are stored with every
+// embedding, and only rows from the same model and size are compared.
+export interface EmbeddingProvider {
+  readonly model: string;
+  readonly dimensions: number;
+  embed(text: string): Promise<number[]>;
+  embedMany(texts: string[]): Promise<number[][]>;
+}
+
+export const embeddingProviderNames = ["openai", "openai-compatible", "local"] as const;
+export type EmbeddingProviderName = (typeof embeddingProviderNames)[number];
+
+const defaultModels = {
+  openai: { model: "text-embedding-3-small", dimensions: 1536 },
+  // Small sentence-transformers model that runs on CPU
+  local: { model: "Xenova/all-MiniLM-L6-v2", dimensions: 384 },
+};
+
+// A model answering with a different size would corrupt comparisons
+function checkDimensions(provider: EmbeddingProvider, vectors: number[][]) {
+  for (const vector of vectors) {
+    if (vector.length !== provider.dimensions) {
+      throw new Error(
+        `Embedding model ${provider.model} returned ${vector.length} dimensions, expected ${provider.dimensions}`
+      );
+    }
+  }
+  return vectors;
+}
+
+// OpenAI, or any server implementing its embeddings API (Ollama, LM Studio,
+// vLLM, ...) when `baseURL` is set
+export function createOpenAIEmbeddingProvider(options: {
+  model: string;
+  dimensions: number;
+  // Ask the API for vectors of `dimensions` size; text-embedding-3 models
+  // can shorten theirs, older models and most other servers reject it
+  requestDimensions?: boolean;
+  baseURL?: string;
+  apiKey?: string;
+}): EmbeddingProvider {
+  const openai = createOpenAI({ baseURL: options.baseURL, apiKey: options.apiKey });
+  const embeddingModel = openai.embedding(options.model);
+  const providerOptions = options.requestDimensions
+    ? { openai: { dimensions: options.dimensions } }
+    : undefined;
+
+  const provider: EmbeddingProvider = {
+    model: options.model,
+    dimensions: options.dimensions,
+    async embed(text) {
+      const { embedding } = await embed({ model: embeddingModel, value: text, providerOptions });
+      checkDimensions(provider, [embedding]);
+      return embedding;
+    },
+    async embedMany(texts) {
+      const { embeddings } = await embedMany({
+        model: embeddingModel,
+        values: texts,
+        providerOptions,
+      });
+      return checkDimensions(provider, embeddings);
+    },
+  };
+  return provider;
+}
+
+// Runs a transformers.js (ONNX) model in-process, so search works without
+// network access. Pass `modelPath` to load models from disk only.
+export function createLocalEmbeddingProvider(options: {
+  model: string;
+  dimensions: number;
+  modelPath?: string;
+}): EmbeddingProvider {
+  // Loaded on first use; the runtime and model are large
+  let extractor: ReturnType<typeof loadExtractor> | null = null;
+
+  async function loadExtractor() {
+    const { pipeline, env } = await import("@huggingface/transformers");
+    if (options.modelPath) {
+      env.localModelPath = options.modelPath;
+      env.allowRemoteModels = false;
+    }
+    return pipeline("feature-extraction", options.model);
+  }
+
+  async function run(texts: string[]) {
+    extractor ??= loadExtractor();
+    const output = await (await extractor)(texts, { pooling: "mean", normalize: true });
+    return checkDimensions(provider, output.tolist() as number[][]);
+  }
+
+  const provider: EmbeddingProvider = {
+    model: options.model,
+    dimensions: options.dimensions,
+    async embed(text) {
+      const [embedding] = await run([text]);
+      if (!embedding) {
+        throw new Error(`Embedding model ${options.model} returned no embedding`);
+      }
+      return embedding;
+    },
+    embedMany: run,
+  };
+  return provider;
+}
+
+// Provider configured by environment variables:
+// - EMBEDDING_PROVIDER: openai (default), openai-compatible or local
+// - EMBEDDING_MODEL / EMBEDDING_DIMENSIONS: required for openai-compatible
+// - EMBEDDING_BASE_URL / EMBEDDING_API_KEY: the OpenAI-compatible endpoint
+// - EMBEDDING_MODEL_PATH: directory with local models, for offline use
+export function createEmbeddingProviderFromEnv(
+  env: Record<string, string | undefined> = process.env
+): EmbeddingProvider {
+  const name = (env.EMBEDDING_PROVIDER || "openai") as EmbeddingProviderName;
+  if (!embeddingProviderNames.includes(name)) {
+    throw new Error(
+      `Unknown EMBEDDING_PROVIDER "${name}" (expected ${embeddingProviderNames.join(", ")})`
+    );
+  }
+
+  const dimensions = env.EMBEDDING_DIMENSIONS ? Number(env.EMBEDDING_DIMENSIONS) : undefined;
+  if (dimensions !== undefined && (!Number.isInteger(dimensions) || dimensions <= 0)) {
+    throw new Error("EMBEDDING_DIMENSIONS must be a positive integer");
+  }
+
+  switch (name) {
+    case "openai":
+      return createOpenAIEmbeddingProvider({
+        model: env.EMBEDDING_MODEL || defaultModels.openai.model,
+        dimensions: dimensions ?? defaultModels.openai.dimensions,
+        // The vector column is sized by EMBEDDING_DIMENSIONS, so an override
+        // must reach the API too
+        requestDimensions: dimensions !== undefined,
+      });
+    case "openai-compatible":
+      if (!env.EMBEDDING_BASE_URL || !env.EMBEDDING_MODEL || dimensions === undefined) {
+        throw new Error(
+          "EMBEDDING_BASE_URL, EMBEDDING_MODEL and EMBEDDING_DIMENSIONS are required for openai-compatible embeddings"
+        );
+      }
+      return createOpenAIEmbeddingProvider({
+        model: env.EMBEDDING_MODEL,
+        dimensions,
+        baseURL: env.EMBEDDING_BASE_URL,
+        // Most self-hosted servers don't check the key, but the client needs one
+        apiKey: env.EMBEDDING_API_KEY || "unused",
+      });
+    case "local":
+      return createLocalEmbeddingProvider({
+        model: env.EMBEDDING_MODEL || defaultModels.local.model,
+        dimensions: dimensions ?? defaultModels.local.dimensions,
+        modelPath: env.EMBEDDING_MODEL_PATH,
+      });
+  }
+}
+
+let currentProvider: EmbeddingProvider | null = null;
+
+// The provider used by generateEmbedding(s); configured from the environment
+// unless one was set explicitly
+export function getEmbeddingProvider(): EmbeddingProvider {
+  currentProvider ??= createEmbeddingProviderFromEnv();
+  return currentProvider;
+}
+
+export function setEmbeddingProvider(provider: EmbeddingProvider) {
+  currentProvider = provider;
+}
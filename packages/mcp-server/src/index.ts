@@ -6,19 +6,42 @@ import { z } from "zod";
 import {
   db,
   projects,
+  statusCategory,
+  isTransitionAllowed,
+  maxTicketDepth,
+  formatTicketKey,
   tickets,
+  ticketLinks,
+  ticketRelation,
   comments,
+  ticketWatchers,
   embeddings,
   agentActions,
   eq,
   and,
   inArray,
   desc,
+  sql,
+  findNearestTicketEmbeddings,
+  indexTicketsForSearch,
+  searchTicketText,
+  diffTicket,
+  recordTicketHistory,
+  assignTicketNumber,
+  getProjectKey,
+  findTicketByRef,
+  ensureProjectStatuses,
+  validateParent,
+  sanitizeRichText,
 } from "@minute/db";
-
-// Status values matching the schema
-const TICKET_STATUS = ["backlog", "todo", "in_progress", "done"] as const;
-type TicketStatus = (typeof TICKET_STATUS)[number];
+import {
+  defaultSearchRankOptions,
+  findSimilar,
+  generateEmbedding,
+  getEmbeddingConfig,
+  rankBySimilarity,
+  rankSearchResults,
+} from "@minute/embeddings";
 
 // Create the MCP server
 const server = new McpServer({
@@ -26,21 +49,61 @@ const server = new McpServer({
   version: "0.1.0",
 });
 
-// Helper: Calculate cosine similarity
-function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length) return 0;
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i]! * b[i]!;
-    normA += a[i]! * a[i]!;
-    normB += b[i]! * b[i]!;
+// Helper: Embedding rows from the configured model (same as the web app).
+// Rows from other models aren't comparable until re-embedded.
+function currentModelFilter() {
+  const { model, dimensions } = getEmbeddingConfig();
+  return and(eq(embeddings.model, model), eq(embeddings.dimensions, dimensions));
+}
+
+// Helper: Error text for a status key that isn't in the project's workflow
+function invalidStatusMessage(status: string, statuses: { key: string }[]) {
+  return `Invalid status "${status}". Valid statuses: ${statuses.map((s) => s.key).join(", ")}`;
+}
+
+// Helper: Send a change to the web app, which owns realtime delivery and
+// notifications. Skipped unless MINUTE_APP_URL and MCP_APP_SECRET are set;
+// failures are logged, not thrown.
+async function postToApp(path: string, body: Record<string, unknown>) {
+  const appUrl = process.env.MINUTE_APP_URL;
+  const appSecret = process.env.MCP_APP_SECRET;
+  if (!appUrl || !appSecret) return;
+
+  try {
+    const response = await fetch(new URL(path, appUrl), {
+      method: "POST",
+      headers: {
+        authorization: `Bearer ${appSecret}`,
+        "content-type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      console.error(`Failed to post to ${path}: HTTP ${response.status}`);
+    }
+  } catch (err) {
+    console.error(`Failed to post to ${path}:`, err);
   }
-  normA = Math.sqrt(normA);
-  normB = Math.sqrt(normB);
-  if (normA === 0 || normB === 0) return 0;
-  return dotProduct / (normA * normB);
+}
+
+// Helper: Publish a ticket change to open boards
+async function publishTicketChange(change: {
+  event: "ticket:created" | "ticket:updated";
+  ticketId: string;
+  userId: string;
+  data?: Record<string, unknown>;
+}) {
+  await postToApp("/api/realtime/ticket-changes", change);
+}
+
+// Helper: Notify users about a change, as the web actions do
+async function notifyTicketActivity(
+  activity:
+    | { type: "created"; ticketId: string; userId: string }
+    | { type: "status_changed"; ticketId: string; userId: string; fromStatus: string; toStatus: string }
+    | { type: "commented"; ticketId: string; userId: string; commentId: string }
+) {
+  await postToApp("/api/notifications/ticket-activity", activity);
 }
 
 // Helper: Log agent action
@@ -76,7 +139,7 @@ server.registerTool(
     description:
       "List all projects the agent has access to, with ticket counts and recent activity summary",
     inputSchema: {
-      includeTicketCounts: z.boolean().optional().describe("Include ticket counts per status"),
+      includeTicketCounts: z.boolean().optional().describe("Include ticket counts per status key"),
     },
     outputSchema: {
       projects: z.array(
@@ -88,10 +151,8 @@ server.registerTool(
           ticketCounts: z
             .object({
               total: z.number(),
-              backlog: z.number(),
-              todo: z.number(),
-              inProgress: z.number(),
-              done: z.number(),
+              byStatus: z.record(z.number()),
+              completed: z.number(),
             })
             .optional(),
         })
@@ -110,10 +171,8 @@ server.registerTool(
           description: string | null;
           ticketCounts?: {
             total: number;
-            backlog: number;
-            todo: number;
-            inProgress: number;
-            done: number;
+            byStatus: Record<string, number>;
+            completed: number;
           };
         } = {
           id: project.id,
@@ -128,12 +187,17 @@ server.registerTool(
             .from(tickets)
             .where(eq(tickets.projectId, project.id));
 
+          const statuses = await ensureProjectStatuses(project.id);
+          const completedKeys = statuses
+            .filter((s) => s.category === "completed")
+            .map((s) => s.key);
+
           result.ticketCounts = {
             total: projectTickets.length,
-            backlog: projectTickets.filter((t) => t.status === "backlog").length,
-            todo: projectTickets.filter((t) => t.status === "todo").length,
-            inProgress: projectTickets.filter((t) => t.status === "in_progress").length,
-            done: projectTickets.filter((t) => t.status === "done").length,
+            byStatus: Object.fromEntries(
+              statuses.map((s) => [s.key, projectTickets.filter((t) => t.status === s.key).length])
+            ),
+            completed: projectTickets.filter((t) => completedKeys.includes(t.status)).length,
           };
         }
 
@@ -165,6 +229,14 @@ server.registerTool(
       projectId: z.string().describe("Project ID to search within"),
       query: z.string().describe("Natural language search query"),
       limit: z.number().optional().describe("Max results (default 10)"),
+      threshold: z
+        .number()
+        .min(0)
+        .max(1)
+        .optional()
+        .describe(
+          `Minimum cosine similarity between query and ticket (default ${defaultSearchRankOptions.threshold})`
+        ),
     },
     outputSchema: {
       tickets: z.array(
@@ -174,12 +246,13 @@ server.registerTool(
           status: z.string(),
           priority: z.string(),
           similarity: z.number(),
+          score: z.number(),
         })
       ),
       message: z.string().optional(),
     },
   },
-  async ({ projectId, query, limit = 10 }) => {
+  async ({ projectId, query, limit = 10, threshold }) => {
     // Get project tickets
     const projectTickets = await db
       .select()
@@ -194,73 +267,96 @@ server.registerTool(
     }
 
     const ticketIds = projectTickets.map((t) => t.id);
+    const projectEmbeddings = and(
+      eq(embeddings.entityType, "ticket"),
+      inArray(embeddings.entityId, ticketIds),
+      currentModelFilter()
+    );
 
-    // Get embeddings for tickets
-    const ticketEmbeddings = await db
-      .select()
+    const [anyEmbedding] = await db
+      .select({ id: embeddings.id })
       .from(embeddings)
-      .where(
-        and(eq(embeddings.entityType, "ticket"), inArray(embeddings.entityId, ticketIds))
-      );
+      .where(projectEmbeddings)
+      .limit(1);
+
+    // Embed the query the same way the web app embeds tickets
+    let queryEmbedding: number[] | null = null;
+    let embedError: string | null = null;
+    if (anyEmbedding) {
+      try {
+        queryEmbedding = await generateEmbedding(query);
+      } catch (error) {
+        embedError = error instanceof Error ? error.message : "Failed to embed query";
+      }
+    }
 
-    if (ticketEmbeddings.length === 0) {
-      // Fallback to keyword search
-      const keywordMatches = projectTickets
-        .filter(
-          (t) =>
-            t.title.toLowerCase().includes(query.toLowerCase()) ||
-            (t.description && t.description.toLowerCase().includes(query.toLowerCase()))
-        )
-        .slice(0, limit)
-        .map((t) => ({
-          id: t.id,
-          title: t.title,
-          status: t.status,
-          priority: t.priority,
-          similarity: 0.5, // Arbitrary score for keyword match
-        }));
+    if (!queryEmbedding) {
+      // Fallback to full-text search over titles, descriptions and comments.
+      // Scores are negated BM25 ranks, so higher is still better.
+      const ticketsById = new Map(projectTickets.map((t) => [t.id, t]));
+      const keywordMatches = (await searchTicketText({ projectId, query, limit })).flatMap((match) => {
+        const ticket = ticketsById.get(match.ticketId);
+        if (!ticket) return [];
+        return [
+          {
+            id: ticket.id,
+            title: ticket.title,
+            status: ticket.status,
+            priority: ticket.priority,
+            similarity: 0,
+            score: -match.rank,
+          },
+        ];
+      });
+      const message = embedError
+        ? `Used keyword search (could not embed query: ${embedError})`
+        : "Used keyword search (no embeddings available)";
 
       await logAgentAction({
         projectId,
         action: "search_tickets",
         promptSummary: query,
-        responseSummary: `Keyword search returned ${keywordMatches.length} results (no embeddings)`,
+        responseSummary: `Keyword search returned ${keywordMatches.length} results`,
         success: true,
+        errorMessage: embedError ?? undefined,
       });
 
       return {
         content: [{ type: "text", text: JSON.stringify(keywordMatches, null, 2) }],
-        structuredContent: {
-          tickets: keywordMatches,
-          message: "Used keyword search (no embeddings available)",
-        },
+        structuredContent: { tickets: keywordMatches, message },
       };
     }
 
-    // Find similar using content matching (in production, embed the query)
-    const scored = ticketEmbeddings
-      .map((emb) => {
-        const ticket = projectTickets.find((t) => t.id === emb.entityId);
-        if (!ticket) return null;
-
-        // Simple content matching score
-        const content = emb.content?.toLowerCase() || "";
-        const queryWords = query.toLowerCase().split(/\s+/);
-        const matchCount = queryWords.filter((w) => content.includes(w)).length;
-        const similarity = matchCount / queryWords.length;
-
-        return {
+    // Ask the vector index first, and scan the project's embeddings if it can't answer
+    const nearest = await findNearestTicketEmbeddings({
+      projectId,
+      vector: queryEmbedding,
+      model: getEmbeddingConfig().model,
+      limit,
+    });
+    const ranked = nearest
+      ? rankSearchResults(query, nearest, { limit, threshold })
+      : rankBySimilarity(
+          { text: query, embedding: queryEmbedding },
+          await db.select().from(embeddings).where(projectEmbeddings),
+          { limit, threshold }
+        );
+
+    const ticketsById = new Map(projectTickets.map((t) => [t.id, t]));
+    const scored = ranked.flatMap((emb) => {
+      const ticket = ticketsById.get(emb.entityId);
+      if (!ticket) return [];
+      return [
+        {
           id: ticket.id,
           title: ticket.title,
           status: ticket.status,
           priority: ticket.priority,
-          similarity,
-        };
-      })
-      .filter((t): t is NonNullable<typeof t> => t !== null)
-      .filter((t) => t.similarity > 0)
-      .sort((a, b) => b.similarity - a.similarity)
-      .slice(0, limit);
+          similarity: emb.similarity,
+          score: emb.score,
+        },
+      ];
+    });
 
     await logAgentAction({
       projectId,
@@ -283,19 +379,21 @@ server.registerTool(
   {
     title: "Get Ticket Context",
     description:
-      "Get comprehensive context for a ticket including description, comments, related tickets, and recent activity. Use this before working on a ticket.",
+      "Get comprehensive context for a ticket including description, comments, linked tickets (blockers, duplicates), related tickets, and recent activity. Use this before working on a ticket.",
     inputSchema: {
-      ticketId: z.string().describe("Ticket ID"),
+      ticketId: z.string().describe("Ticket ID or key (e.g. MIN-123)"),
       includeRelated: z.boolean().optional().describe("Include semantically related tickets"),
     },
     outputSchema: {
       ticket: z.object({
         id: z.string(),
+        key: z.string().nullable(),
         title: z.string(),
         description: z.string().nullable(),
         status: z.string(),
         priority: z.string(),
         points: z.number().nullable(),
+        parentId: z.string().nullable(),
         order: z.number(),
         createdAt: z.number(),
         updatedAt: z.number(),
@@ -317,6 +415,15 @@ server.registerTool(
           })
         )
         .optional(),
+      links: z.array(
+        z.object({
+          relation: z.enum(ticketRelation),
+          ticketId: z.string(),
+          title: z.string(),
+          status: z.string(),
+          completed: z.boolean(),
+        })
+      ),
       recentActivity: z.array(
         z.object({
           action: z.string(),
@@ -325,9 +432,9 @@ server.registerTool(
       ),
     },
   },
-  async ({ ticketId, includeRelated }) => {
+  async ({ ticketId: ticketRef, includeRelated }) => {
     // Get ticket
-    const [ticket] = await db.select().from(tickets).where(eq(tickets.id, ticketId)).limit(1);
+    const ticket = await findTicketByRef(ticketRef);
 
     if (!ticket) {
       return {
@@ -336,6 +443,9 @@ server.registerTool(
       };
     }
 
+    const ticketId = ticket.id;
+    const projectKey = await getProjectKey(ticket.projectId);
+
     // Get comments
     const ticketComments = await db
       .select()
@@ -356,11 +466,42 @@ server.registerTool(
       const [ticketEmb] = await db
         .select()
         .from(embeddings)
-        .where(and(eq(embeddings.entityType, "ticket"), eq(embeddings.entityId, ticketId)))
+        .where(
+          and(
+            eq(embeddings.entityType, "ticket"),
+            eq(embeddings.entityId, ticketId),
+            currentModelFilter()
+          )
+        )
         .limit(1);
 
-      if (ticketEmb && ticketEmb.embedding) {
-        // Get other embeddings in same project
+      const nearest = ticketEmb
+        ? await findNearestTicketEmbeddings({
+            projectId: ticket.projectId,
+            vector: ticketEmb.embedding,
+            model: ticketEmb.model,
+            limit: 5,
+            excludeTicketId: ticketId,
+          })
+        : null;
+
+      if (nearest) {
+        const nearestTickets = await db
+          .select()
+          .from(tickets)
+          .where(inArray(tickets.id, nearest.map((emb) => emb.entityId)));
+
+        relatedTickets = nearest
+          .filter((emb) => emb.similarity >= 0.5)
+          .sort((a, b) => b.similarity - a.similarity)
+          .slice(0, 5)
+          .flatMap((emb) => {
+            const t = nearestTickets.find((t) => t.id === emb.entityId);
+            if (!t) return [];
+            return [{ id: t.id, title: t.title, status: t.status, similarity: emb.similarity }];
+          });
+      } else if (ticketEmb && ticketEmb.embedding) {
+        // Scan the other embeddings in the same project
         const projectTickets = await db
           .select({ id: tickets.id })
           .from(tickets)
@@ -373,7 +514,11 @@ server.registerTool(
             .select()
             .from(embeddings)
             .where(
-              and(eq(embeddings.entityType, "ticket"), inArray(embeddings.entityId, otherIds))
+              and(
+                eq(embeddings.entityType, "ticket"),
+                inArray(embeddings.entityId, otherIds),
+                currentModelFilter()
+              )
             );
 
           const allTickets = await db
@@ -381,27 +526,54 @@ server.registerTool(
             .from(tickets)
             .where(inArray(tickets.id, otherIds));
 
-          relatedTickets = otherEmbeddings
-            .map((emb) => {
-              if (!emb.embedding) return null;
-              const t = allTickets.find((t) => t.id === emb.entityId);
-              if (!t) return null;
-              const similarity = cosineSimilarity(ticketEmb.embedding, emb.embedding);
-              return {
-                id: t.id,
-                title: t.title,
-                status: t.status,
-                similarity,
-              };
-            })
-            .filter((t): t is NonNullable<typeof t> => t !== null)
-            .filter((t) => t.similarity > 0.5)
-            .sort((a, b) => b.similarity - a.similarity)
-            .slice(0, 5);
+          relatedTickets = findSimilar(ticketEmb.embedding, otherEmbeddings, {
+            limit: 5,
+            threshold: 0.5,
+          }).flatMap((emb) => {
+            const t = allTickets.find((t) => t.id === emb.entityId);
+            if (!t) return [];
+            return [{ id: t.id, title: t.title, status: t.status, similarity: emb.similarity }];
+          });
         }
       }
     }
 
+    // Get linked tickets in both directions ("blocked_by" is an incoming "blocks" link)
+    const statuses = await ensureProjectStatuses(ticket.projectId);
+    const completedKeys = new Set(
+      statuses.filter((s) => s.category === "completed").map((s) => s.key)
+    );
+    const linkedTicket = { id: tickets.id, title: tickets.title, status: tickets.status };
+
+    const outgoingLinks = await db
+      .select({ type: ticketLinks.type, ticket: linkedTicket })
+      .from(ticketLinks)
+      .innerJoin(tickets, eq(ticketLinks.targetTicketId, tickets.id))
+      .where(eq(ticketLinks.sourceTicketId, ticketId));
+
+    const incomingLinks = await db
+      .select({ type: ticketLinks.type, ticket: linkedTicket })
+      .from(ticketLinks)
+      .innerJoin(tickets, eq(ticketLinks.sourceTicketId, tickets.id))
+      .where(eq(ticketLinks.targetTicketId, ticketId));
+
+    const inverseRelation = {
+      blocks: "blocked_by",
+      duplicates: "duplicated_by",
+      relates_to: "relates_to",
+    } as const;
+
+    const links = [
+      ...outgoingLinks.map((l) => ({ relation: l.type, ticket: l.ticket })),
+      ...incomingLinks.map((l) => ({ relation: inverseRelation[l.type], ticket: l.ticket })),
+    ].map((l) => ({
+      relation: l.relation,
+      ticketId: l.ticket.id,
+      title: l.ticket.title,
+      status: l.ticket.status,
+      completed: completedKeys.has(l.ticket.status),
+    }));
+
     // Get recent agent activity on this ticket
     const recentActions = await db
       .select()
@@ -413,11 +585,13 @@ server.registerTool(
     const context = {
       ticket: {
         id: ticket.id,
+        key: formatTicketKey(projectKey, ticket.number),
         title: ticket.title,
         description: ticket.description,
         status: ticket.status,
         priority: ticket.priority,
         points: ticket.points,
+        parentId: ticket.parentId,
         order: ticket.order,
         createdAt: ticket.createdAt?.getTime() ?? 0,
         updatedAt: ticket.updatedAt?.getTime() ?? 0,
@@ -428,6 +602,7 @@ server.registerTool(
         createdAt: c.createdAt?.getTime() ?? 0,
       })),
       relatedTickets: includeRelated ? relatedTickets : undefined,
+      links,
       recentActivity: recentActions.map((a) => ({
         action: a.action,
         timestamp: a.createdAt?.getTime() ?? 0,
@@ -449,6 +624,56 @@ server.registerTool(
   }
 );
 
+// Tool: List Statuses
+server.registerTool(
+  "list_statuses",
+  {
+    title: "List Statuses",
+    description:
+      "List a project's workflow statuses in board order. Use the status keys with list_tickets, create_ticket and update_ticket",
+    inputSchema: {
+      projectId: z.string().describe("Project ID"),
+    },
+    outputSchema: {
+      statuses: z.array(
+        z.object({
+          key: z.string(),
+          name: z.string(),
+          color: z.string(),
+          category: z.enum(statusCategory),
+          allowedTransitions: z
+            .array(z.string())
+            .nullable()
+            .describe("Status keys tickets may move to from this status; null means any"),
+        })
+      ),
+    },
+  },
+  async ({ projectId }) => {
+    const statuses = await ensureProjectStatuses(projectId);
+
+    const result = statuses.map((s) => ({
+      key: s.key,
+      name: s.name,
+      color: s.color,
+      category: s.category,
+      allowedTransitions: s.allowedTransitions,
+    }));
+
+    await logAgentAction({
+      projectId,
+      action: "list_statuses",
+      responseSummary: `Listed ${result.length} statuses`,
+      success: true,
+    });
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      structuredContent: { statuses: result },
+    };
+  }
+);
+
 // Tool: List Tickets
 server.registerTool(
   "list_tickets",
@@ -458,15 +683,16 @@ server.registerTool(
     inputSchema: {
       projectId: z.string().describe("Project ID"),
       status: z
-        .enum(TICKET_STATUS)
+        .string()
         .optional()
-        .describe("Filter by status"),
+        .describe("Filter by status key (see list_statuses)"),
       limit: z.number().optional().describe("Max results (default 50)"),
     },
     outputSchema: {
       tickets: z.array(
         z.object({
           id: z.string(),
+          key: z.string().nullable(),
           title: z.string(),
           status: z.string(),
           priority: z.string(),
@@ -476,6 +702,7 @@ server.registerTool(
     },
   },
   async ({ projectId, status, limit = 50 }) => {
+    const projectKey = await getProjectKey(projectId);
     const allTickets = await db
       .select()
       .from(tickets)
@@ -486,6 +713,7 @@ server.registerTool(
 
     const result = filtered.map((t) => ({
       id: t.id,
+      key: formatTicketKey(projectKey, t.number),
       title: t.title,
       status: t.status,
       priority: t.priority,
@@ -514,28 +742,84 @@ server.registerTool(
     description: "Create a new ticket in a project",
     inputSchema: {
       projectId: z.string().describe("Project ID"),
+      userId: z.string().describe("User ID the ticket is created for (its creator in ticket history)"),
       title: z.string().describe("Ticket title"),
-      description: z.string().optional().describe("Ticket description (supports HTML)"),
+      description: z.string().optional().describe("Ticket description (HTML; scripts, styles and unsafe links are removed)"),
       status: z
-        .enum(TICKET_STATUS)
+        .string()
         .optional()
-        .describe("Initial status (default: backlog)"),
+        .describe("Initial status key (default: the project's first status, see list_statuses)"),
       priority: z
         .enum(["low", "medium", "high", "urgent"])
         .optional()
         .describe("Priority (default: medium)"),
       points: z.number().optional().describe("Story points estimate"),
+      parentId: z
+        .string()
+        .optional()
+        .describe(
+          `Parent ticket ID or key to create this as a sub-task (max ${maxTicketDepth} levels)`
+        ),
     },
     outputSchema: {
       ticket: z.object({
         id: z.string(),
+        key: z.string().nullable(),
         title: z.string(),
         status: z.string(),
         priority: z.string(),
+        parentId: z.string().nullable(),
       }),
     },
   },
-  async ({ projectId, title, description, status = "backlog", priority = "medium", points }) => {
+  async ({
+    projectId,
+    userId,
+    title,
+    description,
+    status: requestedStatus,
+    priority = "medium",
+    points,
+    parentId: parentRef,
+  }) => {
+    const statuses = await ensureProjectStatuses(projectId);
+    const status = requestedStatus ?? statuses[0]?.key;
+
+    if (!status || !statuses.some((s) => s.key === status)) {
+      const errorMessage = invalidStatusMessage(requestedStatus ?? "", statuses);
+      await logAgentAction({
+        projectId,
+        action: "create_ticket",
+        success: false,
+        errorMessage,
+      });
+
+      return {
+        content: [{ type: "text", text: errorMessage }],
+        isError: true,
+      };
+    }
+
+    // Resolve a parent key like MIN-12 to its ID
+    const parentId = parentRef ? ((await findTicketByRef(parentRef))?.id ?? parentRef) : undefined;
+
+    if (parentId) {
+      const errorMessage = await validateParent(projectId, parentId);
+      if (errorMessage) {
+        await logAgentAction({
+          projectId,
+          action: "create_ticket",
+          success: false,
+          errorMessage,
+        });
+
+        return {
+          content: [{ type: "text", text: errorMessage }],
+          isError: true,
+        };
+      }
+    }
+
     // Get max order for this status
     const existingTickets = await db
       .select({ order: tickets.order })
@@ -547,15 +831,21 @@ server.registerTool(
         ? Math.max(...existingTickets.map((t) => t.order ?? 0))
         : 0;
 
+    const projectKey = await getProjectKey(projectId);
+    const number = await assignTicketNumber(projectId);
+
     const [newTicket] = await db
       .insert(tickets)
       .values({
         projectId,
+        number,
+        creatorId: userId,
         title,
-        description: description ?? null,
+        description: description ? sanitizeRichText(description) : null,
         status,
         priority,
         points: points ?? null,
+        parentId: parentId ?? null,
         order: maxOrder + 1000, // Gap-based ordering
       })
       .returning();
@@ -574,12 +864,39 @@ server.registerTool(
       };
     }
 
+    const key = formatTicketKey(projectKey, newTicket.number);
+
+    await recordTicketHistory(
+      newTicket.id,
+      userId,
+      [{ field: "created", oldValue: null, newValue: newTicket.title }],
+      newTicket.version
+    );
+
+    // Creators follow the ticket, as in the app
+    await db
+      .insert(ticketWatchers)
+      .values({ ticketId: newTicket.id, userId })
+      .onConflictDoNothing();
+
+    await indexTicketsForSearch([newTicket.id]).catch((error) =>
+      console.error("Search indexing failed:", error)
+    );
+
+    await publishTicketChange({
+      event: "ticket:created",
+      ticketId: newTicket.id,
+      userId,
+      data: { title: newTicket.title, status: newTicket.status },
+    });
+    await notifyTicketActivity({ type: "created", ticketId: newTicket.id, userId });
+
     await logAgentAction({
       ticketId: newTicket.id,
       projectId,
       action: "create_ticket",
       promptSummary: `Create: ${title}`,
-      responseSummary: `Created ticket ${newTicket.id}`,
+      responseSummary: `Created ticket ${key ?? newTicket.id}`,
       success: true,
     });
 
@@ -587,15 +904,17 @@ server.registerTool(
       content: [
         {
           type: "text",
-          text: `Created ticket "${title}" with ID ${newTicket.id}`,
+          text: `Created ticket ${key ? `${key} ` : ""}"${title}" with ID ${newTicket.id}`,
         },
       ],
       structuredContent: {
         ticket: {
           id: newTicket.id,
+          key,
           title: newTicket.title,
           status: newTicket.status,
           priority: newTicket.priority,
+          parentId: newTicket.parentId,
         },
       },
     };
@@ -609,10 +928,14 @@ server.registerTool(
     title: "Update Ticket",
     description: "Update an existing ticket",
     inputSchema: {
-      ticketId: z.string().describe("Ticket ID"),
+      ticketId: z.string().describe("Ticket ID or key (e.g. MIN-123)"),
+      userId: z.string().describe("User ID the changes are recorded for in ticket history"),
       title: z.string().optional().describe("New title"),
-      description: z.string().optional().describe("New description"),
-      status: z.enum(TICKET_STATUS).optional().describe("New status"),
+      description: z.string().optional().describe("New description (HTML, sanitized like create_ticket)"),
+      status: z
+        .string()
+        .optional()
+        .describe("New status key (see list_statuses; must be an allowed transition from the current status)"),
       priority: z.enum(["low", "medium", "high", "urgent"]).optional().describe("New priority"),
       points: z.number().optional().describe("New points estimate"),
     },
@@ -626,13 +949,13 @@ server.registerTool(
       changes: z.array(z.string()),
     },
   },
-  async ({ ticketId, title, description, status, priority, points }) => {
-    const [existing] = await db.select().from(tickets).where(eq(tickets.id, ticketId)).limit(1);
+  async ({ ticketId: ticketRef, userId, title, description, status, priority, points }) => {
+    const existing = await findTicketByRef(ticketRef);
 
     if (!existing) {
       await logAgentAction({
-        ticketId,
         action: "update_ticket",
+        context: { ticketId: ticketRef },
         success: false,
         errorMessage: "Ticket not found",
       });
@@ -643,6 +966,8 @@ server.registerTool(
       };
     }
 
+    const ticketId = existing.id;
+
     const updates: Partial<typeof existing> = {};
     const changes: string[] = [];
 
@@ -650,11 +975,35 @@ server.registerTool(
       updates.title = title;
       changes.push(`title: "${existing.title}" → "${title}"`);
     }
-    if (description !== undefined && description !== existing.description) {
-      updates.description = description;
+    const cleanDescription = description ? sanitizeRichText(description) : description;
+    if (cleanDescription !== undefined && cleanDescription !== existing.description) {
+      updates.description = cleanDescription || null;
       changes.push("description updated");
     }
     if (status !== undefined && status !== existing.status) {
+      const statuses = await ensureProjectStatuses(existing.projectId);
+      const target = statuses.find((s) => s.key === status);
+      const errorMessage = !target
+        ? invalidStatusMessage(status, statuses)
+        : !isTransitionAllowed(statuses, existing.status, status)
+          ? `Tickets cannot move from ${statuses.find((s) => s.key === existing.status)?.name ?? existing.status} to ${target.name}`
+          : null;
+
+      if (errorMessage) {
+        await logAgentAction({
+          ticketId,
+          projectId: existing.projectId,
+          action: "update_ticket",
+          success: false,
+          errorMessage,
+        });
+
+        return {
+          content: [{ type: "text", text: errorMessage }],
+          isError: true,
+        };
+      }
+
       updates.status = status;
       changes.push(`status: ${existing.status} → ${status}`);
     }
@@ -682,9 +1031,14 @@ server.registerTool(
       };
     }
 
+    const historyChanges = diffTicket(existing, updates);
     const [updated] = await db
       .update(tickets)
-      .set(updates)
+      .set({
+        ...updates,
+        updatedAt: new Date(),
+        ...(historyChanges.length > 0 && { version: sql`${tickets.version} + 1` }),
+      })
       .where(eq(tickets.id, ticketId))
       .returning();
 
@@ -703,6 +1057,30 @@ server.registerTool(
       };
     }
 
+    await recordTicketHistory(ticketId, userId, historyChanges, updated.version);
+
+    if (updates.title !== undefined || updates.description !== undefined) {
+      await indexTicketsForSearch([ticketId]).catch((error) =>
+        console.error("Search indexing failed:", error)
+      );
+    }
+
+    await publishTicketChange({
+      event: "ticket:updated",
+      ticketId,
+      userId,
+      data: { title: updated.title, status: updated.status },
+    });
+    if (updates.status !== undefined) {
+      await notifyTicketActivity({
+        type: "status_changed",
+        ticketId,
+        userId,
+        fromStatus: existing.status,
+        toStatus: updates.status,
+      });
+    }
+
     await logAgentAction({
       ticketId,
       projectId: existing.projectId,
@@ -739,9 +1117,9 @@ server.registerTool(
     title: "Add Comment",
     description: "Add a comment to a ticket. Note: Comments added via MCP require a userId parameter.",
     inputSchema: {
-      ticketId: z.string().describe("Ticket ID"),
+      ticketId: z.string().describe("Ticket ID or key (e.g. MIN-123)"),
       userId: z.string().describe("User ID for the comment author"),
-      content: z.string().describe("Comment content"),
+      content: z.string().describe("Comment content (plain text)"),
     },
     outputSchema: {
       comment: z.object({
@@ -751,8 +1129,8 @@ server.registerTool(
       }),
     },
   },
-  async ({ ticketId, userId, content }) => {
-    const [ticket] = await db.select().from(tickets).where(eq(tickets.id, ticketId)).limit(1);
+  async ({ ticketId: ticketRef, userId, content }) => {
+    const ticket = await findTicketByRef(ticketRef);
 
     if (!ticket) {
       return {
@@ -761,12 +1139,15 @@ server.registerTool(
       };
     }
 
+    const ticketId = ticket.id;
+
     const [comment] = await db
       .insert(comments)
       .values({
         ticketId,
         userId,
         content,
+        format: "text",
       })
       .returning();
 
@@ -785,6 +1166,15 @@ server.registerTool(
       };
     }
 
+    await indexTicketsForSearch([ticketId]).catch((error) =>
+      console.error("Search indexing failed:", error)
+    );
+
+    // Commenters follow the ticket, as in the app
+    await db.insert(ticketWatchers).values({ ticketId, userId }).onConflictDoNothing();
+
+    await notifyTicketActivity({ type: "commented", ticketId, userId, commentId: comment.id });
+
     await logAgentAction({
       ticketId,
       projectId: ticket.projectId,
@@ -807,6 +1197,126 @@ server.registerTool(
   }
 );
 
+// Tool: Watch Ticket
+server.registerTool(
+  "watch_ticket",
+  {
+    title: "Watch Ticket",
+    description:
+      "Follow a ticket so the user is notified of status changes and comments, or stop following it",
+    inputSchema: {
+      ticketId: z.string().describe("Ticket ID or key (e.g. MIN-123)"),
+      userId: z.string().describe("User ID of the watcher"),
+      watch: z.boolean().optional().describe("false to unwatch (default true)"),
+    },
+    outputSchema: {
+      ticketId: z.string(),
+      watching: z.boolean(),
+    },
+  },
+  async ({ ticketId: ticketRef, userId, watch = true }) => {
+    const ticket = await findTicketByRef(ticketRef);
+
+    if (!ticket) {
+      return {
+        content: [{ type: "text", text: "Ticket not found" }],
+        isError: true,
+      };
+    }
+
+    const ticketId = ticket.id;
+
+    if (watch) {
+      await db.insert(ticketWatchers).values({ ticketId, userId }).onConflictDoNothing();
+    } else {
+      await db
+        .delete(ticketWatchers)
+        .where(and(eq(ticketWatchers.ticketId, ticketId), eq(ticketWatchers.userId, userId)));
+    }
+
+    await logAgentAction({
+      ticketId,
+      projectId: ticket.projectId,
+      action: "watch_ticket",
+      responseSummary: `${watch ? "Watched" : "Unwatched"} ticket ${ticketId} for ${userId}`,
+      success: true,
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `${watch ? "Watching" : "Stopped watching"} ticket "${ticket.title}"`,
+        },
+      ],
+      structuredContent: { ticketId, watching: watch },
+    };
+  }
+);
+
+// Tool: List Watched Tickets
+server.registerTool(
+  "list_watched_tickets",
+  {
+    title: "List Watched Tickets",
+    description: "List the tickets a user is watching, most recently updated first",
+    inputSchema: {
+      userId: z.string().describe("User ID of the watcher"),
+      limit: z.number().optional().describe("Max results (default 50)"),
+    },
+    outputSchema: {
+      tickets: z.array(
+        z.object({
+          id: z.string(),
+          key: z.string().nullable(),
+          projectId: z.string(),
+          title: z.string(),
+          status: z.string(),
+          priority: z.string(),
+        })
+      ),
+    },
+  },
+  async ({ userId, limit = 50 }) => {
+    const watched = await db
+      .select({
+        id: tickets.id,
+        projectId: tickets.projectId,
+        number: tickets.number,
+        title: tickets.title,
+        status: tickets.status,
+        priority: tickets.priority,
+        projectKey: projects.key,
+      })
+      .from(ticketWatchers)
+      .innerJoin(tickets, eq(ticketWatchers.ticketId, tickets.id))
+      .innerJoin(projects, eq(tickets.projectId, projects.id))
+      .where(eq(ticketWatchers.userId, userId))
+      .orderBy(desc(tickets.updatedAt))
+      .limit(limit);
+
+    const result = watched.map((t) => ({
+      id: t.id,
+      key: formatTicketKey(t.projectKey, t.number),
+      projectId: t.projectId,
+      title: t.title,
+      status: t.status,
+      priority: t.priority,
+    }));
+
+    await logAgentAction({
+      action: "list_watched_tickets",
+      responseSummary: `Listed ${result.length} watched tickets for ${userId}`,
+      success: true,
+    });
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      structuredContent: { tickets: result },
+    };
+  }
+);
+
 // ==================== RUN SERVER ====================
 
 async function main() {